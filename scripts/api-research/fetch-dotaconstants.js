@@ -4,6 +4,10 @@
  * dotaconstants: https://github.com/odota/dotaconstants
  * - NPM package maintained by OpenDota team
  * - Contains pre-built JSON files with game constants
+ * - Pinned in devDependencies (10.8.0): older releases ship items with
+ *   empty attrib lists, which leaves every item without stats
+ *
+ * Run with: bun scripts/api-research/fetch-dotaconstants.js
  */
 
 const fs = require('fs');
@@ -18,8 +22,9 @@ if (!fs.existsSync(OUTPUT_DIR)) {
 }
 
 try {
-  // Load items from dotaconstants package
-  const items = require('dotaconstants/build/items.json');
+  // Load items from dotaconstants package (it only exports its index)
+  const dotaconstants = require('dotaconstants');
+  const items = dotaconstants.items;
   const itemCount = Object.keys(items).length;
   
   fs.writeFileSync(OUTPUT_FILE, JSON.stringify(items, null, 2));
@@ -31,7 +36,7 @@ try {
   
   // Also save item abilities if available
   try {
-    const itemAbilities = require('dotaconstants/build/item_ids.json');
+    const itemAbilities = dotaconstants.item_ids;
     const idsFile = path.join(OUTPUT_DIR, 'dotaconstants-item-ids.json');
     fs.writeFileSync(idsFile, JSON.stringify(itemAbilities, null, 2));
     console.log(`\nAlso saved item IDs to ${idsFile}`);
@@ -41,5 +46,5 @@ try {
   
 } catch (err) {
   console.error('Failed to load dotaconstants:', err.message);
-  console.log('\nMake sure to run: npm install dotaconstants');
+  console.log('\nMake sure to run: bun install (dotaconstants is a devDependency)');
 }
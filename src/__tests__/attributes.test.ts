@@ -0,0 +1,110 @@
+import { describe, it, expect } from "bun:test";
+import {
+  UNIVERSAL_DAMAGE_PER_POINT,
+  calculateHeroStatValuation,
+  expandAttributes,
+  heroAttackDamage,
+  heroAttributesAtLevel,
+} from "../calculators/attributes";
+import { HEROES, findHero, parseHero, resolveHero } from "../data/heroes";
+import { createContextFromItems } from "../cli/context";
+import { StatValuation } from "../models/types";
+import { getAllTestItems } from "./fixtures";
+
+const valuation: StatValuation = {
+  strength: 50,
+  agility: 50,
+  intelligence: 50,
+  health: 4,
+  healthRegen: 100,
+  armor: 90,
+  attackSpeed: 40,
+  mana: 2,
+  manaRegen: 200,
+  magicResistance: 20,
+  damage: 50,
+};
+
+describe("expandAttributes", () => {
+  it("replaces attributes with the stats they grant", () => {
+    expect(expandAttributes({ strength: 10, armor: 2 })).toEqual({ health: 220, healthRegen: 1, armor: 2 });
+  });
+
+  it("adds damage for the primary attribute only", () => {
+    expect(expandAttributes({ agility: 6 }, "agility")).toEqual({ armor: 1, attackSpeed: 6, damage: 6 });
+    expect(expandAttributes({ agility: 6 }, "strength").damage).toBeUndefined();
+  });
+
+  it("gives universal heroes damage from every attribute", () => {
+    const expanded = expandAttributes({ strength: 10, intelligence: 10, damage: 5 }, "universal");
+    expect(expanded.damage).toBeCloseTo(5 + 20 * UNIVERSAL_DAMAGE_PER_POINT);
+  });
+});
+
+describe("calculateHeroStatValuation", () => {
+  it("values attributes by their derived stats", () => {
+    const heroValuation = calculateHeroStatValuation(valuation, "strength");
+
+    // 22 health * 4 + 0.1 regen * 100 + 1 damage * 50
+    expect(heroValuation.strength).toBeCloseTo(148);
+    // 1/6 armor * 90 + 1 attack speed * 40
+    expect(heroValuation.agility).toBeCloseTo(55);
+    // 12 mana * 2 + 0.05 regen * 200 + 0.1 magic res * 20
+    expect(heroValuation.intelligence).toBeCloseTo(36);
+    expect(heroValuation.damage).toBe(50);
+  });
+
+  it("keeps item baselines when derived stats have no value", () => {
+    expect(calculateHeroStatValuation({ strength: 50 }, "strength").strength).toBe(50);
+  });
+});
+
+describe("hero levels", () => {
+  const gyro = findHero("gyrocopter")!;
+
+  it("adds attribute gains per level", () => {
+    const level10 = heroAttributesAtLevel(gyro, 10);
+    expect(level10.agility).toBeCloseTo(gyro.baseAttributes.agility + 9 * gyro.attributeGains.agility);
+    expect(heroAttributesAtLevel(gyro).strength).toBe(gyro.baseAttributes.strength);
+  });
+
+  it("includes primary attribute damage in attack damage", () => {
+    expect(heroAttackDamage(gyro)).toBe(gyro.baseDamage + gyro.baseAttributes.agility);
+  });
+});
+
+describe("heroes", () => {
+  it("finds heroes by internal or display name", () => {
+    expect(findHero("Anti-Mage")?.name).toBe("antimage");
+    expect(findHero("npc_dota_hero_axe")?.name).toBe("axe");
+    expect(findHero("invoker")).toBeUndefined();
+  });
+
+  it("has valid built-in heroes", () => {
+    for (const hero of HEROES) {
+      expect(parseHero(hero)).toEqual(hero);
+    }
+  });
+
+  it("rejects invalid hero definitions", () => {
+    const axe = findHero("axe")!;
+    expect(() => parseHero({ ...axe, primaryAttribute: "str" })).toThrow(/primaryAttribute/);
+    expect(() => parseHero({ ...axe, attributeGains: { strength: 2.8 } })).toThrow(/attributeGains.agility/);
+  });
+
+  it("lists known heroes for unknown names", async () => {
+    await expect(resolveHero("not_a_hero")).rejects.toThrow(/Known heroes: gyrocopter/);
+  });
+});
+
+describe("context with a hero", () => {
+  it("values attributes and base damage for the hero", () => {
+    const items = getAllTestItems();
+    const plain = createContextFromItems(items);
+    const ctx = createContextFromItems(items, { hero: "axe" });
+
+    expect(ctx.hero?.name).toBe("axe");
+    expect(ctx.statValuation.strength).not.toBe(plain.statValuation.strength);
+    expect(ctx.config.thresholds.heroBaseDamage).toBe(heroAttackDamage(ctx.hero!));
+  });
+});
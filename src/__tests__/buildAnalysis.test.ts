@@ -20,6 +20,8 @@ import {
   EARLY_GAME_MAX_COST,
 } from "./fixtures";
 import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { calculateItemsStatValue, loadoutValueOptions } from "../calculators/loadout";
+import { StatValuation } from "../models/types";
 
 describe("buildAnalysis", () => {
   const items = getAllTestItems();
@@ -119,6 +121,29 @@ describe("buildAnalysis", () => {
       }
     });
 
+    it("values loadouts with the config's bonus settings", () => {
+      const vladmirLike = { ...goodRecoveryItem, name: "vladmir_like", auraPercentStats: { baseDamage: 20 } };
+      const pool = [...items, vladmirLike];
+      const config = { ...DEFAULT_CONFIG, thresholds: { ...DEFAULT_CONFIG.thresholds, heroBaseDamage: 100 } };
+      const statValuation = { strength: 50, damage: 40 } as StatValuation;
+
+      const result = analyzeValidTransitions(pool, config, {
+        earlyItemCount: 1,
+        finalItemCount: 1,
+        resultLimit: 100,
+        statValuation,
+        constraint: () => true,
+      });
+
+      const withBonus = result.transitions.filter((t) => t.to.items.includes(vladmirLike));
+      expect(withBonus.length).toBeGreaterThan(0);
+      for (const t of withBonus) {
+        expect(t.to.totalStatValue).toBeCloseTo(
+          calculateItemsStatValue(t.to.inventory, statValuation, loadoutValueOptions(config))
+        );
+      }
+    });
+
     it("calculates stats correctly", () => {
       const result = analyzeValidTransitions(items, DEFAULT_CONFIG, {
         earlyItemCount: 2,
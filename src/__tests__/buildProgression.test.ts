@@ -1,6 +1,6 @@
 import { describe, it, expect } from "bun:test";
 import { ItemRepository } from "../data/ItemRepository";
-import { createLoadout } from "../calculators/loadout";
+import { createLoadout, calculateItemsStatValue } from "../calculators/loadout";
 import {
   getAllTestItems,
   perfectRecoveryItem,
@@ -21,8 +21,13 @@ import {
   stagesForIncrementalTargets,
   formatProgression,
   formatProgressionStats,
+  resolveStageValuation,
+  stageHeroLevel,
   _testing,
 } from "../calculators/buildProgression";
+import { calculateLevelStatValuation } from "../calculators/levelValuation";
+import { heroAttackDamage } from "../calculators/attributes";
+import { findHero } from "../data/heroes";
 
 // ─────────────────────────────────────────────────────────────
 // Test Setup
@@ -657,6 +662,83 @@ describe("Build Progression", () => {
         }
       });
     });
+
+    describe("with neutral items", () => {
+      const weakNeutral = {
+        ...perfectRecoveryItem,
+        id: "weak_neutral",
+        name: "weak_neutral",
+        displayName: "Weak Neutral",
+        cost: 0,
+        stats: { strength: 1 },
+        components: [],
+        isComponent: true,
+        neutralTier: 1,
+      };
+      const strongNeutral = { ...weakNeutral, id: "strong_neutral", name: "strong_neutral", stats: { strength: 4 } };
+
+      it("fills the neutral slot for stages with a neutral tier", () => {
+        const result = analyzeProgression([...items, weakNeutral, strongNeutral], DEFAULT_CONFIG, {
+          stages: [{ maxCost: 500 }, { maxCost: 3500, neutralTier: 1 }],
+          resultLimit: 5,
+          statValuation,
+          minTotalRecovery: 0.1,
+        });
+
+        expect(result.sequences.length).toBeGreaterThan(0);
+        for (const seq of result.sequences) {
+          const [early, late] = seq.stages.map((s) => s.loadout);
+          expect(early.neutral).toBeUndefined();
+          expect(late.neutral?.name).toBe("strong_neutral");
+          // Never bought as a regular item
+          expect(late.items.some((i) => i.neutralTier !== undefined)).toBe(false);
+        }
+      });
+    });
+
+    describe("with hero levels", () => {
+      it("values each stage's loadout at that stage's level", () => {
+        const result = analyzeProgression(items, DEFAULT_CONFIG, {
+          stages: [{ maxCost: 500, heroLevel: 1 }, { maxCost: 3500, heroLevel: 25 }],
+          resultLimit: 5,
+          statValuation,
+          minTotalRecovery: 0.1,
+        });
+
+        expect(result.sequences.length).toBeGreaterThan(0);
+        const [early, late] = result.sequences[0].stages.map((s) => s.loadout);
+        const earlyValuation = calculateLevelStatValuation(statValuation, 1);
+        const lateValuation = calculateLevelStatValuation(statValuation, 25);
+        // Only inventory items give stats
+        const revalue = (loadout: typeof early, valuation: typeof statValuation) =>
+          calculateItemsStatValue(loadout.inventory, valuation);
+
+        expect(early.totalStatValue).toBeCloseTo(revalue(early, earlyValuation));
+        expect(late.totalStatValue).toBeCloseTo(revalue(late, lateValuation));
+        expect(late.totalStatValue).not.toBeCloseTo(revalue(late, statValuation));
+      });
+
+      it("derives stage levels from cost only with level scaling", () => {
+        expect(stageHeroLevel({ maxCost: 5000 })).toBeUndefined();
+        expect(stageHeroLevel({ maxCost: 5000 }, true)).toBe(11);
+        expect(stageHeroLevel({ maxCost: 5000, heroLevel: 20 }, true)).toBe(20);
+      });
+
+      it("uses the hero's damage at the stage level for percentage bonuses", () => {
+        const hero = findHero("sven")!;
+        const stage = resolveStageValuation({ maxCost: 10000 }, statValuation, DEFAULT_CONFIG, {
+          hero,
+          levelScaling: true,
+        });
+
+        expect(stage.heroLevel).toBe(17);
+        expect(stage.config.thresholds.heroBaseDamage).toBe(heroAttackDamage(hero, 17));
+        expect(resolveStageValuation({ maxCost: 10000 }, statValuation, DEFAULT_CONFIG, { hero })).toEqual({
+          statValuation,
+          config: DEFAULT_CONFIG,
+        });
+      });
+    });
   });
 
   // ─────────────────────────────────────────────────────────────
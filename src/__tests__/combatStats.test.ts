@@ -0,0 +1,160 @@
+import { describe, it, expect } from "bun:test";
+import {
+  calculateCombatStats,
+  calculateStageCombatStats,
+  physicalDamageMultiplier,
+} from "../calculators/combatStats";
+import {
+  combatMetricScore,
+  isCombatMetric,
+  loadoutDpsScore,
+  loadoutPhysicalEhpScore,
+} from "../calculators/stageScorers";
+import { analyzeProgression, formatProgression } from "../calculators/buildProgression";
+import { createLoadout } from "../calculators/loadout";
+import { calculateStatValuation } from "../calculators/statValuation";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { ItemRepository } from "../data/ItemRepository";
+import { BuildStage } from "../models/buildTypes";
+import { Hero, Item } from "../models/types";
+import { getAllTestItems, item } from "./fixtures";
+
+// Round numbers: 560 health, 5 armor, 60 damage, 0.5 attacks per second at level 1
+const hero: Hero = {
+  name: "test_hero",
+  displayName: "Test Hero",
+  primaryAttribute: "strength",
+  baseAttributes: { strength: 20, agility: 0, intelligence: 0 },
+  attributeGains: { strength: 2, agility: 0, intelligence: 0 },
+  baseDamage: 40,
+  baseArmor: 5,
+  baseAttackTime: 2,
+  attackRange: 150,
+  moveSpeed: 300,
+};
+
+const plate = item("platemail", 1400, { armor: 10 });
+const claymore = item("claymore", 1350, { damage: 20 });
+const hyperstone = item("hyperstone", 2000, { attackSpeed: 100 });
+const cloak = item("cloak", 800, { magicResistance: 15 });
+const belt = item("belt_of_strength", 450, { strength: 10 });
+
+describe("physicalDamageMultiplier", () => {
+  it("reduces damage with armor and increases it below zero", () => {
+    expect(physicalDamageMultiplier(0)).toBe(1);
+    expect(physicalDamageMultiplier(5)).toBeCloseTo(1 - 0.3 / 1.3, 6);
+    expect(physicalDamageMultiplier(-5)).toBeCloseTo(1 + 0.3 / 1.3, 6);
+  });
+});
+
+describe("calculateCombatStats", () => {
+  it("computes a hero's base EHP and DPS", () => {
+    const stats = calculateCombatStats(hero, []);
+
+    expect(stats.health).toBe(560);
+    expect(stats.armor).toBe(5);
+    expect(stats.physicalEhp).toBeCloseTo(560 / (1 - 0.3 / 1.3), 6);
+    expect(stats.magicalEhp).toBeCloseTo(560 / 0.75, 6);
+    expect(stats.attackDamage).toBe(60);
+    expect(stats.dps).toBeCloseTo(30, 6);
+  });
+
+  it("adds item armor, damage and attack speed", () => {
+    const stats = calculateCombatStats(hero, [plate, claymore, hyperstone]);
+
+    expect(stats.physicalEhp).toBeCloseTo(560 / (1 - 0.9 / 1.9), 6);
+    expect(stats.attackSpeed).toBe(200);
+    expect(stats.dps).toBeCloseTo(80, 6);
+  });
+
+  it("stacks magic resistance with the hero's base", () => {
+    const stats = calculateCombatStats(hero, [cloak]);
+
+    expect(stats.magicResistance).toBeCloseTo(36.25, 6);
+    expect(stats.magicalEhp).toBeCloseTo(560 / 0.6375, 6);
+  });
+
+  it("gives item attributes their health and primary damage", () => {
+    const stats = calculateCombatStats(hero, [belt]);
+
+    expect(stats.health).toBe(780);
+    expect(stats.attackDamage).toBe(70);
+  });
+
+  it("uses the hero's attributes at the given level", () => {
+    const stats = calculateCombatStats(hero, [], { level: 2 });
+
+    expect(stats.health).toBe(604);
+    expect(stats.attackDamage).toBe(62);
+  });
+
+  it("applies percentage base damage and target armor", () => {
+    const offering = item("vladmir", 2200, {}, [], { percentStats: { baseDamage: 50 } });
+
+    expect(calculateCombatStats(hero, [offering]).attackDamage).toBe(90);
+    expect(calculateCombatStats(hero, [], { targetArmor: 5 }).dps).toBeCloseTo(30 * (1 - 0.3 / 1.3), 6);
+  });
+
+  it("caps attack speed", () => {
+    const stats = calculateCombatStats(hero, [item("speed", 10000, { attackSpeed: 1000 })]);
+
+    expect(stats.attackSpeed).toBe(700);
+  });
+});
+
+describe("combat stat scorers", () => {
+  const repo = new ItemRepository([plate, claymore, hyperstone]);
+  const stage = (items: Item[], costThreshold = 4000): BuildStage => ({
+    loadout: createLoadout(items, repo),
+    stageIndex: 0,
+    costThreshold,
+    transition: null,
+  });
+
+  it("uses the level expected for the stage cost by default", () => {
+    const at500 = calculateStageCombatStats(hero, stage([], 500));
+    const at10000 = calculateStageCombatStats(hero, stage([], 10000));
+
+    expect(at10000.level).toBeGreaterThan(at500.level);
+    expect(calculateStageCombatStats(hero, stage([]), { level: 1 }).health).toBe(560);
+  });
+
+  it("ranks loadouts by EHP and DPS", () => {
+    const armored = stage([plate]);
+    const offensive = stage([claymore, hyperstone]);
+    const ehp = loadoutPhysicalEhpScore(hero);
+    const dps = loadoutDpsScore(hero);
+
+    expect(ehp(armored, null)).toBeGreaterThan(ehp(offensive, null));
+    expect(dps(offensive, null)).toBeGreaterThan(dps(armored, null));
+    expect(ehp(armored, null)).toBeLessThanOrEqual(1);
+  });
+
+  it("builds a scorer for a named metric", () => {
+    expect(isCombatMetric("magic-ehp")).toBe(true);
+    expect(isCombatMetric("hp")).toBe(false);
+
+    const scorer = combatMetricScore("ehp", hero, { level: 1 });
+    expect(scorer(stage([]), null)).toBeCloseTo(560 / (1 - 0.3 / 1.3) / 30000, 6);
+  });
+});
+
+describe("formatProgression with a hero", () => {
+  const items = getAllTestItems();
+
+  it("shows EHP and DPS columns per stage", () => {
+    const result = analyzeProgression(items, DEFAULT_CONFIG, {
+      stages: [{ maxCost: 500 }, { maxCost: 1000 }],
+      defaultItemCount: 2,
+      resultLimit: 1,
+      statValuation: calculateStatValuation(items),
+    });
+    expect(result.sequences.length).toBeGreaterThan(0);
+
+    const formatted = formatProgression(result, false, { hero, levels: [3, undefined] });
+
+    expect(formatted).toMatch(/Stage 1 .*\[L3: \d+ EHP, \d+ magic EHP, \d+ DPS\]/);
+    expect(formatted).toMatch(/Stage 2 .*\[L\d+: \d+ EHP/);
+    expect(formatProgression(result)).not.toContain("EHP");
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CONFIG_FILE_NAME,
+  findConfigFile,
+  loadConfigFile,
+  parseConfigFile,
+  resolveConfigFile,
+} from "../config/configFile";
+import { DEFAULT_CONFIG, STANDARD_ECONOMY } from "../config/analysisConfig";
+import { resolveAnalysisConfig } from "../cli/context";
+
+describe("parseConfigFile", () => {
+  it("accepts partial thresholds, weights and item lists", () => {
+    const { config } = parseConfigFile({
+      thresholds: { auraMultiplier: 2.5 },
+      trioSynergyWeights: { threeWayBonus: 0.3 },
+      bootItems: ["boots"],
+    });
+
+    expect(config).toEqual({
+      thresholds: { auraMultiplier: 2.5 },
+      trioSynergyWeights: { threeWayBonus: 0.3 },
+      bootItems: ["boots"],
+    });
+  });
+
+  it("keeps inline utility profiles and returns profile paths separately", () => {
+    expect(parseConfigFile({ utilityProfile: { itemOverrides: { blink: 900 } } }).config.utilityProfile).toEqual({
+      itemOverrides: { blink: 900 },
+    });
+    expect(parseConfigFile({ utilityProfile: "utility.yaml" })).toEqual({
+      config: {},
+      utilityProfilePath: "utility.yaml",
+    });
+  });
+
+  it("rejects unknown fields with the expected names", () => {
+    expect(() => parseConfigFile({ aura: 2 })).toThrow(/Unknown config field "aura"/);
+    expect(() => parseConfigFile({ thresholds: { aura: 2 } })).toThrow(/expected one of minGoldRecovery/);
+  });
+
+  it("rejects invalid values", () => {
+    expect(() => parseConfigFile([])).toThrow(/must be a JSON object/);
+    expect(() => parseConfigFile({ thresholds: { heroBaseDamage: "50" } })).toThrow(/thresholds.heroBaseDamage/);
+    expect(() => parseConfigFile({ thresholds: { minGoldRecovery: 65 } })).toThrow(/between 0 and 1/);
+    expect(() => parseConfigFile({ excludedItems: "rapier" })).toThrow(/excludedItems must be an array/);
+    expect(() => parseConfigFile({ utilityProfile: { categoryValues: { fly: 1 } } })).toThrow(/^utilityProfile: /);
+  });
+
+  it("accepts an economy preset, or fields over one", () => {
+    expect(parseConfigFile({ economy: "standard" }).config.economy).toEqual(STANDARD_ECONOMY);
+    expect(parseConfigFile({ economy: { itemSellRate: 0.4 } }).config.economy).toEqual({ itemSellRate: 0.4 });
+    expect(
+      parseConfigFile({ economy: { preset: "standard", nonDisassemblableItems: ["black_king_bar"] } }).config.economy
+    ).toEqual({ ...STANDARD_ECONOMY, nonDisassemblableItems: ["black_king_bar"] });
+    expect(parseConfigFile({ economy: { disassemblableItems: ["vanguard"] } }).config.economy).toEqual({
+      disassemblableItems: ["vanguard"],
+    });
+
+    expect(() => parseConfigFile({ economy: "meepo" })).toThrow(/Unknown economy preset "meepo"/);
+    expect(() => parseConfigFile({ economy: { recipeRecoveryRate: 2 } })).toThrow(/economy.recipeRecoveryRate must be between 0 and 1/);
+    expect(() => parseConfigFile({ economy: { allowDisassembly: "no" } })).toThrow(/economy.allowDisassembly must be true or false/);
+    expect(() => parseConfigFile({ economy: { refundWindow: 10 } })).toThrow(/economy.refundWindow must be true or false/);
+    expect(() => parseConfigFile({ economy: { refund: 1 } })).toThrow(/Unknown economy field "refund"/);
+  });
+});
+
+describe("config file loading", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves utility profile paths relative to the config file", async () => {
+    await writeFile(join(dir, "utility.json"), JSON.stringify({ itemOverrides: { blink: 900 } }));
+    const path = join(dir, CONFIG_FILE_NAME);
+    await writeFile(path, JSON.stringify({ utilityProfile: "utility.json" }));
+
+    expect((await loadConfigFile(path)).utilityProfile).toEqual({ itemOverrides: { blink: 900 } });
+  });
+
+  it("names the file in validation errors", async () => {
+    const path = join(dir, "bad.json");
+    await writeFile(path, JSON.stringify({ thresholds: { auraMultiplier: -1 } }));
+
+    await expect(loadConfigFile(path)).rejects.toThrow(`${path}: thresholds.auraMultiplier`);
+  });
+
+  it("finds the first directory with a config file", async () => {
+    const cwd = join(dir, "project");
+    const home = join(dir, "home");
+    await mkdir(cwd);
+    await mkdir(home);
+
+    expect(await findConfigFile([cwd, home])).toBeUndefined();
+
+    await writeFile(join(home, CONFIG_FILE_NAME), "{}");
+    expect(await findConfigFile([cwd, home])).toBe(join(home, CONFIG_FILE_NAME));
+
+    await writeFile(join(cwd, CONFIG_FILE_NAME), "{}");
+    expect(await findConfigFile([cwd, home])).toBe(join(cwd, CONFIG_FILE_NAME));
+  });
+
+  it("requires an explicitly given config file to exist", async () => {
+    expect(await resolveConfigFile(undefined, [dir])).toBeUndefined();
+    await expect(resolveConfigFile(join(dir, "missing.json"), [dir])).rejects.toThrow(/Failed to read config/);
+  });
+});
+
+describe("resolveAnalysisConfig", () => {
+  it("applies flags over config file values over defaults", async () => {
+    const fileConfig = { thresholds: { auraMultiplier: 2.5, heroBaseDamage: 60 } };
+
+    const fromFile = await resolveAnalysisConfig({ config: fileConfig });
+    expect(fromFile.thresholds.auraMultiplier).toBe(2.5);
+    expect(fromFile.thresholds.heroBaseDamage).toBe(60);
+    expect(fromFile.thresholds.minGoldRecovery).toBe(DEFAULT_CONFIG.thresholds.minGoldRecovery);
+
+    const withFlag = await resolveAnalysisConfig({ config: fileConfig, auraMultiplier: 5 });
+    expect(withFlag.thresholds.auraMultiplier).toBe(5);
+    expect(withFlag.thresholds.heroBaseDamage).toBe(60);
+
+    const economy = await resolveAnalysisConfig({ config: { economy: { itemSellRate: 0.4 } }, economy: "standard" });
+    expect(economy.economy).toEqual(STANDARD_ECONOMY);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "bun:test";
+import { OpenDotaItem, isRecognizedAttribKey, parseOpenDotaItems } from "../data/fetchItems";
+import {
+  auditItemData,
+  findEmptyStatItems,
+  findUnmappedAttributes,
+  findValueOutliers,
+} from "../calculators/dataAudit";
+import { runDataAudit } from "../cli/commands/dataAudit";
+import { mergeConfig } from "../config/analysisConfig";
+import { ItemDataSource } from "../data/itemDataSource";
+import { strengthComponent, agilityComponent, perfectRecoveryItem } from "./fixtures";
+
+const raw: Record<string, OpenDotaItem> = {
+  gauntlets: { id: 13, dname: "Gauntlets of Strength", cost: 140, attrib: [{ key: "bonus_strength", value: "3" }] },
+  blink: {
+    id: 1,
+    dname: "Blink Dagger",
+    cost: 2250,
+    attrib: [
+      { key: "blink_range", value: "1200" },
+      { key: "blink_damage_cooldown", value: "3.0" },
+    ],
+  },
+  vanguard: {
+    id: 125,
+    dname: "Vanguard",
+    cost: 1700,
+    attrib: [
+      { key: "bonus_health", value: "250" },
+      { key: "block_chance", value: "60" },
+    ],
+    components: ["ring_of_health", "vitality_booster"],
+  },
+  // Recipes aren't parsed into items, so their keys aren't audited
+  recipe_vanguard: { id: 124, cost: 0, attrib: [{ key: "recipe_only_key", value: "1" }] },
+};
+
+describe("isRecognizedAttribKey", () => {
+  it("recognizes mapped and deliberately skipped keys", () => {
+    expect(isRecognizedAttribKey("bonus_strength")).toBe(true);
+    expect(isRecognizedAttribKey("bonus_all_stats")).toBe(true);
+    expect(isRecognizedAttribKey("aura_negative_armor")).toBe(true);
+    expect(isRecognizedAttribKey("damage_aura")).toBe(true);
+  });
+
+  it("does not recognize new or prototype keys", () => {
+    expect(isRecognizedAttribKey("block_chance")).toBe(false);
+    expect(isRecognizedAttribKey("constructor")).toBe(false);
+  });
+});
+
+describe("findUnmappedAttributes", () => {
+  it("lists unrecognized keys with the items and values using them", () => {
+    const unmapped = findUnmappedAttributes(raw, parseOpenDotaItems(raw));
+
+    expect(unmapped.map((a) => a.key)).toEqual(["blink_damage_cooldown", "blink_range", "block_chance"]);
+    expect(unmapped.find((a) => a.key === "block_chance")!.items).toEqual([
+      { name: "vanguard", displayName: "Vanguard", value: "60" },
+    ]);
+  });
+});
+
+describe("findEmptyStatItems", () => {
+  it("flags priced items that lost all their stats", () => {
+    const empty = findEmptyStatItems(parseOpenDotaItems(raw));
+    expect(empty.map((e) => e.item.name)).toEqual(["blink"]);
+  });
+});
+
+describe("findValueOutliers", () => {
+  it("flags items whose stat value is far from their cost", () => {
+    const overpriced = { ...perfectRecoveryItem, name: "overpriced", cost: 2000 };
+    const items = [strengthComponent, agilityComponent, perfectRecoveryItem, overpriced];
+
+    const outliers = findValueOutliers(items);
+    expect(outliers.map((o) => o.item.name)).toEqual(["overpriced"]);
+    expect(outliers[0].ratio).toBeCloseTo(0.1);
+  });
+
+  it("respects custom thresholds", () => {
+    const items = [strengthComponent, agilityComponent, perfectRecoveryItem];
+    expect(findValueOutliers(items, { maxRatio: 0.5 })).toHaveLength(3);
+  });
+
+  it("uses the given stat valuation", () => {
+    const items = [strengthComponent, agilityComponent, perfectRecoveryItem];
+    // 150g per point puts every item at 3x its cost
+    const outliers = findValueOutliers(items, { statValuation: { strength: 150, agility: 150 } });
+    expect(outliers.map((o) => o.ratio)).toEqual([3, 3, 3]);
+  });
+});
+
+describe("auditItemData", () => {
+  it("skips the attribute audit without raw data", () => {
+    const result = auditItemData(parseOpenDotaItems(raw));
+    expect(result.unmappedAttributes).toBeUndefined();
+    expect(result.emptyStatItems).toHaveLength(1);
+  });
+});
+
+describe("runDataAudit", () => {
+  const dataSource: ItemDataSource = {
+    kind: "opendota",
+    description: "test payload",
+    load: async () => parseOpenDotaItems(raw),
+    loadRaw: async () => raw,
+  };
+
+  it("leaves out the config's excluded items", async () => {
+    const { result } = await runDataAudit(dataSource, { config: mergeConfig({ excludedItems: ["blink"] }) });
+
+    expect(result.emptyStatItems).toEqual([]);
+    expect(result.unmappedAttributes!.map((a) => a.key)).toEqual(["block_chance"]);
+  });
+});
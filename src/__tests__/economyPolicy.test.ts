@@ -0,0 +1,306 @@
+import { describe, it, expect } from "bun:test";
+import {
+  analyzeComponentFlow,
+  canDisassemble,
+  containsItem,
+  createLoadout,
+  createTransition,
+  disassembleLoadout,
+  planAssemblyFromPool,
+  recipeRefund,
+  sellValue,
+} from "../calculators/loadout";
+import { planShoppingList } from "../calculators/shoppingList";
+import { analyzeValidTransitions, validateTransition } from "../calculators/buildAnalysis";
+import { analyzeProgression, formatProgression } from "../calculators/buildProgression";
+import { calculateStatValuation } from "../calculators/statValuation";
+import {
+  DEFAULT_CONFIG,
+  EconomyPolicy,
+  GYROCOPTER_ECONOMY,
+  STANDARD_ECONOMY,
+  mergeConfig,
+  selectEconomyPreset,
+} from "../config/analysisConfig";
+import { ItemRepository } from "../data/ItemRepository";
+import { BuildProgressionResult } from "../models/buildTypes";
+import { getAllTestItems, item } from "./fixtures";
+
+const ring = item("ring", 175, { armor: 2 });
+const hat = item("hat", 250, { health: 125 });
+const booster = item("booster", 800, { mana: 250 });
+const crown = item("crown", 450, { strength: 4 });
+const branch = item("branch", 50, { strength: 1 });
+// Recipes: pavise 175, crest 675, aegis 350 on top of pavise
+const pavise = item("pavise", 1400, { armor: 5, health: 175, mana: 250 }, ["ring", "hat", "booster"]);
+const crest = item("crest", 1300, { armor: 7, strength: 6 }, ["ring", "crown"]);
+const aegis = item("aegis", 2200, { armor: 8, health: 250, mana: 250, strength: 5 }, ["pavise", "crown"]);
+
+const repo = new ItemRepository([ring, hat, booster, crown, branch, pavise, crest, aegis]);
+
+// Standard heroes can only disassemble a few items; let them break down pavise
+const standard: EconomyPolicy = { ...STANDARD_ECONOMY, disassemblableItems: ["pavise"] };
+const lockedPavise: EconomyPolicy = { ...STANDARD_ECONOMY, nonDisassemblableItems: ["pavise"] };
+
+describe("economy presets", () => {
+  it("defaults to Gyrocopter's full recipe refund", () => {
+    expect(DEFAULT_CONFIG.economy).toEqual(GYROCOPTER_ECONOMY);
+    expect(selectEconomyPreset("Standard")).toBe(STANDARD_ECONOMY);
+    expect(() => selectEconomyPreset("meepo")).toThrow('Unknown economy preset "meepo" (expected one of gyrocopter, standard)');
+    expect(mergeConfig({ economy: { recipeRecoveryRate: 0.5 } }).economy).toEqual({
+      ...GYROCOPTER_ECONOMY,
+      recipeRecoveryRate: 0.5,
+    });
+  });
+
+  it("prices selling and disassembly", () => {
+    const recipe = item("recipe_pavise", 175, {});
+    expect(sellValue(booster)).toBe(400);
+    expect(sellValue(recipe)).toBe(175);
+    expect(sellValue(recipe, STANDARD_ECONOMY)).toBe(87);
+    expect(recipeRefund(675, STANDARD_ECONOMY)).toBe(337);
+
+    expect(canDisassemble(pavise)).toBe(true);
+    expect(canDisassemble(ring)).toBe(false);
+    expect(canDisassemble(pavise, lockedPavise)).toBe(false);
+    expect(canDisassemble(crest, { ...GYROCOPTER_ECONOMY, allowDisassembly: false })).toBe(false);
+  });
+
+  it("recovers sold items at the sell rate", () => {
+    const economy = { ...STANDARD_ECONOMY, itemSellRate: 0.25 };
+    const loadout = createLoadout([hat, ring, booster], repo, undefined, { inventorySlots: 1, backpackSlots: 0, economy });
+
+    expect(loadout.sold.map((i) => i.name)).toEqual(["hat", "ring"]);
+    expect(loadout.soldRecovery).toBe(62 + 43);
+    expect(loadout.totalInvestedCost).toBe(1225 - 105);
+  });
+});
+
+describe("disassembly under an economy", () => {
+  it("only disassembles the standard allowlist for other heroes", () => {
+    const vanguard = { ...pavise, name: "vanguard" };
+
+    expect(canDisassemble(pavise, STANDARD_ECONOMY)).toBe(false);
+    expect(canDisassemble(vanguard, STANDARD_ECONOMY)).toBe(true);
+    expect(canDisassemble(pavise, GYROCOPTER_ECONOMY)).toBe(true);
+    expect(canDisassemble({ ...pavise, name: "hand_of_midas" }, GYROCOPTER_ECONOMY)).toBe(false);
+  });
+});
+
+describe("component flow under an economy", () => {
+  it("refunds disassembled recipes at the recovery rate", () => {
+    const from = createLoadout([pavise], repo);
+    const to = createLoadout([crest, hat, booster], repo);
+
+    expect(analyzeComponentFlow(from, to, repo).totalGoldNeeded).toBe(450 + 675 - 175);
+    const flow = analyzeComponentFlow(from, to, repo, standard);
+    expect(flow.recoveredRecipeCost).toBe(87);
+    expect(flow.totalGoldNeeded).toBe(450 + 675 - 87);
+  });
+
+  it("keeps the recipe of an item carried over whole", () => {
+    const flow = analyzeComponentFlow(createLoadout([pavise], repo), createLoadout([pavise, branch], repo), repo, STANDARD_ECONOMY);
+
+    expect(flow.netRecipeCost).toBe(0);
+    expect(flow.totalGoldNeeded).toBe(50);
+  });
+
+  it("wastes the components of an item that can't be disassembled, unless it's built on", () => {
+    const from = createLoadout([pavise], repo);
+
+    const sold = analyzeComponentFlow(from, createLoadout([crest], repo), repo, lockedPavise);
+    expect([...sold.wasted].sort()).toEqual(["booster", "hat", "ring"]);
+    expect([...sold.acquired].sort()).toEqual(["crown", "ring"]);
+    expect(sold.totalGoldNeeded).toBe(625 + 675);
+
+    const upgraded = analyzeComponentFlow(from, createLoadout([aegis], repo), repo, lockedPavise);
+    expect(upgraded.wasted).toEqual([]);
+    expect(upgraded.netRecipeCost).toBe(350);
+    expect(upgraded.totalGoldNeeded).toBe(450 + 350);
+  });
+});
+
+describe("component pools under an economy", () => {
+  it("holds items that can't be disassembled whole", () => {
+    const pool = disassembleLoadout(createLoadout([pavise, crown], repo), repo, lockedPavise);
+
+    expect([...pool.components].sort()).toEqual(["crown", "pavise"]);
+    expect(pool.intactItems).toEqual(["pavise"]);
+    expect(pool.totalValue).toBe(1850);
+    expect(pool.recipeRecovery).toBe(0);
+
+    const upgrade = planAssemblyFromPool([aegis], pool, repo, undefined, lockedPavise);
+    expect(upgrade.usedFromPool).toEqual(["pavise", "crown"]);
+    expect(upgrade.newComponentsToBuy).toEqual([]);
+    expect(upgrade.newRecipeCost).toBe(350);
+    expect(upgrade.leftoverFromPool).toEqual([]);
+
+    const sideways = planAssemblyFromPool([crest], pool, repo, undefined, lockedPavise);
+    expect(sideways.newComponentsToBuy).toEqual(["ring"]);
+    expect(sideways.leftoverFromPool).toEqual(["pavise"]);
+    expect(sideways.totalLoadoutCost).toBe(2700);
+  });
+
+  it("only charges the forgone refund for rebuilding a disassembled item", () => {
+    const pool = disassembleLoadout(createLoadout([pavise], repo), repo, standard);
+    expect(pool.recipeRecovery).toBe(87);
+    expect(pool.disassembledItems).toEqual(["pavise"]);
+
+    const plan = planAssemblyFromPool([pavise], pool, repo, undefined, standard);
+    expect(plan.totalNewGoldNeeded - pool.recipeRecovery).toBe(0);
+  });
+});
+
+describe("shopping lists under an economy", () => {
+  const actions = (list: ReturnType<typeof planShoppingList>) => list.steps.map((step) => `${step.action} ${step.item.name}`);
+
+  it("sells recipes at the recovery rate", () => {
+    const from = createLoadout([pavise], repo);
+    const to = createLoadout([crest, hat, booster], repo);
+    const list = planShoppingList(from, to, repo, { economy: standard });
+
+    expect(actions(list)).toContain("sellRecipe pavise");
+    expect(list.steps.find((step) => step.action === "sellRecipe")?.gold).toBe(87);
+    expect(list.goldSpent).toBe(analyzeComponentFlow(from, to, repo, standard).totalGoldNeeded);
+  });
+
+  it("builds on items that can't be disassembled", () => {
+    const list = planShoppingList(createLoadout([pavise], repo), createLoadout([aegis], repo), repo, { economy: lockedPavise });
+
+    expect(actions(list)).toEqual(["buy crown", "assemble aegis"]);
+    expect(list.goldSpent).toBe(800);
+  });
+});
+
+describe("transitions under an economy", () => {
+  const standardConfig = { ...DEFAULT_CONFIG, economy: STANDARD_ECONOMY };
+
+  it("validates transitions with the configured economy", () => {
+    const { transition } = validateTransition([pavise], [crest, hat, booster], { ...DEFAULT_CONFIG, economy: standard }, repo);
+    expect(transition.componentFlow.recoveredRecipeCost).toBe(87);
+    expect(transition.componentFlow.totalGoldNeeded).toBe(450 + 675 - 87);
+  });
+
+  it("analyzes transitions with the configured economy", () => {
+    const items = getAllTestItems();
+    const itemRepo = new ItemRepository(items);
+    const result = analyzeValidTransitions(items, standardConfig, { earlyItemCount: 1, finalItemCount: 1, resultLimit: 5 }, itemRepo);
+    expect(result.transitions.length).toBeGreaterThan(0);
+
+    for (const transition of result.transitions) {
+      expect(transition.componentFlow).toEqual(
+        analyzeComponentFlow(transition.from, transition.to, itemRepo, STANDARD_ECONOMY)
+      );
+    }
+  });
+});
+
+describe("progressions under an economy", () => {
+  const items = getAllTestItems();
+  const statValuation = calculateStatValuation(items);
+  const progression = (economy: EconomyPolicy) =>
+    analyzeProgression(items, { ...DEFAULT_CONFIG, economy }, {
+      stages: [{ maxCost: 800 }, { maxCost: 2000 }],
+      defaultItemCount: 2,
+      resultLimit: 3,
+      statValuation,
+    });
+
+  it("prices transitions with the configured economy", () => {
+    const itemRepo = new ItemRepository(items);
+    for (const sequence of progression(STANDARD_ECONOMY).sequences) {
+      const [first, second] = sequence.stages;
+      expect(second.transition!.componentFlow).toEqual(
+        analyzeComponentFlow(first.loadout, second.loadout, itemRepo, STANDARD_ECONOMY)
+      );
+    }
+  });
+
+  it("carries items over whole when disassembly isn't allowed", () => {
+    const itemRepo = new ItemRepository(items);
+    const result = progression({ ...GYROCOPTER_ECONOMY, allowDisassembly: false });
+    expect(result.sequences.length).toBeGreaterThan(0);
+
+    for (const sequence of result.sequences) {
+      const [first, second] = sequence.stages;
+      const held = [...second.loadout.items, ...second.loadout.sold];
+      for (const assembled of first.loadout.items.filter((i) => i.components.length > 0)) {
+        const kept = held.some((i) => i.name === assembled.name || containsItem(i, assembled.name, itemRepo));
+        expect(kept).toBe(true);
+      }
+    }
+  });
+});
+
+describe("refund window", () => {
+  const tight = { inventorySlots: 1, backpackSlots: 0 };
+
+  it("refunds purchases sold straight back in full", () => {
+    const loadout = createLoadout([hat, ring, booster], repo, undefined, { ...tight, purchased: ["hat"] });
+
+    expect(loadout.refundedItems?.map((i) => i.name)).toEqual(["hat"]);
+    expect(loadout.soldRecovery).toBe(250 + 87);
+    expect(loadout.totalInvestedCost).toBe(1225 - 337);
+
+    const noWindow = createLoadout([hat, ring, booster], repo, undefined, {
+      ...tight,
+      purchased: ["hat"],
+      economy: { ...GYROCOPTER_ECONOMY, refundWindow: false },
+    });
+    expect(noWindow.refundedItems).toBeUndefined();
+    expect(noWindow.soldRecovery).toBe(125 + 87);
+  });
+
+  it("marks transitions that sell purchases back", () => {
+    const from = createLoadout([pavise], repo);
+    const to = createLoadout([crest, branch], repo, undefined, { ...tight, purchased: ["branch"] });
+
+    expect(createTransition(from, to, repo).usesRefundWindow).toBe(true);
+    expect(createTransition(from, createLoadout([crest, branch], repo, undefined, tight), repo).usesRefundWindow).toBeUndefined();
+
+    const result = {
+      sequences: [
+        {
+          stages: [
+            { loadout: from, stageIndex: 0, costThreshold: 1500, transition: null },
+            { loadout: to, stageIndex: 1, costThreshold: 2000, transition: createTransition(from, to, repo) },
+          ],
+          totalScore: 1,
+          stageScores: [1, 1],
+        },
+      ],
+      resolvedTargets: new Map(),
+      unresolvedTargets: new Map(),
+    } as unknown as BuildProgressionResult;
+    const formatted = formatProgression(result);
+    expect(formatted).toContain("reuse, uses refund window");
+    expect(formatted).toContain("Sold back in the refund window: branch (+50g)");
+  });
+
+  it("only counts items built from new components as purchased", () => {
+    const pool = disassembleLoadout(createLoadout([pavise], repo), repo);
+
+    expect(planAssemblyFromPool([crest, branch], pool, repo).purchasedItems).toEqual(["branch"]);
+    expect(planAssemblyFromPool([pavise, crown], pool, repo).purchasedItems).toEqual(["crown"]);
+  });
+
+  it("sells pieces held from the previous stage at the sell rate", () => {
+    const items = getAllTestItems();
+    const result = analyzeProgression(items, DEFAULT_CONFIG, {
+      stages: [{ maxCost: 800 }, { maxCost: 2000 }],
+      defaultItemCount: 3,
+      resultLimit: 3,
+      statValuation: calculateStatValuation(items),
+      inventorySlots: 2,
+      backpackSlots: 0,
+    });
+    const seconds = result.sequences.map((sequence) => sequence.stages[1].loadout);
+    expect(seconds.some((loadout) => loadout.sold.length > 0)).toBe(true);
+
+    for (const loadout of seconds) {
+      // Leftovers come from the previous stage's items, so none are refunds
+      expect(loadout.refundedItems).toBeUndefined();
+      expect(loadout.soldRecovery).toBe(loadout.sold.reduce((sum, item) => sum + Math.floor(item.cost / 2), 0));
+    }
+  });
+});
@@ -132,6 +132,83 @@ describe("efficiency", () => {
       expect(result.totalStatValue).toBe(0);
       expect(result.statBreakdown).toHaveLength(0);
     });
+
+    it("values percentage base damage from the hero's base damage", () => {
+      const percentItem: Item = {
+        ...strengthComponent,
+        stats: {},
+        percentStats: { baseDamage: 20 },
+        auraPercentStats: { baseDamage: 10 },
+      };
+      const valuation: StatValuation = { damage: 40 };
+
+      // 20% + 10% aura (x2) of 50 base damage = 10 + 10 damage
+      const result = calculateItemEfficiency(percentItem, valuation, { heroBaseDamage: 50, auraMultiplier: 2 });
+      expect(result.totalStatValue).toBeCloseTo(20 * 40);
+      expect(result.statBreakdown.map((b) => b.stat)).toEqual(["damage", "damage"]);
+    });
+
+    it("scales conditional bonuses by uptime", () => {
+      const conditionalItem: Item = {
+        ...strengthComponent,
+        stats: {},
+        conditionalStats: [
+          { stats: { armor: 8 }, condition: "below 25% health" },
+          { stats: { healthRegen: 10 }, condition: "while channeling", uptime: 0.5 },
+        ],
+      };
+
+      // Armor uses the configured uptime; regen uses its own
+      const result = calculateItemEfficiency(conditionalItem, fixedValuation, { conditionalUptime: 0.25 });
+      expect(result.totalStatValue).toBeCloseTo(8 * 0.25 * fixedValuation.armor! + 10 * 0.5 * fixedValuation.healthRegen!);
+    });
+
+    it("values enemy debuffs from the matching stat valuation", () => {
+      const debuffItem: Item = { ...strengthComponent, stats: {}, debuffStats: { armorReduction: 4 } };
+
+      const result = calculateItemEfficiency(debuffItem, fixedValuation, { debuffMultiplier: 0.5 });
+      expect(result.debuffValue).toBeCloseTo(4 * fixedValuation.armor! * 0.5);
+      expect(result.totalStatValue).toBeCloseTo(result.debuffValue);
+      expect(result.debuffBreakdown).toEqual([
+        { stat: "armorReduction", amount: 4, goldValue: result.debuffValue },
+      ]);
+    });
+
+    it("scales conditional debuffs by uptime", () => {
+      const medallion: Item = {
+        ...strengthComponent,
+        stats: {},
+        conditionalStats: [{ stats: {}, debuffStats: { armorReduction: 6 }, condition: "while active", uptime: 0.5 }],
+      };
+
+      const result = calculateItemEfficiency(medallion, fixedValuation, { debuffMultiplier: 1 });
+      expect(result.debuffValue).toBeCloseTo(3 * fixedValuation.armor!);
+      expect(result.debuffBreakdown).toEqual([{ stat: "armorReduction", amount: 3, goldValue: result.debuffValue }]);
+    });
+
+    it("prefers an explicit enemy stat valuation", () => {
+      const debuffItem: Item = { ...strengthComponent, debuffStats: { magicResistanceReduction: 10 } };
+
+      const result = calculateItemEfficiency(debuffItem, fixedValuation, {
+        enemyStatValuation: { armorReduction: 0, magicResistanceReduction: 30 },
+      });
+      expect(result.debuffValue).toBe(300);
+      expect(result.totalStatValue).toBeCloseTo(2 * fixedValuation.strength! + 300);
+    });
+
+    it("scales utility by the item's active cooldown", () => {
+      const blink: Item = { ...keyUtilityItem, name: "blink", stats: {} };
+      const slowBlink: Item = { ...blink, active: { name: "Blink", type: "active", description: "", cooldown: 120 } };
+
+      const base = calculateItemEfficiency(blink, fixedValuation).utilityValue;
+      expect(calculateItemEfficiency(slowBlink, fixedValuation).utilityValue).toBeCloseTo(base * 0.5);
+    });
+
+    it("reports no debuff value for items without debuffs", () => {
+      const result = calculateItemEfficiency(strengthComponent, fixedValuation);
+      expect(result.debuffValue).toBe(0);
+      expect(result.debuffBreakdown).toEqual([]);
+    });
   });
 
   describe("getItemsByEfficiency", () => {
@@ -1,4 +1,4 @@
-import { Item } from "../models/types";
+import { Item, ItemStats } from "../models/types";
 
 /**
  * Simplified test fixtures with predictable values for precise test assertions.
@@ -443,6 +443,34 @@ export const damageLateItem: Item = {
   components: ["damage_component", "strength_component"],
 };
 
+// ============================================================================
+// Item Factory
+// ============================================================================
+
+/**
+ * Build an item for a test. Items without components are base components.
+ */
+export function item(
+  name: string,
+  cost: number,
+  stats: ItemStats = {},
+  components: string[] = [],
+  overrides: Partial<Item> = {}
+): Item {
+  return {
+    id: name,
+    name,
+    displayName: name,
+    cost,
+    stats,
+    isComponent: components.length === 0,
+    isConsumable: false,
+    auraStats: {},
+    components,
+    ...overrides,
+  };
+}
+
 // ============================================================================
 // Collection Helpers
 // ============================================================================
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_NET_WORTH_CURVE,
+  fitNetWorthCurve,
+  formatMinutes,
+  goldAtMinute,
+  minuteForGold,
+  minutesToFarm,
+  netWorthCurveFromGpm,
+  resolveStageTimings,
+  sequenceTimings,
+  stagesFromMinutes,
+  validateNetWorthCurve,
+} from "../calculators/goldIncome";
+import { analyzeProgression, formatProgression } from "../calculators/buildProgression";
+import { calculateStatValuation } from "../calculators/statValuation";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { loadMatchHistory, parseMatchHistory } from "../config/matchHistoryFile";
+import { getAllTestItems } from "./fixtures";
+
+// 600 starting gold, 400 GPM to 10:00 (4600g), then 600 GPM
+const curve = netWorthCurveFromGpm([
+  { fromMinute: 0, gpm: 400 },
+  { fromMinute: 10, gpm: 600 },
+]);
+
+describe("netWorthCurveFromGpm", () => {
+  it("accumulates gold per minute from the starting gold", () => {
+    expect(curve).toEqual([
+      [0, 600],
+      [10, 4600],
+      [11, 5200],
+    ]);
+    expect(netWorthCurveFromGpm([{ fromMinute: 0, gpm: 500 }], 0)).toEqual([
+      [0, 0],
+      [1, 500],
+    ]);
+  });
+
+  it("rejects segments that don't make a rising curve", () => {
+    expect(() => netWorthCurveFromGpm([{ fromMinute: 5, gpm: 400 }])).toThrow("GPM segments must start at minute 0");
+    expect(() => netWorthCurveFromGpm([{ fromMinute: 0, gpm: -1 }])).toThrow("GPM must be a non-negative number");
+    expect(() =>
+      netWorthCurveFromGpm([
+        { fromMinute: 0, gpm: 400 },
+        { fromMinute: 0, gpm: 500 },
+      ])
+    ).toThrow("GPM segment minutes must increase");
+    expect(() => netWorthCurveFromGpm([{ fromMinute: 0, gpm: 0 }])).toThrow("still be rising");
+  });
+});
+
+describe("reading the curve", () => {
+  it("converts between minutes and net worth", () => {
+    expect(goldAtMinute(5, curve)).toBe(2600);
+    expect(goldAtMinute(20, curve)).toBe(10600);
+    expect(minuteForGold(2600, curve)).toBe(5);
+    expect(minuteForGold(10600, curve)).toBe(20);
+  });
+
+  it("clamps before the curve starts", () => {
+    expect(goldAtMinute(-1, curve)).toBe(600);
+    expect(minuteForGold(300, curve)).toBe(0);
+  });
+
+  it("times farming from a minute on", () => {
+    // 1400g to 10:00 at 400 GPM, then 1200g at 600 GPM
+    expect(minutesToFarm(2600, 6.5, curve)).toBe(5.5);
+    expect(minutesToFarm(0, 6.5, curve)).toBe(0);
+  });
+
+  it("reads the first minute a flat stretch is reached", () => {
+    const flat = validateNetWorthCurve([
+      [0, 600],
+      [5, 2000],
+      [6, 2000],
+      [10, 4000],
+    ]);
+    expect(minuteForGold(2000, flat)).toBe(5);
+    expect(minuteForGold(3000, flat)).toBe(8);
+  });
+
+  it("formats minutes as m:ss", () => {
+    expect(formatMinutes(18)).toBe("18:00");
+    expect(formatMinutes(5.5)).toBe("5:30");
+    expect(formatMinutes(0.999)).toBe("1:00");
+  });
+});
+
+describe("fitNetWorthCurve", () => {
+  it("takes the median net worth at each minute", () => {
+    const fitted = fitNetWorthCurve([
+      [600, 1000, 1500, 2000],
+      [600, 900, 1300, 1800, 2400],
+      [600, 1200, 1400],
+    ]);
+
+    // Minute 3 has two of three matches, minute 4 only one
+    expect(fitted).toEqual([
+      [0, 600],
+      [1, 1000],
+      [2, 1400],
+      [3, 1900],
+    ]);
+  });
+
+  it("keeps the curve non-decreasing and rising at its end", () => {
+    const fitted = fitNetWorthCurve([[600, 1000, 800, 1500, 1500]]);
+
+    expect(fitted).toEqual([
+      [0, 600],
+      [1, 1000],
+      [2, 1000],
+      [3, 1500],
+    ]);
+    expect(() => fitNetWorthCurve([[600, 600]])).toThrow("Net worth curve needs at least two points");
+    expect(() => fitNetWorthCurve([])).toThrow("Match history has no matches");
+  });
+});
+
+describe("stage timings", () => {
+  it("resolves minute stages to the expected net worth", () => {
+    expect(stagesFromMinutes([5, 20], curve)).toEqual([
+      { atMinute: 5, maxCost: 2600 },
+      { atMinute: 20, maxCost: 10600 },
+    ]);
+    expect(resolveStageTimings([{ maxCost: 3000, atMinute: 5 }, { atMinute: 10, requiredItems: ["bkb"] }], curve)).toEqual([
+      { maxCost: 3000, atMinute: 5 },
+      { atMinute: 10, requiredItems: ["bkb"], maxCost: 4600 },
+    ]);
+    expect(() => resolveStageTimings([{ itemCount: 2 }])).toThrow("Stage 1 needs a maxCost or an atMinute");
+  });
+
+  it("times each stage by the new gold its transition needs", () => {
+    const items = getAllTestItems();
+    const result = analyzeProgression(items, DEFAULT_CONFIG, {
+      stages: [{ maxCost: 800 }, { maxCost: 2000 }],
+      defaultItemCount: 2,
+      resultLimit: 1,
+      statValuation: calculateStatValuation(items),
+    });
+    const sequence = result.sequences[0];
+    const [first, second] = sequence.stages;
+    const timings = sequenceTimings(sequence, curve);
+
+    expect(timings[0]).toBe(minuteForGold(first.loadout.totalInvestedCost ?? first.loadout.totalCost, curve));
+    expect(timings[1]).toBeCloseTo(
+      timings[0] + minutesToFarm(second.transition!.componentFlow.totalGoldNeeded, timings[0], curve)
+    );
+
+    const formatted = formatProgression(result, false, undefined, curve);
+    expect(formatted).toContain(`g, ~${formatMinutes(timings[0])})`);
+    expect(formatted).toContain(`g to farm (~${formatMinutes(timings[1] - timings[0])})`);
+    expect(formatProgression(result)).not.toContain("to farm");
+  });
+
+  it("uses the default curve when none is given", () => {
+    expect(goldAtMinute(10)).toBe(goldAtMinute(10, DEFAULT_NET_WORTH_CURVE));
+    expect(minuteForGold(goldAtMinute(25))).toBeCloseTo(25);
+  });
+});
+
+describe("parseMatchHistory", () => {
+  it("accepts net worth arrays and match objects", () => {
+    expect(parseMatchHistory([[600, 1000], { netWorth: [600, 900] }, { gold_t: [0, 500] }])).toEqual([
+      [600, 1000],
+      [600, 900],
+      [0, 500],
+    ]);
+    expect(parseMatchHistory({ matches: [[600, 1000]] })).toEqual([[600, 1000]]);
+  });
+
+  it("rejects invalid match history", () => {
+    expect(() => parseMatchHistory({ games: [] })).toThrow("Match history must be a list of matches");
+    expect(() => parseMatchHistory([])).toThrow("Match history has no matches");
+    expect(() => parseMatchHistory([{ kills: 3 }])).toThrow("matches[0]: Match must have netWorth or gold_t");
+    expect(() => parseMatchHistory([[600, "1000"]])).toThrow("matches[0]: Net worth at minute 1 must be a non-negative number");
+  });
+});
+
+describe("loadMatchHistory", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "match-history-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads JSON and reports the file on errors", async () => {
+    const path = join(dir, "matches.json");
+    await writeFile(path, JSON.stringify({ matches: [{ gold_t: [600, 1000, 1500] }] }));
+    expect(await loadMatchHistory(path)).toEqual([[600, 1000, 1500]]);
+
+    const bad = join(dir, "bad.yaml");
+    await writeFile(bad, "matches:\n  - netWorth: []\n");
+    await expect(loadMatchHistory(bad)).rejects.toThrow(`${bad}: matches[0]: Net worth must be a non-empty array`);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "bun:test";
+import {
+  NO_GOLD_RESERVE,
+  buybackCost,
+  goldLostOnDeath,
+  levelBuybackCost,
+  parseBuybackReserve,
+  reservedGold,
+  stageGoldReserve,
+  stageGoldReserves,
+} from "../calculators/goldRisk";
+import { analyzeProgression, formatProgression, formatStageBudget } from "../calculators/buildProgression";
+import { minuteForGold } from "../calculators/goldIncome";
+import { levelForGold } from "../calculators/levelValuation";
+import { createLoadoutWithLeftovers } from "../calculators/loadout";
+import { calculateStatValuation } from "../calculators/statValuation";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { ItemRepository } from "../data/ItemRepository";
+import { getAllTestItems, item } from "./fixtures";
+
+describe("buyback and death formulas", () => {
+  it("prices buyback by net worth or by level and minute", () => {
+    expect(buybackCost(0)).toBe(200);
+    expect(buybackCost(4000)).toBe(507);
+    expect(levelBuybackCost(10)).toBe(250);
+    expect(levelBuybackCost(10, 20)).toBe(550);
+  });
+
+  it("loses gold on death by net worth", () => {
+    expect(goldLostOnDeath(0)).toBe(50);
+    expect(goldLostOnDeath(8000)).toBe(250);
+  });
+});
+
+describe("parseBuybackReserve", () => {
+  it("accepts gold, networth and level", () => {
+    expect(parseBuybackReserve("500")).toBe(500);
+    expect(parseBuybackReserve(300)).toBe(300);
+    expect(parseBuybackReserve("NetWorth")).toBe("netWorth");
+    expect(parseBuybackReserve("level")).toBe("level");
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseBuybackReserve("lots")).toThrow('Unknown buyback reserve "lots" (expected gold, networth or level)');
+    expect(() => parseBuybackReserve(-1)).toThrow("Buyback reserve must be a non-negative amount of gold (got -1)");
+  });
+});
+
+describe("stageGoldReserve", () => {
+  it("holds back buyback gold and expected death losses at the stage's net worth", () => {
+    expect(stageGoldReserve({ maxCost: 8000 })).toEqual(NO_GOLD_RESERVE);
+    expect(stageGoldReserve({ maxCost: 8000 }, { buybackReserve: 600 })).toEqual({ buyback: 600, deathLoss: 0 });
+    expect(stageGoldReserve({ maxCost: 8000 }, { buybackReserve: "netWorth", expectedDeaths: 1.5 })).toEqual({
+      buyback: 815,
+      deathLoss: 375,
+    });
+  });
+
+  it("uses the stage's level and minute for the level formula", () => {
+    expect(stageGoldReserve({ maxCost: 8000, heroLevel: 16, atMinute: 25 }, { buybackReserve: "level" }).buyback).toBe(
+      levelBuybackCost(16, 25)
+    );
+    expect(stageGoldReserve({ maxCost: 8000 }, { buybackReserve: "level" }).buyback).toBe(
+      levelBuybackCost(levelForGold(8000), minuteForGold(8000))
+    );
+  });
+
+  it("prefers the stage's own reserve and deaths", () => {
+    const stage = { maxCost: 8000, buybackReserve: 0, expectedDeaths: 2 };
+    expect(stageGoldReserve(stage, { buybackReserve: "netWorth", expectedDeaths: 1 })).toEqual({ buyback: 0, deathLoss: 500 });
+    expect(() => stageGoldReserve({ maxCost: 8000, expectedDeaths: -1 })).toThrow("Expected deaths must be a non-negative number");
+  });
+
+  it("leaves the first stage alone unless it sets its own", () => {
+    const reserves = stageGoldReserves([{ maxCost: 2000 }, { maxCost: 4000 }], { buybackReserve: 500 });
+    expect(reserves.map(reservedGold)).toEqual([0, 500]);
+    expect(stageGoldReserves([{ maxCost: 2000, buybackReserve: 300 }]).map(reservedGold)).toEqual([300]);
+  });
+});
+
+describe("progression budgets", () => {
+  const items = getAllTestItems();
+  const statValuation = calculateStatValuation(items);
+  const stages = [{ maxCost: 800 }, { maxCost: 2000 }];
+
+  it("buys later stages within the budget left after the reserve", () => {
+    const result = analyzeProgression(items, DEFAULT_CONFIG, {
+      stages,
+      defaultItemCount: 2,
+      resultLimit: 5,
+      statValuation,
+      buybackReserve: 400,
+      expectedDeaths: 1,
+    });
+
+    expect(result.sequences.length).toBeGreaterThan(0);
+    for (const sequence of result.sequences) {
+      const [first, second] = sequence.stages;
+      expect(first.goldReserve).toBeUndefined();
+      expect(second.goldReserve).toEqual({ buyback: 400, deathLoss: 100 });
+      expect(second.costThreshold).toBe(2000);
+      expect(second.loadout.totalCost).toBeLessThanOrEqual(1500);
+    }
+    expect(formatProgression(result)).toContain("Stage 2 (≤2000g - 400g buyback - 100g deaths):");
+  });
+
+  it("finds nothing when the reserve leaves no room for the previous stage", () => {
+    const result = analyzeProgression(items, DEFAULT_CONFIG, {
+      stages,
+      defaultItemCount: 2,
+      resultLimit: 5,
+      statValuation,
+      buybackReserve: 1900,
+    });
+    expect(result.sequences).toEqual([]);
+  });
+
+  it("labels budgets without a reserve as before", () => {
+    const loadout = createLoadoutWithLeftovers([], [], new ItemRepository([]));
+    expect(formatStageBudget({ loadout, stageIndex: 0, costThreshold: 2000, transition: null })).toBe("≤2000g");
+  });
+});
+
+describe("gold at risk", () => {
+  const ring = item("ring", 175, { armor: 2 });
+  const hat = item("hat", 250, { health: 125 });
+  const crown = item("crown", 450, { strength: 4 });
+  const crest = item("crest", 1300, { armor: 7, strength: 6 }, ["ring", "crown"]);
+  const repo = new ItemRepository([ring, hat, crown, crest]);
+
+  it("counts the leftover components kept in the inventory and backpack", () => {
+    const loadout = createLoadoutWithLeftovers([crest], ["hat", "ring"], repo);
+    expect(loadout.goldAtRisk).toBe(425);
+  });
+
+  it("counts only the leftovers beyond the assembled items", () => {
+    expect(createLoadoutWithLeftovers([crest, ring], ["ring"], repo).goldAtRisk).toBe(175);
+    expect(createLoadoutWithLeftovers([crest, ring], [], repo).goldAtRisk).toBeUndefined();
+  });
+
+  it("leaves out leftover items held whole", () => {
+    // Crest kept whole because it can't be disassembled, next to a spare hat
+    const loadout = createLoadoutWithLeftovers([ring], ["crest", "hat"], repo);
+    expect(loadout.items.map((kept) => kept.name)).toContain("crest");
+    expect(loadout.goldAtRisk).toBe(250);
+  });
+
+  it("leaves out leftovers that are sold for space", () => {
+    const loadout = createLoadoutWithLeftovers([crest], ["hat", "ring"], repo, undefined, {
+      inventorySlots: 1,
+      backpackSlots: 1,
+    });
+    expect(loadout.sold.map((sold) => sold.name)).toEqual(["ring"]);
+    expect(loadout.goldAtRisk).toBe(250);
+  });
+});
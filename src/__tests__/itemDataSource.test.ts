@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DotaconstantsItem, parseDotaconstantsItems } from "../data/dotaconstants";
+import {
+  parseNormalizedItemsFile,
+  toNormalizedItemsFile,
+  writeNormalizedItemsFile,
+} from "../data/normalizedItems";
+import { createItemDataSource, isItemSourceKind } from "../data/itemDataSource";
+import { calculateStatValuation } from "../calculators/statValuation";
+import { strengthComponent, goodRecoveryItem } from "./fixtures";
+
+describe("parseDotaconstantsItems", () => {
+  const raw: Record<string, DotaconstantsItem> = {
+    diffusal_blade: {
+      id: 174,
+      dname: "Diffusal Blade",
+      cost: 2500,
+      attrib: [
+        { key: "bonus_agility", header: "", value: ["25", "35"], footer: "Agility" },
+        { key: "bonus_intellect", header: "", value: "10", footer: "Intelligence" },
+      ],
+      components: ["blade_of_alacrity"],
+    },
+    recipe_diffusal_blade: { id: 173, cost: 700 },
+  };
+
+  it("uses the first level of levelled attribute values", () => {
+    const [diffusal] = parseDotaconstantsItems(raw);
+    expect(diffusal.name).toBe("diffusal_blade");
+    expect(diffusal.stats).toEqual({ agility: 25, intelligence: 10 });
+  });
+
+  it("applies the same filters as the OpenDota parser", () => {
+    expect(parseDotaconstantsItems(raw)).toHaveLength(1);
+  });
+});
+
+describe("parseNormalizedItemsFile", () => {
+  it("round-trips items built with toNormalizedItemsFile", () => {
+    const file = toNormalizedItemsFile([strengthComponent, goodRecoveryItem], { patch: "7.37d" });
+    const parsed = parseNormalizedItemsFile(JSON.parse(JSON.stringify(file)));
+
+    expect(parsed.patch).toBe("7.37d");
+    expect(parsed.items).toEqual([strengthComponent, goodRecoveryItem]);
+  });
+
+  it("fills optional fields for hand-written entries", () => {
+    const parsed = parseNormalizedItemsFile({
+      version: 1,
+      items: [{ name: "bracer", cost: 505, stats: { strength: 5 }, components: ["gauntlets"] }],
+    });
+
+    expect(parsed.items[0]).toEqual({
+      id: "bracer",
+      name: "bracer",
+      displayName: "bracer",
+      cost: 505,
+      stats: { strength: 5 },
+      auraStats: {},
+      isComponent: false,
+      isConsumable: false,
+      components: ["gauntlets"],
+    });
+  });
+
+  it("rejects unsupported versions", () => {
+    expect(() => parseNormalizedItemsFile({ version: 2, items: [] })).toThrow("Unsupported");
+  });
+
+  it("reports the offending entry", () => {
+    expect(() =>
+      parseNormalizedItemsFile({ version: 1, items: [{ name: "bracer", cost: "505", stats: {} }] })
+    ).toThrow("items[0].cost");
+  });
+
+  it("rejects unknown active ability types", () => {
+    const active = { name: "Blink", type: "channel", description: "Teleport" };
+
+    expect(() =>
+      parseNormalizedItemsFile({ version: 1, items: [{ name: "blink", cost: 2250, stats: {}, active }] })
+    ).toThrow("items[0].active.type must be one of active, passive, use, toggle, upgrade (blink)");
+  });
+});
+
+describe("createItemDataSource", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("defaults to the OpenDota backend", () => {
+    expect(createItemDataSource().kind).toBe("opendota");
+  });
+
+  it("requires a data file for file-only backends", () => {
+    expect(() => createItemDataSource({ source: "json" })).toThrow("needs a data file");
+    expect(() => createItemDataSource({ source: "dotaconstants" })).toThrow("needs a data file");
+  });
+
+  it("rejects unknown backends", () => {
+    expect(() => createItemDataSource({ source: "stratz" as never })).toThrow("Unknown item source");
+    expect(isItemSourceKind("stratz")).toBe(false);
+  });
+
+  it("loads a normalized JSON file", async () => {
+    const path = join(dir, "items.json");
+    await writeNormalizedItemsFile(path, toNormalizedItemsFile([strengthComponent]));
+
+    const items = await createItemDataSource({ source: "json", dataFile: path }).load();
+    expect(items).toEqual([strengthComponent]);
+  });
+
+  it("loads a dotaconstants file", async () => {
+    const path = join(dir, "items.json");
+    await writeFile(
+      path,
+      JSON.stringify({ gauntlets: { id: 13, cost: 140, attrib: [{ key: "bonus_strength", value: "3" }] } })
+    );
+
+    const items = await createItemDataSource({ source: "dotaconstants", dataFile: path }).load();
+    expect(items[0].stats).toEqual({ strength: 3 });
+  });
+
+  it("rejects a dotaconstants file without recognized attributes", async () => {
+    const path = join(dir, "items.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        gauntlets: { id: 13, cost: 140, attrib: [] },
+        blink: { id: 1, cost: 2250, attrib: [{ key: "blink_range", value: "1200" }] },
+      })
+    );
+
+    await expect(createItemDataSource({ source: "dotaconstants", dataFile: path }).load()).rejects.toThrow(
+      "Only 0 of 2 priced items"
+    );
+  });
+});
+
+describe("dotaconstants payloads", () => {
+  // Entries cut verbatim from scripts/api-research/responses/dotaconstants-items.json
+  const fixturePath = join(import.meta.dir, "data", "dotaconstants-items.json");
+  const payloadPath = join(import.meta.dir, "..", "..", "scripts", "api-research", "responses", "dotaconstants-items.json");
+
+  it("parses stats, components and actives from a real payload", async () => {
+    const items = await createItemDataSource({ source: "dotaconstants", dataFile: fixturePath }).load();
+    const byName = new Map(items.map((item) => [item.name, item]));
+
+    expect(byName.get("heart")?.stats).toEqual({ strength: 40, healthRegen: 1 });
+    expect(byName.get("heart")?.components).toEqual(["reaver", "ring_of_tarrasque"]);
+    expect(byName.get("diffusal_blade")?.stats).toEqual({ agility: 15, intelligence: 10 });
+    expect(byName.get("diffusal_blade")?.active?.cooldown).toBe(15);
+    expect(byName.has("recipe_heart")).toBe(false);
+  });
+
+  it("gives most items in the repo's payload stats", async () => {
+    const items = await createItemDataSource({ source: "dotaconstants", dataFile: payloadPath }).load();
+    const withStats = items.filter((item) => Object.keys(item.stats).length > 0);
+
+    expect(withStats.length).toBeGreaterThan(items.length / 2);
+    expect(calculateStatValuation(items).strength).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OpenDotaItem, parseOpenDotaItems } from "../data/fetchItems";
+import {
+  createSnapshot,
+  isSnapshotFresh,
+  loadItems,
+  readSnapshotFile,
+  writeSnapshotFile,
+} from "../data/itemSnapshot";
+
+/** Minimal raw OpenDota payload: one component, one upgrade, one recipe, one neutral */
+const RAW_ITEMS: Record<string, OpenDotaItem> = {
+  gauntlets: {
+    id: 13,
+    dname: "Gauntlets of Strength",
+    cost: 140,
+    attrib: [{ key: "bonus_strength", value: "3" }],
+    components: null,
+  },
+  bracer: {
+    id: 73,
+    dname: "Bracer",
+    cost: 505,
+    attrib: [
+      { key: "bonus_strength", value: "5" },
+      { key: "bonus_health", value: "50" },
+    ],
+    components: ["gauntlets"],
+  },
+  recipe_bracer: {
+    id: 72,
+    cost: 210,
+    components: null,
+  },
+  poor_mans_shield: {
+    id: 71,
+    dname: "Poor Man's Shield",
+    cost: 0,
+    tier: 2,
+  },
+};
+
+describe("parseOpenDotaItems", () => {
+  it("keeps purchasable and neutral items and drops recipes", () => {
+    const items = parseOpenDotaItems(RAW_ITEMS);
+    expect(items.map((i) => i.name).sort()).toEqual(["bracer", "gauntlets", "poor_mans_shield"]);
+  });
+
+  it("keeps neutral items at no cost with their tier", () => {
+    const shield = parseOpenDotaItems(RAW_ITEMS).find((i) => i.name === "poor_mans_shield")!;
+    expect(shield.neutralTier).toBe(2);
+    expect(shield.cost).toBe(0);
+  });
+
+  it("maps attribute keys to stats", () => {
+    const bracer = parseOpenDotaItems(RAW_ITEMS).find((i) => i.name === "bracer")!;
+    expect(bracer.stats).toEqual({ strength: 5, health: 50 });
+    expect(bracer.isComponent).toBe(false);
+  });
+
+  it("keeps percentage and conditional bonuses", () => {
+    const [vladmir, greaves] = parseOpenDotaItems({
+      vladmir: { id: 81, dname: "Vladmir's Offering", cost: 2200, attrib: [{ key: "damage_aura", value: "18" }] },
+      guardian_greaves: {
+        id: 231,
+        dname: "Guardian Greaves",
+        cost: 5050,
+        attrib: [
+          { key: "aura_health_regen_bonus", value: "14.5" },
+          { key: "aura_armor_bonus", value: "8" },
+        ],
+      },
+    });
+
+    expect(vladmir.auraPercentStats).toEqual({ baseDamage: 18 });
+    expect(vladmir.percentStats).toBeUndefined();
+    expect(greaves.conditionalStats).toEqual([
+      { stats: { healthRegen: 14.5, armor: 8 }, condition: "below 25% health", aura: true },
+    ]);
+  });
+
+  it("parses active ability metadata", () => {
+    const [force, aeon, vladmir] = parseOpenDotaItems({
+      force_staff: {
+        id: 102,
+        dname: "Force Staff",
+        cost: 2200,
+        cd: 19,
+        mc: 100,
+        abilities: [{ type: "active", title: "Force", description: "Pushes a unit 600 units." }],
+      },
+      aeon_disk: {
+        id: 256,
+        dname: "Aeon Disk",
+        cost: 3000,
+        cd: 105,
+        mc: false,
+        abilities: [{ type: "passive", title: "Combo Breaker", description: "Applies a strong dispel." }],
+      },
+      vladmir: {
+        id: 81,
+        dname: "Vladmir's Offering",
+        cost: 2200,
+        cd: false,
+        abilities: [{ type: "passive", title: "Vladmir's Aura", description: "Grants lifesteal." }],
+      },
+    });
+
+    expect(force.active).toEqual({
+      name: "Force",
+      type: "active",
+      description: "Pushes a unit 600 units.",
+      cooldown: 19,
+      manaCost: 100,
+    });
+    // A cooldown-gated passive counts as the item's active
+    expect(aeon.active).toMatchObject({ name: "Combo Breaker", type: "passive", cooldown: 105 });
+    expect(aeon.active?.manaCost).toBeUndefined();
+    expect(vladmir.active).toBeUndefined();
+  });
+
+  it("keeps enemy debuffs as positive reductions", () => {
+    const [assault, orb] = parseOpenDotaItems({
+      assault: {
+        id: 112,
+        dname: "Assault Cuirass",
+        cost: 5125,
+        attrib: [
+          { key: "aura_positive_armor", value: "5" },
+          { key: "aura_negative_armor", value: "-5" },
+          { key: "aura_negative_armor_radius", value: "1200" },
+        ],
+      },
+      blight_stone: { id: 240, dname: "Blight Stone", cost: 300, attrib: [{ key: "corruption_armor", value: "-2" }] },
+    });
+
+    expect(assault.auraStats).toEqual({ armor: 5 });
+    expect(assault.debuffStats).toEqual({ armorReduction: 5 });
+    expect(orb.stats).toEqual({});
+    expect(orb.debuffStats).toEqual({ armorReduction: 2 });
+  });
+
+  it("values active-only debuffs by the active's uptime", () => {
+    const [medallion, solarCrest, orb] = parseOpenDotaItems({
+      medallion_of_courage: {
+        id: 187,
+        dname: "Medallion of Courage",
+        cost: 1025,
+        cd: 16,
+        attrib: [
+          { key: "bonus_armor", value: "5" },
+          { key: "armor_reduction", value: "-6" },
+          { key: "duration", value: "8" },
+        ],
+      },
+      solar_crest: {
+        id: 229,
+        dname: "Solar Crest",
+        cost: 2625,
+        cd: 16,
+        attrib: [
+          { key: "bonus_armor", value: "4" },
+          { key: "target_armor", value: "5" },
+          { key: "duration", value: "7" },
+        ],
+      },
+      orb_of_destruction: {
+        id: 1076,
+        dname: "Orb of Destruction",
+        cost: 1500,
+        attrib: [{ key: "armor_reduction", value: "2" }],
+      },
+    });
+
+    expect(medallion.stats).toEqual({ armor: 5 });
+    expect(medallion.debuffStats).toBeUndefined();
+    expect(medallion.conditionalStats).toEqual([
+      { stats: {}, debuffStats: { armorReduction: 6 }, condition: "while active", uptime: 0.5 },
+    ]);
+    expect(solarCrest.conditionalStats).toEqual([
+      { stats: {}, debuffStats: { armorReduction: 5 }, condition: "while active", uptime: 7 / 16 },
+    ]);
+    // Without a cooldown the reduction is applied on every hit
+    expect(orb.debuffStats).toEqual({ armorReduction: 2 });
+    expect(orb.conditionalStats).toBeUndefined();
+  });
+});
+
+describe("isSnapshotFresh", () => {
+  const snapshot = createSnapshot(RAW_ITEMS, new Date("2025-01-01T00:00:00Z"));
+
+  it("is fresh within the TTL", () => {
+    expect(isSnapshotFresh(snapshot, 24, new Date("2025-01-01T12:00:00Z"))).toBe(true);
+  });
+
+  it("is stale after the TTL", () => {
+    expect(isSnapshotFresh(snapshot, 24, new Date("2025-01-02T00:00:01Z"))).toBe(false);
+  });
+
+  it("is never fresh with a zero TTL", () => {
+    expect(isSnapshotFresh(snapshot, 0, new Date("2025-01-01T00:00:00Z"))).toBe(false);
+  });
+});
+
+describe("snapshot files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips a snapshot", async () => {
+    const path = join(dir, "nested", "items.json");
+    const snapshot = createSnapshot(RAW_ITEMS, new Date("2025-01-01T00:00:00Z"));
+    await writeSnapshotFile(path, snapshot);
+
+    const read = await readSnapshotFile(path);
+    expect(read.fetchedAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(read.items).toEqual(snapshot.items);
+  });
+
+  it("reads a raw OpenDota payload", async () => {
+    const path = join(dir, "opendota-items.json");
+    await writeFile(path, JSON.stringify(RAW_ITEMS));
+
+    const read = await readSnapshotFile(path);
+    expect(read.items).toHaveLength(3);
+    expect(read.raw).toEqual(RAW_ITEMS);
+  });
+
+  it("rejects unrecognized data", async () => {
+    const path = join(dir, "bad.json");
+    await writeFile(path, "[1, 2, 3]");
+    await expect(readSnapshotFile(path)).rejects.toThrow("Unrecognized item data format");
+  });
+
+  it("loads from a data file", async () => {
+    const path = join(dir, "items.json");
+    await writeFile(path, JSON.stringify(RAW_ITEMS));
+
+    const items = await loadItems({ dataFile: path, offline: true });
+    expect(items).toHaveLength(3);
+  });
+
+  it("uses a stale cache in offline mode", async () => {
+    const cacheFile = join(dir, "cache.json");
+    await writeSnapshotFile(cacheFile, createSnapshot(RAW_ITEMS, new Date("2000-01-01T00:00:00Z")));
+
+    const messages: string[] = [];
+    const items = await loadItems({
+      cacheFile,
+      offline: true,
+      onProgress: (msg) => messages.push(msg),
+    });
+
+    expect(items).toHaveLength(3);
+    expect(messages.some((m) => m.includes("stale"))).toBe(true);
+  });
+
+  it("fails in offline mode without a data file or cache", async () => {
+    await expect(
+      loadItems({ cacheFile: join(dir, "missing.json"), offline: true })
+    ).rejects.toThrow("Offline mode");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "bun:test";
+import {
+  DEFAULT_STAT_LEVEL_WEIGHTS,
+  calculateLevelStatValuation,
+  levelForGold,
+  statLevelWeight,
+} from "../calculators/levelValuation";
+import { calculateHeroStatValuation } from "../calculators/attributes";
+import { findHero } from "../data/heroes";
+import { StatValuation } from "../models/types";
+
+const valuation: StatValuation = {
+  strength: 50,
+  health: 4,
+  healthRegen: 100,
+  damage: 50,
+  moveSpeed: 20,
+};
+
+describe("levelForGold", () => {
+  it("interpolates the gold/level curve", () => {
+    expect(levelForGold(0)).toBe(1);
+    expect(levelForGold(3000)).toBe(8);
+    expect(levelForGold(4000)).toBe(10);
+  });
+
+  it("clamps to the ends of the curve", () => {
+    expect(levelForGold(-100)).toBe(1);
+    expect(levelForGold(100000)).toBe(25);
+  });
+});
+
+describe("statLevelWeight", () => {
+  it("moves from the early to the late weight", () => {
+    const regen = DEFAULT_STAT_LEVEL_WEIGHTS.healthRegen!;
+    expect(statLevelWeight("healthRegen", 1)).toBe(regen.early);
+    expect(statLevelWeight("healthRegen", 25)).toBe(regen.late);
+    expect(statLevelWeight("healthRegen", 13)).toBeCloseTo((regen.early + regen.late) / 2);
+    expect(statLevelWeight("healthRegen", 30)).toBe(regen.late);
+  });
+
+  it("leaves unlisted stats alone", () => {
+    expect(statLevelWeight("moveSpeed", 20)).toBe(1);
+    expect(statLevelWeight("damage", 20, {})).toBe(1);
+  });
+});
+
+describe("calculateLevelStatValuation", () => {
+  it("weights regen early and damage late", () => {
+    const early = calculateLevelStatValuation(valuation, 1);
+    const late = calculateLevelStatValuation(valuation, 25);
+
+    expect(early.healthRegen!).toBeGreaterThan(late.healthRegen!);
+    expect(late.damage!).toBeGreaterThan(early.damage!);
+    expect(late.moveSpeed).toBe(valuation.moveSpeed);
+  });
+
+  it("re-derives attributes from weighted stats for a hero", () => {
+    const hero = findHero("axe")!;
+    const late = calculateLevelStatValuation(valuation, 25, { hero });
+
+    expect(late.strength).toBeCloseTo(
+      calculateHeroStatValuation(calculateLevelStatValuation(valuation, 25), "strength").strength!
+    );
+    expect(late.strength).not.toBe(calculateLevelStatValuation(valuation, 1, { hero }).strength);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from "bun:test";
 import {
   createLoadout,
+  allocateItemsToSlots,
+  selectNeutralItem,
+  calculateItemsStatValue,
   createTransition,
   analyzeComponentFlow,
   emptyLoadout,
@@ -57,6 +60,76 @@ describe("loadout utilities", () => {
       expect(loadout.totalCost).toBe(0);
       expect(loadout.components).toHaveLength(0);
     });
+
+    it("counts neutral item stats but not cost", () => {
+      const neutral = { ...perfectRecoveryItem, name: "neutral", cost: 0, components: [], neutralTier: 1 };
+      const valuation = { strength: 50, agility: 50 };
+
+      const withNeutral = createLoadout([perfectRecoveryItem, neutral], repo, valuation);
+      const without = createLoadout([perfectRecoveryItem], repo, valuation);
+
+      expect(withNeutral.neutral).toBe(neutral);
+      expect(withNeutral.items).toEqual([perfectRecoveryItem]);
+      expect(withNeutral.totalCost).toBe(without.totalCost);
+      expect(withNeutral.totalStatValue).toBeCloseTo(without.totalStatValue * 2);
+    });
+  });
+
+  describe("allocateItemsToSlots", () => {
+    it("keeps the highest-tier neutral item out of inventory", () => {
+      const tier1 = { ...perfectRecoveryItem, name: "tier1", cost: 0, neutralTier: 1 };
+      const tier3 = { ...tier1, name: "tier3", neutralTier: 3 };
+
+      const slots = allocateItemsToSlots([tier1, goodRecoveryItem, tier3], { inventorySlots: 1, backpackSlots: 0 });
+      expect(slots.inventory).toEqual([goodRecoveryItem]);
+      expect(slots.sold).toHaveLength(0);
+      expect(slots.neutral).toBe(tier3);
+    });
+  });
+
+  describe("selectNeutralItem", () => {
+    it("picks the most valuable neutral item of the tier", () => {
+      const small = { ...perfectRecoveryItem, name: "small", cost: 0, stats: { strength: 2 }, neutralTier: 2 };
+      const big = { ...small, name: "big", stats: { strength: 5 } };
+      const otherTier = { ...small, name: "other", stats: { strength: 9 }, neutralTier: 3 };
+
+      expect(selectNeutralItem([small, big, otherTier], 2, { strength: 50 })).toBe(big);
+      expect(selectNeutralItem([small, big], 4, { strength: 50 })).toBeUndefined();
+    });
+  });
+
+  describe("calculateItemsStatValue", () => {
+    it("counts percentage and conditional bonuses for the holder", () => {
+      const vladmirLike = {
+        ...perfectRecoveryItem,
+        stats: {},
+        auraPercentStats: { baseDamage: 20 },
+        conditionalStats: [{ stats: { damage: 10 }, condition: "test", aura: true }],
+      };
+
+      // 20% of 60 base damage + 10 damage at 50% uptime = 17 damage, aura counted once
+      const value = calculateItemsStatValue([vladmirLike], { damage: 10 }, { heroBaseDamage: 60, conditionalUptime: 0.5 });
+      expect(value).toBeCloseTo(170);
+    });
+
+    it("scales every kind of aura by the aura multiplier", () => {
+      const auraItem = {
+        ...perfectRecoveryItem,
+        stats: { armor: 1 },
+        auraStats: { armor: 2 },
+        auraPercentStats: { baseDamage: 10 },
+        conditionalStats: [{ stats: { armor: 4 }, condition: "test", aura: true, uptime: 0.5 }],
+      };
+      const valuation = { armor: 50, damage: 10 };
+      const options = { heroBaseDamage: 60 };
+
+      // Holder only: 1 + 2 + 2 armor, 6 damage
+      expect(calculateItemsStatValue([auraItem], valuation, options)).toBeCloseTo(5 * 50 + 6 * 10);
+      // Auras × 2.5: 1 + 5 + 5 armor, 15 damage
+      expect(calculateItemsStatValue([auraItem], valuation, { ...options, auraMultiplier: 2.5 })).toBeCloseTo(
+        11 * 50 + 15 * 10
+      );
+    });
   });
 
   describe("emptyLoadout", () => {
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "bun:test";
+import {
+  dominates,
+  getItemParetoFrontier,
+  getLoadoutParetoFrontier,
+  itemParetoPoints,
+  paretoFrontier,
+  paretoLayers,
+  ParetoPoint,
+} from "../calculators/pareto";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { formatDominatedItemsTable, formatLoadoutParetoTable, formatParetoFrontierTable } from "../output/pareto";
+import { StatValuation } from "../models/types";
+import { item } from "./fixtures";
+
+const point = (name: string, cost: number, statValue: number, utilityValue = 0): ParetoPoint<string> => ({
+  candidate: name,
+  cost,
+  statValue,
+  utilityValue,
+});
+
+const valuation = { armor: 50, damage: 25, strength: 50 } as StatValuation;
+
+describe("dominates", () => {
+  it("needs no worse on every axis and better on one", () => {
+    expect(dominates(point("a", 100, 200), point("b", 150, 200))).toBe(true);
+    expect(dominates(point("a", 100, 200), point("b", 100, 150))).toBe(true);
+    expect(dominates(point("a", 100, 200), point("b", 100, 200, 50))).toBe(false);
+    expect(dominates(point("a", 100, 200), point("b", 100, 200))).toBe(false);
+    expect(dominates(point("a", 100, 200), point("b", 300, 500))).toBe(false);
+  });
+});
+
+describe("paretoFrontier", () => {
+  it("keeps cheap options that a value score would bury", () => {
+    const { frontier, dominated } = paretoFrontier([
+      point("cheap", 100, 120),
+      point("big", 1000, 2000),
+      point("middling", 500, 400),
+      point("worse", 600, 300),
+      point("utility", 900, 0, 1500),
+    ]);
+
+    expect(frontier.map((p) => p.candidate)).toEqual(["cheap", "middling", "utility", "big"]);
+    expect(dominated.map((d) => [d.point.candidate, d.dominatedBy.candidate])).toEqual([["worse", "middling"]]);
+  });
+
+  it("names the cheapest frontier option that dominates", () => {
+    const { dominated } = paretoFrontier([point("a", 100, 500), point("b", 200, 600), point("c", 300, 400)]);
+
+    expect(dominated[0].dominatedBy.candidate).toBe("a");
+    expect(paretoFrontier([point("a", 100, 500), point("c", 300, 400)], false).dominated).toEqual([]);
+  });
+
+  it("peels successive layers", () => {
+    const layers = paretoLayers([point("a", 100, 500), point("b", 200, 400), point("c", 300, 300), point("d", 50, 100)], 2);
+
+    expect(layers.map((layer) => layer.map((p) => p.candidate))).toEqual([["d", "a"], ["b"]]);
+  });
+});
+
+describe("getItemParetoFrontier", () => {
+  const plate = item("plate", 1000, { armor: 10 });
+  const chainmail = item("chainmail", 1100, { armor: 8 });
+  const blink = item("blink", 2250, {});
+  const empty = item("empty", 500, {});
+
+  it("places items by cost, stat value and utility value", () => {
+    const { frontier, dominated } = getItemParetoFrontier([plate, chainmail, blink, empty], valuation);
+
+    expect(frontier.map((p) => [p.candidate.name, p.statValue, p.utilityValue])).toEqual([
+      ["plate", 500, 0],
+      ["blink", 0, 1500],
+    ]);
+    expect(dominated.map((d) => [d.point.candidate.name, d.dominatedBy.candidate.name])).toEqual([["chainmail", "plate"]]);
+  });
+
+  it("formats the frontier and dominated tables", () => {
+    const { frontier, dominated } = getItemParetoFrontier([plate, chainmail, blink], valuation);
+
+    expect(formatParetoFrontierTable(frontier)).toMatch(/│ plate\s+│\s+1000 │\s+500 │\s+0 │\s+0\.50 │/);
+    expect(formatDominatedItemsTable(dominated)).toMatch(/│ chainmail\s+│\s+1100 │\s+400 │\s+0 │ plate\s+│\s+1000 │/);
+  });
+});
+
+describe("getLoadoutParetoFrontier", () => {
+  const items = [
+    item("plate", 1000, { armor: 10 }),
+    item("sword", 1000, { damage: 20 }),
+    item("belt", 450, { strength: 6 }),
+    item("weak_belt", 500, { strength: 4 }),
+    item("boots", 500, { moveSpeed: 45 }),
+  ];
+
+  it("finds non-dominated pairs within the cost limit", () => {
+    const result = getLoadoutParetoFrontier(items, 2, valuation, { maxCost: 1500 });
+    const names = result.frontier.map((p) => p.candidate.map((i) => i.name).sort().join("+"));
+
+    // weak_belt + plate (1500g, 700) loses to belt + plate (1450g, 800); boots have no valued stats
+    expect(names.sort()).toEqual(["belt+plate", "belt+sword", "belt+weak_belt"]);
+    expect(result.frontier[0].cost).toBe(950);
+    expect(result.candidateCount).toBe(4);
+  });
+
+  it("skips loadouts with two items from a unique group", () => {
+    const blink = item("blink", 2250, {});
+    const swiftBlink = item("swift_blink", 6800, { agility: 25 });
+    const result = getLoadoutParetoFrontier([blink, swiftBlink, items[0]], 2, valuation, { config: DEFAULT_CONFIG });
+
+    expect(result.frontier.map((p) => p.candidate.map((i) => i.name).sort())).not.toContainEqual(["blink", "swift_blink"]);
+    expect(formatLoadoutParetoTable(result.frontier)).toContain("plate + blink");
+  });
+
+  it("values aura stats in loadouts as it does for single items", () => {
+    const buckler = item("buckler", 425, { armor: 2 }, [], { auraStats: { armor: 2 } });
+    const options = { auraMultiplier: 2.5 };
+    const [itemPoint] = itemParetoPoints([buckler], valuation, options);
+    const [loadoutPoint] = getLoadoutParetoFrontier([buckler], 1, valuation, options).frontier;
+
+    // 2 armor plus 2 × 2.5 aura armor at 50g
+    expect(itemPoint.statValue).toBe(350);
+    expect(loadoutPoint.statValue).toBe(itemPoint.statValue);
+  });
+
+  it("rejects empty loadouts", () => {
+    expect(() => getLoadoutParetoFrontier(items, 0, valuation)).toThrow("Loadout size must be at least 1");
+  });
+});
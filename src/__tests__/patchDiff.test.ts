@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Item } from "../models/types";
+import {
+  diffItems,
+  diffStatValuations,
+  diffEfficiencyRankings,
+  diffRecipeCosts,
+  diffItemSets,
+} from "../calculators/patchDiff";
+import {
+  defaultSnapshotTag,
+  listTaggedSnapshots,
+  loadTaggedSnapshot,
+  saveTaggedSnapshot,
+  validateSnapshotTag,
+} from "../data/snapshotStore";
+import { runPatchDiff } from "../cli/commands/patchDiff";
+import { mergeConfig } from "../config/analysisConfig";
+import {
+  strengthComponent,
+  agilityComponent,
+  intelligenceComponent,
+  perfectRecoveryItem,
+  goodRecoveryItem,
+  getMinimalTestItems,
+} from "./fixtures";
+
+function withChanges(item: Item, changes: Partial<Item>): Item {
+  return { ...item, ...changes };
+}
+
+describe("diffItems", () => {
+  it("reports no changes for identical sets", () => {
+    expect(diffItems(getMinimalTestItems(), getMinimalTestItems())).toEqual([]);
+  });
+
+  it("reports cost, stat, aura and component changes", () => {
+    const changed = withChanges(goodRecoveryItem, {
+      cost: 450,
+      stats: { strength: 3, intelligence: 2 },
+      auraStats: { armor: 1 },
+      components: ["strength_component", "agility_component"],
+    });
+
+    const [change] = diffItems([goodRecoveryItem], [changed]);
+    expect(change.kind).toBe("changed");
+    expect(change.oldCost).toBe(400);
+    expect(change.newCost).toBe(450);
+    expect(change.statChanges).toEqual([{ stat: "strength", oldValue: 2, newValue: 3, delta: 1 }]);
+    expect(change.auraStatChanges).toEqual([{ stat: "armor", oldValue: 0, newValue: 1, delta: 1 }]);
+    expect(change.componentsAdded).toEqual(["agility_component"]);
+    expect(change.componentsRemoved).toEqual(["intelligence_component"]);
+  });
+
+  it("reports added and removed items", () => {
+    const changes = diffItems([strengthComponent, agilityComponent], [strengthComponent, intelligenceComponent]);
+    expect(changes.map((c) => [c.kind, c.name])).toEqual([
+      ["added", "intelligence_component"],
+      ["removed", "agility_component"],
+    ]);
+  });
+});
+
+describe("diffStatValuations", () => {
+  it("reports relative baseline moves and new stats", () => {
+    const changes = diffStatValuations({ strength: 50, agility: 50 }, { strength: 40, agility: 50, armor: 100 });
+    expect(changes).toHaveLength(2);
+
+    const strength = changes.find((c) => c.stat === "strength")!;
+    expect(strength.percentChange).toBeCloseTo(-0.2);
+
+    const armor = changes.find((c) => c.stat === "armor")!;
+    expect(armor.oldGoldPerPoint).toBeUndefined();
+    expect(armor.newGoldPerPoint).toBe(100);
+  });
+});
+
+describe("diffEfficiencyRankings", () => {
+  it("reports items whose efficiency or rank moved", () => {
+    const oldItems = [strengthComponent, agilityComponent, intelligenceComponent, perfectRecoveryItem, goodRecoveryItem];
+    // Recipe cut makes Good Recovery Item more efficient
+    const newItems = oldItems.map((i) => (i === goodRecoveryItem ? withChanges(i, { cost: 150 }) : i));
+
+    const changes = diffEfficiencyRankings(oldItems, newItems);
+    const good = changes.find((c) => c.name === "good_recovery")!;
+    expect(good.oldEfficiency).toBeCloseTo(0.5);
+    expect(good.newEfficiency).toBeCloseTo(4 / 3);
+    expect([good.oldRank, good.newRank]).toEqual([5, 1]);
+  });
+
+  it("ignores rank shifts caused only by added items", () => {
+    const oldItems = [strengthComponent, agilityComponent, perfectRecoveryItem];
+    const better = withChanges(agilityComponent, { name: "cheap_agi", id: "cheap_agi", cost: 10, stats: { armor: 5 } });
+
+    expect(diffEfficiencyRankings(oldItems, [...oldItems, better])).toEqual([]);
+  });
+});
+
+describe("diffRecipeCosts", () => {
+  it("reports recipe cost changes for upgraded items", () => {
+    const oldItems = [strengthComponent, intelligenceComponent, goodRecoveryItem];
+    const newItems = [strengthComponent, intelligenceComponent, withChanges(goodRecoveryItem, { cost: 350 })];
+
+    expect(diffRecipeCosts(oldItems, newItems)).toEqual([
+      { name: "good_recovery", displayName: "Good Recovery Item", oldRecipeCost: 200, newRecipeCost: 150, delta: -50 },
+    ]);
+  });
+});
+
+describe("diffItemSets", () => {
+  it("picks up baseline changes from a cheaper single-stat item", () => {
+    const newItems = getMinimalTestItems().map((i) =>
+      i === strengthComponent ? withChanges(i, { cost: 80 }) : i
+    );
+
+    const diff = diffItemSets(getMinimalTestItems(), newItems);
+    expect(diff.itemChanges.map((c) => c.name)).toEqual(["strength_component"]);
+    expect(diff.valuationChanges.map((c) => c.stat)).toContain("strength");
+  });
+});
+
+describe("runPatchDiff", () => {
+  it("leaves out the config's excluded items", () => {
+    const newItems = getMinimalTestItems().map((i) =>
+      i === perfectRecoveryItem ? withChanges(i, { cost: 900 }) : i
+    );
+
+    expect(runPatchDiff(getMinimalTestItems(), newItems).diff.itemChanges.map((c) => c.name)).toEqual([
+      "perfect_recovery",
+    ]);
+    const config = mergeConfig({ excludedItems: ["perfect_recovery"] });
+    expect(runPatchDiff(getMinimalTestItems(), newItems, { config }).diff.itemChanges).toEqual([]);
+  });
+
+  it("values both snapshots with the given valuation", () => {
+    const oldItems = [strengthComponent, agilityComponent];
+    const newItems = [withChanges(strengthComponent, { cost: 90 }), agilityComponent];
+    // A hero profile that flips from agility to strength with the patch
+    const calculateValuation = (items: Item[]) =>
+      items.some((i) => i.name === "strength_component" && i.cost === 90)
+        ? { strength: 100, agility: 50 }
+        : { strength: 50, agility: 100 };
+
+    const { diff } = runPatchDiff(oldItems, newItems, { calculateValuation });
+    expect(diff.valuationChanges.map((c) => [c.stat, c.oldGoldPerPoint, c.newGoldPerPoint])).toEqual([
+      ["strength", 50, 100],
+      ["agility", 100, 50],
+    ]);
+    const str = diff.rankingChanges.find((c) => c.name === "strength_component")!;
+    expect([str.oldRank, str.newRank]).toEqual([2, 1]);
+  });
+});
+
+describe("snapshot store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("defaults tags to the current date", () => {
+    expect(defaultSnapshotTag(new Date("2024-06-01T12:00:00Z"))).toBe("2024-06-01");
+  });
+
+  it("rejects tags that are not safe file names", () => {
+    expect(validateSnapshotTag("7.37d")).toBe("7.37d");
+    expect(() => validateSnapshotTag("../etc")).toThrow("Invalid snapshot tag");
+  });
+
+  it("saves, lists and loads tagged snapshots", async () => {
+    await saveTaggedSnapshot([strengthComponent], "7.37d", { dir, generatedAt: new Date("2024-01-01") });
+    await saveTaggedSnapshot(getMinimalTestItems(), "7.38", { dir, generatedAt: new Date("2024-06-01") });
+
+    const list = await listTaggedSnapshots(dir);
+    expect(list.map((s) => [s.tag, s.itemCount])).toEqual([["7.37d", 1], ["7.38", 4]]);
+
+    const loaded = await loadTaggedSnapshot("7.37d", dir);
+    expect(loaded.file.patch).toBe("7.37d");
+    expect(loaded.file.items).toEqual([strengthComponent]);
+  });
+
+  it("loads snapshots by path", async () => {
+    const saved = await saveTaggedSnapshot([strengthComponent], "7.37d", { dir });
+    const loaded = await loadTaggedSnapshot(saved.path);
+    expect(loaded.tag).toBe("7.37d");
+  });
+
+  it("explains how to create a missing snapshot", async () => {
+    await expect(loadTaggedSnapshot("7.99", dir)).rejects.toThrow("snapshot save 7.99");
+    expect(await listTaggedSnapshots(join(dir, "missing"))).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  calculateRegressionStatValuation,
+  calculateValuationResiduals,
+  regressionItems,
+  solveNonNegativeLeastSquares,
+} from "../calculators/regressionValuation";
+import { isValuationMode } from "../calculators/statValuation";
+import { loadStatValuationFile, parseStatValuation } from "../config/statValuationFile";
+import { createContextFromItems } from "../cli/context";
+import { getAllTestItems, item } from "./fixtures";
+
+describe("solveNonNegativeLeastSquares", () => {
+  it("solves an exactly determined system", () => {
+    const x = solveNonNegativeLeastSquares([[1, 0], [0, 2], [1, 1]], [3, 8, 7]);
+
+    expect(x[0]).toBeCloseTo(3, 6);
+    expect(x[1]).toBeCloseTo(4, 6);
+  });
+
+  it("clamps coefficients that would go negative to zero", () => {
+    // Unconstrained fit is x = [2, -1]
+    const x = solveNonNegativeLeastSquares([[1, 0], [1, 1], [0, 1]], [2, 1, -1]);
+
+    expect(x[1]).toBe(0);
+    expect(x[0]).toBeCloseTo(1.5, 6);
+  });
+});
+
+describe("calculateRegressionStatValuation", () => {
+  it("recovers gold per point when item costs are consistent", () => {
+    const items = [
+      item("str", 100, { strength: 2 }),
+      item("dmg", 500, { damage: 10 }),
+      item("str_dmg", 600, { strength: 4, damage: 8 }),
+    ];
+
+    const { valuation, residuals } = calculateRegressionStatValuation(items);
+
+    expect(valuation.strength).toBeCloseTo(50, 4);
+    expect(valuation.damage).toBeCloseTo(50, 4);
+    for (const residual of residuals) {
+      expect(Math.abs(residual.residual)).toBeLessThan(0.01);
+    }
+  });
+
+  it("spreads an outlier across the fit instead of using the cheapest item", () => {
+    const items = [
+      item("cheap_armor", 100, { armor: 2 }),
+      item("armor", 300, { armor: 3 }),
+      item("plate", 500, { armor: 5 }),
+    ];
+
+    const { valuation, residuals } = calculateRegressionStatValuation(items);
+
+    // Baseline would use the cheapest item (50g per armor); the fit sits between
+    expect(valuation.armor!).toBeGreaterThan(50);
+    expect(valuation.armor!).toBeLessThan(100);
+    expect(residuals[residuals.length - 1].item.name).toBe("cheap_armor");
+  });
+
+  it("never returns negative gold per point by default", () => {
+    const items = [
+      item("a", 100, { strength: 2 }),
+      item("b", 100, { strength: 4, healthRegen: 1 }),
+    ];
+
+    const { valuation } = calculateRegressionStatValuation(items);
+    const unconstrained = calculateRegressionStatValuation(items, { nonNegative: false });
+
+    expect(valuation.healthRegen ?? 0).toBeGreaterThanOrEqual(0);
+    expect(unconstrained.valuation.healthRegen!).toBeLessThan(0);
+  });
+
+  it("weights items by how often they are bought", () => {
+    const items = [
+      item("popular", 100, { agility: 2 }),
+      item("rare", 300, { agility: 2 }),
+    ];
+
+    const even = calculateRegressionStatValuation(items);
+    const weighted = calculateRegressionStatValuation(items, { itemWeights: { popular: 9, rare: 1 } });
+
+    expect(even.valuation.agility).toBeCloseTo(100, 4);
+    expect(weighted.valuation.agility).toBeCloseTo(60, 4);
+  });
+
+  it("only fits priced, non-consumable, purchasable components", () => {
+    const items = [
+      item("str", 100, { strength: 2 }),
+      item("potion", 50, { healthRegen: 10 }, [], { isConsumable: true }),
+      item("neutral", 0, { damage: 10 }, [], { neutralTier: 1 }),
+      item("finished", 5000, { strength: 10 }, [], { isComponent: false }),
+    ];
+
+    expect(regressionItems(items).map((item) => item.name)).toEqual(["str"]);
+    const { valuation } = calculateRegressionStatValuation(items);
+    expect(Object.keys(valuation)).toEqual(["strength"]);
+    expect(valuation.strength).toBeCloseTo(50, 4);
+  });
+
+  it("returns an empty valuation without items to fit", () => {
+    expect(calculateRegressionStatValuation([])).toEqual({ valuation: {}, residuals: [] });
+  });
+});
+
+describe("calculateValuationResiduals", () => {
+  it("sorts items from most overpriced to most underpriced", () => {
+    const items = [
+      item("fair", 100, { strength: 2 }),
+      item("overpriced", 300, { strength: 2 }),
+      item("underpriced", 50, { strength: 2 }),
+    ];
+
+    const residuals = calculateValuationResiduals(items, { strength: 50 });
+
+    expect(residuals.map((r) => r.item.name)).toEqual(["overpriced", "fair", "underpriced"]);
+    expect(residuals[0].residual).toBe(200);
+    expect(residuals[0].predictedCost).toBe(100);
+    expect(residuals[2].ratio).toBe(2);
+  });
+});
+
+describe("parseStatValuation", () => {
+  it("accepts gold per point by stat", () => {
+    expect(parseStatValuation({ agility: 60, attackSpeed: 30 })).toEqual({ agility: 60, attackSpeed: 30 });
+  });
+
+  it("rejects unknown stats and invalid values", () => {
+    expect(() => parseStatValuation({ agi: 60 })).toThrow(/Unknown stat "agi"/);
+    expect(() => parseStatValuation({ agility: -1 })).toThrow(/agility must be a non-negative number/);
+    expect(() => parseStatValuation([1, 2])).toThrow(/must be an object/);
+  });
+});
+
+describe("loadStatValuationFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-valuation-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads JSON and YAML files", async () => {
+    await writeFile(join(dir, "gyro.json"), JSON.stringify({ agility: 60 }));
+    await writeFile(join(dir, "gyro.yaml"), "agility: 60\nattackSpeed: 30\n");
+
+    expect(await loadStatValuationFile(join(dir, "gyro.json"))).toEqual({ agility: 60 });
+    expect(await loadStatValuationFile(join(dir, "gyro.yaml"))).toEqual({ agility: 60, attackSpeed: 30 });
+  });
+
+  it("names the file in validation errors", async () => {
+    const path = join(dir, "bad.json");
+    await writeFile(path, JSON.stringify({ agi: 60 }));
+
+    await expect(loadStatValuationFile(path)).rejects.toThrow(path);
+  });
+});
+
+describe("valuation modes in the CLI context", () => {
+  it("recognizes valuation modes", () => {
+    expect(isValuationMode("regression")).toBe(true);
+    expect(isValuationMode("lsq")).toBe(false);
+  });
+
+  it("defaults to the baseline valuation without residuals", () => {
+    const ctx = createContextFromItems(getAllTestItems());
+
+    expect(ctx.valuationMode).toBe("baseline");
+    expect(ctx.valuationResiduals).toBeUndefined();
+  });
+
+  it("fits the regression valuation and keeps its residuals", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { valuation: "regression" });
+
+    expect(ctx.valuationMode).toBe("regression");
+    expect(ctx.statValuation.strength).toBeGreaterThan(0);
+    expect(ctx.valuationResiduals!.length).toBeGreaterThan(0);
+  });
+
+  it("overlays custom values on the baseline", () => {
+    const baseline = createContextFromItems(getAllTestItems());
+    const ctx = createContextFromItems(getAllTestItems(), {
+      valuation: "custom",
+      customValuation: { strength: 80 },
+    });
+
+    expect(ctx.statValuation.strength).toBe(80);
+    expect(ctx.statValuation.armor).toBe(baseline.statValuation.armor);
+  });
+
+  it("requires a custom valuation for the custom mode", () => {
+    expect(() => createContextFromItems(getAllTestItems(), { valuation: "custom" })).toThrow(/--valuation-file/);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  analyzeRobustItemRanking,
+  analyzeRobustProgression,
+  createRng,
+  sampleDistribution,
+  sampleValuation,
+} from "../calculators/robustRanking";
+import { calculateStatValuation } from "../calculators/statValuation";
+import { UtilityCategory } from "../calculators/utility";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { loadValuationUncertainty, parseValuationUncertainty } from "../config/uncertaintyFile";
+import { formatRobustItemTable, formatRobustPicks, formatRobustProgressionTable } from "../output/robustRanking";
+import { StatValuation } from "../models/types";
+import { getAllTestItems, item } from "./fixtures";
+
+// Plate (0.5 gold per gold) beats sword (0.48) at the point estimate,
+// but armor's uncertain value is usually below the 48 where they tie
+const plate = item("plate", 1000, { armor: 10 });
+const sword = item("sword", 1000, { damage: 20 });
+const valuation = { armor: 50, damage: 24 } as StatValuation;
+
+describe("createRng", () => {
+  it("repeats the same sequence for a seed", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const draws = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(draws);
+    expect(createRng(43)()).not.toBe(draws[0]);
+    expect(draws.every((d) => d >= 0 && d < 1)).toBe(true);
+  });
+});
+
+describe("sampleDistribution", () => {
+  const rng = createRng(1);
+  const draws = (distribution: Parameters<typeof sampleDistribution>[0], current = 100) =>
+    Array.from({ length: 2000 }, () => sampleDistribution(distribution, current, rng));
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  it("centres distributions on the current value", () => {
+    expect(draws({ type: "fixed" })).toEqual(new Array(2000).fill(100));
+    expect(mean(draws({ type: "normal", spread: 0.1 }))).toBeCloseTo(100, -1);
+    expect(mean(draws({ type: "uniform", spread: 0.5 }))).toBeCloseTo(100, -1);
+  });
+
+  it("keeps draws within bounds and non-negative", () => {
+    const uniform = draws({ type: "uniform", min: 40, max: 70 });
+    expect(Math.min(...uniform)).toBeGreaterThanOrEqual(40);
+    expect(Math.max(...uniform)).toBeLessThan(70);
+
+    expect(Math.min(...draws({ type: "normal", sd: 200 }))).toBe(0);
+    expect(Math.min(...draws({ type: "lognormal", spread: 1 }))).toBeGreaterThan(0);
+    expect(draws({ type: "fixed", value: 7 })[0]).toBe(7);
+  });
+});
+
+describe("sampleValuation", () => {
+  it("uses per-input distributions over the default", () => {
+    const sample = sampleValuation(
+      {
+        default: { type: "fixed", value: 1 },
+        stats: { armor: { type: "fixed", value: 60 } },
+        utility: { [UtilityCategory.Save]: { type: "fixed", value: 900 } },
+        auraMultiplier: { type: "fixed", value: 2 },
+      },
+      { statValuation: valuation, auraMultiplier: 1 },
+      createRng(1)
+    );
+
+    expect(sample.statValuation).toEqual({ armor: 60, damage: 1 } as StatValuation);
+    expect(sample.utilityProfile?.categoryValues?.save).toBe(900);
+    expect(sample.utilityProfile?.categoryValues?.mobility).toBe(1);
+    expect(sample.auraMultiplier).toBe(2);
+  });
+
+  it("leaves inputs without a distribution unchanged", () => {
+    const utilityProfile = { categoryValues: { [UtilityCategory.Save]: 2000 } };
+    const sample = sampleValuation({}, { statValuation: valuation, utilityProfile, auraMultiplier: 1.5 }, createRng(1));
+
+    expect(sample.statValuation).toEqual(valuation);
+    expect(sample.utilityProfile?.categoryValues).toEqual({ save: 2000 });
+    expect(sample.auraMultiplier).toBe(1.5);
+  });
+});
+
+describe("analyzeRobustItemRanking", () => {
+  const uncertainty = { stats: { armor: { type: "lognormal" as const, median: 40, spread: 0.5 } } };
+
+  it("separates the point estimate pick from the robust pick", () => {
+    const result = analyzeRobustItemRanking([plate, sword], valuation, { uncertainty, samples: 2000, topK: 1 });
+
+    expect(result.pointPick.item.name).toBe("plate");
+    expect(result.robustPick.item.name).toBe("sword");
+    // P(armor > 48) = P(z > ln(1.2) / 0.5) ≈ 0.36
+    expect(result.pointPick.statistics.topProbability).toBeCloseTo(0.36, 1);
+    expect(result.robustPick.statistics.expectedRank).toBeLessThan(result.pointPick.statistics.expectedRank);
+    expect(result.pointPick.statistics.rankVariance).toBeGreaterThan(0);
+  });
+
+  it("is reproducible for a seed", () => {
+    const run = (seed: number) =>
+      analyzeRobustItemRanking(getAllTestItems(), calculateStatValuation(getAllTestItems()), {
+        uncertainty: { default: { type: "normal", spread: 0.3 } },
+        samples: 100,
+        seed,
+      }).items.map((r) => [r.item.name, r.statistics.expectedRank]);
+
+    expect(run(5)).toEqual(run(5));
+    expect(run(5)).not.toEqual(run(6));
+  });
+
+  it("matches the point ranking without uncertainty", () => {
+    const result = analyzeRobustItemRanking([sword, plate], valuation, { uncertainty: {}, samples: 10, topK: 1 });
+
+    expect(result.items.map((r) => r.statistics)).toEqual([
+      { pointRank: 1, expectedRank: 1, rankVariance: 0, bestRank: 1, worstRank: 1, topKProbability: 1, topProbability: 1 },
+      { pointRank: 2, expectedRank: 2, rankVariance: 0, bestRank: 2, worstRank: 2, topKProbability: 0, topProbability: 0 },
+    ]);
+    expect(formatRobustPicks(result)).toContain("The point estimate pick is also the robust pick.");
+  });
+
+  it("formats the picks and table", () => {
+    const result = analyzeRobustItemRanking([plate, sword], valuation, { uncertainty, samples: 200, topK: 1 });
+
+    expect(formatRobustPicks(result)).toMatch(/Point-estimate pick: plate \(top 1 in \d+\.\d% of draws/);
+    expect(formatRobustPicks(result)).toMatch(/Robust pick: +sword/);
+    const table = formatRobustItemTable(result.items, 1);
+    expect(table).toContain("P(Top 1)");
+    expect(table).toMatch(/│ sword\s+│\s+0\.480 │\s+2 │/);
+  });
+});
+
+describe("analyzeRobustProgression", () => {
+  const items = getAllTestItems();
+  const progressionOptions = {
+    stages: [{ maxCost: 500 }, { maxCost: 1000 }],
+    defaultItemCount: 2,
+    beamWidth: 10,
+    statValuation: calculateStatValuation(items),
+  };
+
+  it("ranks progressions found across draws", () => {
+    const options = { uncertainty: { default: { type: "normal" as const, spread: 0.5 } }, samples: 8, topK: 2, depth: 3 };
+    const result = analyzeRobustProgression(items, DEFAULT_CONFIG, progressionOptions, options);
+
+    expect(result.depth).toBe(3);
+    expect(result.pointPick?.statistics.pointRank).toBe(1);
+    expect(result.robustPick).toBe(result.sequences[0]);
+    for (const { statistics } of result.sequences) {
+      expect(statistics.expectedRank).toBeGreaterThanOrEqual(1);
+      expect(statistics.expectedRank).toBeLessThanOrEqual(4);
+    }
+
+    const again = analyzeRobustProgression(items, DEFAULT_CONFIG, progressionOptions, options);
+    expect(again.sequences.map((s) => s.statistics)).toEqual(result.sequences.map((s) => s.statistics));
+
+    const table = formatRobustProgressionTable(result.sequences, result.topK, result.depth);
+    expect(table).toContain("Progressions missing from a run's top 3 count as rank 4");
+    expect(table).toContain("  1. ");
+  });
+
+  it("keeps the point estimate pick on top without uncertainty", () => {
+    const result = analyzeRobustProgression(items, DEFAULT_CONFIG, progressionOptions, { uncertainty: {}, samples: 2 });
+
+    expect(result.robustPick).toBe(result.pointPick);
+    expect(result.robustPick?.statistics.topProbability).toBe(1);
+  });
+});
+
+describe("parseValuationUncertainty", () => {
+  it("accepts default, stat, utility and aura multiplier distributions", () => {
+    const uncertainty = parseValuationUncertainty({
+      default: { type: "lognormal", spread: 0.15 },
+      stats: { agility: { type: "uniform", min: 40, max: 70 } },
+      utility: { mobility: { type: "normal", spread: 0.4 } },
+      auraMultiplier: { type: "uniform", min: 1, max: 3 },
+    });
+
+    expect(uncertainty.stats?.agility).toEqual({ type: "uniform", min: 40, max: 70 });
+    expect(uncertainty.utility?.mobility).toEqual({ type: "normal", spread: 0.4 });
+    expect(uncertainty.auraMultiplier?.type).toBe("uniform");
+  });
+
+  it("rejects invalid distributions", () => {
+    expect(() => parseValuationUncertainty({ spread: 0.2 })).toThrow(/Unknown valuation uncertainty field "spread"/);
+    expect(() => parseValuationUncertainty({ default: { type: "beta" } })).toThrow(/default: Unknown distribution type "beta"/);
+    expect(() => parseValuationUncertainty({ default: { type: "normal" } })).toThrow(/needs sd or spread/);
+    expect(() => parseValuationUncertainty({ stats: { agi: { type: "fixed" } } })).toThrow(/unknown stat "agi"/);
+    expect(() => parseValuationUncertainty({ stats: { agility: { type: "uniform", min: 70, max: 40 } } })).toThrow(
+      /stats.agility: uniform distribution min is above max/
+    );
+    expect(() => parseValuationUncertainty({ utility: { save: { type: "lognormal", spread: -1 } } })).toThrow(
+      /spread must be a non-negative number/
+    );
+    expect(() => parseValuationUncertainty({ default: { type: "fixed", sd: 1 } })).toThrow(/Unknown fixed distribution field "sd"/);
+  });
+});
+
+describe("loadValuationUncertainty", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "uncertainty-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads YAML and reports the file on errors", async () => {
+    const path = join(dir, "uncertainty.yaml");
+    await writeFile(path, "default: { type: normal, spread: 0.3 }\nstats:\n  armor: { type: fixed, value: 80 }\n");
+    expect(await loadValuationUncertainty(path)).toEqual({
+      default: { type: "normal", spread: 0.3 },
+      stats: { armor: { type: "fixed", value: 80 } },
+    });
+
+    const bad = join(dir, "bad.json");
+    await writeFile(bad, JSON.stringify({ stats: { armor: { type: "uniform" } } }));
+    await expect(loadValuationUncertainty(bad)).rejects.toThrow(`${bad}: stats.armor: uniform distribution needs min and max, or spread`);
+  });
+});
@@ -824,6 +824,13 @@ describe("scorers", () => {
         
         expect(scorer(doubleUtility)).toBeGreaterThan(scorer(singleUtility));
       });
+
+      it("uses the utility profile when given", () => {
+        const t = createTransition([medallionItem], [expensiveItem]);
+        const scorer = earlyUtilityScore(3000, { itemOverrides: { [medallionItem.name]: 1500 } });
+
+        expect(scorer(t)).toBeCloseTo(0.5);
+      });
     });
   });
 
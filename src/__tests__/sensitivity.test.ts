@@ -0,0 +1,144 @@
+import { describe, it, expect } from "bun:test";
+import {
+  analyzeEfficiencySensitivity,
+  analyzeProgressionSensitivity,
+  perturbValuation,
+  selectSensitivityParameters,
+  sensitivityParameters,
+  sequenceKey,
+} from "../calculators/sensitivity";
+import { calculateStatValuation } from "../calculators/statValuation";
+import { UTILITY_VALUES, UtilityCategory } from "../calculators/utility";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import {
+  formatItemStability,
+  formatParameterSensitivity,
+  formatProgressionSensitivity,
+} from "../output/sensitivity";
+import { StatValuation } from "../models/types";
+import { getAllTestItems, item } from "./fixtures";
+
+// Plate is worth 0.5 gold per gold and sword 0.4, so plate stays on top
+// until armor drops to 40 (-20%) or damage rises to 25 (+25%)
+const plate = item("plate", 1000, { armor: 10 });
+const sword = item("sword", 1000, { damage: 20 });
+const valuation = { armor: 50, damage: 20 } as StatValuation;
+
+describe("sensitivityParameters", () => {
+  it("lists valued stats and every utility category", () => {
+    const parameters = sensitivityParameters({ armor: 50, damage: 0 } as StatValuation, {
+      categoryValues: { [UtilityCategory.Save]: 2000 },
+    });
+
+    expect(parameters.filter((p) => p.kind === "stat").map((p) => p.name)).toEqual(["armor"]);
+    expect(parameters.find((p) => p.name === "utility.save")?.baseValue).toBe(2000);
+    expect(parameters.find((p) => p.name === "utility.mobility")?.baseValue).toBe(UTILITY_VALUES[UtilityCategory.Mobility]);
+    expect(sensitivityParameters(valuation, undefined, false).every((p) => p.kind === "stat")).toBe(true);
+  });
+
+  it("selects by name or bare utility category", () => {
+    const parameters = sensitivityParameters(valuation);
+
+    expect(selectSensitivityParameters(parameters, ["damage", "mobility"]).map((p) => p.name)).toEqual([
+      "damage",
+      "utility.mobility",
+    ]);
+    expect(() => selectSensitivityParameters(parameters, ["armour"])).toThrow(/Unknown sensitivity parameter "armour"/);
+  });
+});
+
+describe("perturbValuation", () => {
+  it("replaces one stat or utility value", () => {
+    const [armor] = sensitivityParameters(valuation, undefined, false);
+    const mobility = selectSensitivityParameters(sensitivityParameters(valuation), ["mobility"])[0];
+
+    expect(perturbValuation(armor, 60, valuation).statValuation).toEqual({ armor: 60, damage: 20 } as StatValuation);
+    expect(perturbValuation(mobility, 900, valuation).utilityProfile?.categoryValues).toEqual({ mobility: 900 });
+    expect(valuation.armor).toBe(50);
+  });
+});
+
+describe("analyzeEfficiencySensitivity", () => {
+  const parameters = sensitivityParameters(valuation, undefined, false);
+
+  it("finds the values where the top item flips", () => {
+    const result = analyzeEfficiencySensitivity([plate, sword], valuation, { parameters, topCount: 1 });
+    const [armor, damage] = result.parameters;
+
+    expect(armor.lowerBreakEven?.value).toBeCloseTo(40, 6);
+    expect(armor.lowerBreakEven?.percentChange).toBeCloseTo(-0.2, 6);
+    expect(armor.lowerBreakEven?.item.name).toBe("sword");
+    expect(armor.upperBreakEven).toBeUndefined();
+    expect(damage.upperBreakEven?.value).toBeCloseTo(25, 6);
+    expect(damage.lowerBreakEven).toBeUndefined();
+  });
+
+  it("reports the top item and stability at ±percent", () => {
+    const narrow = analyzeEfficiencySensitivity([plate, sword], valuation, { parameters, topCount: 1, percent: 10 });
+    expect(narrow.items[0]).toMatchObject({ rank: 1, bestRank: 1, worstRank: 1, stable: true });
+    expect(narrow.parameters.every((p) => p.droppedItems.length === 0)).toBe(true);
+
+    const wide = analyzeEfficiencySensitivity([plate, sword], valuation, { parameters, topCount: 1, percent: 30 });
+    expect(wide.items[0]).toMatchObject({ worstRank: 2, stable: false });
+    expect(wide.parameters[0].lowTop.name).toBe("sword");
+    expect(wide.parameters[0].highTop.name).toBe("plate");
+    expect(wide.parameters[0].droppedItems.map((i) => i.name)).toEqual(["plate"]);
+  });
+
+  it("moves utility items with their category value", () => {
+    const blink = item("blink", 2250, {});
+    const mobility = selectSensitivityParameters(sensitivityParameters(valuation), ["mobility"]);
+    const result = analyzeEfficiencySensitivity([plate, blink], valuation, { parameters: mobility, topCount: 1 });
+
+    // Blink is worth 1500 / 2250 = 0.667, and falls below plate's 0.5 at 1125
+    expect(result.items[0].item.name).toBe("blink");
+    expect(result.parameters[0].lowerBreakEven?.value).toBeCloseTo(1125, 6);
+  });
+
+  it("formats stability and parameter tables", () => {
+    const result = analyzeEfficiencySensitivity([plate, sword], valuation, { parameters, topCount: 1, percent: 30 });
+
+    expect(formatItemStability(result.items)).toMatch(/│\s+1 │ plate\s+│\s+0\.500 │\s+1-2 │\s+no │/);
+    const table = formatParameterSensitivity(result.parameters, 30);
+    expect(table).toContain("-30% Top");
+    expect(table).toContain("40 (-20%)");
+    expect(table).toContain("armor: plate leaves the top at ±30%");
+  });
+});
+
+describe("analyzeProgressionSensitivity", () => {
+  const items = getAllTestItems();
+  const statValuation = calculateStatValuation(items);
+  const progressionOptions = {
+    stages: [{ maxCost: 500 }, { maxCost: 1000 }],
+    defaultItemCount: 2,
+    beamWidth: 10,
+    statValuation,
+  };
+
+  it("marks parameters stable when small changes keep the top progression", () => {
+    const parameters = selectSensitivityParameters(sensitivityParameters(statValuation), ["strength", "armor"]);
+    const result = analyzeProgressionSensitivity(items, DEFAULT_CONFIG, progressionOptions, { percent: 1, parameters });
+
+    expect(result.baseline).toBeDefined();
+    expect(result.parameters).toHaveLength(2);
+    for (const p of result.parameters) {
+      expect(p.stable).toBe(true);
+      expect(sequenceKey(p.lowTop)).toBe(sequenceKey(result.baseline));
+      expect(p.lowerBreakEven).toBeUndefined();
+    }
+    expect(formatProgressionSensitivity(result)).toContain("Stable under 2 of 2 parameters at ±1%");
+  });
+
+  it("locates where a large change flips the top progression", () => {
+    const parameters = selectSensitivityParameters(sensitivityParameters(statValuation), ["armor"]);
+    const result = analyzeProgressionSensitivity(items, DEFAULT_CONFIG, progressionOptions, { percent: 95, parameters });
+    const [armor] = result.parameters;
+
+    expect(armor.stable).toBe(false);
+    const flip = armor.lowerBreakEven ?? armor.upperBreakEven!;
+    expect(flip).toBeGreaterThan(armor.parameter.baseValue * 0.05);
+    expect(flip).toBeLessThan(armor.parameter.baseValue * 1.95);
+    expect(flip).not.toBe(armor.parameter.baseValue);
+  });
+});
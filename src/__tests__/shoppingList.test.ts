@@ -0,0 +1,134 @@
+import { describe, it, expect } from "bun:test";
+import { planShoppingList } from "../calculators/shoppingList";
+import { analyzeComponentFlow, createLoadout, emptyLoadout } from "../calculators/loadout";
+import { ItemRepository } from "../data/ItemRepository";
+import { formatShoppingList } from "../output/shoppingList";
+import { StatValuation } from "../models/types";
+import { item } from "./fixtures";
+
+const ring = item("ring", 175, { armor: 2 });
+const hat = item("hat", 250, { health: 125 });
+const booster = item("booster", 800, { mana: 250 });
+const crown = item("crown", 450, { strength: 4 });
+const branch = item("branch", 50, { strength: 1 });
+// Recipes: pavise 175, crest 675
+const pavise = item("pavise", 1400, { armor: 5, health: 175, mana: 250 }, ["ring", "hat", "booster"]);
+const crest = item("crest", 1300, { armor: 7, strength: 6 }, ["ring", "crown"]);
+
+const repo = new ItemRepository([ring, hat, booster, crown, branch, pavise, crest]);
+const valuation = { armor: 50, health: 2, mana: 1, strength: 40 } as StatValuation;
+
+const actions = (list: ReturnType<typeof planShoppingList>) =>
+  list.steps.map((step) => `${step.action} ${step.item.name}`);
+
+describe("planShoppingList", () => {
+  it("buys components before assembling from an empty inventory", () => {
+    const list = planShoppingList(emptyLoadout(), createLoadout([pavise, branch], repo), repo, { statValuation: valuation });
+
+    expect(actions(list)).toEqual(["buy branch", "buy hat", "buy ring", "buy booster", "assemble pavise"]);
+    expect(list.steps.map((step) => step.gold)).toEqual([-50, -250, -175, -800, -175]);
+    expect(list.goldSpent).toBe(1450);
+    expect(list.goldNeeded).toBe(1450);
+    expect(list.steps[list.steps.length - 1].slotsUsed).toBe(2);
+  });
+
+  it("disassembles, sells recipes and reuses components", () => {
+    const from = createLoadout([pavise], repo);
+    const to = createLoadout([crest, hat, booster], repo);
+    const list = planShoppingList(from, to, repo, { statValuation: valuation });
+
+    expect(actions(list)).toEqual(["buy crown", "disassemble pavise", "sellRecipe pavise", "assemble crest"]);
+    expect(list.goldSpent).toBe(analyzeComponentFlow(from, to, repo).totalGoldNeeded);
+    expect(list.goldNeeded).toBe(950);
+    expect(list.steps.map((step) => step.slotsUsed)).toEqual([2, 4, 4, 3]);
+  });
+
+  it("leaves items in both loadouts alone", () => {
+    const list = planShoppingList(createLoadout([pavise], repo), createLoadout([pavise, branch], repo), repo);
+
+    expect(actions(list)).toEqual(["buy branch"]);
+    expect(planShoppingList(createLoadout([pavise], repo), createLoadout([pavise], repo), repo).steps).toEqual([]);
+  });
+
+  it("completes the targets with the most stat value per gold first", () => {
+    const list = planShoppingList(emptyLoadout(), createLoadout([booster, crown], repo), repo, { statValuation: valuation });
+
+    // crown: 160 value for 450g; booster: 250 for 800g
+    expect(actions(list)).toEqual(["buy crown", "buy booster"]);
+    expect(list.steps[0].statValue).toBe(160);
+  });
+
+  it("sells spare components to make room", () => {
+    const from = createLoadout([hat, booster, ring], repo);
+    const list = planShoppingList(from, createLoadout([crest], repo), repo, {
+      inventorySlots: 3,
+      backpackSlots: 0,
+      stashSlots: 0,
+    });
+
+    expect(actions(list)).toEqual(["sell hat", "buy crown", "assemble crest", "sell booster"]);
+    expect(list.steps[0].gold).toBe(125);
+    expect(list.peakSlots).toBe(3);
+  });
+
+  it("disassembles first when buying first would overflow", () => {
+    const list = planShoppingList(createLoadout([pavise], repo), createLoadout([crest], repo), repo, {
+      inventorySlots: 3,
+      backpackSlots: 0,
+      stashSlots: 0,
+    });
+
+    expect(actions(list)).toEqual([
+      "disassemble pavise",
+      "sellRecipe pavise",
+      "sell hat",
+      "buy crown",
+      "assemble crest",
+      "sell booster",
+    ]);
+    expect(list.peakSlots).toBe(3);
+    expect(list.feasible).toBe(true);
+  });
+
+  it("spends what the target loadout invests when it sells purchases back", () => {
+    const tight = { inventorySlots: 1, backpackSlots: 0 };
+    const to = createLoadout([crest, branch], repo, undefined, { ...tight, purchased: ["branch"] });
+    const list = planShoppingList(emptyLoadout(), to, repo, tight);
+
+    // The refunded branch costs nothing in either, so it's never bought
+    expect(to.refundedItems?.map((i) => i.name)).toEqual(["branch"]);
+    expect(actions(list)).toEqual(["buy ring", "buy crown", "assemble crest"]);
+    expect(to.totalInvestedCost).toBe(1300);
+    expect(list.goldSpent).toBe(1300);
+  });
+
+  it("marks the list infeasible when the stash can't hold the pieces", () => {
+    const list = planShoppingList(createLoadout([pavise], repo), createLoadout([crest], repo), repo, {
+      inventorySlots: 2,
+      backpackSlots: 0,
+      stashSlots: 0,
+    });
+
+    // Disassembling pavise alone takes three slots
+    expect(list.peakSlots).toBe(3);
+    expect(list.feasible).toBe(false);
+    expect(formatShoppingList(list)).toContain("⚠ Holds 3 items at once, more than the 2 inventory, backpack and stash slots");
+  });
+});
+
+describe("formatShoppingList", () => {
+  it("formats steps with gold spent and slots", () => {
+    const list = planShoppingList(createLoadout([pavise], repo), createLoadout([crest, hat, booster], repo), repo, {
+      statValuation: valuation,
+    });
+    const table = formatShoppingList(list);
+
+    expect(table).toMatch(/│\s+3 │ Sell recipe │ pavise\s+│\s+\+175 │\s+275 │/);
+    expect(table).toContain("│ Disassemble │");
+    expect(table).toContain("Gold to farm: 950g");
+    expect(formatShoppingList(planShoppingList(createLoadout([hat, booster, ring], repo), createLoadout([crest], repo), repo))).toContain(
+      "Gold to farm: 1125g (net 600g once done)"
+    );
+    expect(formatShoppingList({ steps: [], goldNeeded: 0, goldSpent: 0, capacity: 15, peakSlots: 1, feasible: true })).toContain("Nothing to buy");
+  });
+});
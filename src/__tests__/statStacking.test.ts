@@ -0,0 +1,77 @@
+import { describe, it, expect } from "bun:test";
+import { calculateEffectiveStats, stackMultiplicative } from "../calculators/statStacking";
+import { calculateItemsStatValue, createLoadout } from "../calculators/loadout";
+import { ItemRepository } from "../data/ItemRepository";
+import { basicBoots, fancyBoots, moveSpeedComponent, strengthComponent, item } from "./fixtures";
+
+const cloak = item("cloak", 800, { magicResistance: 15 });
+const hood = item("hood_of_defiance", 1500, { magicResistance: 18, healthRegen: 4 });
+const talisman = item("talisman_of_evasion", 1300, { evasion: 20 });
+const butterfly = item("butterfly", 5000, { evasion: 35, agility: 35 });
+
+describe("stackMultiplicative", () => {
+  it("combines percentages as 1 - product of (1 - p)", () => {
+    expect(stackMultiplicative([15, 15])).toBeCloseTo(27.75, 6);
+    expect(stackMultiplicative([20, 35])).toBeCloseTo(48, 6);
+  });
+
+  it("keeps a single percentage as is", () => {
+    expect(stackMultiplicative([25])).toBeCloseTo(25, 6);
+    expect(stackMultiplicative([])).toBe(0);
+  });
+});
+
+describe("calculateEffectiveStats", () => {
+  it("stacks evasion and magic resistance multiplicatively", () => {
+    const stats = calculateEffectiveStats([talisman, butterfly, cloak, hood]);
+
+    expect(stats.evasion).toBeCloseTo(48, 6);
+    expect(stats.magicResistance).toBeCloseTo(30.3, 6);
+    expect(stats.agility).toBe(35);
+    expect(stats.healthRegen).toBe(4);
+  });
+
+  it("counts only the fastest boots' movement speed", () => {
+    const stats = calculateEffectiveStats([basicBoots, fancyBoots, moveSpeedComponent]);
+
+    // arcane_boots 50 (boots 30 ignored) + 20 from a non-boot item
+    expect(stats.moveSpeed).toBe(70);
+    expect(stats.mana).toBe(100);
+  });
+
+  it("uses the given boot items", () => {
+    const stats = calculateEffectiveStats([basicBoots, fancyBoots], { bootItems: [] });
+
+    expect(stats.moveSpeed).toBe(80);
+  });
+
+  it("adds additive stats across items", () => {
+    expect(calculateEffectiveStats([strengthComponent, strengthComponent])).toEqual({ strength: 4 });
+  });
+});
+
+describe("loadout stat value with stacking", () => {
+  const valuation = { evasion: 60, magicResistance: 50, healthRegen: 100, agility: 50, moveSpeed: 10, mana: 3 };
+  const repo = new ItemRepository([cloak, hood, talisman, butterfly, basicBoots, fancyBoots]);
+
+  it("values a second magic resistance item below its standalone value", () => {
+    const separate = calculateItemsStatValue([cloak], valuation) + calculateItemsStatValue([hood], valuation);
+    const together = calculateItemsStatValue([cloak, hood], valuation);
+
+    expect(together).toBeLessThan(separate);
+    expect(together).toBeCloseTo(30.3 * 50 + 4 * 100, 6);
+  });
+
+  it("no longer overvalues loadouts with two evasion items", () => {
+    const loadout = createLoadout([talisman, butterfly], repo, valuation);
+
+    expect(loadout.totalStatValue).toBeCloseTo(48 * 60 + 35 * 50, 6);
+    expect(loadout.efficiency).toBeCloseTo(loadout.totalStatValue / 6300, 6);
+  });
+
+  it("doesn't count a second pair of boots' movement speed", () => {
+    const loadout = createLoadout([basicBoots, fancyBoots], repo, valuation);
+
+    expect(loadout.totalStatValue).toBeCloseTo(50 * 10 + 100 * 3, 6);
+  });
+});
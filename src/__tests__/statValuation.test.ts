@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { calculateStatValuation } from "../calculators/statValuation";
+import { calculateStatValuation, calculateEnemyStatValuation } from "../calculators/statValuation";
 import { Item } from "../models/types";
 import {
   strengthComponent,
@@ -220,3 +220,19 @@ describe("calculateStatValuation", () => {
     });
   });
 });
+
+describe("calculateEnemyStatValuation", () => {
+  it("values enemy reductions like the matching stats", () => {
+    expect(calculateEnemyStatValuation({ armor: 100, magicResistance: 40 })).toEqual({
+      armorReduction: 100,
+      magicResistanceReduction: 40,
+    });
+  });
+
+  it("applies the debuff multiplier and defaults missing stats to zero", () => {
+    expect(calculateEnemyStatValuation({ armor: 100 }, 0.5)).toEqual({
+      armorReduction: 50,
+      magicResistanceReduction: 0,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "bun:test";
+import {
+  DEFAULT_CONFIG,
+  findDuplicateUniqueGroups,
+  mergeConfig,
+  uniqueGroupIndex,
+} from "../config/analysisConfig";
+import { parseConfigFile } from "../config/configFile";
+import { noDuplicateUniqueItems as noDuplicateUniqueItemsFilter } from "../calculators/combinations";
+import { noDuplicateUniqueItems } from "../calculators/constraints";
+import { noDuplicateUniqueItemsInLoadout } from "../calculators/stageConstraints";
+import { allocateItemsToSlots, createLoadout, createTransition } from "../calculators/loadout";
+import { ItemRepository } from "../data/ItemRepository";
+import { item } from "./fixtures";
+
+const blink = item("blink", 2250);
+const swiftBlink = item("swift_blink", 6800, { agility: 25 });
+const sphere = item("sphere", 4600, { strength: 16 });
+const daedalus = item("greater_crit", 5100, { damage: 88 });
+
+describe("unique group helpers", () => {
+  const index = uniqueGroupIndex(DEFAULT_CONFIG.uniqueGroups);
+
+  it("maps items to their group", () => {
+    expect(index.get("overwhelming_blink")).toBe("blink");
+    expect(index.get("lotus_orb")).toBe("spellBlock");
+    expect(index.get("greater_crit")).toBeUndefined();
+  });
+
+  it("finds groups held more than once", () => {
+    expect(findDuplicateUniqueGroups(["blink", "swift_blink", "sphere"], index)).toEqual(["blink"]);
+    expect(findDuplicateUniqueGroups(["blink", "sphere", "greater_crit"], index)).toEqual([]);
+  });
+});
+
+describe("unique groups in config", () => {
+  it("adds config file groups to the defaults", () => {
+    const { config } = parseConfigFile({ uniqueGroups: { crit: ["lesser_crit", "greater_crit"] } });
+    const merged = mergeConfig(config);
+
+    expect(merged.uniqueGroups.crit).toEqual(["lesser_crit", "greater_crit"]);
+    expect(merged.uniqueGroups.blink).toEqual(DEFAULT_CONFIG.uniqueGroups.blink);
+  });
+
+  it("rejects groups that aren't lists of item names", () => {
+    expect(() => parseConfigFile({ uniqueGroups: ["blink"] })).toThrow(/uniqueGroups must be an object/);
+    expect(() => parseConfigFile({ uniqueGroups: { blink: "blink" } })).toThrow(
+      /uniqueGroups\.blink must be an array of item names/
+    );
+  });
+});
+
+describe("unique group filters and constraints", () => {
+  const repo = new ItemRepository([blink, swiftBlink, sphere, daedalus]);
+
+  it("rejects combinations with two blink daggers", () => {
+    const filter = noDuplicateUniqueItemsFilter(DEFAULT_CONFIG);
+
+    expect(filter([blink, swiftBlink])).toBe(false);
+    expect(filter([blink, sphere, daedalus])).toBe(true);
+  });
+
+  it("rejects loadouts and transitions with two items from a group", () => {
+    const twoBlinks = createLoadout([blink, swiftBlink], repo);
+    const oneBlink = createLoadout([swiftBlink, sphere], repo);
+
+    expect(noDuplicateUniqueItemsInLoadout(DEFAULT_CONFIG)(twoBlinks)).toBe(false);
+    expect(noDuplicateUniqueItemsInLoadout(DEFAULT_CONFIG)(oneBlink)).toBe(true);
+
+    const constraint = noDuplicateUniqueItems(DEFAULT_CONFIG);
+    expect(constraint(createTransition(createLoadout([blink], repo), twoBlinks, repo))).toBe(false);
+    expect(constraint(createTransition(createLoadout([blink], repo), oneBlink, repo))).toBe(true);
+  });
+
+  it("uses the configured groups", () => {
+    const config = mergeConfig({ uniqueGroups: { blink: [] } });
+
+    expect(noDuplicateUniqueItemsFilter(config)([blink, swiftBlink])).toBe(true);
+  });
+});
+
+describe("allocateItemsToSlots with unique groups", () => {
+  it("keeps only the first item of a group in the inventory", () => {
+    const wand = item("magic_wand", 450);
+    const { inventory, backpack } = allocateItemsToSlots([blink, swiftBlink, wand], { inventorySlots: 2 });
+
+    expect(inventory.map((i) => i.name)).toEqual(["swift_blink", "magic_wand"]);
+    expect(backpack.map((i) => i.name)).toEqual(["blink"]);
+  });
+
+  it("doesn't value a second item from the same group", () => {
+    const overwhelmingBlink = item("overwhelming_blink", 6800, { strength: 20 });
+    const items = [swiftBlink, overwhelmingBlink, sphere];
+    const valuation = { agility: 100, strength: 100 };
+    const repo = new ItemRepository(items);
+
+    const loadout = createLoadout(items, repo, valuation, { inventorySlots: 2 });
+    const ungrouped = createLoadout(items, repo, valuation, { inventorySlots: 2, uniqueGroups: {} });
+
+    expect(loadout.inventory.map((i) => i.name)).toEqual(["swift_blink", "sphere"]);
+    expect(loadout.totalStatValue).toBe(25 * 100 + 16 * 100);
+    expect(ungrouped.totalStatValue).toBe(25 * 100 + 20 * 100);
+  });
+
+  it("keeps duplicates out of the inventory when it has free slots", () => {
+    const strengthBlink = item("blink", 2250, { strength: 10 });
+    const overwhelmingBlink = item("overwhelming_blink", 6800, { strength: 25 });
+    const repo = new ItemRepository([strengthBlink, overwhelmingBlink]);
+    const valuation = { strength: 50 };
+
+    const loadout = createLoadout([strengthBlink, overwhelmingBlink], repo, valuation);
+
+    expect(loadout.inventory.map((i) => i.name)).toEqual(["overwhelming_blink"]);
+    expect(loadout.backpack.map((i) => i.name)).toEqual(["blink"]);
+    expect(loadout.totalStatValue).toBe(1250);
+    expect(loadout.totalStatValue).toBe(createLoadout([overwhelmingBlink], repo, valuation).totalStatValue);
+  });
+
+  it("sells duplicates when the backpack is full", () => {
+    const { inventory, backpack, sold } = allocateItemsToSlots([blink, swiftBlink, sphere], { backpackSlots: 0 });
+
+    expect(inventory.map((i) => i.name)).toEqual(["swift_blink", "sphere"]);
+    expect(backpack).toEqual([]);
+    expect(sold.map((i) => i.name)).toEqual(["blink"]);
+  });
+});
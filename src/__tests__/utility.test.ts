@@ -1,6 +1,9 @@
 import { describe, it, expect } from "bun:test";
 import {
   calculateUtilityValue,
+  cooldownScale,
+  REFERENCE_COOLDOWN,
+  COOLDOWN_SCALE_BOUNDS,
   getItemUtilityCategories,
   formatUtilityCategories,
   UtilityCategory,
@@ -70,6 +73,51 @@ describe("utility", () => {
         UTILITY_VALUES[UtilityCategory.TeamUtility]
       );
     });
+
+    it("scales by the active's cooldown", () => {
+      const save = UTILITY_VALUES[UtilityCategory.Save];
+
+      // A short cooldown is worth more than a long one
+      const forceStaff = calculateUtilityValue("force_staff", 19);
+      expect(forceStaff).toBeGreaterThan(calculateUtilityValue("force_staff"));
+      expect(calculateUtilityValue("aeon_disk", 105)).toBeCloseTo(save * Math.sqrt(REFERENCE_COOLDOWN / 105));
+      expect(calculateUtilityValue("aeon_disk", REFERENCE_COOLDOWN)).toBe(save);
+    });
+  });
+
+  describe("with a utility profile", () => {
+    it("uses custom category values", () => {
+      const profile = { categoryValues: { [UtilityCategory.Save]: 2000 } };
+      expect(calculateUtilityValue("glimmer_cape", undefined, profile)).toBe(2000);
+      // Categories left out keep their default value
+      expect(calculateUtilityValue("blink", undefined, profile)).toBe(UTILITY_VALUES[UtilityCategory.Mobility]);
+    });
+
+    it("replaces an item's category list", () => {
+      const profile = { itemCategories: { glimmer_cape: [UtilityCategory.Save, UtilityCategory.Dispel] } };
+      expect(getItemUtilityCategories("glimmer_cape", profile)).toEqual([UtilityCategory.Save, UtilityCategory.Dispel]);
+      expect(calculateUtilityValue("glimmer_cape", undefined, profile)).toBe(
+        UTILITY_VALUES[UtilityCategory.Save] + UTILITY_VALUES[UtilityCategory.Dispel]
+      );
+    });
+
+    it("returns flat overrides without cooldown scaling", () => {
+      const profile = { itemOverrides: { aeon_disk: 1800, gauntlets: 0 } };
+      expect(calculateUtilityValue("aeon_disk", 105, profile)).toBe(1800);
+      expect(calculateUtilityValue("gauntlets", undefined, profile)).toBe(0);
+    });
+  });
+
+  describe("cooldownScale", () => {
+    it("is neutral without a cooldown", () => {
+      expect(cooldownScale()).toBe(1);
+      expect(cooldownScale(0)).toBe(1);
+    });
+
+    it("is clamped to its bounds", () => {
+      expect(cooldownScale(1)).toBe(COOLDOWN_SCALE_BOUNDS.max);
+      expect(cooldownScale(1000)).toBe(COOLDOWN_SCALE_BOUNDS.min);
+    });
   });
 
   describe("getItemUtilityCategories", () => {
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findUnknownProfileItems,
+  loadUtilityProfile,
+  parseUtilityProfile,
+  validateUtilityProfileItems,
+} from "../config/utilityProfile";
+import { getItemsByValue } from "../calculators/efficiency";
+import { UtilityCategory } from "../calculators/utility";
+import { getAllTestItems } from "./fixtures";
+
+describe("parseUtilityProfile", () => {
+  it("accepts category values, item categories and overrides", () => {
+    const profile = parseUtilityProfile({
+      categoryValues: { save: 2000 },
+      itemCategories: { glimmer_cape: ["save", "dispel"] },
+      itemOverrides: { aeon_disk: 1800 },
+    });
+
+    expect(profile.categoryValues).toEqual({ save: 2000 });
+    expect(profile.itemCategories).toEqual({ glimmer_cape: [UtilityCategory.Save, UtilityCategory.Dispel] });
+    expect(profile.itemOverrides).toEqual({ aeon_disk: 1800 });
+  });
+
+  it("rejects unknown categories and fields", () => {
+    expect(() => parseUtilityProfile({ categoryValues: { teleport: 500 } })).toThrow(/unknown category "teleport"/);
+    expect(() => parseUtilityProfile({ itemCategories: { blink: ["flying"] } })).toThrow(/itemCategories.blink/);
+    expect(() => parseUtilityProfile({ overrides: {} })).toThrow(/Unknown utility profile field "overrides"/);
+  });
+
+  it("rejects negative or non-numeric values", () => {
+    expect(() => parseUtilityProfile({ categoryValues: { save: -1 } })).toThrow(/categoryValues.save/);
+    expect(() => parseUtilityProfile({ itemOverrides: { blink: "lots" } })).toThrow(/itemOverrides.blink/);
+  });
+});
+
+describe("validateUtilityProfileItems", () => {
+  const profile = {
+    itemCategories: { glimmer_cape: [] },
+    itemOverrides: { forcestaff: 100, glimmer_cape: 900 },
+  };
+
+  it("lists item names missing from the item data", () => {
+    expect(findUnknownProfileItems(profile, ["glimmer_cape", "force_staff"])).toEqual(["forcestaff"]);
+  });
+
+  it("throws on unknown items", () => {
+    expect(() => validateUtilityProfileItems(profile, ["glimmer_cape"])).toThrow(/unknown items: forcestaff/);
+    expect(() => validateUtilityProfileItems(profile, ["glimmer_cape", "forcestaff"])).not.toThrow();
+  });
+});
+
+describe("loadUtilityProfile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-utility-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads JSON and YAML files", async () => {
+    const jsonPath = join(dir, "profile.json");
+    const yamlPath = join(dir, "profile.yaml");
+    await writeFile(jsonPath, JSON.stringify({ categoryValues: { save: 2000 } }));
+    await writeFile(yamlPath, "categoryValues:\n  save: 2000\nitemCategories:\n  blink: [mobility, save]\n");
+
+    expect(await loadUtilityProfile(jsonPath)).toEqual({ categoryValues: { save: 2000 } });
+    expect(await loadUtilityProfile(yamlPath)).toEqual({
+      categoryValues: { save: 2000 },
+      itemCategories: { blink: [UtilityCategory.Mobility, UtilityCategory.Save] },
+    });
+  });
+
+  it("names the file in validation errors", async () => {
+    const path = join(dir, "bad.json");
+    await writeFile(path, JSON.stringify({ categoryValues: { save: "high" } }));
+
+    await expect(loadUtilityProfile(path)).rejects.toThrow(`${path}: categoryValues.save`);
+  });
+});
+
+describe("getItemsByValue with a utility profile", () => {
+  it("includes profile overrides in total value", () => {
+    const items = getAllTestItems();
+    const [target] = items;
+
+    const result = getItemsByValue(items, { utilityProfile: { itemOverrides: { [target.name]: 5000 } } });
+    expect(result.find((r) => r.item.name === target.name)!.utilityValue).toBe(5000);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyValuationProfile, calculateStatValuation } from "../calculators/statValuation";
+import { getItemsByEfficiency } from "../calculators/efficiency";
+import { resolveStageValuation } from "../calculators/buildProgression";
+import {
+  loadValuationProfiles,
+  parseValuationProfile,
+  parseValuationProfiles,
+  selectValuationProfile,
+} from "../config/statValuationFile";
+import { loadConfigFile } from "../config/configFile";
+import { createContextFromItems, resolveAnalysisConfig } from "../cli/context";
+import { formatStatValuations } from "../output/efficiency";
+import { getAllTestItems, EXPECTED_STAT_VALUES } from "./fixtures";
+
+describe("applyValuationProfile", () => {
+  const valuation = { agility: 50, attackSpeed: 20, mana: 3 };
+
+  it("scales stats by multipliers and replaces them with values", () => {
+    const adjusted = applyValuationProfile(valuation, {
+      multipliers: { agility: 1.5 },
+      values: { mana: 1 },
+    });
+
+    expect(adjusted).toEqual({ agility: 75, attackSpeed: 20, mana: 1 });
+  });
+
+  it("adds stats the computed valuation lacks only as absolute values", () => {
+    const adjusted = applyValuationProfile(valuation, {
+      multipliers: { armor: 2 },
+      values: { evasion: 80 },
+    });
+
+    expect(adjusted.armor).toBeUndefined();
+    expect(adjusted.evasion).toBe(80);
+  });
+
+  it("doesn't modify the input valuation", () => {
+    applyValuationProfile(valuation, { multipliers: { agility: 2 } });
+    expect(valuation.agility).toBe(50);
+  });
+});
+
+describe("parseValuationProfiles", () => {
+  it("accepts named profiles with values, multipliers and a description", () => {
+    const profiles = parseValuationProfiles({
+      gyro: { description: "Right-click", multipliers: { agility: 1.3 } },
+      support: { values: { manaRegen: 300 } },
+    });
+
+    expect(profiles.gyro).toEqual({ description: "Right-click", multipliers: { agility: 1.3 } });
+    expect(profiles.support).toEqual({ values: { manaRegen: 300 } });
+  });
+
+  it("names the profile in validation errors", () => {
+    expect(() => parseValuationProfiles({ gyro: { multipliers: { agi: 1.3 } } })).toThrow(
+      /gyro: multipliers: Unknown stat "agi"/
+    );
+  });
+
+  it("rejects empty profiles, unknown fields and stats in both lists", () => {
+    expect(() => parseValuationProfile({})).toThrow(/needs values or multipliers/);
+    expect(() => parseValuationProfile({ values: {}, weights: {} })).toThrow(/Unknown valuation profile field "weights"/);
+    expect(() => parseValuationProfile({ values: { agility: 60 }, multipliers: { agility: 1.2 } })).toThrow(
+      /agility given as both/
+    );
+  });
+});
+
+describe("selectValuationProfile", () => {
+  it("lists the available profiles for an unknown name", () => {
+    const profiles = { gyro: { multipliers: { agility: 1.3 } } };
+
+    expect(selectValuationProfile(profiles, "gyro")).toBe(profiles.gyro);
+    expect(() => selectValuationProfile(profiles, "carry")).toThrow(/Available profiles: gyro/);
+    expect(() => selectValuationProfile(undefined, "carry")).toThrow(/no profiles loaded/);
+  });
+});
+
+describe("valuation profile files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "chop-shop-profiles-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads YAML profiles", async () => {
+    const path = join(dir, "profiles.yaml");
+    await writeFile(path, "gyro:\n  multipliers:\n    agility: 1.3\n");
+
+    expect(await loadValuationProfiles(path)).toEqual({ gyro: { multipliers: { agility: 1.3 } } });
+  });
+
+  it("resolves a config file's valuationProfiles path relative to the config file", async () => {
+    await writeFile(join(dir, "profiles.json"), JSON.stringify({ support: { values: { mana: 5 } } }));
+    await writeFile(join(dir, "chop-shop.config.json"), JSON.stringify({ valuationProfiles: "profiles.json" }));
+
+    const config = await loadConfigFile(join(dir, "chop-shop.config.json"));
+    expect(config.valuationProfiles).toEqual({ support: { values: { mana: 5 } } });
+  });
+
+  it("adds profiles from a file to those in the config", async () => {
+    const path = join(dir, "profiles.json");
+    await writeFile(path, JSON.stringify({ gyro: { values: { agility: 70 } } }));
+
+    const config = await resolveAnalysisConfig({
+      config: { valuationProfiles: { support: { values: { mana: 5 } } } },
+      valuationProfiles: path,
+    });
+
+    expect(Object.keys(config.valuationProfiles!).sort()).toEqual(["gyro", "support"]);
+  });
+});
+
+describe("valuation profiles in the CLI context", () => {
+  const config = { valuationProfiles: { gyro: { multipliers: { agility: 2 } } } };
+
+  it("applies the selected profile and keeps the computed valuation", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { config, valuationProfile: "gyro" });
+
+    expect(ctx.valuationProfile).toBe("gyro");
+    expect(ctx.statValuation.agility).toBeCloseTo(EXPECTED_STAT_VALUES.agility * 2, 2);
+    expect(ctx.unprofiledStatValuation!.agility).toBeCloseTo(EXPECTED_STAT_VALUES.agility, 2);
+  });
+
+  it("leaves the valuation alone without a profile", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { config });
+
+    expect(ctx.valuationProfile).toBeUndefined();
+    expect(ctx.unprofiledStatValuation).toBeUndefined();
+  });
+
+  it("changes efficiency rankings through the profiled valuation", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { config, valuationProfile: "gyro" });
+    const agilityItem = (results: ReturnType<typeof getItemsByEfficiency>) =>
+      results.find((r) => r.item.name === "agility_component")!;
+
+    const base = getItemsByEfficiency(ctx.items);
+    const profiled = getItemsByEfficiency(ctx.items, { statValuation: ctx.statValuation });
+
+    expect(agilityItem(profiled).totalStatValue).toBeCloseTo(agilityItem(base).totalStatValue * 2, 2);
+  });
+});
+
+describe("valuation profiles with a hero and levels", () => {
+  const config = {
+    valuationProfiles: {
+      pinned: { values: { agility: 200 } },
+      tanky: { multipliers: { armor: 3 } },
+    },
+  };
+
+  it("carries multipliers on derived stats into the hero's attributes", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { config, hero: "gyrocopter", valuationProfile: "tanky" });
+
+    // Agility's armor is worth three times as much
+    expect(ctx.statValuation.armor).toBeCloseTo(ctx.unprofiledStatValuation!.armor! * 3, 5);
+    expect(ctx.statValuation.agility! - ctx.unprofiledStatValuation!.agility!).toBeCloseTo(
+      (ctx.unprofiledStatValuation!.armor! * 2) / 6,
+      5
+    );
+  });
+
+  it("keeps the profile's values at every stage level", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { config, hero: "gyrocopter", valuationProfile: "pinned" });
+    const stageAgility = (stage: { maxCost: number; heroLevel?: number }) =>
+      resolveStageValuation(stage, ctx.statValuation, ctx.config, {
+        hero: ctx.hero,
+        levelScaling: true,
+        valuationProfile: ctx.statValuationProfile,
+      }).statValuation!.agility;
+
+    expect(ctx.statValuation.agility).toBe(200);
+    expect(stageAgility({ maxCost: 2000, heroLevel: 1 })).toBe(200);
+    expect(stageAgility({ maxCost: 6000 })).toBe(200);
+    expect(stageAgility({ maxCost: 20000, heroLevel: 20 })).toBe(200);
+  });
+
+  it("re-derives attributes per level from the profiled stats", () => {
+    const ctx = createContextFromItems(getAllTestItems(), { config, hero: "gyrocopter", valuationProfile: "tanky" });
+    const unprofiled = createContextFromItems(getAllTestItems(), { config, hero: "gyrocopter" });
+    const stage = { maxCost: 20000, heroLevel: 20 };
+    const agility = (context: typeof ctx) =>
+      resolveStageValuation(stage, context.statValuation, context.config, {
+        hero: context.hero,
+        valuationProfile: context.statValuationProfile,
+      }).statValuation!.agility!;
+
+    expect(agility(ctx)).toBeGreaterThan(agility(unprofiled));
+  });
+});
+
+describe("formatStatValuations with a profile", () => {
+  it("shows the computed value and the change", () => {
+    const computed = calculateStatValuation(getAllTestItems());
+    const profiled = applyValuationProfile(computed, { multipliers: { agility: 1.5 } });
+
+    const output = formatStatValuations(profiled, computed);
+
+    expect(output).toContain("Computed");
+    expect(output).toMatch(/agility\s+│\s+75\.00 │\s+50\.00 │\s+x1\.50 │/);
+  });
+
+  it("keeps the two-column table without a profile", () => {
+    const output = formatStatValuations({ agility: 50 });
+
+    expect(output).not.toContain("Computed");
+  });
+});
@@ -0,0 +1,140 @@
+import { Hero, HeroAttributes, ItemStats, PrimaryAttribute, StatValuation, StatValuationProfile } from "../models/types";
+import { applyValuationProfile } from "./statValuation";
+
+export type AttributeName = keyof HeroAttributes;
+
+export const ATTRIBUTE_NAMES: AttributeName[] = ["strength", "agility", "intelligence"];
+
+/**
+ * Stats granted by one point of each attribute, regardless of primary attribute
+ */
+export const ATTRIBUTE_STATS: Record<AttributeName, ItemStats> = {
+  strength: { health: 22, healthRegen: 0.1 },
+  agility: { armor: 1 / 6, attackSpeed: 1 },
+  intelligence: { mana: 12, manaRegen: 0.05, magicResistance: 0.1 },
+};
+
+/** Damage per point of the primary attribute */
+export const PRIMARY_DAMAGE_PER_POINT = 1;
+
+/** Damage per point of every attribute for universal heroes */
+export const UNIVERSAL_DAMAGE_PER_POINT = 0.45;
+
+/** Health and mana every hero has before attributes */
+export const HERO_BASE_HEALTH = 120;
+export const HERO_BASE_MANA = 75;
+
+/**
+ * Damage one point of an attribute grants a hero with the given primary attribute
+ */
+export function attributeDamagePerPoint(attribute: AttributeName, primaryAttribute?: PrimaryAttribute): number {
+  if (primaryAttribute === "universal") return UNIVERSAL_DAMAGE_PER_POINT;
+  return attribute === primaryAttribute ? PRIMARY_DAMAGE_PER_POINT : 0;
+}
+
+/**
+ * Replace strength, agility and intelligence with the stats they grant.
+ * Without a primary attribute no attribute damage is added.
+ */
+export function expandAttributes(stats: ItemStats, primaryAttribute?: PrimaryAttribute): ItemStats {
+  const expanded: ItemStats = { ...stats };
+
+  const add = (stat: keyof ItemStats, amount: number) => {
+    if (amount === 0) return;
+    expanded[stat] = (expanded[stat] ?? 0) + amount;
+  };
+
+  for (const attribute of ATTRIBUTE_NAMES) {
+    const points = stats[attribute];
+    delete expanded[attribute];
+    if (!points) continue;
+
+    for (const [stat, perPoint] of Object.entries(ATTRIBUTE_STATS[attribute]) as [keyof ItemStats, number][]) {
+      add(stat, points * perPoint);
+    }
+    add("damage", points * attributeDamagePerPoint(attribute, primaryAttribute));
+  }
+
+  return expanded;
+}
+
+/**
+ * Value attributes by the stats they grant a hero instead of by
+ * attribute item baselines. Other stats keep their valuation.
+ */
+export function calculateHeroStatValuation(
+  valuation: StatValuation,
+  primaryAttribute: PrimaryAttribute
+): StatValuation {
+  const heroValuation: StatValuation = { ...valuation };
+
+  for (const attribute of ATTRIBUTE_NAMES) {
+    const derived = expandAttributes({ [attribute]: 1 }, primaryAttribute);
+    let goldPerPoint = 0;
+    for (const [stat, amount] of Object.entries(derived) as [keyof ItemStats, number][]) {
+      goldPerPoint += amount * (valuation[stat] || 0);
+    }
+    if (goldPerPoint > 0) {
+      heroValuation[attribute] = goldPerPoint;
+    }
+  }
+
+  return heroValuation;
+}
+
+/**
+ * Split a valuation profile into its attribute entries and the rest
+ */
+export function splitValuationProfile(profile: StatValuationProfile): {
+  attributes: StatValuationProfile;
+  others: StatValuationProfile;
+} {
+  const isAttribute = (stat: string) => (ATTRIBUTE_NAMES as string[]).includes(stat);
+  const pick = (valuation: StatValuation | undefined, attributes: boolean): StatValuation =>
+    Object.fromEntries(Object.entries(valuation ?? {}).filter(([stat]) => isAttribute(stat) === attributes));
+
+  return {
+    attributes: { values: pick(profile.values, true), multipliers: pick(profile.multipliers, true) },
+    others: { values: pick(profile.values, false), multipliers: pick(profile.multipliers, false) },
+  };
+}
+
+/**
+ * Value attributes for a hero under a valuation profile. The profile's other
+ * stats apply first, so a multiplier on attack speed carries into agility;
+ * its attribute multipliers and values then apply to the derived values.
+ */
+export function calculateProfiledHeroStatValuation(
+  valuation: StatValuation,
+  primaryAttribute: PrimaryAttribute,
+  profile: StatValuationProfile
+): StatValuation {
+  const { attributes, others } = splitValuationProfile(profile);
+  const derived = calculateHeroStatValuation(applyValuationProfile(valuation, others), primaryAttribute);
+  return applyValuationProfile(derived, attributes);
+}
+
+/**
+ * A hero's attributes at a level (1-30)
+ */
+export function heroAttributesAtLevel(hero: Hero, level: number = 1): HeroAttributes {
+  const levels = Math.max(0, level - 1);
+  return {
+    strength: hero.baseAttributes.strength + hero.attributeGains.strength * levels,
+    agility: hero.baseAttributes.agility + hero.attributeGains.agility * levels,
+    intelligence: hero.baseAttributes.intelligence + hero.attributeGains.intelligence * levels,
+  };
+}
+
+/**
+ * A hero's base attack damage at a level, including attribute damage.
+ * This is the damage percentage bonuses (e.g. Vladmir's Offering) apply to.
+ */
+export function heroAttackDamage(hero: Hero, level: number = 1): number {
+  const attributes = heroAttributesAtLevel(hero, level);
+  let damage = hero.baseDamage;
+  for (const attribute of ATTRIBUTE_NAMES) {
+    damage += attributes[attribute] * attributeDamagePerPoint(attribute, hero.primaryAttribute);
+  }
+  return damage;
+}
@@ -17,18 +17,27 @@ import {
 } from "../models/buildTypes";
 import { ItemRepository } from "../data/ItemRepository";
 import { AnalysisConfig, DEFAULT_CONFIG } from "../config/analysisConfig";
-import { createLoadout, createTransition } from "./loadout";
+import { createLoadout, createTransition, loadoutValueOptions, SlotOptions } from "./loadout";
+import { BonusStatOptions } from "./efficiency";
 import {
   costIncreaseConstraint,
   allConstraints,
   maxFinalItems,
   noDuplicateBoots,
+  noDuplicateUniqueItems,
   minTotalRecovery,
   withExplanation,
   allExplainedConstraints,
 } from "./constraints";
 import { defaultTransitionScorer, createImprovedScorer } from "./scorers";
-import { combinations, filteredCombinations, noDuplicateBoots as noDuplicateBootsItemFilter, maxTotalCost, combineFilters } from "./combinations";
+import {
+  combinations,
+  filteredCombinations,
+  noDuplicateBoots as noDuplicateBootsItemFilter,
+  noDuplicateUniqueItems as noDuplicateUniqueItemsFilter,
+  maxTotalCost,
+  combineFilters,
+} from "./combinations";
 
 // ─────────────────────────────────────────────────────────────
 // Memoization Utilities
@@ -52,7 +61,9 @@ class LoadoutCache {
   constructor(
     private repo: ItemRepository, 
     private statValuation?: StatValuation,
-    maxSize: number = 10000
+    maxSize: number = 10000,
+    private slotOptions?: SlotOptions,
+    private bonusOptions?: BonusStatOptions
   ) {
     this.maxSize = maxSize;
   }
@@ -61,7 +72,7 @@ class LoadoutCache {
     const key = itemsToKey(items);
     let loadout = this.cache.get(key);
     if (!loadout) {
-      loadout = createLoadout([...items], this.repo, this.statValuation);
+      loadout = createLoadout([...items], this.repo, this.statValuation, this.slotOptions, this.bonusOptions);
       this.cache.set(key, loadout);
       
       // Evict oldest entries if cache is too large (after insert)
@@ -229,20 +240,22 @@ export function analyzeValidTransitions(
     constraint = allConstraints(
       costIncreaseConstraint,
       maxFinalItems(6), // Inventory slot limit
-      noDuplicateBoots(config)
+      noDuplicateBoots(config),
+      noDuplicateUniqueItems(config)
     ),
   } = options;
 
   // Use improved scorer if statValuation is provided, otherwise use default
   const scorer = options.scorer ?? (
     statValuation 
-      ? createImprovedScorer(statValuation)
+      ? createImprovedScorer(statValuation, undefined, config.utilityProfile)
       : defaultTransitionScorer
   );
 
   // Initialize loadout cache only - transitions are not cached to save memory
   // Pass statValuation for efficiency calculations
-  const loadoutCache = new LoadoutCache(repo, statValuation);
+  const slotOptions = { uniqueGroups: config.uniqueGroups, economy: config.economy };
+  const loadoutCache = new LoadoutCache(repo, statValuation, undefined, slotOptions, loadoutValueOptions(config));
 
   // Use bounded priority queue to keep only top results (memory efficient)
   const topResults = new BoundedPriorityQueue<ScoredTransition>(
@@ -302,9 +315,9 @@ export function analyzeValidTransitions(
   const MIN_REUSE_FOR_PRUNING = useEarlyPruning ? 0.4 : 0.0; // 40% minimum for trios
 
   // Generate early loadout combinations with filters:
-  // 1. No duplicate boots (movement speed doesn't stack)
+  // 1. No duplicate boots (movement speed doesn't stack) or unique items
   // 2. Optional max total cost for initial build
-  const baseFilter = noDuplicateBootsItemFilter(config);
+  const baseFilter = combineFilters(noDuplicateBootsItemFilter(config), noDuplicateUniqueItemsFilter(config));
   const earlyItemFilter = initialBuildMaxCost !== undefined
     ? combineFilters(baseFilter, maxTotalCost(initialBuildMaxCost))
     : baseFilter;
@@ -339,7 +352,7 @@ export function analyzeValidTransitions(
       }
 
       // Create transition directly (no caching to save memory)
-      const transition = createTransition(fromLoadout, toLoadout, repo);
+      const transition = createTransition(fromLoadout, toLoadout, repo, config.economy);
 
       // Check constraints
       if (constraint(transition)) {
@@ -560,9 +573,10 @@ export function validateTransition(
   // For full functionality, callers should pass an ItemRepository with all items.
   const repo = itemRepo ?? new ItemRepository([...fromItems, ...toItems]);
 
-  const fromLoadout = createLoadout(fromItems, repo);
-  const toLoadout = createLoadout(toItems, repo);
-  const transition = createTransition(fromLoadout, toLoadout, repo);
+  const slotOptions = { uniqueGroups: config.uniqueGroups, economy: config.economy };
+  const fromLoadout = createLoadout(fromItems, repo, undefined, slotOptions);
+  const toLoadout = createLoadout(toItems, repo, undefined, slotOptions);
+  const transition = createTransition(fromLoadout, toLoadout, repo, config.economy);
 
   // Build explained constraints
   const explainedConstraints = allExplainedConstraints(
@@ -574,6 +588,10 @@ export function validateTransition(
     withExplanation(
       noDuplicateBoots(config),
       () => "Cannot have multiple boots (movement speed doesn't stack)"
+    ),
+    withExplanation(
+      noDuplicateUniqueItems(config),
+      () => "Cannot have multiple items from the same unique group (they don't stack)"
     )
   );
 
@@ -646,6 +664,7 @@ export function findTransitionsToItem(
         costIncreaseConstraint,
         maxFinalItems(6),
         noDuplicateBoots(config),
+        noDuplicateUniqueItems(config),
         mustIncludeTarget
       ),
     },
@@ -695,6 +714,7 @@ export function findTransitionsFromItem(
         costIncreaseConstraint,
         maxFinalItems(6),
         noDuplicateBoots(config),
+        noDuplicateUniqueItems(config),
         mustIncludeEarly
       ),
     },
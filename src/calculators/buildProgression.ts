@@ -41,7 +41,7 @@
  * ```
  */
 
-import { Item, StatValuation } from "../models/types";
+import { Hero, Item, StatValuation, StatValuationProfile } from "../models/types";
 import {
   BuildStage,
   BuildSequence,
@@ -57,6 +57,7 @@ import {
   ProgressionProgressUpdate,
   ProgressionPhase,
   Loadout,
+  StageGoldReserve,
 } from "../models/buildTypes";
 import { ItemRepository } from "../data/ItemRepository";
 import { AnalysisConfig, DEFAULT_CONFIG } from "../config/analysisConfig";
@@ -66,12 +67,15 @@ import {
   planAssemblyFromPool,
   createLoadoutWithLeftovers,
   createLoadout,
+  selectNeutralItem,
+  loadoutValueOptions,
   SlotOptions,
 } from "./loadout";
 import {
   filteredCombinations,
   variableSizeCombinations,
   noDuplicateBoots as noDuplicateBootsItemFilter,
+  noDuplicateUniqueItems as noDuplicateUniqueItemsFilter,
   maxTotalCost,
   minTotalCost,
   combineFilters,
@@ -96,11 +100,60 @@ import {
   variableCombinationsWithRequired,
 } from "./searchUtils";
 import { resolveStageTargets } from "./itemResolution";
+import { calculateLevelStatValuation, levelForGold } from "./levelValuation";
+import { heroAttackDamage } from "./attributes";
+import { CombatStatOptions, calculateStageCombatStats } from "./combatStats";
+import { NetWorthCurve, formatMinutes, sequenceTimings } from "./goldIncome";
+import { NO_GOLD_RESERVE, reservedGold, stageGoldReserves } from "./goldRisk";
 
 // ─────────────────────────────────────────────────────────────
 // Helper Functions
 // ─────────────────────────────────────────────────────────────
 
+/**
+ * Stat valuation and config for one stage
+ */
+export interface StageValuation {
+  /** Expected hero level, when the stage is level-weighted */
+  heroLevel?: number;
+  statValuation?: StatValuation;
+  config: AnalysisConfig;
+}
+
+/**
+ * Expected hero level for a stage: its own heroLevel, or one derived
+ * from maxCost when level scaling is on.
+ */
+export function stageHeroLevel(stage: StageDefinition, levelScaling = false): number | undefined {
+  return stage.heroLevel ?? (levelScaling ? levelForGold(stage.maxCost) : undefined);
+}
+
+/**
+ * Weight the stat valuation for a stage's expected hero level.
+ * With a hero, percentage damage bonuses use its damage at that level.
+ * Stages without a level keep the global valuation and config.
+ * The valuation profile is re-applied after the level weighting.
+ */
+export function resolveStageValuation(
+  stage: StageDefinition,
+  statValuation: StatValuation | undefined,
+  config: AnalysisConfig,
+  options: { hero?: Hero; levelScaling?: boolean; valuationProfile?: StatValuationProfile } = {}
+): StageValuation {
+  const { hero, levelScaling, valuationProfile } = options;
+  const heroLevel = stageHeroLevel(stage, levelScaling);
+  if (heroLevel === undefined) return { statValuation, config };
+
+  return {
+    heroLevel,
+    statValuation:
+      statValuation && calculateLevelStatValuation(statValuation, heroLevel, { hero, profile: valuationProfile }),
+    config: hero
+      ? { ...config, thresholds: { ...config.thresholds, heroBaseDamage: heroAttackDamage(hero, heroLevel) } }
+      : config,
+  };
+}
+
 /**
  * Build a constraint that requires specific items in the loadout.
  */
@@ -274,9 +327,11 @@ function buildStageItemPool(
     basePool = allUpgraded;
   }
   
-  // Filter by max cost and gold recovery (no minimum cost by default)
+  // Filter by max cost and gold recovery (no minimum cost by default).
+  // Neutral items are never bought; they fill the neutral slot instead.
   let pool = basePool.filter(
     (item) =>
+      item.neutralTier === undefined &&
       item.cost <= stage.maxCost &&
       // For component items, skip gold recovery check (they have no components to recover)
       (item.isComponent || hasGoodGoldRecovery(item, repo, config))
@@ -345,6 +400,7 @@ interface StageCandidateResult {
  * @param requiredItems - Items that must be in the loadout
  * @param inputPool - Component pool to build from
  * @param includeComponents - Include component items in pool (default: true)
+ * @param goldReserve - Gold held back from the stage budget (default: none)
  * @param slotOptions - Slot configuration for inventory/backpack
  * @param onEvaluationProgress - Optional callback for progress updates (called every 10k evals)
  */
@@ -360,14 +416,19 @@ function generateStageLoadouts(
   requiredItems: readonly Item[],
   inputPool: ComponentPool,
   includeComponents: boolean = true,
+  goldReserve: StageGoldReserve = NO_GOLD_RESERVE,
   slotOptions?: SlotOptions,
   onEvaluationProgress?: (evaluated: number, valid: number) => void
 ): StageCandidateResult {
+  // Gold kept for buyback and deaths can't be spent on items
+  const budget = stageDef.maxCost - reservedGold(goldReserve);
+  const reserve = reservedGold(goldReserve) > 0 ? { goldReserve } : {};
+
   // Build item pool (items we can potentially assemble)
   const itemPool = buildStageItemPool(
     repo,
     config,
-    stageDef,
+    { ...stageDef, maxCost: budget },
     requiredItems,
     includeComponents
   );
@@ -378,8 +439,8 @@ function generateStageLoadouts(
   );
   
   // Calculate budget for new purchases
-  // Budget = maxCost - poolValue + recipeRecovery
-  const newPurchaseBudget = stageDef.maxCost - inputPool.totalValue + inputPool.recipeRecovery;
+  // Budget = maxCost - reserve - poolValue + recipeRecovery
+  const newPurchaseBudget = budget - inputPool.totalValue + inputPool.recipeRecovery;
   
   // If budget is negative, we can't build anything meaningful
   if (newPurchaseBudget < 0) {
@@ -396,12 +457,13 @@ function generateStageLoadouts(
   }
   
   const bootFilter = noDuplicateBootsItemFilter(config);
+  const uniqueFilter = noDuplicateUniqueItemsFilter(config);
   // Upper bound on item cost (will do precise check with planAssemblyFromPool)
-  const costFilter = maxTotalCost(stageDef.maxCost + inputPool.recipeRecovery);
+  const costFilter = maxTotalCost(budget + inputPool.recipeRecovery);
   const minCostFilter = stageDef.minCost ? minTotalCost(stageDef.minCost) : undefined;
   const combinedFilter = minCostFilter
-    ? combineFilters(bootFilter, costFilter, minCostFilter)
-    : combineFilters(bootFilter, costFilter);
+    ? combineFilters(bootFilter, uniqueFilter, costFilter, minCostFilter)
+    : combineFilters(bootFilter, uniqueFilter, costFilter);
   
   let evaluated = 0;
   let valid = 0;
@@ -423,7 +485,7 @@ function generateStageLoadouts(
     }
     
     // Plan how to assemble this combo from our pool
-    const plan = planAssemblyFromPool(combo, inputPool, repo, stageDef.maxCost);
+    const plan = planAssemblyFromPool(combo, inputPool, repo, budget, config.economy);
     
     // Skip invalid assemblies (over budget)
     if (!plan.isValid) continue;
@@ -437,7 +499,8 @@ function generateStageLoadouts(
       plan.leftoverFromPool,
       repo,
       statValuation,
-      slotOptions
+      { ...slotOptions, purchased: plan.purchasedItems },
+      loadoutValueOptions(config)
     );
     
     const stage: BuildStage = {
@@ -445,6 +508,7 @@ function generateStageLoadouts(
       stageIndex: 0, // Will be set by caller
       costThreshold: stageDef.maxCost,
       transition: null, // Will be set by caller for non-initial stages
+      ...reserve,
     };
     
     if (constraint(stage, null)) {
@@ -476,10 +540,11 @@ function generateStageLoadouts(
  * Expand sequences to the next stage using component retention model.
  * 
  * When transitioning between stages:
- * 1. Disassemble all items from previous stage into base components
- * 2. Sell recipes (100% recovery - Gyro's innate)
+ * 1. Disassemble items from previous stage into base components (those the economy allows)
+ * 2. Sell recipes (at config.economy's recovery rate - 100% for Gyro's innate)
  * 3. ALL components must be retained (either in assembled items or as leftovers)
- * 4. Budget for new purchases = maxCost - poolValue + recipeRecovery
+ * 4. Budget for new purchases = maxCost - reserve - poolValue + recipeRecovery,
+ *    where the reserve is gold kept for buyback and lost to expected deaths
  * 5. Leftover components count toward cost but not item limit
  */
 function expandToNextStage(
@@ -496,6 +561,7 @@ function expandToNextStage(
   minReuseRatio: number,
   requiredItems: readonly Item[],
   includeComponents: boolean = true,
+  goldReserve: StageGoldReserve = NO_GOLD_RESERVE,
   slotOptions?: SlotOptions,
   onExpansionProgress?: (sequenceIndex: number, totalSequences: number, evaluated: number, valid: number) => void
 ): { sequences: BuildSequence[]; stats: StageAnalysisStats } {
@@ -505,6 +571,11 @@ function expandToNextStage(
   );
   
   const bootFilter = noDuplicateBootsItemFilter(config);
+  const uniqueFilter = noDuplicateUniqueItemsFilter(config);
+  
+  // Gold kept for buyback and deaths can't be spent on items
+  const budget = stageDef.maxCost - reservedGold(goldReserve);
+  const reserve = reservedGold(goldReserve) > 0 ? { goldReserve } : {};
   
   let evaluated = 0;
   let valid = 0;
@@ -522,7 +593,7 @@ function expandToNextStage(
     }
     
     // Step 1: Disassemble previous loadout into component pool
-    let componentPool = disassembleLoadout(lastLoadout, repo);
+    let componentPool = disassembleLoadout(lastLoadout, repo, config.economy);
     
     // Inject boots if required for this stage (and not already present)
     if (stageDef.requireBoots) {
@@ -530,8 +601,8 @@ function expandToNextStage(
     }
     
     // Step 2: Calculate budget for new purchases
-    // Budget = maxCost - poolValue + recipeRecovery
-    const newPurchaseBudget = stageDef.maxCost - componentPool.totalValue + componentPool.recipeRecovery;
+    // Budget = maxCost - reserve - poolValue + recipeRecovery
+    const newPurchaseBudget = budget - componentPool.totalValue + componentPool.recipeRecovery;
     
     // If budget is negative, we can't progress (previous stage too expensive)
     if (newPurchaseBudget < 0) continue;
@@ -544,7 +615,7 @@ function expandToNextStage(
     const pool = buildStageItemPool(
       repo,
       config,
-      stageDef,
+      { ...stageDef, maxCost: budget },
       requiredItems,
       includeComponents
     );
@@ -553,11 +624,12 @@ function expandToNextStage(
     const relevantPool = findRelevantUpgradeTargets(lastLoadout, pool, repo);
     const searchPool = relevantPool.length >= itemCount ? relevantPool : pool;
     
-    // Filter: no duplicate boots, respect stage max cost
+    // Filter: no duplicate boots or unique items, respect stage max cost
     // Note: We'll do more precise budget checking with planAssemblyFromPool
     const combinedFilter = combineFilters(
       bootFilter,
-      maxTotalCost(stageDef.maxCost + componentPool.recipeRecovery) // Upper bound
+      uniqueFilter,
+      maxTotalCost(budget + componentPool.recipeRecovery) // Upper bound
     );
     
     // Generate combinations of assembled items
@@ -571,7 +643,7 @@ function expandToNextStage(
       evaluated++;
       
       // Step 4: Plan how to assemble this combo from our pool
-      const plan = planAssemblyFromPool(combo, componentPool, repo, stageDef.maxCost);
+      const plan = planAssemblyFromPool(combo, componentPool, repo, budget, config.economy);
       
       // Check if assembly is valid (within budget)
       if (!plan.isValid) continue;
@@ -585,7 +657,8 @@ function expandToNextStage(
         plan.leftoverFromPool,
         repo,
         statValuation,
-        slotOptions
+        { ...slotOptions, purchased: plan.purchasedItems },
+        loadoutValueOptions(config)
       );
       
       // Calculate reuse ratio based on components (not item overlap)
@@ -597,12 +670,13 @@ function expandToNextStage(
       if (reuseRatio < minReuseRatio) continue;
       
       // Create transition and stage
-      const transition = createTransition(lastLoadout, nextLoadout, repo);
+      const transition = createTransition(lastLoadout, nextLoadout, repo, config.economy);
       const nextStage: BuildStage = {
         loadout: nextLoadout,
         stageIndex,
         costThreshold: stageDef.maxCost,
         transition,
+        ...reserve,
       };
       
       // Apply constraints
@@ -697,12 +771,47 @@ export function analyzeProgression(
     targetCoverageWeight = 0.4,
     inventorySlots,
     backpackSlots,
+    neutralItems = items.filter((item) => item.neutralTier !== undefined),
+    hero,
+    levelScaling,
+    valuationProfile,
+    buybackReserve,
+    expectedDeaths,
     onProgress,
   } = options;
 
-  const slotOptions = { inventorySlots, backpackSlots };
+  const slotOptions = { inventorySlots, backpackSlots, uniqueGroups: config.uniqueGroups, economy: config.economy };
   const totalStages = stages.length;
 
+  // Gold each stage keeps for buyback and loses to deaths
+  const goldReserves = stageGoldReserves(stages, { buybackReserve, expectedDeaths });
+
+  // Stages with an expected hero level get their own weighted valuation
+  const stageValuations = stages.map((stageDef) =>
+    resolveStageValuation(stageDef, statValuation, config, { hero, levelScaling, valuationProfile })
+  );
+
+  // Stages with an expected neutral tier get the best neutral item of that tier
+  const stageSlotOptions = (stageDef: StageDefinition, valuation: StageValuation): SlotOptions => {
+    if (stageDef.neutralTier === undefined) return slotOptions;
+    const neutralItem = selectNeutralItem(
+      neutralItems,
+      stageDef.neutralTier,
+      valuation.statValuation,
+      loadoutValueOptions(valuation.config)
+    );
+    return neutralItem ? { ...slotOptions, neutralItem } : slotOptions;
+  };
+
+  // Default scorer for a stage, built from that stage's valuation
+  const stageDefaultScorer = (valuation: StageValuation): StageScorer =>
+    defaultScorer ??
+    createBalancedStageScorer(
+      valuation.statValuation ?? ({} as StatValuation),
+      auraMultiplier,
+      config.utilityProfile
+    );
+
   // Helper to report progress if callback provided
   const reportProgress = (
     phase: ProgressionPhase,
@@ -756,13 +865,6 @@ export function analyzeProgression(
     resolvedRequiredItems += resolvedTargets.get(stageIdx)?.length ?? 0;
   }
   
-  // Build default scorer if not provided
-  const scorer =
-    defaultScorer ??
-    (statValuation
-      ? createBalancedStageScorer(statValuation, auraMultiplier)
-      : createBalancedStageScorer({} as StatValuation, auraMultiplier));
-  
   // Build base constraints
   const baseConstraint = standardSequenceConstraints(config);
   const reuseConstraint = minTotalRecoveryFromPrevious(minTotalRecovery);
@@ -797,7 +899,8 @@ export function analyzeProgression(
   }
   // Note: requireBoots is handled via pool injection, not constraints
   
-  const stage0Scorer = stage0Def.scorer ?? scorer;
+  const stage0Valuation = stageValuations[0];
+  const stage0Scorer = stage0Def.scorer ?? stageDefaultScorer(stage0Valuation);
   
   // Create initial component pool (empty, or with boots if required)
   let stage0Pool = createEmptyPool();
@@ -814,17 +917,18 @@ export function analyzeProgression(
 
   const { stages: initialStages, stats: stage0Stats } = generateStageLoadouts(
     repo,
-    config,
+    stage0Valuation.config,
     stage0Def,
     stage0ItemCount,
-    statValuation,
+    stage0Valuation.statValuation,
     stage0Constraint,
     stage0Scorer,
     beamWidth,
     stage0Required,
     stage0Pool,
     stage0IncludeComponents,
-    slotOptions,
+    goldReserves[0],
+    stageSlotOptions(stage0Def, stage0Valuation),
     onProgress
       ? (evaluated, valid) => reportProgress('generating', { stageIndex: 0, evaluated, valid })
       : undefined
@@ -887,7 +991,8 @@ export function analyzeProgression(
     }
     // Note: requireBoots is handled via pool injection in expandToNextStage
     
-    const stageScorer = stageDef.scorer ?? scorer;
+    const stageValuation = stageValuations[i];
+    const stageScorer = stageDef.scorer ?? stageDefaultScorer(stageValuation);
 
     // Determine whether to include component items for this stage
     // Default to true if not specified at the stage level
@@ -902,18 +1007,19 @@ export function analyzeProgression(
     const { sequences: nextSequences, stats: nextStats } = expandToNextStage(
       currentSequences,
       repo,
-      config,
+      stageValuation.config,
       i,
       stageDef,
       stageItemCount,
-      statValuation,
+      stageValuation.statValuation,
       stageConstraint,
       stageScorer,
       beamWidth,
       minTotalRecovery,
       stageRequired,
       stageIncludeComponents,
-      slotOptions,
+      goldReserves[i],
+      stageSlotOptions(stageDef, stageValuation),
       onProgress
         ? (seqIdx, totalSeqs, evaluated, valid) =>
             reportProgress('expanding', {
@@ -1094,16 +1200,53 @@ export function stagesForIncrementalTargets(
 // Formatting Utilities
 // ─────────────────────────────────────────────────────────────
 
+/**
+ * Hero to show effective HP and DPS for in formatted progressions
+ */
+export interface ProgressionCombatOptions extends Omit<CombatStatOptions, "level"> {
+  hero: Hero;
+  /** Hero level per stage (default: expected level for the stage cost) */
+  levels?: readonly (number | undefined)[];
+}
+
+/**
+ * Stage budget for a stage line, less the gold it holds back,
+ * e.g. "≤8000g - 815g buyback - 250g deaths"
+ */
+export function formatStageBudget(stage: BuildStage): string {
+  const reserve = stage.goldReserve ?? NO_GOLD_RESERVE;
+  const buyback = reserve.buyback > 0 ? ` - ${reserve.buyback}g buyback` : "";
+  const deaths = reserve.deathLoss > 0 ? ` - ${reserve.deathLoss}g deaths` : "";
+  return `≤${stage.costThreshold}g${buyback}${deaths}`;
+}
+
+/**
+ * Effective HP and DPS columns for a stage line
+ */
+function formatStageCombatStats(stage: BuildStage, combat: ProgressionCombatOptions): string {
+  const { hero, levels, ...options } = combat;
+  const stats = calculateStageCombatStats(hero, stage, { ...options, level: levels?.[stage.stageIndex] });
+  return (
+    ` [L${stats.level}: ${Math.round(stats.physicalEhp)} EHP,` +
+    ` ${Math.round(stats.magicalEhp)} magic EHP, ${Math.round(stats.dps)} DPS]`
+  );
+}
+
 /**
  * Format a build progression result for display.
  *
  * @param result - The progression result to format
  * @param verbose - Include detailed transition info
+ * @param combat - Hero to show effective HP and DPS for at each stage
+ * @param income - Net worth curve to show each stage's estimated timing
+ *   and each transition's farm time with
  * @returns Formatted string
  */
 export function formatProgression(
   result: BuildProgressionResult,
-  verbose: boolean = false
+  verbose: boolean = false,
+  combat?: ProgressionCombatOptions,
+  income?: NetWorthCurve
 ): string {
   const lines: string[] = [];
   
@@ -1127,6 +1270,7 @@ export function formatProgression(
     const sequence = result.sequences[seqIdx];
     
     lines.push(`═══ Progression ${seqIdx + 1} (Score: ${sequence.totalScore.toFixed(3)}) ═══`);
+    const timings = income ? sequenceTimings(sequence, income) : undefined;
     
     for (let i = 0; i < sequence.stages.length; i++) {
       const stage = sequence.stages[i];
@@ -1142,21 +1286,31 @@ export function formatProgression(
       const leftoverNames = leftovers.length > 0
         ? ` + [${leftovers.map((c) => c.displayName).join(", ")}]`
         : "";
+      const neutralName = loadout.neutral
+        ? ` + {T${loadout.neutral.neutralTier} ${loadout.neutral.displayName}}`
+        : "";
       
       // Use total invested cost if available, otherwise totalCost
       const cost = loadout.totalInvestedCost ?? loadout.totalCost;
-      const threshold = stage.costThreshold;
+      const budget = formatStageBudget(stage);
       const score = sequence.stageScores[i]?.toFixed(2) ?? "N/A";
       
       // Check for required items in this stage
       const requiredItems = result.resolvedTargets.get(i);
       const hasRequired = requiredItems && requiredItems.length > 0;
       const requiredMarker = hasRequired ? " [TARGET]" : "";
+      const combatStats = combat ? formatStageCombatStats(stage, combat) : "";
+      const timing = timings ? `, ~${formatMinutes(timings[i])}` : "";
+      const refunded = loadout.refundedItems ?? [];
+      const refundLine = `      Sold back in the refund window: ${refunded.map((item) => item.displayName).join(", ")} (+${refunded.reduce((sum, item) => sum + item.cost, 0)}g)`;
+      const riskLine = `      Gold at risk in leftover components: ${loadout.goldAtRisk}g`;
       
       if (i === 0) {
         lines.push(
-          `Stage ${i + 1} (≤${threshold}g): ${itemNames}${leftoverNames} (${cost}g)${requiredMarker} [score: ${score}]`
+          `Stage ${i + 1} (${budget}): ${itemNames}${leftoverNames}${neutralName} (${cost}g${timing})${requiredMarker} [score: ${score}]${combatStats}`
         );
+        if (refunded.length > 0) lines.push(refundLine);
+        if (loadout.goldAtRisk) lines.push(riskLine);
       } else {
         const prevStage = sequence.stages[i - 1];
         const prevCost = prevStage.loadout.totalInvestedCost ?? prevStage.loadout.totalCost;
@@ -1173,10 +1327,18 @@ export function formatProgression(
             )
           : 0;
         
-        lines.push(`    ↓ +${goldDelta}g, ${reusePercent}% reuse`);
+        const farmTime = timings && transition
+          ? `, ${transition.componentFlow.totalGoldNeeded}g to farm (~${formatMinutes(timings[i] - timings[i - 1])})`
+          : "";
+        
+        const refundMarker = transition?.usesRefundWindow ? ", uses refund window" : "";
+        
+        lines.push(`    ↓ +${goldDelta}g, ${reusePercent}% reuse${farmTime}${refundMarker}`);
         lines.push(
-          `Stage ${i + 1} (≤${threshold}g): ${itemNames}${leftoverNames} (${cost}g)${requiredMarker} [score: ${score}]`
+          `Stage ${i + 1} (${budget}): ${itemNames}${leftoverNames}${neutralName} (${cost}g${timing})${requiredMarker} [score: ${score}]${combatStats}`
         );
+        if (refunded.length > 0) lines.push(refundLine);
+        if (loadout.goldAtRisk) lines.push(riskLine);
         
         if (verbose && transition) {
           const flow = transition.componentFlow;
@@ -1280,6 +1442,12 @@ export async function analyzeProgressionAsync(
     targetCoverageWeight = 0.4,
     inventorySlots,
     backpackSlots,
+    neutralItems = items.filter((item) => item.neutralTier !== undefined),
+    hero,
+    levelScaling,
+    valuationProfile,
+    buybackReserve,
+    expectedDeaths,
     onProgress,
   } = options;
 
@@ -1297,6 +1465,12 @@ export async function analyzeProgressionAsync(
     targetCoverageWeight,
     inventorySlots,
     backpackSlots,
+    neutralItems: [...neutralItems],
+    hero,
+    levelScaling,
+    valuationProfile,
+    buybackReserve,
+    expectedDeaths,
   };
 
   return new Promise((resolve, reject) => {
@@ -1331,7 +1505,11 @@ export async function analyzeProgressionAsync(
           const sequences = deserializeBuildSequences(
             message.sequences,
             repo,
-            statValuation
+            neutralItems,
+            stages.map((stage) =>
+              resolveStageValuation(stage, statValuation, config, { hero, levelScaling, valuationProfile })
+            ),
+            stageGoldReserves(stages, { buybackReserve, expectedDeaths })
           );
 
           // Convert arrays back to Maps
@@ -1379,16 +1557,21 @@ export async function analyzeProgressionAsync(
 function deserializeBuildSequences(
   serialized: SerializedBuildSequence[],
   repo: ItemRepository,
-  statValuation?: StatValuation
+  neutralItems: readonly Item[],
+  stageValuations: readonly StageValuation[],
+  goldReserves: readonly StageGoldReserve[]
 ): BuildSequence[] {
   return serialized.map((s) => {
     // First pass: create all loadouts
-    const loadouts: Loadout[] = s.stageItems.map((itemNames) => {
+    const loadouts: Loadout[] = s.stageItems.map((itemNames, stageIndex) => {
       const items = itemNames
         .map((name) => repo.getByName(name))
         .filter((item): item is Item => item !== undefined);
+      const neutralItem = neutralItems.find((item) => item.name === s.stageNeutrals[stageIndex]);
+
+      const { statValuation, config } = stageValuations[stageIndex];
 
-      return createLoadoutWithLeftovers(items, [], repo, statValuation);
+      return createLoadoutWithLeftovers(items, [], repo, statValuation, { neutralItem, uniqueGroups: config.uniqueGroups, economy: config.economy }, loadoutValueOptions(config));
     });
 
     // Second pass: create stages with transitions
@@ -1396,14 +1579,16 @@ function deserializeBuildSequences(
       // Recreate transition from previous stage
       const transition =
         stageIndex > 0
-          ? createTransition(loadouts[stageIndex - 1], loadout, repo)
+          ? createTransition(loadouts[stageIndex - 1], loadout, repo, stageValuations[stageIndex].config.economy)
           : null;
 
+      const goldReserve = goldReserves[stageIndex];
       return {
         loadout,
         stageIndex,
         costThreshold: s.stageThresholds[stageIndex],
         transition,
+        ...(reservedGold(goldReserve) > 0 && { goldReserve }),
       };
     });
 
@@ -0,0 +1,143 @@
+/**
+ * Effective HP and right-click DPS for a hero holding a loadout.
+ *
+ * These turn a loadout into numbers players know, instead of the
+ * gold-equivalent totalStatValue.
+ */
+
+import { Hero, Item, ItemStats } from "../models/types";
+import { BuildStage, Loadout } from "../models/buildTypes";
+import { sumBy } from "es-toolkit";
+import {
+  HERO_BASE_HEALTH,
+  expandAttributes,
+  heroAttackDamage,
+  heroAttributesAtLevel,
+} from "./attributes";
+import { StatStackingOptions, calculateEffectiveStats, stackMultiplicative } from "./statStacking";
+import { levelForGold } from "./levelValuation";
+
+/** Magic resistance every hero has before items and intelligence */
+export const HERO_BASE_MAGIC_RESISTANCE = 25;
+
+/** Attack speed every hero has before agility and items */
+export const HERO_BASE_ATTACK_SPEED = 100;
+
+/** Attack speed limits */
+export const MIN_ATTACK_SPEED = 20;
+export const MAX_ATTACK_SPEED = 700;
+
+/**
+ * Options for calculating combat stats
+ */
+export interface CombatStatOptions extends StatStackingOptions {
+  /** Hero level (default: 1) */
+  level?: number;
+  /** Armor of the target being attacked, for DPS (default: 0) */
+  targetArmor?: number;
+}
+
+/**
+ * A hero's survivability and right-click damage with a set of items
+ */
+export interface CombatStats {
+  level: number;
+  health: number;
+  armor: number;
+  /** Percentage, after stacking hero base, intelligence and items */
+  magicResistance: number;
+  /** Health needed to kill the hero with physical damage */
+  physicalEhp: number;
+  /** Health needed to kill the hero with magical damage */
+  magicalEhp: number;
+  /** Damage per attack, including attribute and percentage bonuses */
+  attackDamage: number;
+  /** Attack speed after limits */
+  attackSpeed: number;
+  attacksPerSecond: number;
+  /** Right-click damage per second against the target armor */
+  dps: number;
+}
+
+/**
+ * Fraction of physical damage taken at an armor value.
+ * Negative armor increases damage taken.
+ */
+export function physicalDamageMultiplier(armor: number): number {
+  return 1 - (0.06 * armor) / (1 + 0.06 * Math.abs(armor));
+}
+
+/**
+ * Combat stats for a hero at a level holding items. Items are combined
+ * with the same stacking rules as loadout stat value.
+ *
+ * @param hero - Hero base stats
+ * @param items - Items providing stats (inventory and neutral slot)
+ * @param options - Level, target armor and stacking settings
+ */
+export function calculateCombatStats(
+  hero: Hero,
+  items: readonly Item[],
+  options: CombatStatOptions = {}
+): CombatStats {
+  const { level = 1, targetArmor = 0 } = options;
+
+  const heroStats = expandAttributes({ ...heroAttributesAtLevel(hero, level) }, hero.primaryAttribute);
+  const itemStats = expandAttributes(calculateEffectiveStats(items, options), hero.primaryAttribute);
+  const total = (stat: keyof ItemStats) => (heroStats[stat] ?? 0) + (itemStats[stat] ?? 0);
+
+  const health = HERO_BASE_HEALTH + total("health");
+  const armor = hero.baseArmor + total("armor");
+  const magicResistance = stackMultiplicative(
+    [HERO_BASE_MAGIC_RESISTANCE, heroStats.magicResistance ?? 0, itemStats.magicResistance ?? 0]
+  );
+
+  const baseDamage = heroAttackDamage(hero, level);
+  const percentDamage = sumBy([...items], (item) => item.percentStats?.baseDamage ?? 0);
+  const attackDamage = baseDamage + (itemStats.damage ?? 0) + (baseDamage * percentDamage) / 100;
+
+  const attackSpeed = Math.min(
+    MAX_ATTACK_SPEED,
+    Math.max(MIN_ATTACK_SPEED, HERO_BASE_ATTACK_SPEED + total("attackSpeed"))
+  );
+  const attacksPerSecond = attackSpeed / (100 * hero.baseAttackTime);
+
+  return {
+    level,
+    health,
+    armor,
+    magicResistance,
+    physicalEhp: health / physicalDamageMultiplier(armor),
+    magicalEhp: health / (1 - magicResistance / 100),
+    attackDamage,
+    attackSpeed,
+    attacksPerSecond,
+    dps: attackDamage * attacksPerSecond * physicalDamageMultiplier(targetArmor),
+  };
+}
+
+/**
+ * Combat stats for a hero holding a loadout. Like stat value, only
+ * inventory items and the neutral slot count.
+ */
+export function calculateLoadoutCombatStats(
+  hero: Hero,
+  loadout: Loadout,
+  options: CombatStatOptions = {}
+): CombatStats {
+  const items = loadout.neutral ? [...loadout.inventory, loadout.neutral] : loadout.inventory;
+  return calculateCombatStats(hero, items, options);
+}
+
+/**
+ * Combat stats for a hero holding a build stage's loadout. Without a
+ * level, the hero is at the level expected for the stage's cost threshold.
+ */
+export function calculateStageCombatStats(
+  hero: Hero,
+  stage: BuildStage,
+  options: CombatStatOptions = {}
+): CombatStats {
+  const level = options.level ?? levelForGold(stage.costThreshold);
+  return calculateLoadoutCombatStats(hero, stage.loadout, { ...options, level });
+}
@@ -7,7 +7,12 @@
 
 import { Item } from "../models/types";
 import { partition } from "es-toolkit";
-import { AnalysisConfig, isBootItem } from "../config/analysisConfig";
+import {
+  AnalysisConfig,
+  findDuplicateUniqueGroups,
+  isBootItem,
+  uniqueGroupIndex,
+} from "../config/analysisConfig";
 
 // ─────────────────────────────────────────────────────────────
 // Core Generator Functions
@@ -202,6 +207,21 @@ export const noDuplicateBoots =
     return bootCount <= 1;
   };
 
+/**
+ * Filter: At most one item from each unique group in combination.
+ *
+ * Items in a unique group (e.g. Blink Dagger and its upgrades) don't
+ * stack, so a second one adds nothing.
+ *
+ * @param config - Analysis config with unique item groups
+ * @returns Filter predicate
+ */
+export const noDuplicateUniqueItems = (config: AnalysisConfig) => {
+  const index = uniqueGroupIndex(config.uniqueGroups);
+  return (items: Item[]): boolean =>
+    findDuplicateUniqueGroups(items.map((i) => i.name), index).length === 0;
+};
+
 /**
  * Filter: At least one boot in combination.
  *
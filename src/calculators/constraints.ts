@@ -11,7 +11,12 @@ import {
   ExplainedConstraint,
 } from "../models/buildTypes";
 import { Item } from "../models/types";
-import { AnalysisConfig, isBootItem } from "../config/analysisConfig";
+import {
+  AnalysisConfig,
+  findDuplicateUniqueGroups,
+  isBootItem,
+  uniqueGroupIndex,
+} from "../config/analysisConfig";
 
 // ─────────────────────────────────────────────────────────────
 // Core Constraints
@@ -69,7 +74,8 @@ export const maxCostIncrease = (max: number): TransitionConstraint => (t) =>
 /**
  * Require minimum total gold recovery percentage.
  *
- * Includes both component reuse AND recipe recovery (Gyro's innate gives 100% recipe refund).
+ * Includes both component reuse AND recipe recovery (at the economy's recipe recovery rate;
+ * Gyro's innate gives a 100% recipe refund).
  * This measures true gold efficiency - how much of your previous investment you retain.
  *
  * @param minPercent - Minimum recovery as decimal (0-1), e.g., 0.5 = 50%
@@ -177,6 +183,22 @@ export const noDuplicateBoots = (
   return fromBoots.length <= 1 && toBoots.length <= 1;
 };
 
+/**
+ * Constraint: At most one item from each unique group in a loadout.
+ * Items in a unique group (e.g. Blink Dagger and its upgrades) don't stack.
+ *
+ * @param config - Analysis config containing unique item groups
+ * @returns Constraint for both initial and final loadouts
+ */
+export const noDuplicateUniqueItems = (
+  config: AnalysisConfig
+): TransitionConstraint => {
+  const index = uniqueGroupIndex(config.uniqueGroups);
+  return (t) =>
+    findDuplicateUniqueGroups(t.from.items.map((i) => i.name), index).length === 0 &&
+    findDuplicateUniqueGroups(t.to.items.map((i) => i.name), index).length === 0;
+};
+
 /**
  * Constraint: Final loadout must contain specific item.
  *
@@ -0,0 +1,150 @@
+import { Item } from "../models/types";
+import { OpenDotaItem, isRecognizedAttribKey } from "../data/fetchItems";
+import { calculateStatValuation } from "./statValuation";
+import { EfficiencyOptions, calculateItemEfficiency } from "./efficiency";
+import { formatUtilityCategories } from "./utility";
+import { orderBy } from "es-toolkit";
+
+/**
+ * An attribute key the stat extractor doesn't recognize,
+ * with every item that uses it
+ */
+export interface UnmappedAttribute {
+  key: string;
+  items: { name: string; displayName: string; value: string }[];
+}
+
+/**
+ * A priced item that ended up with no stats at all
+ */
+export interface EmptyStatItem {
+  item: Item;
+  /** Utility categories, or "-" if the item has none (likely a mapping gap) */
+  utility: string;
+}
+
+/**
+ * An item whose stat value is far from its cost
+ */
+export interface ValueOutlier {
+  item: Item;
+  statValue: number;
+  /** Stat value / cost */
+  ratio: number;
+}
+
+/**
+ * Result of auditing the item data
+ */
+export interface DataAuditResult {
+  /** Unrecognized attribute keys, most widely used first; undefined when no raw data was available */
+  unmappedAttributes?: UnmappedAttribute[];
+  emptyStatItems: EmptyStatItem[];
+  valueOutliers: ValueOutlier[];
+}
+
+/**
+ * Options for the data audit
+ */
+export interface DataAuditOptions extends EfficiencyOptions {
+  /** Flag items whose stat value is below this fraction of their cost (default: 0.25) */
+  minRatio?: number;
+  /** Flag items whose stat value is above this multiple of their cost (default: 2.0) */
+  maxRatio?: number;
+}
+
+/**
+ * Find attribute keys dropped by the stat extractor.
+ * Only raw entries that became items are audited, so recipes, neutral
+ * and removed items don't drown out the report.
+ */
+export function findUnmappedAttributes(
+  raw: Record<string, OpenDotaItem>,
+  items: Item[]
+): UnmappedAttribute[] {
+  const byKey = new Map<string, UnmappedAttribute>();
+
+  for (const item of items) {
+    if (item.neutralTier !== undefined) continue;
+
+    for (const attr of raw[item.name]?.attrib ?? []) {
+      if (isRecognizedAttribKey(attr.key)) continue;
+
+      let entry = byKey.get(attr.key);
+      if (!entry) {
+        entry = { key: attr.key, items: [] };
+        byKey.set(attr.key, entry);
+      }
+      entry.items.push({ name: item.name, displayName: item.displayName, value: String(attr.value) });
+    }
+  }
+
+  return orderBy([...byKey.values()], [(a) => a.items.length, "key"], ["desc", "asc"]);
+}
+
+/**
+ * Whether the extractor produced anything valuable for an item
+ */
+function hasExtractedStats(item: Item): boolean {
+  return (
+    Object.keys(item.stats).length > 0 ||
+    Object.keys(item.auraStats).length > 0 ||
+    Object.keys(item.percentStats ?? {}).length > 0 ||
+    Object.keys(item.auraPercentStats ?? {}).length > 0 ||
+    Object.keys(item.debuffStats ?? {}).length > 0 ||
+    (item.conditionalStats?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Find priced, non-consumable items with no extracted stats of any kind
+ */
+export function findEmptyStatItems(items: Item[]): EmptyStatItem[] {
+  const empty = items.filter(
+    (item) => !item.isConsumable && item.cost > 0 && !hasExtractedStats(item)
+  );
+
+  return orderBy(empty, ["cost"], ["desc"]).map((item) => ({
+    item,
+    utility: formatUtilityCategories(item.name),
+  }));
+}
+
+/**
+ * Find items whose stat value is wildly different from their cost.
+ * Items without any stats are left to findEmptyStatItems.
+ */
+export function findValueOutliers(items: Item[], options: DataAuditOptions = {}): ValueOutlier[] {
+  const { minRatio = 0.25, maxRatio = 2.0 } = options;
+  const statValuation = options.statValuation ?? calculateStatValuation(items);
+  const outliers: ValueOutlier[] = [];
+
+  for (const item of items) {
+    if (item.isConsumable || item.cost <= 0) continue;
+    if (!hasExtractedStats(item)) continue;
+
+    const { totalStatValue } = calculateItemEfficiency(item, statValuation, options);
+    const ratio = totalStatValue / item.cost;
+    if (ratio < minRatio || ratio > maxRatio) {
+      outliers.push({ item, statValue: totalStatValue, ratio });
+    }
+  }
+
+  return orderBy(outliers, [(o) => Math.abs(Math.log(o.ratio || Number.MIN_VALUE))], ["desc"]);
+}
+
+/**
+ * Audit item data for gaps in the stat extractor's mapping.
+ * Pass the raw payload the items were parsed from to include unmapped attribute keys.
+ */
+export function auditItemData(
+  items: Item[],
+  raw?: Record<string, OpenDotaItem>,
+  options: DataAuditOptions = {}
+): DataAuditResult {
+  return {
+    unmappedAttributes: raw ? findUnmappedAttributes(raw, items) : undefined,
+    emptyStatItems: findEmptyStatItems(items),
+    valueOutliers: findValueOutliers(items, options),
+  };
+}
@@ -1,12 +1,23 @@
-import { Item, ItemStats, StatValuation, EfficiencyResult } from "../models/types";
-import { calculateStatValuation } from "./statValuation";
-import { calculateUtilityValue } from "./utility";
-import { orderBy, partition, minBy, maxBy } from "es-toolkit";
+import {
+  Item,
+  ItemStats,
+  DebuffStats,
+  EnemyStatValuation,
+  PercentStats,
+  StatValuation,
+  EfficiencyResult,
+} from "../models/types";
+import { calculateStatValuation, calculateEnemyStatValuation } from "./statValuation";
+import { calculateUtilityValue, UtilityProfile } from "./utility";
+import { StatStackingOptions } from "./statStacking";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+import { orderBy, partition, minBy, maxBy, sumBy } from "es-toolkit";
 
 /**
- * Options for efficiency calculation
+ * Options for valuing auras, percentage and conditional bonuses,
+ * and for stacking stats across a loadout's items
  */
-export interface EfficiencyOptions {
+export interface BonusStatOptions extends StatStackingOptions {
   /**
    * Multiplier for aura stats to account for team-wide benefit.
    * 1.0 = solo (only affects yourself)
@@ -15,6 +26,129 @@ export interface EfficiencyOptions {
    * Default: 1.0
    */
   auraMultiplier?: number;
+  /** Hero base damage for percentage damage bonuses (default: thresholds.heroBaseDamage) */
+  heroBaseDamage?: number;
+  /** Uptime for conditional bonuses without their own (default: thresholds.conditionalUptime) */
+  conditionalUptime?: number;
+  /** Multiplier for the derived enemy stat valuation (default: thresholds.debuffMultiplier) */
+  debuffMultiplier?: number;
+  /** Explicit gold value of enemy debuffs; derived from the stat valuation when omitted */
+  enemyStatValuation?: EnemyStatValuation;
+}
+
+/**
+ * Options for efficiency calculation
+ */
+export interface EfficiencyOptions extends BonusStatOptions {
+  /** Custom utility valuation (default: the built-in utility tables) */
+  utilityProfile?: UtilityProfile;
+  /**
+   * Precomputed stat valuation (e.g. hero-specific) for the ranking functions.
+   * Derived from the ranked items when omitted.
+   */
+  statValuation?: StatValuation;
+}
+
+/**
+ * Value an item's percentage and conditional bonuses as flat stats.
+ *
+ * Percentage base damage becomes flat damage using the hero's base damage;
+ * conditional stats are scaled by their uptime. Aura bonuses are scaled
+ * by the aura multiplier like regular aura stats.
+ */
+export function calculateBonusStatBreakdown(
+  item: Item,
+  statValuation: StatValuation,
+  options: EfficiencyOptions = {}
+): EfficiencyResult["statBreakdown"] {
+  const {
+    auraMultiplier = 1.0,
+    heroBaseDamage = DEFAULT_CONFIG.thresholds.heroBaseDamage,
+    conditionalUptime = DEFAULT_CONFIG.thresholds.conditionalUptime,
+  } = options;
+  const breakdown: EfficiencyResult["statBreakdown"] = [];
+
+  const addEntry = (stat: keyof ItemStats, amount: number) => {
+    if (amount === 0) return;
+    breakdown.push({ stat, amount, goldValue: amount * (statValuation[stat] || 0) });
+  };
+
+  const percentSources: [PercentStats | undefined, number][] = [
+    [item.percentStats, 1],
+    [item.auraPercentStats, auraMultiplier],
+  ];
+  for (const [percentStats, multiplier] of percentSources) {
+    if (percentStats?.baseDamage) {
+      addEntry("damage", (percentStats.baseDamage / 100) * heroBaseDamage * multiplier);
+    }
+  }
+
+  for (const conditional of item.conditionalStats ?? []) {
+    const uptime = conditional.uptime ?? conditionalUptime;
+    const multiplier = uptime * (conditional.aura ? auraMultiplier : 1);
+    for (const [stat, amount] of Object.entries(conditional.stats) as [keyof ItemStats, number][]) {
+      if (amount === undefined) continue;
+      addEntry(stat, amount * multiplier);
+    }
+  }
+
+  return breakdown;
+}
+
+/**
+ * Value an item's aura stats, scaled by the aura multiplier
+ */
+export function calculateAuraStatBreakdown(
+  item: Item,
+  statValuation: StatValuation,
+  options: EfficiencyOptions = {}
+): EfficiencyResult["statBreakdown"] {
+  const { auraMultiplier = 1.0 } = options;
+  const breakdown: EfficiencyResult["statBreakdown"] = [];
+
+  for (const [stat, amount] of Object.entries(item.auraStats) as [keyof ItemStats, number][]) {
+    if (amount === undefined || amount === 0) continue;
+
+    const effectiveAmount = amount * auraMultiplier;
+    breakdown.push({ stat, amount: effectiveAmount, goldValue: effectiveAmount * (statValuation[stat] || 0) });
+  }
+
+  return breakdown;
+}
+
+/**
+ * Value an item's enemy debuffs (armor and magic resistance reduction)
+ * using an enemy stat valuation. Conditional debuffs (e.g. from an
+ * active) are scaled by their uptime like conditional stats.
+ */
+export function calculateDebuffBreakdown(
+  item: Item,
+  statValuation: StatValuation,
+  options: BonusStatOptions = {}
+): EfficiencyResult["debuffBreakdown"] {
+  const {
+    conditionalUptime = DEFAULT_CONFIG.thresholds.conditionalUptime,
+    debuffMultiplier = DEFAULT_CONFIG.thresholds.debuffMultiplier,
+    enemyStatValuation = calculateEnemyStatValuation(statValuation, debuffMultiplier),
+  } = options;
+
+  const debuffSources: [DebuffStats | undefined, number][] = [
+    [item.debuffStats, 1],
+    ...(item.conditionalStats ?? []).map(
+      (conditional): [DebuffStats | undefined, number] => [conditional.debuffStats, conditional.uptime ?? conditionalUptime]
+    ),
+  ];
+
+  const breakdown: EfficiencyResult["debuffBreakdown"] = [];
+  for (const [debuffStats, multiplier] of debuffSources) {
+    for (const [stat, amount] of Object.entries(debuffStats ?? {}) as [keyof DebuffStats, number][]) {
+      if (amount === undefined || amount === 0) continue;
+      const effectiveAmount = amount * multiplier;
+      breakdown.push({ stat, amount: effectiveAmount, goldValue: effectiveAmount * (enemyStatValuation[stat] || 0) });
+    }
+  }
+
+  return breakdown;
 }
 
 /**
@@ -25,7 +159,6 @@ export function calculateItemEfficiency(
   statValuation: StatValuation,
   options: EfficiencyOptions = {}
 ): EfficiencyResult {
-  const { auraMultiplier = 1.0 } = options;
   const statBreakdown: EfficiencyResult["statBreakdown"] = [];
   let totalStatValue = 0;
 
@@ -46,24 +179,24 @@ export function calculateItemEfficiency(
   }
 
   // Process aura stats with multiplier
-  for (const [stat, amount] of Object.entries(item.auraStats) as [keyof ItemStats, number][]) {
-    if (amount === undefined || amount === 0) continue;
-
-    const goldPerPoint = statValuation[stat] || 0;
-    const effectiveAmount = amount * auraMultiplier;
-    const goldValue = effectiveAmount * goldPerPoint;
-
-    statBreakdown.push({
-      stat,
-      amount: effectiveAmount,
-      goldValue,
-    });
+  for (const entry of calculateAuraStatBreakdown(item, statValuation, options)) {
+    statBreakdown.push(entry);
+    totalStatValue += entry.goldValue;
+  }
 
-    totalStatValue += goldValue;
+  // Process percentage and conditional bonuses
+  for (const entry of calculateBonusStatBreakdown(item, statValuation, options)) {
+    statBreakdown.push(entry);
+    totalStatValue += entry.goldValue;
   }
 
+  // Process enemy debuffs (counted in stat value, reported separately)
+  const debuffBreakdown = calculateDebuffBreakdown(item, statValuation, options);
+  const debuffValue = sumBy(debuffBreakdown, (entry) => entry.goldValue);
+  totalStatValue += debuffValue;
+
   // Calculate utility value
-  const utilityValue = calculateUtilityValue(item.name);
+  const utilityValue = calculateUtilityValue(item.name, item.active?.cooldown, options.utilityProfile);
   
   // Total value = stats + utility
   const totalValue = totalStatValue + utilityValue;
@@ -79,6 +212,8 @@ export function calculateItemEfficiency(
     efficiency,
     efficiencyWithUtility,
     statBreakdown,
+    debuffValue,
+    debuffBreakdown,
   };
 }
 
@@ -86,9 +221,8 @@ export function calculateItemEfficiency(
  * Calculate efficiency for all items, sorted by efficiency (highest first)
  */
 export function getItemsByEfficiency(items: Item[], options: EfficiencyOptions = {}): EfficiencyResult[] {
-  const { auraMultiplier = 1.0 } = options;
-  const statValuation = calculateStatValuation(items);
-  const results = items.map((item) => calculateItemEfficiency(item, statValuation, { auraMultiplier }));
+  const statValuation = options.statValuation ?? calculateStatValuation(items);
+  const results = items.map((item) => calculateItemEfficiency(item, statValuation, options));
   return orderBy(results, ['efficiency'], ['desc']);
 }
 
@@ -109,9 +243,8 @@ export interface ValueRankingResult extends EfficiencyResult {
  * Uses efficiencyWithUtility to account for active abilities.
  */
 export function getItemsByValue(items: Item[], options: EfficiencyOptions = {}): ValueRankingResult[] {
-  const { auraMultiplier = 1.0 } = options;
-  const statValuation = calculateStatValuation(items);
-  const results = items.map((item) => calculateItemEfficiency(item, statValuation, { auraMultiplier }));
+  const statValuation = options.statValuation ?? calculateStatValuation(items);
+  const results = items.map((item) => calculateItemEfficiency(item, statValuation, options));
   
   // Filter out items with zero total value (no stats and no utility)
   const validResults = results.filter(r => r.totalValue > 0);
@@ -161,11 +294,11 @@ export function getItemsByValue(items: Item[], options: EfficiencyOptions = {}):
 /**
  * Split value rankings into component (simple) items and upgraded items
  */
-export function getItemsByValueSplit(items: Item[]): {
+export function getItemsByValueSplit(items: Item[], options: EfficiencyOptions = {}): {
   simpleItems: ValueRankingResult[];
   upgradedItems: ValueRankingResult[];
 } {
-  const allResults = getItemsByValue(items);
+  const allResults = getItemsByValue(items, options);
   const [simpleItems, upgradedItems] = partition(allResults, r => r.item.isComponent);
   
   return { simpleItems, upgradedItems };
@@ -0,0 +1,265 @@
+/**
+ * Gold income over game time.
+ *
+ * Stage budgets are in gold, but builds are planned in minutes ("BKB by
+ * 18:00"). A net worth curve converts between the two: minute stages
+ * resolve to the net worth expected at that minute, and a progression's
+ * stages and transitions get an estimated timing and farm time.
+ * Net worth is taken as gold available for items, so consumables, deaths
+ * and buybacks are not modelled.
+ */
+
+import { BuildSequence, StageDefinition } from "../models/buildTypes";
+
+/**
+ * Net worth by game time, as [minute, net worth] points.
+ * Minutes increase and net worth never decreases.
+ */
+export type NetWorthCurve = readonly (readonly [number, number])[];
+
+/**
+ * Gold per minute from a game minute until the next segment
+ */
+export interface GpmSegment {
+  fromMinute: number;
+  gpm: number;
+}
+
+/** Gold every hero starts the game with */
+export const STARTING_GOLD = 600;
+
+/**
+ * Default gold income, roughly a core hero in an average-paced game
+ * (passive gold included).
+ */
+export const DEFAULT_GPM_SEGMENTS: readonly GpmSegment[] = [
+  { fromMinute: 0, gpm: 400 },
+  { fromMinute: 10, gpm: 550 },
+  { fromMinute: 20, gpm: 650 },
+  { fromMinute: 30, gpm: 700 },
+];
+
+/**
+ * Check that a curve can be read both ways: at least two points, minutes
+ * increasing, net worth never decreasing and still rising at the end
+ */
+export function validateNetWorthCurve(curve: NetWorthCurve): NetWorthCurve {
+  if (curve.length < 2) {
+    throw new Error("Net worth curve needs at least two points");
+  }
+  for (let i = 1; i < curve.length; i++) {
+    const [minute0, worth0] = curve[i - 1];
+    const [minute1, worth1] = curve[i];
+    if (!(minute1 > minute0)) {
+      throw new Error(`Net worth curve minutes must increase (${minute0} then ${minute1})`);
+    }
+    if (worth1 < worth0) {
+      throw new Error(`Net worth curve must not decrease (${worth0}g at ${minute0} min, ${worth1}g at ${minute1} min)`);
+    }
+  }
+  const [, last] = curve[curve.length - 1];
+  const [, beforeLast] = curve[curve.length - 2];
+  if (!(last > beforeLast)) {
+    throw new Error("Net worth curve must still be rising at its last point");
+  }
+  return curve;
+}
+
+/**
+ * Net worth curve for piecewise constant gold per minute
+ *
+ * @param segments - GPM from each minute on; the first must start at minute 0
+ * @param startingGold - Net worth at minute 0 (default: STARTING_GOLD)
+ */
+export function netWorthCurveFromGpm(
+  segments: readonly GpmSegment[] = DEFAULT_GPM_SEGMENTS,
+  startingGold: number = STARTING_GOLD
+): NetWorthCurve {
+  if (segments.length === 0 || segments[0].fromMinute !== 0) {
+    throw new Error("GPM segments must start at minute 0");
+  }
+  for (const { fromMinute, gpm } of segments) {
+    if (!(gpm >= 0) || !Number.isFinite(gpm)) {
+      throw new Error(`GPM must be a non-negative number (got ${gpm} from minute ${fromMinute})`);
+    }
+  }
+
+  const curve: [number, number][] = [[0, startingGold]];
+  for (let i = 0; i < segments.length; i++) {
+    const { fromMinute, gpm } = segments[i];
+    // The last segment runs on; one more minute gives its slope
+    const until = segments[i + 1]?.fromMinute ?? fromMinute + 1;
+    if (!(until > fromMinute)) {
+      throw new Error(`GPM segment minutes must increase (${fromMinute} then ${until})`);
+    }
+    const [, worth] = curve[curve.length - 1];
+    curve.push([until, worth + gpm * (until - fromMinute)]);
+  }
+  return validateNetWorthCurve(curve);
+}
+
+/** Default net worth curve, from DEFAULT_GPM_SEGMENTS */
+export const DEFAULT_NET_WORTH_CURVE: NetWorthCurve = netWorthCurveFromGpm();
+
+/**
+ * Fit a net worth curve to match history: the median net worth at each
+ * minute, over the matches that lasted that long.
+ *
+ * The curve stops where fewer than half the matches are still going
+ * (only the long games remain, and they skew late minutes). Medians are
+ * made non-decreasing, and trailing flat minutes are dropped so the curve
+ * keeps rising.
+ *
+ * @param matches - Net worth at each minute (index 0 = minute 0) per match
+ */
+export function fitNetWorthCurve(matches: readonly (readonly number[])[]): NetWorthCurve {
+  if (matches.length === 0) {
+    throw new Error("Match history has no matches");
+  }
+  const minMatches = Math.ceil(matches.length / 2);
+  const curve: [number, number][] = [];
+
+  for (let minute = 0; ; minute++) {
+    const values = matches
+      .filter((match) => match.length > minute)
+      .map((match) => match[minute])
+      .sort((a, b) => a - b);
+    if (values.length < minMatches) break;
+
+    const mid = Math.floor(values.length / 2);
+    const median = values.length % 2 === 1 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+    const previous = curve[curve.length - 1]?.[1] ?? -Infinity;
+    curve.push([minute, Math.max(previous, median)]);
+  }
+
+  while (curve.length > 1 && curve[curve.length - 1][1] === curve[curve.length - 2][1]) {
+    curve.pop();
+  }
+  return validateNetWorthCurve(curve);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Reading the curve
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Expected net worth at a game minute. Minutes past the curve continue
+ * its last slope.
+ */
+export function goldAtMinute(minute: number, curve: NetWorthCurve = DEFAULT_NET_WORTH_CURVE): number {
+  if (minute <= curve[0][0]) return curve[0][1];
+
+  for (let i = 1; i < curve.length; i++) {
+    if (minute <= curve[i][0] || i === curve.length - 1) {
+      const [minute0, worth0] = curve[i - 1];
+      const [minute1, worth1] = curve[i];
+      return worth0 + ((minute - minute0) / (minute1 - minute0)) * (worth1 - worth0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * First game minute the expected net worth reaches an amount of gold.
+ * Gold past the curve continues its last slope.
+ */
+export function minuteForGold(gold: number, curve: NetWorthCurve = DEFAULT_NET_WORTH_CURVE): number {
+  if (gold <= curve[0][1]) return curve[0][0];
+
+  for (let i = 1; i < curve.length; i++) {
+    if (gold <= curve[i][1] || i === curve.length - 1) {
+      const [minute0, worth0] = curve[i - 1];
+      const [minute1, worth1] = curve[i];
+      return minute0 + ((gold - worth0) / (worth1 - worth0)) * (minute1 - minute0);
+    }
+  }
+  return curve[curve.length - 1][0];
+}
+
+/**
+ * Minutes it takes to farm an amount of gold, starting at a game minute
+ */
+export function minutesToFarm(
+  gold: number,
+  fromMinute: number,
+  curve: NetWorthCurve = DEFAULT_NET_WORTH_CURVE
+): number {
+  if (gold <= 0) return 0;
+  return minuteForGold(goldAtMinute(fromMinute, curve) + gold, curve) - fromMinute;
+}
+
+/**
+ * Format game minutes as m:ss
+ */
+export function formatMinutes(minutes: number): string {
+  const seconds = Math.round(minutes * 60);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Stages
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * A stage defined by its gold budget, its game minute, or both
+ */
+export type TimedStageDefinition = Omit<StageDefinition, "maxCost"> & {
+  readonly maxCost?: number;
+};
+
+/**
+ * Resolve stages defined by game minute to the expected net worth at that
+ * minute. Stages with a maxCost keep it.
+ *
+ * @param stages - Stages with a maxCost or an atMinute
+ * @param curve - Net worth curve (default: DEFAULT_NET_WORTH_CURVE)
+ */
+export function resolveStageTimings(
+  stages: readonly TimedStageDefinition[],
+  curve: NetWorthCurve = DEFAULT_NET_WORTH_CURVE
+): StageDefinition[] {
+  return stages.map((stage, index) => {
+    if (stage.maxCost !== undefined) return { ...stage, maxCost: stage.maxCost };
+    if (stage.atMinute === undefined) {
+      throw new Error(`Stage ${index + 1} needs a maxCost or an atMinute`);
+    }
+    return { ...stage, maxCost: Math.round(goldAtMinute(stage.atMinute, curve)) };
+  });
+}
+
+/**
+ * Create stages for game minutes, each capped at the expected net worth
+ */
+export function stagesFromMinutes(
+  minutes: readonly number[],
+  curve: NetWorthCurve = DEFAULT_NET_WORTH_CURVE
+): StageDefinition[] {
+  return resolveStageTimings(minutes.map((atMinute) => ({ atMinute })), curve);
+}
+
+/**
+ * Estimated timing of each stage of a progression.
+ *
+ * The first stage is done when net worth reaches its cost; each later
+ * stage after farming its transition's new gold (components bought plus
+ * net recipe cost, so reused and disassembled parts cost no time).
+ */
+export function sequenceTimings(
+  sequence: BuildSequence,
+  curve: NetWorthCurve = DEFAULT_NET_WORTH_CURVE
+): number[] {
+  const timings: number[] = [];
+  let previousCost = 0;
+  for (const { loadout, transition } of sequence.stages) {
+    const cost = loadout.totalInvestedCost ?? loadout.totalCost;
+    const previous = timings[timings.length - 1];
+    if (previous === undefined) {
+      timings.push(minuteForGold(cost, curve));
+    } else {
+      const gold = transition ? transition.componentFlow.totalGoldNeeded : cost - previousCost;
+      timings.push(previous + minutesToFarm(gold, previous, curve));
+    }
+    previousCost = cost;
+  }
+  return timings;
+}
@@ -0,0 +1,126 @@
+/**
+ * Gold held back from stage budgets.
+ *
+ * A stage's maxCost is the net worth expected there, but not all of it can
+ * go into items. Later in the game a core keeps enough gold to buy back,
+ * and each death loses gold that has to be farmed again. Both come off the
+ * budget a progression stage spends on new components and recipes.
+ *
+ * Buyback cost follows the current formula (200 + net worth / 13) or the
+ * older level-based one; gold lost on death is 50 + net worth / 40 per death.
+ */
+
+import { BuybackReserve, StageDefinition, StageGoldReserve } from "../models/buildTypes";
+import { levelForGold } from "./levelValuation";
+import { minuteForGold } from "./goldIncome";
+
+/** Buyback cost before the net worth term */
+export const BUYBACK_BASE_COST = 200;
+
+/** Net worth per gold of buyback cost */
+export const BUYBACK_NET_WORTH_DIVISOR = 13;
+
+/** Gold lost on death before the net worth term */
+export const DEATH_BASE_LOSS = 50;
+
+/** Net worth per gold lost on death */
+export const DEATH_NET_WORTH_DIVISOR = 40;
+
+/** No gold held back */
+export const NO_GOLD_RESERVE: StageGoldReserve = { buyback: 0, deathLoss: 0 };
+
+/**
+ * Buyback cost at a net worth
+ */
+export function buybackCost(netWorth: number): number {
+  return Math.floor(BUYBACK_BASE_COST + netWorth / BUYBACK_NET_WORTH_DIVISOR);
+}
+
+/**
+ * Buyback cost by the older formula: 100 + level² × 1.5 + 15 per minute
+ */
+export function levelBuybackCost(level: number, minute: number = 0): number {
+  return Math.floor(100 + level * level * 1.5 + minute * 15);
+}
+
+/**
+ * Gold lost on one death at a net worth
+ */
+export function goldLostOnDeath(netWorth: number): number {
+  return Math.floor(DEATH_BASE_LOSS + netWorth / DEATH_NET_WORTH_DIVISOR);
+}
+
+/**
+ * Parse a buyback reserve: gold, "networth" or "level" (any case)
+ */
+export function parseBuybackReserve(input: string | number): BuybackReserve {
+  if (typeof input === "number" || /^\d+(\.\d+)?$/.test(input.trim())) {
+    const gold = Number(input);
+    if (!(gold >= 0)) {
+      throw new Error(`Buyback reserve must be a non-negative amount of gold (got ${input})`);
+    }
+    return gold;
+  }
+  const mode = input.trim().toLowerCase();
+  if (mode === "networth") return "netWorth";
+  if (mode === "level") return "level";
+  throw new Error(`Unknown buyback reserve "${input}" (expected gold, networth or level)`);
+}
+
+/**
+ * Options for the gold a stage holds back
+ */
+export interface GoldRiskOptions {
+  /** Buyback reserve for stages without their own */
+  buybackReserve?: BuybackReserve;
+  /** Expected deaths per stage for stages without their own */
+  expectedDeaths?: number;
+}
+
+/**
+ * Gold a stage holds back from its budget: the buyback reserve, and the
+ * expected loss from dying while farming it. Both are taken at the stage's
+ * maxCost as net worth; the level formula uses the stage's heroLevel and
+ * atMinute, or the level and minute expected at that net worth.
+ *
+ * @param stage - Stage definition; its buybackReserve and expectedDeaths win over the options
+ * @param options - Buyback reserve and expected deaths for the other stages
+ */
+export function stageGoldReserve(stage: StageDefinition, options: GoldRiskOptions = {}): StageGoldReserve {
+  const reserve = stage.buybackReserve ?? options.buybackReserve;
+  const deaths = stage.expectedDeaths ?? options.expectedDeaths ?? 0;
+  if (!(deaths >= 0)) {
+    throw new Error(`Expected deaths must be a non-negative number (got ${deaths})`);
+  }
+
+  let buyback = 0;
+  if (reserve === "netWorth") {
+    buyback = buybackCost(stage.maxCost);
+  } else if (reserve === "level") {
+    const level = stage.heroLevel ?? levelForGold(stage.maxCost);
+    buyback = levelBuybackCost(level, stage.atMinute ?? minuteForGold(stage.maxCost));
+  } else if (reserve !== undefined) {
+    buyback = reserve;
+  }
+
+  return { buyback, deathLoss: Math.round(deaths * goldLostOnDeath(stage.maxCost)) };
+}
+
+/**
+ * Total gold held back by a reserve
+ */
+export function reservedGold(reserve: StageGoldReserve): number {
+  return reserve.buyback + reserve.deathLoss;
+}
+
+/**
+ * Gold each stage of a progression holds back. The global reserve and
+ * deaths apply from the second stage on; the first is bought before either
+ * matters. A stage's own buybackReserve or expectedDeaths always applies.
+ */
+export function stageGoldReserves(
+  stages: readonly StageDefinition[],
+  options: GoldRiskOptions = {}
+): StageGoldReserve[] {
+  return stages.map((stage, index) => stageGoldReserve(stage, index === 0 ? {} : options));
+}
@@ -26,6 +26,13 @@ export type {
 export {
   createLoadout,
   emptyLoadout,
+  selectNeutralItem,
+  loadoutValueOptions,
+  canDisassemble,
+  recipeRefund,
+  sellValue,
+  calculateSoldRecovery,
+  containsItem,
   analyzeComponentFlow,
   createTransition,
   createTransitionFromItems,
@@ -51,6 +58,7 @@ export {
   minFinalCost,
   maxFinalCost,
   noDuplicateBoots,
+  noDuplicateUniqueItems,
   finalMustContain,
   finalMustNotContain,
   initialMustContain,
@@ -110,6 +118,7 @@ export {
   collectCombinations,
   countCombinations,
   noDuplicateBoots as noDuplicateBootsFilter,
+  noDuplicateUniqueItems as noDuplicateUniqueItemsFilter,
   hasAtLeastOneBoot,
   hasExactlyOneBoot,
   hasNoBoots,
@@ -157,6 +166,147 @@ export {
   getItemsByValueSplit,
 } from "./efficiency";
 
+// Patch diff (compare two item snapshots)
+export {
+  diffItems,
+  diffStatValuations,
+  diffEfficiencyRankings,
+  diffRecipeCosts,
+  diffItemSets,
+} from "./patchDiff";
+export type {
+  StatChange,
+  ItemChange,
+  ValuationChange,
+  RankingChange,
+  RecipeCostChange,
+  PatchDiff,
+  PatchDiffOptions,
+} from "./patchDiff";
+
+// Item data audit
+export {
+  findUnmappedAttributes,
+  findEmptyStatItems,
+  findValueOutliers,
+  auditItemData,
+} from "./dataAudit";
+export type {
+  UnmappedAttribute,
+  EmptyStatItem,
+  ValueOutlier,
+  DataAuditResult,
+  DataAuditOptions,
+} from "./dataAudit";
+
+// Valuation sensitivity
+export {
+  sensitivityParameters,
+  selectSensitivityParameters,
+  perturbValuation,
+  analyzeEfficiencySensitivity,
+  sequenceKey,
+  analyzeProgressionSensitivity,
+} from "./sensitivity";
+export type {
+  SensitivityParameter,
+  PerturbedValuation,
+  EfficiencySensitivityOptions,
+  BreakEven,
+  ParameterSensitivity,
+  ItemStability,
+  EfficiencySensitivity,
+  ProgressionSensitivityOptions,
+  ProgressionParameterSensitivity,
+  ProgressionSensitivity,
+} from "./sensitivity";
+
+// Robust ranking under valuation uncertainty
+export {
+  createRng,
+  sampleDistribution,
+  sampleValuation,
+  analyzeRobustItemRanking,
+  analyzeRobustProgression,
+} from "./robustRanking";
+export type {
+  ValueDistribution,
+  ValuationUncertainty,
+  ValuationSample,
+  RankStatistics,
+  RobustItemRankingOptions,
+  RobustItem,
+  RobustItemRanking,
+  RobustProgressionOptions,
+  RobustProgression,
+  RobustProgressionRanking,
+} from "./robustRanking";
+
+// Pareto frontier of cost versus value
+export {
+  dominates,
+  paretoFrontier,
+  paretoLayers,
+  itemParetoPoints,
+  getItemParetoFrontier,
+  getLoadoutParetoFrontier,
+} from "./pareto";
+export type {
+  ParetoPoint,
+  DominatedPoint,
+  ParetoFrontier,
+  LoadoutParetoOptions,
+  LoadoutParetoFrontier,
+} from "./pareto";
+
+// Gold income over game time
+export {
+  STARTING_GOLD,
+  DEFAULT_GPM_SEGMENTS,
+  DEFAULT_NET_WORTH_CURVE,
+  validateNetWorthCurve,
+  netWorthCurveFromGpm,
+  fitNetWorthCurve,
+  goldAtMinute,
+  minuteForGold,
+  minutesToFarm,
+  formatMinutes,
+  resolveStageTimings,
+  stagesFromMinutes,
+  sequenceTimings,
+} from "./goldIncome";
+export type {
+  NetWorthCurve,
+  GpmSegment,
+  TimedStageDefinition,
+} from "./goldIncome";
+
+// Buyback reserve and death losses held back from stage budgets
+export {
+  BUYBACK_BASE_COST,
+  BUYBACK_NET_WORTH_DIVISOR,
+  DEATH_BASE_LOSS,
+  DEATH_NET_WORTH_DIVISOR,
+  NO_GOLD_RESERVE,
+  buybackCost,
+  levelBuybackCost,
+  goldLostOnDeath,
+  parseBuybackReserve,
+  stageGoldReserve,
+  stageGoldReserves,
+  reservedGold,
+} from "./goldRisk";
+export type { GoldRiskOptions } from "./goldRisk";
+
+// Shopping lists for transitions
+export { STASH_SLOTS, planShoppingList } from "./shoppingList";
+export type {
+  ShoppingAction,
+  ShoppingStep,
+  ShoppingList,
+  ShoppingListOptions,
+} from "./shoppingList";
+
 // Scoring functions
 export {
   SynergyScoreInputs,
@@ -167,10 +317,80 @@ export {
 
 // Stat valuation
 export {
+  STAT_KEYS,
+  ValuationMode,
+  VALUATION_MODES,
+  isValuationMode,
   calculateStatValuation,
+  applyValuationProfile,
   formatStatValuation,
 } from "./statValuation";
 
+// Regression (least-squares) stat valuation
+export {
+  RegressionValuationOptions,
+  ValuationResidual,
+  RegressionValuationResult,
+  regressionItems,
+  solveNonNegativeLeastSquares,
+  predictedItemCost,
+  calculateValuationResiduals,
+  calculateRegressionStatValuation,
+} from "./regressionValuation";
+
+// Loadout stat stacking rules
+export {
+  StackingRule,
+  StatStackingOptions,
+  STAT_STACKING_RULES,
+  stackMultiplicative,
+  calculateEffectiveStats,
+} from "./statStacking";
+
+// Hero attribute conversion
+export {
+  AttributeName,
+  ATTRIBUTE_NAMES,
+  ATTRIBUTE_STATS,
+  PRIMARY_DAMAGE_PER_POINT,
+  UNIVERSAL_DAMAGE_PER_POINT,
+  HERO_BASE_HEALTH,
+  HERO_BASE_MANA,
+  attributeDamagePerPoint,
+  expandAttributes,
+  calculateHeroStatValuation,
+  calculateProfiledHeroStatValuation,
+  splitValuationProfile,
+  heroAttributesAtLevel,
+  heroAttackDamage,
+} from "./attributes";
+
+// Level-dependent valuation
+export {
+  StatLevelWeight,
+  LevelValuationOptions,
+  LEVEL_CURVE_RANGE,
+  DEFAULT_STAT_LEVEL_WEIGHTS,
+  GOLD_LEVEL_CURVE,
+  levelForGold,
+  statLevelWeight,
+  calculateLevelStatValuation,
+} from "./levelValuation";
+
+// Effective HP and DPS
+export {
+  CombatStatOptions,
+  CombatStats,
+  HERO_BASE_MAGIC_RESISTANCE,
+  HERO_BASE_ATTACK_SPEED,
+  MIN_ATTACK_SPEED,
+  MAX_ATTACK_SPEED,
+  physicalDamageMultiplier,
+  calculateCombatStats,
+  calculateLoadoutCombatStats,
+  calculateStageCombatStats,
+} from "./combatStats";
+
 // Upgrade path analysis
 export {
   ComponentUpgradeInfo,
@@ -195,6 +415,9 @@ export {
   UtilityCategory,
   UTILITY_VALUES,
   ITEM_UTILITY,
+  REFERENCE_COOLDOWN,
+  COOLDOWN_SCALE_BOUNDS,
+  cooldownScale,
   calculateUtilityValue,
   getItemUtilityCategories,
   formatUtilityCategories,
@@ -232,6 +455,7 @@ export {
   maxItemCount,
   minItemCount,
   noDuplicateBootsInLoadout,
+  noDuplicateUniqueItemsInLoadout,
   loadoutMustContain,
   loadoutMustNotContain,
   allItemsMatch,
@@ -272,6 +496,13 @@ export {
   averageItemEfficiencyScore,
   loadoutUtilityScore,
   loadoutStatValueScore,
+  loadoutPhysicalEhpScore,
+  loadoutMagicalEhpScore,
+  loadoutDpsScore,
+  CombatMetric,
+  COMBAT_METRICS,
+  isCombatMetric,
+  combatMetricScore,
   // Transition-based scorers
   stageReuseScore,
   stageWasteAvoidanceScore,
@@ -304,6 +535,11 @@ export {
   stagesForIncrementalTargets,
   formatProgression,
   formatProgressionStats,
+  formatStageBudget,
+  ProgressionCombatOptions,
+  StageValuation,
+  stageHeroLevel,
+  resolveStageValuation,
 } from "./buildProgression";
 
 // Re-export sequence types
@@ -323,6 +559,8 @@ export type {
   BuildProgressionOptions,
   BuildProgressionResult,
   BuildProgressionStats,
+  BuybackReserve,
+  StageGoldReserve,
   // Progress reporting types
   ProgressionPhase,
   ProgressionProgressUpdate,
@@ -0,0 +1,126 @@
+import { Hero, ItemStats, StatValuation, StatValuationProfile } from "../models/types";
+import { calculateHeroStatValuation, splitValuationProfile } from "./attributes";
+import { applyValuationProfile } from "./statValuation";
+
+/**
+ * How much a stat is worth relative to its baseline at the start
+ * and end of the level curve. Values in between are interpolated.
+ */
+export interface StatLevelWeight {
+  early: number;
+  late: number;
+}
+
+/** Levels the early and late weights apply at */
+export const LEVEL_CURVE_RANGE = { early: 1, late: 25 };
+
+/**
+ * Default level weights. Regen and raw pools matter most in the laning stage;
+ * damage, attack speed, lifesteal and resistances scale with fight length
+ * and the hero's growing health pool. Stats not listed keep their baseline.
+ */
+export const DEFAULT_STAT_LEVEL_WEIGHTS: Partial<Record<keyof ItemStats, StatLevelWeight>> = {
+  healthRegen: { early: 1.5, late: 0.5 },
+  manaRegen: { early: 1.5, late: 0.6 },
+  health: { early: 1.2, late: 0.9 },
+  mana: { early: 1.2, late: 0.8 },
+  damage: { early: 0.8, late: 1.3 },
+  attackSpeed: { early: 0.7, late: 1.3 },
+  lifesteal: { early: 0.6, late: 1.3 },
+  spellAmplification: { early: 0.8, late: 1.2 },
+  armor: { early: 0.9, late: 1.2 },
+  magicResistance: { early: 0.9, late: 1.2 },
+  statusResistance: { early: 0.8, late: 1.2 },
+  evasion: { early: 0.8, late: 1.2 },
+};
+
+/**
+ * Typical hero level by gold spent on items, as [gold, level] points
+ * (roughly a core hero in an average-paced game).
+ */
+export const GOLD_LEVEL_CURVE: readonly (readonly [number, number])[] = [
+  [0, 1],
+  [1500, 5],
+  [3000, 8],
+  [5000, 11],
+  [7500, 14],
+  [10000, 17],
+  [15000, 21],
+  [20000, 24],
+  [25000, 25],
+];
+
+/**
+ * Expected hero level after spending an amount of gold on items
+ */
+export function levelForGold(
+  gold: number,
+  curve: readonly (readonly [number, number])[] = GOLD_LEVEL_CURVE
+): number {
+  if (gold <= curve[0][0]) return curve[0][1];
+
+  for (let i = 1; i < curve.length; i++) {
+    const [gold1, level1] = curve[i];
+    if (gold <= gold1) {
+      const [gold0, level0] = curve[i - 1];
+      return Math.round(level0 + ((gold - gold0) / (gold1 - gold0)) * (level1 - level0));
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Multiplier for a stat's value at a hero level
+ */
+export function statLevelWeight(
+  stat: keyof ItemStats,
+  level: number,
+  weights: Partial<Record<keyof ItemStats, StatLevelWeight>> = DEFAULT_STAT_LEVEL_WEIGHTS
+): number {
+  const weight = weights[stat];
+  if (!weight) return 1;
+
+  const span = LEVEL_CURVE_RANGE.late - LEVEL_CURVE_RANGE.early;
+  const t = Math.min(1, Math.max(0, (level - LEVEL_CURVE_RANGE.early) / span));
+  return weight.early + (weight.late - weight.early) * t;
+}
+
+/**
+ * Options for level-dependent valuation
+ */
+export interface LevelValuationOptions {
+  /** Hero whose attributes are re-derived from the weighted stats */
+  hero?: Hero;
+  /** Per-stat level weights (default: DEFAULT_STAT_LEVEL_WEIGHTS) */
+  weights?: Partial<Record<keyof ItemStats, StatLevelWeight>>;
+  /**
+   * Valuation profile the valuation was built with. Its values hold at every
+   * level, and its attribute multipliers apply to the re-derived attributes.
+   */
+  profile?: StatValuationProfile;
+}
+
+/**
+ * Weight a stat valuation for a hero level.
+ * With a hero, attributes are valued by their weighted derived stats,
+ * so strength's health and regen lose value as the game goes on.
+ * A profile's absolute values are kept as they are.
+ */
+export function calculateLevelStatValuation(
+  valuation: StatValuation,
+  level: number,
+  options: LevelValuationOptions = {}
+): StatValuation {
+  const { hero, weights, profile } = options;
+  const weighted: StatValuation = {};
+
+  for (const [stat, goldPerPoint] of Object.entries(valuation) as [keyof ItemStats, number][]) {
+    weighted[stat] = goldPerPoint * statLevelWeight(stat, level, weights);
+  }
+
+  if (!hero) return { ...weighted, ...profile?.values };
+
+  const derived = calculateHeroStatValuation(weighted, hero.primaryAttribute);
+  if (!profile) return derived;
+  return { ...applyValuationProfile(derived, splitValuationProfile(profile).attributes), ...profile.values };
+}
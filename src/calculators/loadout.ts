@@ -13,7 +13,76 @@ import {
   ComponentPool,
 } from "../models/buildTypes";
 import { ItemRepository } from "../data/ItemRepository";
-import { sumBy, countBy, uniq } from "es-toolkit";
+import {
+  BonusStatOptions,
+  calculateAuraStatBreakdown,
+  calculateBonusStatBreakdown,
+  calculateDebuffBreakdown,
+} from "./efficiency";
+import { calculateEffectiveStats } from "./statStacking";
+import { AnalysisConfig, DEFAULT_CONFIG, EconomyPolicy, uniqueGroupIndex } from "../config/analysisConfig";
+import { sumBy, countBy, uniq, maxBy } from "es-toolkit";
+
+// ─────────────────────────────────────────────────────────────
+// Economy
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Whether an assembled item can be broken down into its components.
+ *
+ * @param item - The item
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
+ */
+export const canDisassemble = (item: Item, economy: EconomyPolicy = DEFAULT_CONFIG.economy): boolean =>
+  item.components.length > 0 &&
+  economy.allowDisassembly &&
+  !economy.nonDisassemblableItems.includes(item.name) &&
+  (economy.disassemblableItems?.includes(item.name) ?? true);
+
+/**
+ * Gold recovered for a recipe when its item is disassembled.
+ *
+ * @param recipeCost - Recipe cost of the item
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
+ */
+export const recipeRefund = (recipeCost: number, economy: EconomyPolicy = DEFAULT_CONFIG.economy): number =>
+  Math.floor(recipeCost * economy.recipeRecoveryRate);
+
+/**
+ * Gold recovered by selling an item. Standalone recipes (recipe_*) sell
+ * at the recipe recovery rate, everything else at the item sell rate.
+ *
+ * @param item - The item sold
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
+ */
+export const sellValue = (item: Item, economy: EconomyPolicy = DEFAULT_CONFIG.economy): number =>
+  item.name.startsWith("recipe_")
+    ? recipeRefund(item.cost, economy)
+    : Math.floor(item.cost * economy.itemSellRate);
+
+/**
+ * Whether an item is built from another one, at any depth.
+ *
+ * @param item - The assembled item
+ * @param name - Name of the item to look for among its components
+ * @param repo - ItemRepository for component lookups
+ */
+export const containsItem = (item: Item, name: string, repo: ItemRepository): boolean =>
+  item.components.some((component) => {
+    if (component === name) return true;
+    const componentItem = repo.getByName(component);
+    return componentItem !== undefined && containsItem(componentItem, name, repo);
+  });
+
+/**
+ * Remove one occurrence of each name from a list of component names
+ */
+const removeComponents = (components: string[], names: readonly string[]): void => {
+  for (const name of names) {
+    const index = components.indexOf(name);
+    if (index >= 0) components.splice(index, 1);
+  }
+};
 
 // ─────────────────────────────────────────────────────────────
 // Loadout Construction
@@ -22,8 +91,50 @@ import { sumBy, countBy, uniq } from "es-toolkit";
 export interface SlotOptions {
   inventorySlots?: number;
   backpackSlots?: number;
+  /** Item for the neutral slot (default: the highest-tier neutral item given) */
+  neutralItem?: Item;
+  /** Groups of items that don't stack (default: DEFAULT_CONFIG.uniqueGroups) */
+  uniqueGroups?: Record<string, string[]>;
+  /** Sell rates for the items that don't fit (default: DEFAULT_CONFIG.economy) */
+  economy?: EconomyPolicy;
+  /**
+   * Items bought for this loadout rather than built from anything held before.
+   * With the economy's refund window, any of them that don't fit are sold back for their full cost.
+   */
+  purchased?: readonly string[];
 }
 
+/**
+ * Gold recovered from the items that don't fit. With the economy's refund
+ * window, purchases sold straight back return their full cost; the rest
+ * (and everything without it) return the sell rate.
+ *
+ * @param sold - Items sold
+ * @param slotOptions - Economy and the items bought for the loadout
+ * @returns Gold recovered, and the sold items refunded in full
+ */
+export const calculateSoldRecovery = (
+  sold: readonly Item[],
+  slotOptions?: SlotOptions
+): { soldRecovery: number; refundedItems: Item[] } => {
+  const economy = slotOptions?.economy ?? DEFAULT_CONFIG.economy;
+  const purchased = economy.refundWindow ? [...(slotOptions?.purchased ?? [])] : [];
+  const refundedItems: Item[] = [];
+  let soldRecovery = 0;
+
+  for (const item of sold) {
+    const index = purchased.indexOf(item.name);
+    if (index >= 0) {
+      purchased.splice(index, 1);
+      refundedItems.push(item);
+      soldRecovery += item.cost;
+    } else {
+      soldRecovery += sellValue(item, economy);
+    }
+  }
+  return { soldRecovery, refundedItems };
+};
+
 /**
  * Allocate items to inventory, backpack, and sold lists based on priority.
  * 
@@ -31,6 +142,13 @@ export interface SlotOptions {
  * 1. Upgraded items (descending cost)
  * 2. Components with stats (descending cost)
  * 3. Other components (descending cost)
+ *
+ * Only the first item of each unique group can take an inventory slot;
+ * duplicates go to the backpack (or are sold when it's full), so they
+ * never count towards stat value.
+ *
+ * Neutral items never take an inventory slot. One goes to the neutral
+ * slot; any others are dropped, since they can't be sold.
  */
 export const allocateItemsToSlots = (
   items: readonly Item[],
@@ -39,12 +157,16 @@ export const allocateItemsToSlots = (
   inventory: Item[];
   backpack: Item[];
   sold: Item[];
+  neutral?: Item;
 } => {
   const inventorySlots = options?.inventorySlots ?? 6;
   const backpackSlots = options?.backpackSlots ?? 3;
   
+  const neutrals = items.filter((item) => item.neutralTier !== undefined);
+  const neutral = options?.neutralItem ?? maxBy(neutrals, (item) => item.neutralTier!);
+  
   // Sort items by priority
-  const sortedItems = [...items].sort((a, b) => {
+  const sortedItems = items.filter((item) => item.neutralTier === undefined).sort((a, b) => {
     // 1. Upgraded items first (isComponent = false)
     if (a.isComponent !== b.isComponent) {
       return a.isComponent ? 1 : -1;
@@ -61,38 +183,103 @@ export const allocateItemsToSlots = (
     return b.cost - a.cost;
   });
   
+  // Duplicates of a unique group never take an inventory slot
+  const groupIndex = uniqueGroupIndex(options?.uniqueGroups ?? DEFAULT_CONFIG.uniqueGroups);
+  const seenGroups = new Set<string>();
+  const duplicates: Item[] = [];
+  const prioritized: Item[] = [];
+  for (const item of sortedItems) {
+    const group = groupIndex.get(item.name);
+    if (group !== undefined && seenGroups.has(group)) {
+      duplicates.push(item);
+    } else {
+      if (group !== undefined) seenGroups.add(group);
+      prioritized.push(item);
+    }
+  }
+  
   // Allocate to slots
-  const inventory = sortedItems.slice(0, inventorySlots);
-  const backpack = sortedItems.slice(inventorySlots, inventorySlots + backpackSlots);
-  const sold = sortedItems.slice(inventorySlots + backpackSlots);
+  const inventory = prioritized.slice(0, inventorySlots);
+  const rest = [...prioritized.slice(inventorySlots), ...duplicates];
+  const backpack = rest.slice(0, backpackSlots);
+  const sold = rest.slice(backpackSlots);
   
-  return { inventory, backpack, sold };
+  return { inventory, backpack, sold, ...(neutral && { neutral }) };
 };
 
+/**
+ * Bonus valuation and stacking settings for loadouts built under a config
+ */
+export function loadoutValueOptions(config: AnalysisConfig): BonusStatOptions {
+  return { ...config.thresholds, bootItems: config.bootItems };
+}
+
 /**
  * Calculate total stat value for items given stat valuations.
+ * Base stats are combined with stacking rules first, so a second
+ * evasion or magic resistance item, or a second pair of boots,
+ * adds less than it would alone.
+ * Every aura an item carries (flat, percentage and conditional) is
+ * scaled by the aura multiplier, as for single items, so the default
+ * of 1 counts it for the holder only. Enemy debuffs are valued with
+ * the enemy stat valuation.
  * 
  * @param items - Items to calculate stat value for
  * @param statValuation - Gold per stat point valuations
+ * @param bonusOptions - Aura multiplier, hero base damage, uptime, debuff valuation and stacking settings
  * @returns Total gold value of all stats
  */
 export const calculateItemsStatValue = (
   items: readonly Item[],
-  statValuation: StatValuation
+  statValuation: StatValuation,
+  bonusOptions: BonusStatOptions = {}
 ): number => {
   let totalStatValue = 0;
+
+  const effectiveStats = calculateEffectiveStats(items, bonusOptions);
+  for (const [stat, amount] of Object.entries(effectiveStats) as [keyof ItemStats, number][]) {
+    const goldPerPoint = statValuation[stat] || 0;
+    totalStatValue += amount * goldPerPoint;
+  }
   
   for (const item of items) {
-    for (const [stat, amount] of Object.entries(item.stats) as [keyof ItemStats, number][]) {
-      if (amount === undefined || amount === 0) continue;
-      const goldPerPoint = statValuation[stat] || 0;
-      totalStatValue += amount * goldPerPoint;
-    }
+    totalStatValue += sumBy(
+      calculateAuraStatBreakdown(item, statValuation, bonusOptions),
+      (entry) => entry.goldValue
+    );
+    totalStatValue += sumBy(
+      calculateBonusStatBreakdown(item, statValuation, bonusOptions),
+      (entry) => entry.goldValue
+    );
+    totalStatValue += sumBy(
+      calculateDebuffBreakdown(item, statValuation, bonusOptions),
+      (entry) => entry.goldValue
+    );
   }
   
   return totalStatValue;
 };
 
+/**
+ * Pick the neutral item of a tier with the highest stat value.
+ *
+ * @param neutralItems - Neutral items to choose from
+ * @param tier - Neutral tier to pick from
+ * @param statValuation - Optional stat valuations (without them, the first item of the tier is used)
+ * @param bonusOptions - Optional hero base damage, uptime and debuff settings
+ * @returns The best neutral item, or undefined if none has this tier
+ */
+export const selectNeutralItem = (
+  neutralItems: readonly Item[],
+  tier: number,
+  statValuation?: StatValuation,
+  bonusOptions?: BonusStatOptions
+): Item | undefined => {
+  const candidates = neutralItems.filter((item) => item.neutralTier === tier);
+  if (!statValuation) return candidates[0];
+  return maxBy(candidates, (item) => calculateItemsStatValue([item], statValuation, bonusOptions));
+};
+
 /**
  * Create a Loadout from an array of items.
  *
@@ -100,16 +287,18 @@ export const calculateItemsStatValue = (
  * @param repo - ItemRepository for component resolution
  * @param statValuation - Optional stat valuations for efficiency calculation
  * @param slotOptions - Optional inventory/backpack slot limits
+ * @param bonusOptions - Optional hero base damage and uptime for percentage/conditional bonuses
  * @returns Immutable Loadout object
  */
 export const createLoadout = (
   items: Item[],
   repo: ItemRepository,
   statValuation?: StatValuation,
-  slotOptions?: SlotOptions
+  slotOptions?: SlotOptions,
+  bonusOptions?: BonusStatOptions
 ): Loadout => {
   // Allocate items to slots
-  const { inventory, backpack, sold } = allocateItemsToSlots(items, slotOptions);
+  const { inventory, backpack, sold, neutral } = allocateItemsToSlots(items, slotOptions);
   
   // Retained items (Inventory + Backpack)
   const retainedItems = [...inventory, ...backpack];
@@ -117,23 +306,12 @@ export const createLoadout = (
   const components = retainedItems.flatMap((i) => repo.getBaseComponents(i));
   const totalCost = sumBy(retainedItems, (i) => i.cost);
   
-  // Calculate stats ONLY from inventory items
-  const totalStatValue = statValuation ? calculateItemsStatValue(inventory, statValuation) : 0;
-  
-  // Calculate sold recovery (50% of cost, or 100% for recipes which shouldn't be here as items anyway)
-  // Note: Items passed to createLoadout should be actual items, not recipes.
-  // But strictly speaking, recipes are components. If a recipe ended up here as a standalone item...
-  // Wait, recipe items usually have isComponent=true.
-  // Gyro innate: "Recipes are sold for 100% gold recovery".
-  // Regular items: "Sold for 50%".
-  const soldRecovery = sumBy(sold, (item) => {
-    // If it's a recipe, 100% recovery. 
-    // We can identify recipes by name or convention. Usually recipes are just components.
-    // The safest check is repo.getRecipeCost(item) but that's for assembled items.
-    // For raw recipe items (like "recipe_bracer"), they are items in the repo.
-    const isRecipe = item.name.startsWith("recipe_");
-    return isRecipe ? item.cost : Math.floor(item.cost / 2);
-  });
+  // Calculate stats ONLY from inventory items (plus the neutral slot, which is free)
+  const statItems = neutral ? [...inventory, neutral] : inventory;
+  const totalStatValue = statValuation ? calculateItemsStatValue(statItems, statValuation, bonusOptions) : 0;
+  
+  // Calculate sold recovery at the economy's sell rates (purchases sold straight back are refunded)
+  const { soldRecovery, refundedItems } = calculateSoldRecovery(sold, slotOptions);
   
   // Total invested cost = (Inventory + Backpack + Sold) - SoldRecovery
   // = (retainedCost + soldCost) - SoldRecovery
@@ -150,6 +328,8 @@ export const createLoadout = (
     backpack,
     sold,
     soldRecovery,
+    ...(refundedItems.length > 0 && { refundedItems }),
+    ...(neutral && { neutral }),
     netWorth: totalCost,
     totalCost,
     components,
@@ -191,11 +371,15 @@ export const emptyLoadout = (): Loadout => ({
  * - **acquired**: Present in "to" but not "from" (must purchase)
  *
  * Handles duplicate components correctly (e.g., items needing 2x Iron Branch).
- * Also calculates recipe costs, accounting for Gyro's 100% recipe recovery on disassembly.
+ * Also calculates recipe costs under the economy policy: items in both
+ * loadouts keep their recipe, disassembled items refund it at the recipe
+ * recovery rate (100% for Gyro's innate), and an item that can't be
+ * disassembled is either upgraded in place or its components are wasted.
  *
  * @param from - Source loadout
  * @param to - Target loadout
  * @param repo - ItemRepository for gold value lookups
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
  * @returns ComponentFlow analysis
  *
  * @example
@@ -209,18 +393,47 @@ export const emptyLoadout = (): Loadout => ({
 export const analyzeComponentFlow = (
   from: Loadout,
   to: Loadout,
-  repo: ItemRepository
+  repo: ItemRepository,
+  economy: EconomyPolicy = DEFAULT_CONFIG.economy
 ): ComponentFlow => {
   const reused: string[] = [];
   const wasted: string[] = [];
   const acquired: string[] = [];
 
+  // Items in both loadouts are kept whole, so their recipes are kept too
+  const remainingTargets = [...to.items];
+  const changed: Item[] = [];
+  let recoveredRecipeCost = 0;
+  for (const item of from.items) {
+    const index = remainingTargets.findIndex((target) => target.name === item.name);
+    if (index >= 0) {
+      remainingTargets.splice(index, 1);
+      recoveredRecipeCost += repo.getRecipeCost(item);
+    } else {
+      changed.push(item);
+    }
+  }
+
+  // The rest are disassembled, or else upgraded in place or sold whole
+  const lockedComponents: string[] = [];
+  for (const item of changed) {
+    if (item.components.length === 0 || canDisassemble(item, economy)) {
+      recoveredRecipeCost += recipeRefund(repo.getRecipeCost(item), economy);
+    } else if (remainingTargets.some((target) => containsItem(target, item.name, repo))) {
+      recoveredRecipeCost += repo.getRecipeCost(item);
+    } else {
+      lockedComponents.push(...repo.getBaseComponents(item));
+    }
+  }
+  wasted.push(...lockedComponents);
+  const lockedCounts = countBy(lockedComponents, (c) => c);
+
   // Get all unique components from both loadouts
   const allComponents = uniq([...from.components, ...to.components]);
 
   // For each component, determine how many transfer, waste, or acquire
   for (const comp of allComponents) {
-    const fromCount = from.componentCounts[comp] ?? 0;
+    const fromCount = (from.componentCounts[comp] ?? 0) - (lockedCounts[comp] ?? 0);
     const toCount = to.componentCounts[comp] ?? 0;
     const transferred = Math.min(fromCount, toCount);
 
@@ -245,8 +458,6 @@ export const analyzeComponentFlow = (
     sumBy(comps, (c) => repo.getByName(c)?.cost ?? 0);
 
   // Calculate recipe costs
-  // Gyro's innate: 100% gold recovery on recipes when disassembling
-  const recoveredRecipeCost = sumBy([...from.items], (item) => repo.getRecipeCost(item));
   const targetRecipeCost = sumBy([...to.items], (item) => repo.getRecipeCost(item));
   const netRecipeCost = targetRecipeCost - recoveredRecipeCost;
   
@@ -278,6 +489,7 @@ export const analyzeComponentFlow = (
  * @param from - Starting loadout (early game items)
  * @param to - Target loadout (final items)
  * @param repo - ItemRepository for component analysis
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
  * @returns Complete transition analysis
  *
  * @example
@@ -294,12 +506,14 @@ export const analyzeComponentFlow = (
 export const createTransition = (
   from: Loadout,
   to: Loadout,
-  repo: ItemRepository
+  repo: ItemRepository,
+  economy: EconomyPolicy = DEFAULT_CONFIG.economy
 ): LoadoutTransition => ({
   from,
   to,
   costDelta: to.totalCost - from.totalCost,
-  componentFlow: analyzeComponentFlow(from, to, repo),
+  componentFlow: analyzeComponentFlow(from, to, repo, economy),
+  ...(to.refundedItems && to.refundedItems.length > 0 && { usesRefundWindow: true }),
 });
 
 /**
@@ -329,7 +543,8 @@ export const createTransitionFromItems = (
 /**
  * Calculate the total gold recovery percentage of a transition.
  *
- * Includes both component reuse AND recipe recovery (Gyro's innate gives 100% recipe refund).
+ * Includes both component reuse AND recipe recovery (Gyro's innate gives 100% recipe refund,
+ * other economies less).
  * This measures true gold efficiency - how much of your previous investment you retain.
  *
  * @param transition - The transition to analyze
@@ -382,13 +597,16 @@ export const formatTransition = (transition: LoadoutTransition): string => {
 /**
  * Disassemble a loadout into a component pool.
  * 
- * This simulates Gyrocopter's innate ability to disassemble items:
- * - All assembled items are broken down into base components
- * - Recipes are sold for 100% gold recovery
+ * This simulates disassembling items under the economy policy
+ * (by default Gyrocopter's innate):
+ * - Assembled items that can be disassembled are broken down into base components
+ * - Their recipes are sold at the recipe recovery rate (100% for Gyro)
  * - Base components become available for reassembly
+ * - Items that can't be disassembled stay whole in the pool
  *
  * @param loadout - The loadout to disassemble
  * @param repo - ItemRepository for component resolution
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
  * @returns ComponentPool representing available components and recipe gold
  *
  * @example
@@ -403,11 +621,21 @@ export const formatTransition = (transition: LoadoutTransition): string => {
  */
 export const disassembleLoadout = (
   loadout: Loadout,
-  repo: ItemRepository
+  repo: ItemRepository,
+  economy: EconomyPolicy = DEFAULT_CONFIG.economy
 ): ComponentPool => {
   // Get all base components from assembled items
   const components = [...loadout.components];
   
+  // Items that can't be disassembled stay whole instead
+  const assembled = loadout.items.filter((item) => item.components.length > 0);
+  const disassembled = assembled.filter((item) => canDisassemble(item, economy));
+  const intact = assembled.filter((item) => !canDisassemble(item, economy));
+  for (const item of intact) {
+    removeComponents(components, repo.getBaseComponents(item));
+    components.push(item.name);
+  }
+  
   // IMPORTANT: Also include leftover components from previous stage!
   // These are components that weren't used in assembled items but were retained.
   // When we disassemble this loadout, those leftovers go back into the pool.
@@ -418,8 +646,8 @@ export const disassembleLoadout = (
     }
   }
   
-  // Calculate recipe recovery (100% of recipe cost - Gyro innate)
-  const recipeRecovery = sumBy([...loadout.items], (item) => repo.getRecipeCost(item));
+  // Calculate recipe recovery (at the recipe recovery rate - 100% for Gyro innate)
+  const recipeRecovery = sumBy(disassembled, (item) => recipeRefund(repo.getRecipeCost(item), economy));
   
   // Calculate total component value
   const totalValue = repo.getComponentsGoldValue(components);
@@ -432,6 +660,8 @@ export const disassembleLoadout = (
     componentCounts,
     totalValue,
     recipeRecovery,
+    disassembledItems: disassembled.map((item) => item.name),
+    intactItems: intact.map((item) => item.name),
   };
 };
 
@@ -455,6 +685,8 @@ export interface AssemblyPlan {
   totalNewGoldNeeded: number;
   /** Total cost of the resulting loadout (assembled items + leftovers) */
   totalLoadoutCost: number;
+  /** Items built only from new components (refunded in full if sold straight back) */
+  purchasedItems: string[];
 }
 
 /**
@@ -468,28 +700,59 @@ export interface AssemblyPlan {
  * - ALL pool components must be retained (either in assembled items or as leftovers)
  * - No pool components can be sold/wasted
  * - Leftover components count toward total cost but not item limit
+ * - Rebuilding a disassembled item only costs the recipe refund it forgoes
+ * - Items the pool holds whole are kept, or upgraded into an item built from them
  * 
  * @param items - Items to assemble
  * @param pool - Available component pool from previous stage
  * @param repo - ItemRepository for component resolution
  * @param maxTotalCost - Maximum total cost for this stage (optional)
+ * @param economy - Sell and disassembly rules (default: DEFAULT_CONFIG.economy)
  * @returns AssemblyPlan with detailed breakdown
  */
 export const planAssemblyFromPool = (
   items: readonly Item[],
   pool: ComponentPool,
   repo: ItemRepository,
-  maxTotalCost?: number
+  maxTotalCost?: number,
+  economy: EconomyPolicy = DEFAULT_CONFIG.economy
 ): AssemblyPlan => {
-  // Get all components needed for the new items
-  const neededComponents = items.flatMap((item) => repo.getBaseComponents(item));
-  const neededCounts = countBy(neededComponents, (c) => c);
-  
   // Track which pool components get used in assembled items
   const availableCounts = { ...pool.componentCounts };
   const usedFromPool: string[] = [];
   const newComponentsToBuy: string[] = [];
   
+  // Get all components needed for the new items, and their recipe costs
+  const intactItems = [...(pool.intactItems ?? [])];
+  const disassembledItems = [...(pool.disassembledItems ?? [])];
+  const neededComponents: string[] = [];
+  const purchasedItems: string[] = [];
+  let newRecipeCost = 0;
+  for (const item of items) {
+    const components = repo.getBaseComponents(item);
+    const recipeCost = repo.getRecipeCost(item);
+    const intactName = intactItems.find((name) => name === item.name || containsItem(item, name, repo));
+    if (intactName !== undefined) {
+      // Keep the whole item, or build on top of it
+      intactItems.splice(intactItems.indexOf(intactName), 1);
+      availableCounts[intactName] -= 1;
+      usedFromPool.push(intactName);
+      removeComponents(components, repo.getBaseComponentsByName(intactName));
+      newRecipeCost += recipeCost - repo.getRecipeCostByName(intactName);
+    } else if (disassembledItems.includes(item.name)) {
+      // Rebuilt from its own components: only the refund is given up
+      disassembledItems.splice(disassembledItems.indexOf(item.name), 1);
+      newRecipeCost += recipeRefund(recipeCost, economy);
+    } else {
+      newRecipeCost += recipeCost;
+      if (components.every((c) => (pool.componentCounts[c] ?? 0) === 0)) {
+        purchasedItems.push(item.name);
+      }
+    }
+    neededComponents.push(...components);
+  }
+  const neededCounts = countBy(neededComponents, (c) => c);
+  
   // For each needed component, use from pool first, then buy new
   for (const [comp, needed] of Object.entries(neededCounts)) {
     const available = availableCounts[comp] ?? 0;
@@ -519,7 +782,6 @@ export const planAssemblyFromPool = (
   
   // Calculate costs
   const newComponentsCost = repo.getComponentsGoldValue(newComponentsToBuy);
-  const newRecipeCost = sumBy([...items], (item) => repo.getRecipeCost(item));
   const totalNewGoldNeeded = newComponentsCost + newRecipeCost;
   
   // Total loadout cost = assembled items cost + leftover components cost
@@ -545,6 +807,7 @@ export const planAssemblyFromPool = (
     newRecipeCost,
     totalNewGoldNeeded,
     totalLoadoutCost,
+    purchasedItems,
   };
 };
 
@@ -599,11 +862,16 @@ export const findAssemblableItems = (
  * - Excess assembled items + leftovers go to backpack (up to backpackSlots)
  * - Remainder goes to sold
  * 
+ * Gold held in the leftover base components that are kept is reported as
+ * goldAtRisk; leftover items held whole (e.g. ones the economy won't
+ * disassemble) aren't counted.
+ * 
  * @param assembledItems - Items that were assembled
- * @param leftoverComponentNames - Component names that weren't used
+ * @param leftoverComponentNames - Component names (or items held whole) that weren't used
  * @param repo - ItemRepository
  * @param statValuation - Optional stat valuations
  * @param slotOptions - Optional inventory/backpack slot limits
+ * @param bonusOptions - Optional hero base damage and uptime for percentage/conditional bonuses
  * @returns Loadout with leftover components tracked
  */
 export const createLoadoutWithLeftovers = (
@@ -611,7 +879,8 @@ export const createLoadoutWithLeftovers = (
   leftoverComponentNames: string[],
   repo: ItemRepository,
   statValuation?: StatValuation,
-  slotOptions?: SlotOptions
+  slotOptions?: SlotOptions,
+  bonusOptions?: BonusStatOptions
 ): Loadout => {
   // Resolve leftover component names to Item objects
   const leftoverComponents: Item[] = [];
@@ -638,18 +907,29 @@ export const createLoadoutWithLeftovers = (
   const backpackItems = backpackCandidates.slice(0, backpackSlots);
   const soldItems = backpackCandidates.slice(backpackSlots);
   
-  // Calculate sold recovery (50% for regular items, 100% for recipes)
-  const soldRecovery = sumBy(soldItems, (item) => {
-    const isRecipe = item.name.startsWith("recipe_");
-    return isRecipe ? item.cost : Math.floor(item.cost / 2);
-  });
+  // Calculate sold recovery at the economy's sell rates (purchases sold straight back are refunded)
+  const { soldRecovery, refundedItems } = calculateSoldRecovery(soldItems, slotOptions);
   
   // Get components from retained items only (inventory + backpack)
   const retainedItems = [...inventoryItems, ...backpackItems];
   const components = retainedItems.flatMap((i) => repo.getBaseComponents(i));
   
-  // Calculate stats ONLY from inventory
-  const totalStatValue = statValuation ? calculateItemsStatValue(inventoryItems, statValuation) : 0;
+  // Gold held in retained leftover components (base components kept beyond
+  // the assembled items; items held whole don't count)
+  const assembledCounts = countBy(assembledItems, (i) => i.name);
+  let goldAtRisk = 0;
+  for (const item of retainedItems) {
+    if ((assembledCounts[item.name] ?? 0) > 0) {
+      assembledCounts[item.name]--;
+    } else if (item.components.length === 0) {
+      goldAtRisk += item.cost;
+    }
+  }
+  
+  // Calculate stats ONLY from inventory (plus the neutral slot, which is free)
+  const neutral = slotOptions?.neutralItem;
+  const statItems = neutral ? [...inventoryItems, neutral] : inventoryItems;
+  const totalStatValue = statValuation ? calculateItemsStatValue(statItems, statValuation, bonusOptions) : 0;
   
   // Calculate costs
   const inventoryCost = sumBy(inventoryItems, (i) => i.cost);
@@ -668,12 +948,15 @@ export const createLoadoutWithLeftovers = (
     backpack: backpackItems,
     sold: soldItems,
     soldRecovery,
+    ...(refundedItems.length > 0 && { refundedItems }),
+    ...(neutral && { neutral }),
     netWorth: totalCost,
     totalCost,
     components,
     componentCounts: countBy(components, (c) => c),
     totalStatValue,
     efficiency,
+    ...(goldAtRisk > 0 && { goldAtRisk }),
     totalInvestedCost: netInvestedCost,
   };
 };
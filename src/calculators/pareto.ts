@@ -0,0 +1,212 @@
+/**
+ * Pareto frontier of cost versus value.
+ *
+ * A single efficiency or value score hides cheap options that are only
+ * slightly worse. Here an option is kept unless another is at least as
+ * cheap with at least as much stat value and utility value (and better
+ * in one of them).
+ */
+
+import { Item, StatValuation } from "../models/types";
+import { AnalysisConfig, DEFAULT_CONFIG } from "../config/analysisConfig";
+import { orderBy, sumBy } from "es-toolkit";
+import { EfficiencyOptions, calculateItemEfficiency } from "./efficiency";
+import { calculateItemsStatValue } from "./loadout";
+import { combinations, noDuplicateBoots, noDuplicateUniqueItems } from "./combinations";
+
+/**
+ * An option placed by cost, stat value and utility value
+ */
+export interface ParetoPoint<T> {
+  candidate: T;
+  cost: number;
+  statValue: number;
+  utilityValue: number;
+}
+
+/**
+ * An option off the frontier and the frontier option that beats it
+ */
+export interface DominatedPoint<T> {
+  point: ParetoPoint<T>;
+  /** Cheapest frontier option with at least as much of both values */
+  dominatedBy: ParetoPoint<T>;
+}
+
+/**
+ * Options split into the frontier and the rest
+ */
+export interface ParetoFrontier<T> {
+  /** Non-dominated options, cheapest first */
+  frontier: ParetoPoint<T>[];
+  /** Dominated options, cheapest first (empty unless tracked) */
+  dominated: DominatedPoint<T>[];
+}
+
+/**
+ * Whether a is no worse than b in cost, stat value and utility value,
+ * and better in at least one
+ */
+export function dominates<T>(a: ParetoPoint<T>, b: ParetoPoint<T>): boolean {
+  if (a.cost > b.cost || a.statValue < b.statValue || a.utilityValue < b.utilityValue) return false;
+  return a.cost < b.cost || a.statValue > b.statValue || a.utilityValue > b.utilityValue;
+}
+
+/**
+ * Split options into the Pareto frontier and dominated options.
+ *
+ * Options are visited cheapest first (higher values first at equal
+ * cost), so anything that dominates an option is visited before it and
+ * only the frontier found so far needs checking.
+ *
+ * @param points - Options to compare
+ * @param trackDominated - Keep dominated options with their dominator (default: true)
+ */
+export function paretoFrontier<T>(points: readonly ParetoPoint<T>[], trackDominated = true): ParetoFrontier<T> {
+  const sorted = orderBy([...points], ["cost", "statValue", "utilityValue"], ["asc", "desc", "desc"]);
+  const frontier: ParetoPoint<T>[] = [];
+  const dominated: DominatedPoint<T>[] = [];
+
+  for (const point of sorted) {
+    const dominatedBy = frontier.find((f) => dominates(f, point));
+    if (!dominatedBy) {
+      frontier.push(point);
+    } else if (trackDominated) {
+      dominated.push({ point, dominatedBy });
+    }
+  }
+
+  return { frontier, dominated };
+}
+
+/**
+ * Successive frontiers: the frontier, then the frontier of what's left, and so on
+ *
+ * @param points - Options to compare
+ * @param count - Number of layers
+ */
+export function paretoLayers<T>(points: readonly ParetoPoint<T>[], count: number): ParetoPoint<T>[][] {
+  const layers: ParetoPoint<T>[][] = [];
+  let remaining = [...points];
+  while (layers.length < count && remaining.length > 0) {
+    const { frontier } = paretoFrontier(remaining, false);
+    const onFrontier = new Set(frontier);
+    layers.push(frontier);
+    remaining = remaining.filter((p) => !onFrontier.has(p));
+  }
+  return layers;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Items
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Place items by cost, stat value and utility value. Items with no cost
+ * or no value are left out.
+ */
+export function itemParetoPoints(
+  items: readonly Item[],
+  statValuation: StatValuation,
+  options: EfficiencyOptions = {}
+): ParetoPoint<Item>[] {
+  return items
+    .map((item) => {
+      const result = calculateItemEfficiency(item, statValuation, options);
+      return { candidate: item, cost: item.cost, statValue: result.totalStatValue, utilityValue: result.utilityValue };
+    })
+    .filter((p) => p.cost > 0 && p.statValue + p.utilityValue > 0);
+}
+
+/**
+ * Pareto frontier of items, with the item dominating each of the rest
+ *
+ * @param items - Items to compare
+ * @param statValuation - Gold per point
+ * @param options - Aura multiplier, utility profile and bonus settings
+ */
+export function getItemParetoFrontier(
+  items: readonly Item[],
+  statValuation: StatValuation,
+  options: EfficiencyOptions = {}
+): ParetoFrontier<Item> {
+  return paretoFrontier(itemParetoPoints(items, statValuation, options));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Loadouts
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for the loadout frontier
+ */
+export interface LoadoutParetoOptions extends EfficiencyOptions {
+  /** Maximum total cost of a loadout */
+  maxCost?: number;
+  /** Boot items and unique groups a loadout may hold one of (default: DEFAULT_CONFIG) */
+  config?: AnalysisConfig;
+}
+
+/**
+ * Loadout frontier and the search size
+ */
+export interface LoadoutParetoFrontier {
+  frontier: ParetoPoint<Item[]>[];
+  /** Items the loadouts were built from */
+  candidateCount: number;
+  /** Loadouts compared */
+  loadoutCount: number;
+}
+
+/**
+ * Pareto frontier of k-item loadouts.
+ *
+ * Loadouts are built only from items in the first k item frontiers: an
+ * item behind k layers is dominated by at least k others, one of which
+ * could replace it. That is exact when loadout value is the sum of item
+ * values; stacking (evasion, magic resistance, boots) and unique groups
+ * make it a close approximation. Stat value is the loadout stat value
+ * (stacking rules, auras scaled by the aura multiplier) and utility value
+ * is summed over items.
+ *
+ * @param items - Items to build loadouts from
+ * @param size - Items per loadout
+ * @param statValuation - Gold per point
+ * @param options - Cost limit, config and valuation settings
+ */
+export function getLoadoutParetoFrontier(
+  items: readonly Item[],
+  size: number,
+  statValuation: StatValuation,
+  options: LoadoutParetoOptions = {}
+): LoadoutParetoFrontier {
+  if (!(size >= 1)) {
+    throw new Error("Loadout size must be at least 1");
+  }
+  const { maxCost = Infinity, config = DEFAULT_CONFIG } = options;
+  const valueOptions = { ...options, bootItems: options.bootItems ?? config.bootItems };
+
+  const affordable = itemParetoPoints(items, statValuation, options).filter((p) => p.cost <= maxCost);
+  const candidates = paretoLayers(affordable, size).flat();
+  const utilityValues = new Map(candidates.map((p) => [p.candidate, p.utilityValue]));
+
+  const bootsOk = noDuplicateBoots(config);
+  const uniqueOk = noDuplicateUniqueItems(config);
+  const points: ParetoPoint<Item[]>[] = [];
+
+  for (const loadout of combinations(candidates.map((p) => p.candidate), size)) {
+    const cost = sumBy(loadout, (item) => item.cost);
+    if (cost > maxCost || !bootsOk(loadout) || !uniqueOk(loadout)) continue;
+
+    points.push({
+      candidate: loadout,
+      cost,
+      statValue: calculateItemsStatValue(loadout, statValuation, valueOptions),
+      utilityValue: sumBy(loadout, (item) => utilityValues.get(item) ?? 0),
+    });
+  }
+  const { frontier } = paretoFrontier(points, false);
+
+  return { frontier, candidateCount: candidates.length, loadoutCount: points.length };
+}
+
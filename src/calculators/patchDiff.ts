@@ -0,0 +1,302 @@
+import { Item, ItemStats, StatValuation } from "../models/types";
+import { ItemRepository } from "../data/ItemRepository";
+import { calculateStatValuation } from "./statValuation";
+import { EfficiencyOptions, getItemsByEfficiency } from "./efficiency";
+import { orderBy } from "es-toolkit";
+
+/**
+ * Change in a single stat between two versions of an item
+ */
+export interface StatChange {
+  stat: keyof ItemStats;
+  oldValue: number;
+  newValue: number;
+  delta: number;
+}
+
+/**
+ * An item that was added, removed or changed between two snapshots
+ */
+export interface ItemChange {
+  name: string;
+  displayName: string;
+  kind: "added" | "removed" | "changed";
+  oldCost?: number;
+  newCost?: number;
+  statChanges: StatChange[];
+  auraStatChanges: StatChange[];
+  componentsAdded: string[];
+  componentsRemoved: string[];
+}
+
+/**
+ * Movement of a stat's gold-per-point baseline
+ */
+export interface ValuationChange {
+  stat: keyof ItemStats;
+  oldGoldPerPoint?: number;
+  newGoldPerPoint?: number;
+  /** Relative change (0.1 = +10%); undefined when the stat is new or gone */
+  percentChange?: number;
+}
+
+/**
+ * Movement of an item in the efficiency rankings
+ */
+export interface RankingChange {
+  name: string;
+  displayName: string;
+  oldRank: number;
+  newRank: number;
+  /** Positive = moved up the rankings */
+  rankDelta: number;
+  oldEfficiency: number;
+  newEfficiency: number;
+}
+
+/**
+ * Change in an item's recipe cost
+ */
+export interface RecipeCostChange {
+  name: string;
+  displayName: string;
+  oldRecipeCost: number;
+  newRecipeCost: number;
+  delta: number;
+}
+
+/**
+ * Everything that moved between two item snapshots
+ */
+export interface PatchDiff {
+  itemChanges: ItemChange[];
+  valuationChanges: ValuationChange[];
+  rankingChanges: RankingChange[];
+  recipeCostChanges: RecipeCostChange[];
+}
+
+/**
+ * Options for diffing two item sets
+ */
+export interface PatchDiffOptions extends EfficiencyOptions {
+  /** Stat valuation for each snapshot's items (default: calculateStatValuation, the baseline) */
+  calculateValuation?: (items: Item[]) => StatValuation;
+}
+
+const EPSILON = 1e-9;
+
+function diffStats(oldStats: ItemStats, newStats: ItemStats): StatChange[] {
+  const keys = new Set([...Object.keys(oldStats), ...Object.keys(newStats)]) as Set<keyof ItemStats>;
+  const changes: StatChange[] = [];
+
+  for (const stat of keys) {
+    const oldValue = oldStats[stat] ?? 0;
+    const newValue = newStats[stat] ?? 0;
+    if (Math.abs(newValue - oldValue) > EPSILON) {
+      changes.push({ stat, oldValue, newValue, delta: newValue - oldValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Multiset difference: entries of a not matched by an entry of b
+ */
+function missingFrom(a: string[], b: string[]): string[] {
+  const remaining = [...b];
+  return a.filter((name) => {
+    const index = remaining.indexOf(name);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Compare items by name and report additions, removals, and changes
+ * to cost, stats, aura stats or components.
+ */
+export function diffItems(oldItems: Item[], newItems: Item[]): ItemChange[] {
+  const oldByName = new Map(oldItems.map((i) => [i.name, i]));
+  const newByName = new Map(newItems.map((i) => [i.name, i]));
+  const changes: ItemChange[] = [];
+
+  for (const item of newItems) {
+    const old = oldByName.get(item.name);
+    if (!old) {
+      changes.push({
+        name: item.name,
+        displayName: item.displayName,
+        kind: "added",
+        newCost: item.cost,
+        statChanges: diffStats({}, item.stats),
+        auraStatChanges: diffStats({}, item.auraStats),
+        componentsAdded: [...item.components],
+        componentsRemoved: [],
+      });
+      continue;
+    }
+
+    const statChanges = diffStats(old.stats, item.stats);
+    const auraStatChanges = diffStats(old.auraStats, item.auraStats);
+    const componentsAdded = missingFrom(item.components, old.components);
+    const componentsRemoved = missingFrom(old.components, item.components);
+
+    if (
+      old.cost !== item.cost ||
+      statChanges.length > 0 ||
+      auraStatChanges.length > 0 ||
+      componentsAdded.length > 0 ||
+      componentsRemoved.length > 0
+    ) {
+      changes.push({
+        name: item.name,
+        displayName: item.displayName,
+        kind: "changed",
+        oldCost: old.cost,
+        newCost: item.cost,
+        statChanges,
+        auraStatChanges,
+        componentsAdded,
+        componentsRemoved,
+      });
+    }
+  }
+
+  for (const item of oldItems) {
+    if (newByName.has(item.name)) continue;
+    changes.push({
+      name: item.name,
+      displayName: item.displayName,
+      kind: "removed",
+      oldCost: item.cost,
+      statChanges: diffStats(item.stats, {}),
+      auraStatChanges: diffStats(item.auraStats, {}),
+      componentsAdded: [],
+      componentsRemoved: [...item.components],
+    });
+  }
+
+  return orderBy(changes, ["kind", "displayName"], ["asc", "asc"]);
+}
+
+/**
+ * Compare two stat valuations, largest relative moves first
+ */
+export function diffStatValuations(
+  oldValuation: StatValuation,
+  newValuation: StatValuation
+): ValuationChange[] {
+  const keys = new Set([...Object.keys(oldValuation), ...Object.keys(newValuation)]) as Set<keyof ItemStats>;
+  const changes: ValuationChange[] = [];
+
+  for (const stat of keys) {
+    const oldGoldPerPoint = oldValuation[stat];
+    const newGoldPerPoint = newValuation[stat];
+    if (oldGoldPerPoint !== undefined && newGoldPerPoint !== undefined) {
+      if (Math.abs(newGoldPerPoint - oldGoldPerPoint) <= EPSILON) continue;
+      const percentChange = oldGoldPerPoint > 0 ? newGoldPerPoint / oldGoldPerPoint - 1 : undefined;
+      changes.push({ stat, oldGoldPerPoint, newGoldPerPoint, percentChange });
+    } else {
+      changes.push({ stat, oldGoldPerPoint, newGoldPerPoint });
+    }
+  }
+
+  return orderBy(changes, [(c) => Math.abs(c.percentChange ?? Infinity)], ["desc"]);
+}
+
+/**
+ * Compare efficiency rankings between two item sets.
+ * Ranks are computed over items present in both sets, so additions and
+ * removals don't shift every item by a place.
+ */
+export function diffEfficiencyRankings(
+  oldItems: Item[],
+  newItems: Item[],
+  options: PatchDiffOptions = {}
+): RankingChange[] {
+  const { calculateValuation = calculateStatValuation, ...efficiencyOptions } = options;
+  const newNames = new Set(newItems.map((i) => i.name));
+  const oldNames = new Set(oldItems.map((i) => i.name));
+
+  const rank = (items: Item[], keep: Set<string>) => {
+    // Valuation uses the full set; only the ranking is restricted
+    const statValuation = calculateValuation(items);
+    const ranked = getItemsByEfficiency(items, { ...efficiencyOptions, statValuation }).filter((r) =>
+      keep.has(r.item.name)
+    );
+    return new Map(ranked.map((r, index) => [r.item.name, { rank: index + 1, result: r }]));
+  };
+
+  const oldRanks = rank(oldItems, newNames);
+  const newRanks = rank(newItems, oldNames);
+  const changes: RankingChange[] = [];
+
+  for (const [name, current] of newRanks) {
+    const previous = oldRanks.get(name);
+    if (!previous) continue;
+
+    const efficiencyMoved = Math.abs(current.result.efficiency - previous.result.efficiency) > EPSILON;
+    if (current.rank === previous.rank && !efficiencyMoved) continue;
+
+    changes.push({
+      name,
+      displayName: current.result.item.displayName,
+      oldRank: previous.rank,
+      newRank: current.rank,
+      rankDelta: previous.rank - current.rank,
+      oldEfficiency: previous.result.efficiency,
+      newEfficiency: current.result.efficiency,
+    });
+  }
+
+  return orderBy(changes, [(c) => Math.abs(c.rankDelta), "newRank"], ["desc", "asc"]);
+}
+
+/**
+ * Compare recipe costs (from ItemRepository.getRecipeCost) of items
+ * present in both sets
+ */
+export function diffRecipeCosts(oldItems: Item[], newItems: Item[]): RecipeCostChange[] {
+  const oldRepo = new ItemRepository(oldItems);
+  const newRepo = new ItemRepository(newItems);
+  const changes: RecipeCostChange[] = [];
+
+  for (const item of newItems) {
+    const old = oldRepo.getByName(item.name);
+    if (!old || (old.components.length === 0 && item.components.length === 0)) continue;
+
+    const oldRecipeCost = oldRepo.getRecipeCost(old);
+    const newRecipeCost = newRepo.getRecipeCost(item);
+    if (oldRecipeCost !== newRecipeCost) {
+      changes.push({
+        name: item.name,
+        displayName: item.displayName,
+        oldRecipeCost,
+        newRecipeCost,
+        delta: newRecipeCost - oldRecipeCost,
+      });
+    }
+  }
+
+  return orderBy(changes, [(c) => Math.abs(c.delta), "displayName"], ["desc", "asc"]);
+}
+
+/**
+ * Diff two item snapshots: item changes, stat valuation baselines,
+ * efficiency rankings and recipe costs.
+ */
+export function diffItemSets(
+  oldItems: Item[],
+  newItems: Item[],
+  options: PatchDiffOptions = {}
+): PatchDiff {
+  const { calculateValuation = calculateStatValuation } = options;
+  return {
+    itemChanges: diffItems(oldItems, newItems),
+    valuationChanges: diffStatValuations(calculateValuation(oldItems), calculateValuation(newItems)),
+    rankingChanges: diffEfficiencyRankings(oldItems, newItems, options),
+    recipeCostChanges: diffRecipeCosts(oldItems, newItems),
+  };
+}
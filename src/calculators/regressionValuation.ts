@@ -0,0 +1,240 @@
+import { Item, ItemStats, StatValuation } from "../models/types";
+import { orderBy } from "es-toolkit";
+
+/**
+ * Options for fitting a stat valuation by regression
+ */
+export interface RegressionValuationOptions {
+  /** Constrain gold per point to be non-negative (default: true) */
+  nonNegative?: boolean;
+  /**
+   * Relative weight per item name, e.g. how often the item is bought.
+   * Items not listed get weight 1; weight 0 leaves an item out of the fit.
+   */
+  itemWeights?: Record<string, number>;
+}
+
+/**
+ * How far an item's cost is from the cost a valuation predicts
+ */
+export interface ValuationResidual {
+  item: Item;
+  /** Sum of the item's stats at the valuation's gold per point */
+  predictedCost: number;
+  /** cost - predictedCost: positive means overpriced for its stats */
+  residual: number;
+  /** predictedCost / cost */
+  ratio: number;
+}
+
+/**
+ * A fitted stat valuation with the residuals of the items it was fitted on
+ */
+export interface RegressionValuationResult {
+  valuation: StatValuation;
+  /** Residuals of the fitted items, most overpriced first */
+  residuals: ValuationResidual[];
+}
+
+/** Iteration cap per column for the NNLS active-set loop */
+const NNLS_MAX_ITERATIONS_PER_COLUMN = 3;
+
+/** Tolerance for gradient and coefficient checks, in scaled units */
+const NNLS_TOLERANCE = 1e-10;
+
+/** Ridge added to the normal equations so collinear stats stay solvable */
+const RIDGE = 1e-9;
+
+/**
+ * Items the regression is fitted on: priced, non-consumable,
+ * purchasable components with at least one stat.
+ */
+export function regressionItems(items: Item[]): Item[] {
+  return items.filter(
+    (item) =>
+      item.isComponent &&
+      !item.isConsumable &&
+      item.neutralTier === undefined &&
+      item.cost > 0 &&
+      Object.values(item.stats).some((value) => value !== undefined && value !== 0)
+  );
+}
+
+/**
+ * Solve the least squares problem restricted to some columns of A,
+ * via ridge-regularized normal equations and Gaussian elimination.
+ */
+function solveSubset(A: number[][], b: number[], columns: number[]): number[] {
+  const n = columns.length;
+  const M: number[][] = Array.from({ length: n }, () => new Array(n + 1).fill(0));
+
+  for (let r = 0; r < A.length; r++) {
+    const row = A[r];
+    for (let i = 0; i < n; i++) {
+      const ai = row[columns[i]];
+      if (ai === 0) continue;
+      for (let j = 0; j < n; j++) {
+        M[i][j] += ai * row[columns[j]];
+      }
+      M[i][n] += ai * b[r];
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    M[i][i] += RIDGE;
+  }
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = 0; r < n; r++) {
+      if (r === col || M[r][col] === 0) continue;
+      const factor = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) {
+        M[r][c] -= factor * M[col][c];
+      }
+    }
+  }
+
+  return M.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Gradient of the least squares objective: Aᵀ(b - Ax)
+ */
+function gradient(A: number[][], b: number[], x: number[]): number[] {
+  const w = new Array(x.length).fill(0);
+  for (let r = 0; r < A.length; r++) {
+    let residual = b[r];
+    for (let c = 0; c < x.length; c++) residual -= A[r][c] * x[c];
+    for (let c = 0; c < x.length; c++) w[c] += A[r][c] * residual;
+  }
+  return w;
+}
+
+/**
+ * Non-negative least squares (Lawson-Hanson active set method)
+ */
+export function solveNonNegativeLeastSquares(A: number[][], b: number[]): number[] {
+  const n = A[0]?.length ?? 0;
+  const x = new Array(n).fill(0);
+  const passive = new Set<number>();
+
+  for (let iteration = 0; iteration < NNLS_MAX_ITERATIONS_PER_COLUMN * n; iteration++) {
+    const w = gradient(A, b, x);
+    let best = -1;
+    for (let c = 0; c < n; c++) {
+      if (!passive.has(c) && w[c] > NNLS_TOLERANCE && (best === -1 || w[c] > w[best])) best = c;
+    }
+    if (best === -1) break;
+    passive.add(best);
+
+    // Inner loop: step back until every passive coefficient is positive
+    for (;;) {
+      const columns = [...passive];
+      const solution = solveSubset(A, b, columns);
+      if (solution.every((value) => value > NNLS_TOLERANCE)) {
+        columns.forEach((c, i) => (x[c] = solution[i]));
+        break;
+      }
+
+      let alpha = 1;
+      columns.forEach((c, i) => {
+        if (solution[i] <= NNLS_TOLERANCE) {
+          alpha = Math.min(alpha, x[c] / (x[c] - solution[i]));
+        }
+      });
+      columns.forEach((c, i) => {
+        x[c] += alpha * (solution[i] - x[c]);
+        if (x[c] <= NNLS_TOLERANCE) {
+          x[c] = 0;
+          passive.delete(c);
+        }
+      });
+      if (passive.size === 0) break;
+    }
+  }
+
+  return x;
+}
+
+/**
+ * Predicted cost of an item's base stats under a valuation
+ */
+export function predictedItemCost(item: Item, valuation: StatValuation): number {
+  let cost = 0;
+  for (const [stat, amount] of Object.entries(item.stats) as [keyof ItemStats, number][]) {
+    if (amount === undefined) continue;
+    cost += amount * (valuation[stat] || 0);
+  }
+  return cost;
+}
+
+/**
+ * Compare item costs with the cost a valuation predicts from their stats.
+ * Sorted most overpriced (largest positive residual) first.
+ */
+export function calculateValuationResiduals(items: Item[], valuation: StatValuation): ValuationResidual[] {
+  const residuals = items.map((item) => {
+    const predictedCost = predictedItemCost(item, valuation);
+    return {
+      item,
+      predictedCost,
+      residual: item.cost - predictedCost,
+      ratio: item.cost > 0 ? predictedCost / item.cost : 0,
+    };
+  });
+  return orderBy(residuals, ["residual"], ["desc"]);
+}
+
+/**
+ * Fit gold per point for every stat across all component items at once,
+ * so no single outlier item sets a stat's price.
+ *
+ * Each item contributes one equation: cost = Σ stat amount × gold per point.
+ * Columns are scaled to unit length before solving so stats measured in
+ * large units (health, mana) and small ones (lifesteal) converge alike.
+ */
+export function calculateRegressionStatValuation(
+  items: Item[],
+  options: RegressionValuationOptions = {}
+): RegressionValuationResult {
+  const { nonNegative = true, itemWeights = {} } = options;
+
+  const fitItems = regressionItems(items).filter((item) => (itemWeights[item.name] ?? 1) > 0);
+  const stats = [
+    ...new Set(
+      fitItems.flatMap((item) =>
+        (Object.entries(item.stats) as [keyof ItemStats, number][])
+          .filter(([, value]) => value !== undefined && value !== 0)
+          .map(([stat]) => stat)
+      )
+    ),
+  ];
+
+  if (fitItems.length === 0 || stats.length === 0) {
+    return { valuation: {}, residuals: [] };
+  }
+
+  const rowWeights = fitItems.map((item) => Math.sqrt(itemWeights[item.name] ?? 1));
+  const A = fitItems.map((item, r) => stats.map((stat) => (item.stats[stat] ?? 0) * rowWeights[r]));
+  const b = fitItems.map((item, r) => item.cost * rowWeights[r]);
+
+  const scales = stats.map((_, c) => Math.sqrt(A.reduce((sum, row) => sum + row[c] * row[c], 0)) || 1);
+  const scaled = A.map((row) => row.map((value, c) => value / scales[c]));
+
+  const coefficients = nonNegative
+    ? solveNonNegativeLeastSquares(scaled, b)
+    : solveSubset(scaled, b, stats.map((_, c) => c));
+
+  const valuation: StatValuation = {};
+  stats.forEach((stat, c) => {
+    const goldPerPoint = coefficients[c] / scales[c];
+    if (goldPerPoint !== 0) valuation[stat] = goldPerPoint;
+  });
+
+  return { valuation, residuals: calculateValuationResiduals(fitItems, valuation) };
+}
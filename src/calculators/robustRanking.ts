@@ -0,0 +1,446 @@
+/**
+ * Robust ranking under valuation uncertainty.
+ *
+ * Stat values, utility category values and the aura multiplier are drawn
+ * from distributions many times with a seeded random number generator,
+ * and items or progressions are ranked under each draw. Results report
+ * how often each candidate lands in the top K and how much its rank moves.
+ */
+
+import { Item, ItemStats, StatValuation } from "../models/types";
+import { BuildProgressionOptions, BuildSequence } from "../models/buildTypes";
+import { AnalysisConfig, DEFAULT_CONFIG } from "../config/analysisConfig";
+import { orderBy } from "es-toolkit";
+import { EfficiencyOptions, calculateItemEfficiency } from "./efficiency";
+import { UTILITY_VALUES, UtilityCategory, UtilityProfile } from "./utility";
+import { analyzeProgression } from "./buildProgression";
+import { sequenceKey } from "./sensitivity";
+
+// ─────────────────────────────────────────────────────────────
+// Distributions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Distribution of one valuation input. Centres (value, mean, median,
+ * min/max) default to the input's current value, and spread is relative
+ * to that centre.
+ */
+export type ValueDistribution =
+  | { type: "fixed"; value?: number }
+  /** sd, or spread × mean; draws below zero become zero */
+  | { type: "normal"; mean?: number; sd?: number; spread?: number }
+  /** median × e^(spread × z), always positive */
+  | { type: "lognormal"; median?: number; spread: number }
+  /** Between min and max, or within ±spread of the current value */
+  | { type: "uniform"; min?: number; max?: number; spread?: number };
+
+/**
+ * Distributions for the valuation inputs. Stats and utility categories
+ * without their own distribution use the default; inputs with neither
+ * stay at their current value.
+ */
+export interface ValuationUncertainty {
+  default?: ValueDistribution;
+  stats?: Partial<Record<keyof ItemStats, ValueDistribution>>;
+  utility?: Partial<Record<UtilityCategory, ValueDistribution>>;
+  auraMultiplier?: ValueDistribution;
+}
+
+/**
+ * Valuation inputs for one draw
+ */
+export interface ValuationSample {
+  statValuation: StatValuation;
+  utilityProfile?: UtilityProfile;
+  auraMultiplier: number;
+}
+
+/**
+ * Seeded random number generator (mulberry32) returning values in [0, 1).
+ * The same seed always gives the same sequence.
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+function standardNormal(rng: () => number): number {
+  const u = 1 - rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/**
+ * Draw one value from a distribution centred on the current value
+ */
+export function sampleDistribution(distribution: ValueDistribution, current: number, rng: () => number): number {
+  switch (distribution.type) {
+    case "fixed":
+      return distribution.value ?? current;
+    case "normal": {
+      const mean = distribution.mean ?? current;
+      const sd = distribution.sd ?? (distribution.spread ?? 0) * mean;
+      return Math.max(0, mean + sd * standardNormal(rng));
+    }
+    case "lognormal":
+      return (distribution.median ?? current) * Math.exp(distribution.spread * standardNormal(rng));
+    case "uniform": {
+      const spread = distribution.spread ?? 0;
+      const min = Math.max(0, distribution.min ?? current * (1 - spread));
+      const max = distribution.max ?? current * (1 + spread);
+      return min + (max - min) * rng();
+    }
+  }
+}
+
+/**
+ * Draw a full set of valuation inputs
+ */
+export function sampleValuation(
+  uncertainty: ValuationUncertainty,
+  base: ValuationSample,
+  rng: () => number
+): ValuationSample {
+  const statValuation: StatValuation = { ...base.statValuation };
+  for (const [stat, value] of Object.entries(base.statValuation) as [keyof ItemStats, number][]) {
+    const distribution = uncertainty.stats?.[stat] ?? uncertainty.default;
+    if (distribution && value !== undefined) {
+      statValuation[stat] = sampleDistribution(distribution, value, rng);
+    }
+  }
+
+  const categoryValues: Partial<Record<UtilityCategory, number>> = { ...base.utilityProfile?.categoryValues };
+  for (const category of Object.values(UtilityCategory)) {
+    const distribution = uncertainty.utility?.[category] ?? uncertainty.default;
+    if (distribution) {
+      const current = base.utilityProfile?.categoryValues?.[category] ?? UTILITY_VALUES[category];
+      categoryValues[category] = sampleDistribution(distribution, current, rng);
+    }
+  }
+
+  return {
+    statValuation,
+    utilityProfile: { ...base.utilityProfile, categoryValues },
+    auraMultiplier: uncertainty.auraMultiplier
+      ? sampleDistribution(uncertainty.auraMultiplier, base.auraMultiplier, rng)
+      : base.auraMultiplier,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Rank Statistics
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * How a candidate ranked across all draws
+ */
+export interface RankStatistics {
+  /** Rank with the current (point estimate) valuation */
+  pointRank: number;
+  /** Mean rank across draws */
+  expectedRank: number;
+  rankVariance: number;
+  bestRank: number;
+  worstRank: number;
+  /** Fraction of draws with the candidate in the top K */
+  topKProbability: number;
+  /** Fraction of draws with the candidate ranked first */
+  topProbability: number;
+}
+
+/**
+ * Running rank totals for one candidate
+ */
+class RankTally {
+  private sum = 0;
+  private sumSquares = 0;
+  private best = Infinity;
+  private worst = 0;
+  private inTopK = 0;
+  private first = 0;
+
+  constructor(private readonly pointRank: number) {}
+
+  add(rank: number, topK: number): void {
+    this.sum += rank;
+    this.sumSquares += rank * rank;
+    this.best = Math.min(this.best, rank);
+    this.worst = Math.max(this.worst, rank);
+    if (rank <= topK) this.inTopK++;
+    if (rank === 1) this.first++;
+  }
+
+  statistics(samples: number): RankStatistics {
+    const expectedRank = this.sum / samples;
+    return {
+      pointRank: this.pointRank,
+      expectedRank,
+      rankVariance: Math.max(0, this.sumSquares / samples - expectedRank * expectedRank),
+      bestRank: this.best,
+      worstRank: this.worst,
+      topKProbability: this.inTopK / samples,
+      topProbability: this.first / samples,
+    };
+  }
+}
+
+/**
+ * Most likely to be in the top K, ties broken by expected rank
+ */
+function robustOrder<T extends { statistics: RankStatistics }>(entries: T[]): T[] {
+  return orderBy(
+    entries,
+    [(e) => e.statistics.topKProbability, (e) => e.statistics.expectedRank, (e) => e.statistics.pointRank],
+    ["desc", "asc", "asc"]
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Item Ranking
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for robust item ranking
+ */
+export interface RobustItemRankingOptions extends Omit<EfficiencyOptions, "statValuation"> {
+  uncertainty: ValuationUncertainty;
+  /** Number of draws (default: 1000) */
+  samples?: number;
+  /** Random seed (default: 1) */
+  seed?: number;
+  /** Rank that counts as a recommendation (default: 10) */
+  topK?: number;
+}
+
+/**
+ * An item's rank statistics
+ */
+export interface RobustItem {
+  item: Item;
+  /** Efficiency including utility with the point estimate valuation */
+  efficiency: number;
+  statistics: RankStatistics;
+}
+
+/**
+ * Result of robust item ranking
+ */
+export interface RobustItemRanking {
+  samples: number;
+  seed: number;
+  topK: number;
+  /** Every item, most likely to be in the top K first */
+  items: RobustItem[];
+  /** Top item with the point estimate valuation */
+  pointPick: RobustItem;
+  /** Item most likely to be in the top K, ties broken by expected rank */
+  robustPick: RobustItem;
+}
+
+function itemScores(items: readonly Item[], sample: ValuationSample, options: EfficiencyOptions): number[] {
+  return items.map(
+    (item) =>
+      calculateItemEfficiency(item, sample.statValuation, {
+        ...options,
+        utilityProfile: sample.utilityProfile,
+        auraMultiplier: sample.auraMultiplier,
+      }).efficiencyWithUtility
+  );
+}
+
+function ranksOf(scores: readonly number[]): number[] {
+  const order = orderBy(scores.map((score, index) => ({ score, index })), ["score"], ["desc"]);
+  const ranks = new Array<number>(scores.length);
+  order.forEach((entry, rank) => (ranks[entry.index] = rank + 1));
+  return ranks;
+}
+
+/**
+ * Rank items by efficiency (including utility) under many draws of the
+ * valuation inputs.
+ *
+ * @param items - Items to rank
+ * @param statValuation - Point estimate gold per point
+ * @param options - Distributions, draw count, seed and efficiency settings
+ */
+export function analyzeRobustItemRanking(
+  items: readonly Item[],
+  statValuation: StatValuation,
+  options: RobustItemRankingOptions
+): RobustItemRanking {
+  const { uncertainty, samples = 1000, seed = 1, topK = 10 } = options;
+  if (items.length === 0) {
+    throw new Error("No items to rank");
+  }
+  if (!(samples >= 1)) {
+    throw new Error("samples must be at least 1");
+  }
+
+  const base: ValuationSample = {
+    statValuation,
+    utilityProfile: options.utilityProfile,
+    auraMultiplier: options.auraMultiplier ?? 1.0,
+  };
+  const baseScores = itemScores(items, base, options);
+  const tallies = ranksOf(baseScores).map((rank) => new RankTally(rank));
+
+  const rng = createRng(seed);
+  for (let i = 0; i < samples; i++) {
+    const ranks = ranksOf(itemScores(items, sampleValuation(uncertainty, base, rng), options));
+    ranks.forEach((rank, index) => tallies[index].add(rank, topK));
+  }
+
+  const results = robustOrder(
+    items.map((item, index) => ({
+      item,
+      efficiency: baseScores[index],
+      statistics: tallies[index].statistics(samples),
+    }))
+  );
+
+  return {
+    samples,
+    seed,
+    topK,
+    items: results,
+    pointPick: results.find((r) => r.statistics.pointRank === 1)!,
+    robustPick: results[0],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Progression Ranking
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for robust progression ranking
+ */
+export interface RobustProgressionOptions {
+  uncertainty: ValuationUncertainty;
+  /** Number of draws (default: 50) */
+  samples?: number;
+  /** Random seed (default: 1) */
+  seed?: number;
+  /** Rank that counts as a recommendation (default: 5) */
+  topK?: number;
+  /**
+   * Progressions kept from each run (default: twice topK, at least 10).
+   * Progressions that miss a run's list count as ranked one below it.
+   */
+  depth?: number;
+  /** Called before each draw's progression run */
+  onSample?: (index: number, total: number) => void;
+}
+
+/**
+ * A progression's rank statistics
+ */
+export interface RobustProgression {
+  /** Sequence from the first run it appeared in */
+  sequence: BuildSequence;
+  /** Point rank is depth + 1 when the point estimate run didn't find it */
+  statistics: RankStatistics;
+}
+
+/**
+ * Result of robust progression ranking
+ */
+export interface RobustProgressionRanking {
+  samples: number;
+  seed: number;
+  topK: number;
+  depth: number;
+  /** Every progression found in any run, most likely to be in the top K first */
+  sequences: RobustProgression[];
+  pointPick?: RobustProgression;
+  robustPick?: RobustProgression;
+}
+
+/**
+ * Re-run the progression under many draws of the valuation inputs and
+ * rank the progressions found. Each run is a full beam search, so draw
+ * counts are much lower than for items.
+ *
+ * @param items - All available items
+ * @param config - Analysis configuration (its utilityProfile is sampled)
+ * @param progressionOptions - Progression settings; statValuation is the point estimate
+ * @param options - Distributions, draw count, seed and list depth
+ */
+export function analyzeRobustProgression(
+  items: Item[],
+  config: AnalysisConfig = DEFAULT_CONFIG,
+  progressionOptions: BuildProgressionOptions & { statValuation: StatValuation },
+  options: RobustProgressionOptions
+): RobustProgressionRanking {
+  const { uncertainty, samples = 50, seed = 1, topK = 5, onSample } = options;
+  const depth = Math.max(topK, options.depth ?? Math.max(10, topK * 2));
+  if (!(samples >= 1)) {
+    throw new Error("samples must be at least 1");
+  }
+
+  const topAt = (sample: ValuationSample): readonly BuildSequence[] =>
+    analyzeProgression(
+      items,
+      { ...config, utilityProfile: sample.utilityProfile },
+      {
+        ...progressionOptions,
+        statValuation: sample.statValuation,
+        auraMultiplier: sample.auraMultiplier,
+        resultLimit: depth,
+        onProgress: undefined,
+      }
+    ).sequences;
+
+  const base: ValuationSample = {
+    statValuation: progressionOptions.statValuation,
+    utilityProfile: config.utilityProfile,
+    auraMultiplier: progressionOptions.auraMultiplier ?? 1.0,
+  };
+  const sequences = new Map<string, BuildSequence>();
+  const pointRanks = new Map<string, number>();
+  topAt(base).forEach((sequence, rank) => {
+    const key = sequenceKey(sequence);
+    sequences.set(key, sequence);
+    pointRanks.set(key, rank + 1);
+  });
+
+  // Ranks per draw; progressions first seen later missed the earlier lists
+  const runs: Map<string, number>[] = [];
+  const rng = createRng(seed);
+  for (let i = 0; i < samples; i++) {
+    onSample?.(i, samples);
+    const ranks = new Map<string, number>();
+    topAt(sampleValuation(uncertainty, base, rng)).forEach((sequence, rank) => {
+      const key = sequenceKey(sequence);
+      if (!sequences.has(key)) sequences.set(key, sequence);
+      ranks.set(key, rank + 1);
+    });
+    runs.push(ranks);
+  }
+
+  const results = robustOrder(
+    [...sequences].map(([key, sequence]) => {
+      const tally = new RankTally(pointRanks.get(key) ?? depth + 1);
+      for (const ranks of runs) tally.add(ranks.get(key) ?? depth + 1, topK);
+      return { sequence, statistics: tally.statistics(samples) };
+    })
+  );
+
+  return {
+    samples,
+    seed,
+    topK,
+    depth,
+    sequences: results,
+    pointPick: results.find((r) => r.statistics.pointRank === 1),
+    robustPick: results[0],
+  };
+}
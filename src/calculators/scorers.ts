@@ -9,7 +9,7 @@ import { Item, StatValuation } from "../models/types";
 import { TransitionScorer } from "../models/buildTypes";
 import { sumBy, clamp, meanBy } from "es-toolkit";
 import { calculateItemEfficiency } from "./efficiency";
-import { calculateUtilityValue } from "./utility";
+import { calculateUtilityValue, UtilityProfile } from "./utility";
 
 // ─────────────────────────────────────────────────────────────
 // Core Scorers
@@ -21,7 +21,7 @@ import { calculateUtilityValue } from "./utility";
  * Returns the percentage of early game gold that is preserved
  * in the final build through component reuse.
  * 
- * **Important**: Includes recipe gold recovery (Gyro innate: 100% recipe refund).
+ * **Important**: Includes recipe gold recovery (Gyro innate: 100% recipe refund, other economies less).
  * Total recovered = reusedGold (components) + recoveredRecipeCost (recipes)
  *
  * @returns Score from 0 (no reuse) to 1 (full reuse)
@@ -475,16 +475,18 @@ export const earlyAffordabilityScore = (
  * Items like Force Staff, Medallion, Drums provide utility beyond stats.
  *
  * @param maxUtilityValue - Maximum utility for normalization (default: 3000)
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  * @returns Score from 0 to 1
  */
 export const earlyUtilityScore = (
-  maxUtilityValue = 3000
+  maxUtilityValue = 3000,
+  utilityProfile?: UtilityProfile
 ): TransitionScorer => (t) => {
   if (t.from.items.length === 0) return 0;
   
   const totalUtility = sumBy(
     [...t.from.items],
-    (item) => calculateUtilityValue(item.name)
+    (item) => calculateUtilityValue(item.name, item.active?.cooldown, utilityProfile)
   );
   
   return clamp(totalUtility / maxUtilityValue, 0, 1);
@@ -507,11 +509,13 @@ export const earlyUtilityScore = (
  *
  * @param statValuation - Pre-calculated stat valuations for efficiency scoring
  * @param auraMultiplier - Multiplier for aura stats (default: 1.0)
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  * @returns Balanced transition scorer
  */
 export const createImprovedScorer = (
   statValuation: StatValuation,
-  auraMultiplier = 1.0
+  auraMultiplier = 1.0,
+  utilityProfile?: UtilityProfile
 ): TransitionScorer => weightedScore([
   // Gold efficiency factors
   { scorer: reuseEfficiencyScore, weight: 0.20 },  // Includes recipe recovery
@@ -526,7 +530,7 @@ export const createImprovedScorer = (
   { scorer: earlyAffordabilityScore(3000), weight: 0.20 },
   
   // Early utility - do the early items provide useful actives?
-  { scorer: earlyUtilityScore(2500), weight: 0.10 },
+  { scorer: earlyUtilityScore(2500, utilityProfile), weight: 0.10 },
 ]);
 
 /**
@@ -540,10 +544,12 @@ export const createImprovedScorer = (
  *
  * @param statValuation - Pre-calculated stat valuations
  * @param auraMultiplier - Multiplier for aura stats (default: 1.0)
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  */
 export const createSupportScorer = (
   statValuation: StatValuation,
-  auraMultiplier = 1.0
+  auraMultiplier = 1.0,
+  utilityProfile?: UtilityProfile
 ): TransitionScorer => weightedScore([
   { scorer: reuseEfficiencyScore, weight: 0.15 },
   { scorer: wasteAvoidanceScore, weight: 0.10 },
@@ -551,7 +557,7 @@ export const createSupportScorer = (
   { scorer: transitionAffordabilityScore(4000), weight: 0.15 },  // Actual gold needed matters
   { scorer: earlyBuildEfficiencyScore(statValuation, 1.5, auraMultiplier), weight: 0.10 },
   { scorer: earlyAffordabilityScore(2500), weight: 0.25 },  // Very affordable early builds
-  { scorer: earlyUtilityScore(3000), weight: 0.20 },  // Utility matters most
+  { scorer: earlyUtilityScore(3000, utilityProfile), weight: 0.20 },  // Utility matters most
 ]);
 
 /**
@@ -565,10 +571,12 @@ export const createSupportScorer = (
  *
  * @param statValuation - Pre-calculated stat valuations
  * @param auraMultiplier - Multiplier for aura stats (default: 1.0)
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  */
 export const createCoreScorer = (
   statValuation: StatValuation,
-  auraMultiplier = 1.0
+  auraMultiplier = 1.0,
+  utilityProfile?: UtilityProfile
 ): TransitionScorer => weightedScore([
   { scorer: reuseEfficiencyScore, weight: 0.25 },
   { scorer: wasteAvoidanceScore, weight: 0.10 },
@@ -576,5 +584,5 @@ export const createCoreScorer = (
   { scorer: transitionAffordabilityScore(6000), weight: 0.10 },  // Less important for cores
   { scorer: earlyBuildEfficiencyScore(statValuation, 1.5, auraMultiplier), weight: 0.20 },
   { scorer: earlyAffordabilityScore(4000), weight: 0.10 },  // Can afford more
-  { scorer: earlyUtilityScore(2000), weight: 0.10 },
+  { scorer: earlyUtilityScore(2000, utilityProfile), weight: 0.10 },
 ]);
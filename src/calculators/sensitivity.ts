@@ -0,0 +1,421 @@
+/**
+ * Sensitivity of recommendations to the valuation inputs.
+ *
+ * Each gold-per-point value in the StatValuation and each utility
+ * category value is moved by ±N% on its own, and the item rankings or
+ * progression results are recomputed to see which recommendations hold.
+ */
+
+import { Item, ItemStats, StatValuation } from "../models/types";
+import { BuildProgressionOptions, BuildSequence } from "../models/buildTypes";
+import { AnalysisConfig, DEFAULT_CONFIG } from "../config/analysisConfig";
+import { orderBy } from "es-toolkit";
+import { EfficiencyOptions, calculateItemEfficiency } from "./efficiency";
+import { UTILITY_VALUES, UtilityCategory, UtilityProfile } from "./utility";
+import { analyzeProgression } from "./buildProgression";
+
+// ─────────────────────────────────────────────────────────────
+// Parameters
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * A valuation input that can be perturbed: a stat's gold per point
+ * or a utility category's gold value
+ */
+export type SensitivityParameter =
+  | { kind: "stat"; name: string; stat: keyof ItemStats; baseValue: number }
+  | { kind: "utility"; name: string; category: UtilityCategory; baseValue: number };
+
+/**
+ * Valuation inputs after moving one parameter
+ */
+export interface PerturbedValuation {
+  statValuation: StatValuation;
+  utilityProfile?: UtilityProfile;
+}
+
+/**
+ * Parameters to perturb: every stat with a positive gold per point and,
+ * optionally, every utility category. Utility parameters are named
+ * "utility.<category>".
+ */
+export function sensitivityParameters(
+  statValuation: StatValuation,
+  utilityProfile?: UtilityProfile,
+  includeUtility = true
+): SensitivityParameter[] {
+  const parameters: SensitivityParameter[] = [];
+
+  for (const [stat, value] of Object.entries(statValuation) as [keyof ItemStats, number][]) {
+    if (value > 0) {
+      parameters.push({ kind: "stat", name: stat, stat, baseValue: value });
+    }
+  }
+
+  if (includeUtility) {
+    for (const category of Object.values(UtilityCategory)) {
+      const baseValue = utilityProfile?.categoryValues?.[category] ?? UTILITY_VALUES[category];
+      parameters.push({ kind: "utility", name: `utility.${category}`, category, baseValue });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Keep the parameters named in a list. Utility parameters also match
+ * their bare category name (e.g. "mobility").
+ */
+export function selectSensitivityParameters(
+  parameters: SensitivityParameter[],
+  names: readonly string[]
+): SensitivityParameter[] {
+  const matches = (p: SensitivityParameter, name: string) =>
+    p.name === name || (p.kind === "utility" && p.category === name);
+
+  const unknown = names.filter((name) => !parameters.some((p) => matches(p, name)));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown sensitivity parameter${unknown.length > 1 ? "s" : ""} ${unknown.map((n) => `"${n}"`).join(", ")} ` +
+        `(expected one of ${parameters.map((p) => p.name).join(", ")})`
+    );
+  }
+  return parameters.filter((p) => names.some((name) => matches(p, name)));
+}
+
+/**
+ * The valuation inputs with one parameter set to a value
+ */
+export function perturbValuation(
+  parameter: SensitivityParameter,
+  value: number,
+  statValuation: StatValuation,
+  utilityProfile?: UtilityProfile
+): PerturbedValuation {
+  if (parameter.kind === "stat") {
+    return { statValuation: { ...statValuation, [parameter.stat]: value }, utilityProfile };
+  }
+  return {
+    statValuation,
+    utilityProfile: {
+      ...utilityProfile,
+      categoryValues: { ...utilityProfile?.categoryValues, [parameter.category]: value },
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Item Ranking Sensitivity
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for item ranking sensitivity
+ */
+export interface EfficiencySensitivityOptions extends Omit<EfficiencyOptions, "statValuation"> {
+  /** Perturbation size in percent (default: 20) */
+  percent?: number;
+  /** Number of top-ranked items that count as recommendations (default: 10) */
+  topCount?: number;
+  /** Parameters to perturb (default: all stats and utility categories) */
+  parameters?: SensitivityParameter[];
+}
+
+/**
+ * Value of a parameter at which the top item changes
+ */
+export interface BreakEven {
+  value: number;
+  /** Change from the base value (0.25 = +25%) */
+  percentChange: number;
+  /** Item that takes over the top spot */
+  item: Item;
+}
+
+/**
+ * How one parameter moves the item rankings
+ */
+export interface ParameterSensitivity {
+  parameter: SensitivityParameter;
+  /** Top item with the parameter lowered by N% */
+  lowTop: Item;
+  /** Top item with the parameter raised by N% */
+  highTop: Item;
+  /** Recommended items that fall out of the top at -N% or +N% */
+  droppedItems: Item[];
+  /** Nearest value below the base where the top item changes */
+  lowerBreakEven?: BreakEven;
+  /** Nearest value above the base where the top item changes */
+  upperBreakEven?: BreakEven;
+}
+
+/**
+ * How a recommended item's rank holds up across all perturbations
+ */
+export interface ItemStability {
+  item: Item;
+  rank: number;
+  efficiency: number;
+  bestRank: number;
+  worstRank: number;
+  /** Stays in the top under every perturbation */
+  stable: boolean;
+}
+
+/**
+ * Sensitivity of the efficiency rankings to each parameter
+ */
+export interface EfficiencySensitivity {
+  percent: number;
+  topCount: number;
+  items: ItemStability[];
+  parameters: ParameterSensitivity[];
+}
+
+/**
+ * Efficiency including utility of every item, so both stat and
+ * utility parameters move the ranking
+ */
+function itemScores(items: readonly Item[], valuation: PerturbedValuation, options: EfficiencyOptions): number[] {
+  return items.map(
+    (item) =>
+      calculateItemEfficiency(item, valuation.statValuation, { ...options, utilityProfile: valuation.utilityProfile })
+        .efficiencyWithUtility
+  );
+}
+
+/**
+ * Item indexes ordered by score, highest first
+ */
+function rankOrder(scores: readonly number[]): number[] {
+  return orderBy(scores.map((score, index) => ({ score, index })), ["score"], ["desc"]).map((e) => e.index);
+}
+
+/**
+ * Nearest values on each side of the base where another item's score line
+ * crosses the top item's. Efficiency is linear in a single gold-per-point
+ * or utility value, so two evaluations give each item's slope.
+ */
+function findBreakEvens(
+  items: readonly Item[],
+  topIndex: number,
+  baseValue: number,
+  baseScores: readonly number[],
+  steppedScores: readonly number[],
+  step: number
+): { lower?: BreakEven; upper?: BreakEven } {
+  const slope = (i: number) => (steppedScores[i] - baseScores[i]) / step;
+  const topSlope = slope(topIndex);
+  let lower: { value: number; index: number } | undefined;
+  let upper: { value: number; index: number } | undefined;
+
+  for (let i = 0; i < items.length; i++) {
+    if (i === topIndex) continue;
+    const slopeGap = slope(i) - topSlope;
+    if (Math.abs(slopeGap) < 1e-12) continue;
+
+    const value = baseValue + (baseScores[topIndex] - baseScores[i]) / slopeGap;
+    if (value < 0) continue;
+    if (value < baseValue && (!lower || value > lower.value)) lower = { value, index: i };
+    if (value > baseValue && (!upper || value < upper.value)) upper = { value, index: i };
+  }
+
+  const toBreakEven = (crossing?: { value: number; index: number }): BreakEven | undefined =>
+    crossing && {
+      value: crossing.value,
+      percentChange: baseValue > 0 ? crossing.value / baseValue - 1 : 0,
+      item: items[crossing.index],
+    };
+  return { lower: toBreakEven(lower), upper: toBreakEven(upper) };
+}
+
+/**
+ * Perturb each parameter by ±percent and re-rank items by efficiency
+ * (including utility). Reports which top-ranked items stay on top and
+ * where the top item flips.
+ *
+ * @param items - Items to rank
+ * @param statValuation - Base gold per point
+ * @param options - Perturbation size, recommendation count and efficiency settings
+ */
+export function analyzeEfficiencySensitivity(
+  items: readonly Item[],
+  statValuation: StatValuation,
+  options: EfficiencySensitivityOptions = {}
+): EfficiencySensitivity {
+  const { percent = 20, topCount = 10, utilityProfile } = options;
+  const parameters = options.parameters ?? sensitivityParameters(statValuation, utilityProfile);
+  const base: PerturbedValuation = { statValuation, utilityProfile };
+
+  const baseScores = itemScores(items, base, options);
+  const baseOrder = rankOrder(baseScores);
+  const top = baseOrder.slice(0, topCount);
+  const bestRank = new Map(top.map((index, rank) => [index, rank + 1]));
+  const worstRank = new Map(bestRank);
+
+  const parameterResults = parameters.map((parameter): ParameterSensitivity => {
+    const at = (value: number) =>
+      itemScores(items, perturbValuation(parameter, value, statValuation, utilityProfile), options);
+
+    const orders = [1 - percent / 100, 1 + percent / 100].map((factor) =>
+      rankOrder(at(Math.max(0, parameter.baseValue * factor)))
+    );
+    const dropped = new Set<number>();
+    for (const order of orders) {
+      const ranks = new Map(order.map((index, rank) => [index, rank + 1]));
+      for (const index of top) {
+        const rank = ranks.get(index)!;
+        bestRank.set(index, Math.min(bestRank.get(index)!, rank));
+        worstRank.set(index, Math.max(worstRank.get(index)!, rank));
+        if (rank > topCount) dropped.add(index);
+      }
+    }
+
+    const step = parameter.baseValue > 0 ? parameter.baseValue : 1;
+    const { lower, upper } = findBreakEvens(
+      items, baseOrder[0], parameter.baseValue, baseScores, at(parameter.baseValue + step), step
+    );
+
+    return {
+      parameter,
+      lowTop: items[orders[0][0]],
+      highTop: items[orders[1][0]],
+      droppedItems: top.filter((index) => dropped.has(index)).map((index) => items[index]),
+      ...(lower && { lowerBreakEven: lower }),
+      ...(upper && { upperBreakEven: upper }),
+    };
+  });
+
+  return {
+    percent,
+    topCount,
+    items: top.map((index, rank) => ({
+      item: items[index],
+      rank: rank + 1,
+      efficiency: baseScores[index],
+      bestRank: bestRank.get(index)!,
+      worstRank: worstRank.get(index)!,
+      stable: worstRank.get(index)! <= topCount,
+    })),
+    parameters: parameterResults,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Progression Sensitivity
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for progression sensitivity
+ */
+export interface ProgressionSensitivityOptions {
+  /** Perturbation size in percent (default: 20) */
+  percent?: number;
+  /** Parameters to perturb (default: all stats and utility categories) */
+  parameters?: SensitivityParameter[];
+  /** Bisection steps to locate a break-even inside ±percent (default: 4) */
+  breakEvenSteps?: number;
+  /** Called before each parameter is analyzed */
+  onParameter?: (parameter: SensitivityParameter, index: number, total: number) => void;
+}
+
+/**
+ * How one parameter moves the top progression
+ */
+export interface ProgressionParameterSensitivity {
+  parameter: SensitivityParameter;
+  /** Top progression with the parameter lowered by N% (undefined if none found) */
+  lowTop?: BuildSequence;
+  /** Top progression with the parameter raised by N% */
+  highTop?: BuildSequence;
+  /** Same top progression at both -N% and +N% */
+  stable: boolean;
+  /** Approximate value below the base where the top progression changes, if within -N% */
+  lowerBreakEven?: number;
+  /** Approximate value above the base where the top progression changes, if within +N% */
+  upperBreakEven?: number;
+}
+
+/**
+ * Sensitivity of the top progression to each parameter
+ */
+export interface ProgressionSensitivity {
+  percent: number;
+  baseline?: BuildSequence;
+  parameters: ProgressionParameterSensitivity[];
+}
+
+/**
+ * Identity of a progression: its items at every stage
+ */
+export function sequenceKey(sequence: BuildSequence | undefined): string {
+  if (!sequence) return "";
+  return sequence.stages
+    .map((stage) => stage.loadout.items.map((item) => item.name).sort().join("+"))
+    .join(" > ");
+}
+
+/**
+ * Perturb each parameter by ±percent and re-run the progression.
+ * A parameter is stable when the top progression doesn't change; when it
+ * does, the value where it flips is located by bisection.
+ *
+ * @param items - All available items
+ * @param config - Analysis configuration (its utilityProfile is perturbed)
+ * @param progressionOptions - Progression settings; statValuation is the base valuation
+ * @param options - Perturbation size, parameters and bisection steps
+ */
+export function analyzeProgressionSensitivity(
+  items: Item[],
+  config: AnalysisConfig = DEFAULT_CONFIG,
+  progressionOptions: BuildProgressionOptions & { statValuation: StatValuation },
+  options: ProgressionSensitivityOptions = {}
+): ProgressionSensitivity {
+  const { percent = 20, breakEvenSteps = 4, onParameter } = options;
+  const { statValuation } = progressionOptions;
+  const parameters = options.parameters ?? sensitivityParameters(statValuation, config.utilityProfile);
+
+  const topAt = (valuation: PerturbedValuation): BuildSequence | undefined =>
+    analyzeProgression(
+      items,
+      { ...config, utilityProfile: valuation.utilityProfile },
+      { ...progressionOptions, statValuation: valuation.statValuation, resultLimit: 1, onProgress: undefined }
+    ).sequences[0];
+
+  const baseline = topAt({ statValuation, utilityProfile: config.utilityProfile });
+  const baselineKey = sequenceKey(baseline);
+
+  const parameterResults = parameters.map((parameter, index): ProgressionParameterSensitivity => {
+    onParameter?.(parameter, index, parameters.length);
+    const perturbed = (value: number) =>
+      topAt(perturbValuation(parameter, value, statValuation, config.utilityProfile));
+
+    // Narrow the gap between a value with the baseline top and one without
+    const breakEven = (flipped: number): number => {
+      let same = parameter.baseValue;
+      for (let step = 0; step < breakEvenSteps; step++) {
+        const mid = (same + flipped) / 2;
+        if (sequenceKey(perturbed(mid)) === baselineKey) same = mid;
+        else flipped = mid;
+      }
+      return (same + flipped) / 2;
+    };
+
+    const lowValue = Math.max(0, parameter.baseValue * (1 - percent / 100));
+    const highValue = parameter.baseValue * (1 + percent / 100);
+    const lowTop = perturbed(lowValue);
+    const highTop = perturbed(highValue);
+    const lowFlips = sequenceKey(lowTop) !== baselineKey;
+    const highFlips = sequenceKey(highTop) !== baselineKey;
+
+    return {
+      parameter,
+      lowTop,
+      highTop,
+      stable: !lowFlips && !highFlips,
+      ...(lowFlips && { lowerBreakEven: breakEven(lowValue) }),
+      ...(highFlips && { upperBreakEven: breakEven(highValue) }),
+    };
+  });
+
+  return { percent, baseline, parameters: parameterResults };
+}
@@ -0,0 +1,363 @@
+/**
+ * Shopping lists for build transitions.
+ *
+ * A transition says which components are reused and bought, not in what
+ * order. Here it becomes a list of actions (buy a component, disassemble
+ * an item, sell its recipe, assemble an item, sell what isn't needed)
+ * ordered so stat value stays as high as possible while gold comes in,
+ * without holding more than inventory, backpack and stash can take.
+ *
+ * Disassembly and selling follow the economy policy, as in the rest of
+ * the progression model: by default disassembly refunds the full recipe
+ * cost (Gyrocopter's innate) and anything sold returns half its cost,
+ * except pieces bought earlier in the same list, which the refund window
+ * returns in full (as in Loadout.soldRecovery).
+ * Items that can't be disassembled are only ever kept, built on or sold.
+ */
+
+import { Item, StatValuation } from "../models/types";
+import { Loadout } from "../models/buildTypes";
+import { ItemRepository } from "../data/ItemRepository";
+import { DEFAULT_CONFIG, EconomyPolicy } from "../config/analysisConfig";
+import { BonusStatOptions } from "./efficiency";
+import {
+  allocateItemsToSlots,
+  calculateItemsStatValue,
+  canDisassemble,
+  containsItem,
+  recipeRefund,
+  sellValue,
+} from "./loadout";
+
+/** Stash slots at the base */
+export const STASH_SLOTS = 6;
+
+/**
+ * What a shopping list step does
+ */
+export type ShoppingAction = "buy" | "disassemble" | "sellRecipe" | "assemble" | "sell";
+
+/**
+ * One step of a shopping list and the state after it
+ */
+export interface ShoppingStep {
+  action: ShoppingAction;
+  /** Component bought or sold, item disassembled or assembled, or the item whose recipe is sold */
+  item: Item;
+  /** Change in gold: negative when spending, positive when recovering */
+  gold: number;
+  /** Net gold spent on the transition so far */
+  goldSpent: number;
+  /** Stat value of the inventory */
+  statValue: number;
+  /** Items and components held across inventory, backpack and stash */
+  slotsUsed: number;
+}
+
+/**
+ * Ordered actions that turn one loadout into the next
+ */
+export interface ShoppingList {
+  steps: ShoppingStep[];
+  /** Most net gold spent at any point: the gold to farm before finishing */
+  goldNeeded: number;
+  /** Net gold spent once every step is done */
+  goldSpent: number;
+  /** Inventory, backpack and stash slots */
+  capacity: number;
+  /** Most items and components held at once */
+  peakSlots: number;
+  /** Whether every step fits in the inventory, backpack and stash */
+  feasible: boolean;
+}
+
+/**
+ * Options for shopping lists
+ */
+export interface ShoppingListOptions extends BonusStatOptions {
+  /** Gold per stat point; without it every order has the same stat value */
+  statValuation?: StatValuation;
+  /** Number of active inventory slots (default: 6) */
+  inventorySlots?: number;
+  /** Number of backpack slots (default: 3) */
+  backpackSlots?: number;
+  /** Number of stash slots (default: STASH_SLOTS) */
+  stashSlots?: number;
+  /** Sell and disassembly rules (default: DEFAULT_CONFIG.economy) */
+  economy?: EconomyPolicy;
+}
+
+/**
+ * Pieces held while shopping: finished items, and free pieces that
+ * can still be used, disassembled or sold
+ */
+interface ShoppingState {
+  locked: Item[];
+  free: Item[];
+  steps: ShoppingStep[];
+  goldSpent: number;
+  peakSlots: number;
+  /** Names of free pieces bought in this list, which sell back in full within the refund window */
+  purchased: string[];
+}
+
+/**
+ * Plan the purchases for a transition between two loadouts.
+ *
+ * Items in both loadouts are kept as they are. Each other target item is
+ * completed in one go (buy its missing components, disassemble the items
+ * holding the rest, sell their recipes, assemble; or build on an item that
+ * can't be disassembled), and targets are taken
+ * greedily: first those that pay for themselves without losing stat
+ * value, then by stat value gained per gold. Within a target, components are bought before anything
+ * is disassembled, so stats only drop at the moment of assembly, unless
+ * only disassembling first (and selling the pieces no target needs) fits.
+ * When a step would overflow the stash, pieces no remaining target needs
+ * are sold first. Pieces left over at the end are sold. If even that
+ * can't make room, the list is marked infeasible. Pieces sold after being
+ * bought in the same list are refunded in full when the economy has a
+ * refund window.
+ *
+ * @param from - Loadout before the transition (emptyLoadout() for a first stage)
+ * @param to - Loadout after the transition
+ * @param repo - ItemRepository for components and recipe costs
+ * @param options - Stat valuation, slot counts and economy
+ */
+export function planShoppingList(
+  from: Loadout,
+  to: Loadout,
+  repo: ItemRepository,
+  options: ShoppingListOptions = {}
+): ShoppingList {
+  const {
+    statValuation,
+    inventorySlots = 6,
+    backpackSlots = 3,
+    stashSlots = STASH_SLOTS,
+    economy = DEFAULT_CONFIG.economy,
+    ...bonusOptions
+  } = options;
+  const capacity = inventorySlots + backpackSlots + stashSlots;
+
+  const statValue = (held: readonly Item[]): number => {
+    if (!statValuation) return 0;
+    const { inventory } = allocateItemsToSlots(held, { inventorySlots, backpackSlots });
+    return calculateItemsStatValue(inventory, statValuation, bonusOptions);
+  };
+
+  // Items in both loadouts stay as they are
+  const free = [...from.items];
+  const locked: Item[] = [];
+  const targets: Item[] = [];
+  for (const item of to.items) {
+    const index = free.findIndex((piece) => piece.name === item.name);
+    if (index >= 0) {
+      locked.push(...free.splice(index, 1));
+    } else {
+      targets.push(item);
+    }
+  }
+
+  const neededComponents = (items: readonly Item[]): string[] =>
+    items.flatMap((item) => (item.components.length > 0 ? repo.getBaseComponents(item) : [item.name]));
+
+  const record = (state: ShoppingState, action: ShoppingAction, item: Item, gold: number) => {
+    const held = [...state.locked, ...state.free];
+    state.goldSpent -= gold;
+    state.peakSlots = Math.max(state.peakSlots, held.length);
+    state.steps.push({
+      action,
+      item,
+      gold,
+      goldSpent: state.goldSpent,
+      statValue: statValue(held),
+      slotsUsed: held.length,
+    });
+  };
+
+  // Pieces bought in this list sell back in full within the refund window
+  const sell = (state: ShoppingState, piece: Item) => {
+    state.free.splice(state.free.indexOf(piece), 1);
+    const index = economy.refundWindow ? state.purchased.indexOf(piece.name) : -1;
+    if (index >= 0) state.purchased.splice(index, 1);
+    record(state, "sell", piece, index >= 0 ? piece.cost : sellValue(piece, economy));
+  };
+
+  // Held copies of a component are used before ones bought in this list
+  const use = (state: ShoppingState, index: number) => {
+    const [piece] = state.free.splice(index, 1);
+    const held = state.free.filter((p) => p.name === piece.name).length;
+    const bought = state.purchased.filter((name) => name === piece.name).length;
+    if (bought > held) state.purchased.splice(state.purchased.indexOf(piece.name), 1);
+  };
+
+  // Sell free components beyond what the remaining targets need
+  const makeRoom = (state: ShoppingState, slots: number, remaining: readonly Item[]) => {
+    const needs = neededComponents(remaining);
+    while (state.locked.length + state.free.length + slots > capacity) {
+      const surplus = state.free
+        .map((piece, index) => ({ piece, index }))
+        .filter(({ piece }) => {
+          if (piece.components.length > 0) return false;
+          const held = state.free.filter((p) => p.name === piece.name).length;
+          return held > needs.filter((name) => name === piece.name).length;
+        })
+        .sort((a, b) => a.piece.cost - b.piece.cost)[0];
+      if (!surplus) return;
+      sell(state, surplus.piece);
+    }
+  };
+
+  const completeTarget = (
+    start: ShoppingState,
+    target: Item,
+    later: readonly Item[],
+    disassembleFirst = false
+  ): ShoppingState => {
+    const state: ShoppingState = {
+      ...start,
+      locked: [...start.locked],
+      free: [...start.free],
+      steps: [...start.steps],
+      purchased: [...start.purchased],
+    };
+
+    // Decide where each component comes from before acting
+    const available = [...state.free];
+    const toBuy: Item[] = [];
+    const toDisassemble: Item[] = [];
+
+    // An item that can't be disassembled is built on instead
+    const needed = neededComponents([target]);
+    const base = available.find(
+      (piece) => piece.components.length > 0 && !canDisassemble(piece, economy) && containsItem(target, piece.name, repo)
+    );
+    if (base) {
+      available.splice(available.indexOf(base), 1);
+      for (const name of repo.getBaseComponents(base)) {
+        const index = needed.indexOf(name);
+        if (index >= 0) needed.splice(index, 1);
+      }
+    }
+
+    for (const name of needed) {
+      let index = available.findIndex((piece) => piece.name === name && piece.components.length === 0);
+      if (index < 0) {
+        const sourceIndex = available.findIndex(
+          (piece) => canDisassemble(piece, economy) && repo.getBaseComponents(piece).includes(name)
+        );
+        if (sourceIndex >= 0) {
+          const [source] = available.splice(sourceIndex, 1);
+          toDisassemble.push(source);
+          available.push(...repo.getBaseComponents(source).flatMap((c) => repo.getByName(c) ?? []));
+          index = available.findIndex((piece) => piece.name === name && piece.components.length === 0);
+        }
+      }
+      if (index >= 0) {
+        available.splice(index, 1);
+      } else {
+        const component = repo.getByName(name);
+        if (component) toBuy.push(component);
+      }
+    }
+
+    const remaining = [target, ...later];
+
+    // Components with the most stat value per gold first
+    const perGold = (item: Item) => (item.cost > 0 ? statValue([item]) / item.cost : 0);
+    const buy = () => {
+      for (const component of [...toBuy].sort((a, b) => perGold(b) - perGold(a))) {
+        makeRoom(state, 1, remaining);
+        state.free.push(component);
+        state.purchased.push(component.name);
+        record(state, "buy", component, -component.cost);
+      }
+    };
+
+    const disassemble = () => {
+      for (const source of toDisassemble) {
+        const components = repo.getBaseComponents(source).flatMap((c) => repo.getByName(c) ?? []);
+        makeRoom(state, components.length - 1, remaining);
+        state.free.splice(state.free.indexOf(source), 1);
+        state.free.push(...components);
+        record(state, "disassemble", source, 0);
+        const refund = recipeRefund(repo.getRecipeCost(source), economy);
+        if (refund > 0) {
+          record(state, "sellRecipe", source, refund);
+        }
+      }
+    };
+
+    if (disassembleFirst) {
+      disassemble();
+      buy();
+    } else {
+      buy();
+      disassemble();
+    }
+
+    // Take the components out of the free pieces and finish the target
+    if (base) state.free.splice(state.free.indexOf(base), 1);
+    for (const name of needed) {
+      const index = state.free.findIndex((piece) => piece.name === name && piece.components.length === 0);
+      if (index >= 0) use(state, index);
+    }
+    state.locked.push(target);
+    if (target.components.length > 0) {
+      const recipeCost = repo.getRecipeCost(target) - (base ? repo.getRecipeCost(base) : 0);
+      record(state, "assemble", target, -recipeCost);
+    }
+    return state;
+  };
+
+  let state: ShoppingState = {
+    locked,
+    free,
+    steps: [],
+    goldSpent: 0,
+    peakSlots: locked.length + free.length,
+    purchased: [],
+  };
+
+  let pending = [...targets];
+  while (pending.length > 0) {
+    const current = statValue([...state.locked, ...state.free]);
+    const candidates = pending.map((target, index) => {
+      const later = pending.filter((_, i) => i !== index);
+      let next = completeTarget(state, target, later);
+      if (next.peakSlots > capacity) {
+        // Disassembling first frees the slots of pieces no target needs
+        const reordered = completeTarget(state, target, later, true);
+        if (reordered.peakSlots < next.peakSlots) next = reordered;
+      }
+      const gain = statValue([...next.locked, ...next.free]) - current;
+      const gold = next.goldSpent - state.goldSpent;
+      return { index, next, gain, gold };
+    });
+
+    // Targets that pay for themselves without losing stats first, then by
+    // stat value per gold; those that lose stats wait until last
+    const rank = ({ gain, gold }: { gain: number; gold: number }) =>
+      gold <= 0 ? (gain >= 0 ? 0 : 2) : gain > 0 ? 1 : 3;
+    const worth = ({ gain, gold }: { gain: number; gold: number }) => (gold > 0 ? gain / gold : gain);
+    const best = candidates.reduce((a, b) =>
+      rank(b) < rank(a) || (rank(b) === rank(a) && worth(b) > worth(a)) ? b : a
+    );
+    state = best.next;
+    pending = pending.filter((_, i) => i !== best.index);
+  }
+
+  // Sell whatever no target used
+  for (const piece of [...state.free].sort((a, b) => b.cost - a.cost)) {
+    sell(state, piece);
+  }
+
+  return {
+    steps: state.steps,
+    goldNeeded: Math.max(0, ...state.steps.map((step) => step.goldSpent)),
+    goldSpent: state.goldSpent,
+    capacity,
+    peakSlots: state.peakSlots,
+    feasible: state.peakSlots <= capacity,
+  };
+}
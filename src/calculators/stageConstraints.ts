@@ -15,7 +15,12 @@ import {
   Loadout,
 } from "../models/buildTypes";
 import { Item } from "../models/types";
-import { AnalysisConfig, isBootItem } from "../config/analysisConfig";
+import {
+  AnalysisConfig,
+  findDuplicateUniqueGroups,
+  isBootItem,
+  uniqueGroupIndex,
+} from "../config/analysisConfig";
 
 // ─────────────────────────────────────────────────────────────
 // Constraint Adapters
@@ -109,6 +114,19 @@ export const noDuplicateBootsInLoadout = (config: AnalysisConfig): LoadoutConstr
     return bootCount <= 1;
   };
 
+/**
+ * Constraint: at most one item from each unique group in loadout.
+ *
+ * Items in a unique group (e.g. Blink Dagger and its upgrades) don't stack.
+ *
+ * @param config - Analysis config with unique item groups
+ */
+export const noDuplicateUniqueItemsInLoadout = (config: AnalysisConfig): LoadoutConstraint => {
+  const index = uniqueGroupIndex(config.uniqueGroups);
+  return (loadout) =>
+    findDuplicateUniqueGroups(loadout.items.map((i) => i.name), index).length === 0;
+};
+
 /**
  * Constraint: loadout must contain at least one boot.
  *
@@ -213,7 +231,8 @@ export const maxCostIncrease = (maxIncrease: number): StageConstraint =>
 /**
  * Constraint: minimum total gold recovery from previous stage.
  *
- * Includes both component reuse AND recipe recovery (Gyro's innate gives 100% recipe refund).
+ * Includes both component reuse AND recipe recovery (at the economy's recipe recovery rate;
+ * Gyro's innate gives a 100% recipe refund).
  * This measures true gold efficiency - how much of your previous investment you retain.
  *
  * @param minPercent - Minimum recovery as decimal (0-1), e.g., 0.5 = 50%
@@ -386,6 +405,7 @@ export const anyLoadoutConstraint = (
  * - Stage must be within cost threshold
  * - Cost must increase from previous stage
  * - No duplicate boots
+ * - At most one item per unique group
  * - Max 6 items (inventory limit)
  *
  * @param config - Analysis configuration
@@ -397,6 +417,7 @@ export const standardSequenceConstraints = (
     withinCostThreshold,
     costMustIncrease,
     fromLoadoutConstraint(noDuplicateBootsInLoadout(config)),
+    fromLoadoutConstraint(noDuplicateUniqueItemsInLoadout(config)),
     fromLoadoutConstraint(maxItemCount(6))
   );
 
@@ -425,6 +446,7 @@ export const strictSequenceConstraints = (
  * - Stage within cost threshold
  * - Cost increases
  * - No duplicate boots
+ * - At most one item per unique group
  *
  * @param config - Analysis configuration
  */
@@ -434,5 +456,6 @@ export const relaxedSequenceConstraints = (
   allStageConstraints(
     withinCostThreshold,
     costMustIncrease,
-    fromLoadoutConstraint(noDuplicateBootsInLoadout(config))
+    fromLoadoutConstraint(noDuplicateBootsInLoadout(config)),
+    fromLoadoutConstraint(noDuplicateUniqueItemsInLoadout(config))
   );
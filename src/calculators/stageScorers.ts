@@ -13,10 +13,11 @@ import {
   Loadout,
   BuildSequence,
 } from "../models/buildTypes";
-import { StatValuation } from "../models/types";
+import { Hero, StatValuation } from "../models/types";
 import { clamp, meanBy, sumBy } from "es-toolkit";
 import { calculateItemEfficiency } from "./efficiency";
-import { calculateUtilityValue } from "./utility";
+import { calculateUtilityValue, UtilityProfile } from "./utility";
+import { CombatStatOptions, calculateStageCombatStats } from "./combatStats";
 import {
   reuseEfficiencyScore,
   wasteAvoidanceScore,
@@ -137,15 +138,19 @@ export const averageItemEfficiencyScore = (
  * Rewards loadouts with useful actives/passives beyond raw stats.
  *
  * @param maxUtilityValue - Maximum utility for normalization
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  * @returns Stage scorer returning 0-1
  */
-export const loadoutUtilityScore = (maxUtilityValue = 3000): StageScorer =>
+export const loadoutUtilityScore = (
+  maxUtilityValue = 3000,
+  utilityProfile?: UtilityProfile
+): StageScorer =>
   (stage) => {
     if (stage.loadout.items.length === 0) return 0;
 
     const totalUtility = sumBy(
       [...stage.loadout.items],
-      (item) => calculateUtilityValue(item.name)
+      (item) => calculateUtilityValue(item.name, item.active?.cooldown, utilityProfile)
     );
 
     return clamp(totalUtility / maxUtilityValue, 0, 1);
@@ -160,6 +165,91 @@ export const loadoutUtilityScore = (maxUtilityValue = 3000): StageScorer =>
 export const loadoutStatValueScore = (maxStatValue = 10000): StageScorer =>
   (stage) => clamp(stage.loadout.totalStatValue / maxStatValue, 0, 1);
 
+/**
+ * Score by the hero's effective HP against physical damage.
+ *
+ * @param hero - Hero holding the loadout
+ * @param maxEhp - Maximum EHP for normalization
+ * @param options - Hero level (default: expected level for the stage cost) and stacking settings
+ * @returns Stage scorer returning 0-1
+ */
+export const loadoutPhysicalEhpScore = (
+  hero: Hero,
+  maxEhp = 30000,
+  options: CombatStatOptions = {}
+): StageScorer =>
+  (stage) => clamp(calculateStageCombatStats(hero, stage, options).physicalEhp / maxEhp, 0, 1);
+
+/**
+ * Score by the hero's effective HP against magical damage.
+ *
+ * @param hero - Hero holding the loadout
+ * @param maxEhp - Maximum EHP for normalization
+ * @param options - Hero level (default: expected level for the stage cost) and stacking settings
+ * @returns Stage scorer returning 0-1
+ */
+export const loadoutMagicalEhpScore = (
+  hero: Hero,
+  maxEhp = 15000,
+  options: CombatStatOptions = {}
+): StageScorer =>
+  (stage) => clamp(calculateStageCombatStats(hero, stage, options).magicalEhp / maxEhp, 0, 1);
+
+/**
+ * Score by the hero's right-click DPS.
+ *
+ * @param hero - Hero holding the loadout
+ * @param maxDps - Maximum DPS for normalization
+ * @param options - Hero level (default: expected level for the stage cost), target armor and stacking settings
+ * @returns Stage scorer returning 0-1
+ */
+export const loadoutDpsScore = (
+  hero: Hero,
+  maxDps = 1000,
+  options: CombatStatOptions = {}
+): StageScorer =>
+  (stage) => clamp(calculateStageCombatStats(hero, stage, options).dps / maxDps, 0, 1);
+
+/**
+ * Combat stat a progression can be optimized for:
+ * - ehp: effective HP against physical damage
+ * - magic-ehp: effective HP against magical damage
+ * - dps: right-click DPS
+ */
+export type CombatMetric = "ehp" | "magic-ehp" | "dps";
+
+export const COMBAT_METRICS: readonly CombatMetric[] = ["ehp", "magic-ehp", "dps"];
+
+/**
+ * Check whether a string names a combat metric
+ */
+export function isCombatMetric(value: string): value is CombatMetric {
+  return (COMBAT_METRICS as readonly string[]).includes(value);
+}
+
+/**
+ * Stage scorer for a combat metric, with default normalization.
+ *
+ * @param metric - Combat stat to score
+ * @param hero - Hero holding the loadout
+ * @param options - Hero level, target armor and stacking settings
+ * @returns Stage scorer returning 0-1
+ */
+export const combatMetricScore = (
+  metric: CombatMetric,
+  hero: Hero,
+  options: CombatStatOptions = {}
+): StageScorer => {
+  switch (metric) {
+    case "ehp":
+      return loadoutPhysicalEhpScore(hero, undefined, options);
+    case "magic-ehp":
+      return loadoutMagicalEhpScore(hero, undefined, options);
+    case "dps":
+      return loadoutDpsScore(hero, undefined, options);
+  }
+};
+
 // ─────────────────────────────────────────────────────────────
 // Transition-Based Scorers (for upgrade stages)
 // ─────────────────────────────────────────────────────────────
@@ -322,20 +412,22 @@ export const clampStageScore = (
  *
  * @param statValuation - Stat valuations for efficiency calculations
  * @param auraMultiplier - Multiplier for aura stats (default: 1.0)
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  * @returns Balanced stage scorer
  */
 export const createBalancedStageScorer = (
   statValuation: StatValuation,
-  auraMultiplier = 1.0
+  auraMultiplier = 1.0,
+  utilityProfile?: UtilityProfile
 ): StageScorer => {
-  const improvedTransitionScorer = createImprovedScorer(statValuation, auraMultiplier);
+  const improvedTransitionScorer = createImprovedScorer(statValuation, auraMultiplier, utilityProfile);
 
   return (stage, prev) => {
     // For initial stage, score based on loadout quality
     if (!stage.transition) {
       return weightedStageScore([
         { scorer: averageItemEfficiencyScore(statValuation, 1.5, auraMultiplier), weight: 0.4 },
-        { scorer: loadoutUtilityScore(2500), weight: 0.2 },
+        { scorer: loadoutUtilityScore(2500, utilityProfile), weight: 0.2 },
         { scorer: budgetUtilizationScore, weight: 0.4 },
       ])(stage, prev);
     }
@@ -409,16 +501,18 @@ export const createValueStageScorer = (
  * Good for supports with limited farm.
  *
  * @param statValuation - Stat valuations for efficiency calculations
+ * @param utilityProfile - Custom utility valuation (default: built-in tables)
  * @returns Economy-focused stage scorer
  */
 export const createEconomyStageScorer = (
-  statValuation: StatValuation
+  statValuation: StatValuation,
+  utilityProfile?: UtilityProfile
 ): StageScorer =>
   (stage, prev) => {
     if (!stage.transition) {
       return weightedStageScore([
         { scorer: averageItemEfficiencyScore(statValuation), weight: 0.5 },
-        { scorer: loadoutUtilityScore(2000), weight: 0.3 },
+        { scorer: loadoutUtilityScore(2000, utilityProfile), weight: 0.3 },
         { scorer: budgetRemainingScore, weight: 0.2 },
       ])(stage, prev);
     }
@@ -427,7 +521,7 @@ export const createEconomyStageScorer = (
       { scorer: stageAffordabilityScore(3000), weight: 0.3 },
       { scorer: stageReuseScore, weight: 0.3 },
       { scorer: averageItemEfficiencyScore(statValuation), weight: 0.2 },
-      { scorer: loadoutUtilityScore(2000), weight: 0.2 },
+      { scorer: loadoutUtilityScore(2000, utilityProfile), weight: 0.2 },
     ])(stage, prev);
   };
 
@@ -0,0 +1,77 @@
+import { Item, ItemStats } from "../models/types";
+import { DEFAULT_CONFIG } from "../config/analysisConfig";
+
+/**
+ * How a stat combines across items:
+ * - additive: amounts add up
+ * - multiplicative: percentages stack as 1 - Π(1 - p), so each
+ *   extra source adds less (evasion, magic and status resistance)
+ */
+export type StackingRule = "additive" | "multiplicative";
+
+/**
+ * Stacking rules for stats that don't simply add up. Other stats are additive.
+ */
+export const STAT_STACKING_RULES: Partial<Record<keyof ItemStats, StackingRule>> = {
+  evasion: "multiplicative",
+  magicResistance: "multiplicative",
+  statusResistance: "multiplicative",
+};
+
+/**
+ * Options for combining item stats in a loadout
+ */
+export interface StatStackingOptions {
+  /**
+   * Items whose movement speed bonuses don't stack with each other;
+   * only the fastest counts (default: DEFAULT_CONFIG.bootItems)
+   */
+  bootItems?: readonly string[];
+}
+
+/**
+ * Combine percentages that stack multiplicatively, e.g. two 15%
+ * magic resistance items give 27.75%, not 30%
+ */
+export function stackMultiplicative(percents: readonly number[]): number {
+  const remaining = percents.reduce((product, percent) => product * (1 - percent / 100), 1);
+  return (1 - remaining) * 100;
+}
+
+/**
+ * Effective stat totals of items held together, after stacking rules.
+ * Multiplicative stats stack as above and only the fastest boots'
+ * movement speed counts; everything else adds up.
+ */
+export function calculateEffectiveStats(
+  items: readonly Item[],
+  options: StatStackingOptions = {}
+): ItemStats {
+  const { bootItems = DEFAULT_CONFIG.bootItems } = options;
+  const totals: ItemStats = {};
+  const multiplicative: Partial<Record<keyof ItemStats, number[]>> = {};
+  let bootMoveSpeed = 0;
+
+  for (const item of items) {
+    for (const [stat, amount] of Object.entries(item.stats) as [keyof ItemStats, number][]) {
+      if (amount === undefined || amount === 0) continue;
+
+      if (stat === "moveSpeed" && bootItems.includes(item.name)) {
+        bootMoveSpeed = Math.max(bootMoveSpeed, amount);
+      } else if (STAT_STACKING_RULES[stat] === "multiplicative") {
+        (multiplicative[stat] ??= []).push(amount);
+      } else {
+        totals[stat] = (totals[stat] ?? 0) + amount;
+      }
+    }
+  }
+
+  for (const [stat, percents] of Object.entries(multiplicative) as [keyof ItemStats, number[]][]) {
+    totals[stat] = stackMultiplicative(percents);
+  }
+  if (bootMoveSpeed > 0) {
+    totals.moveSpeed = (totals.moveSpeed ?? 0) + bootMoveSpeed;
+  }
+
+  return totals;
+}
@@ -1,6 +1,35 @@
-import { Item, ItemStats, StatValuation } from "../models/types";
+import { EnemyStatValuation, Item, ItemStats, StatValuation, StatValuationProfile } from "../models/types";
 import { orderBy } from "es-toolkit";
 
+/**
+ * Every stat an item can provide
+ */
+export const STAT_KEYS: readonly (keyof ItemStats)[] = [
+  "strength", "agility", "intelligence",
+  "damage", "attackSpeed", "spellAmplification",
+  "armor", "magicResistance", "evasion", "health", "mana", "statusResistance",
+  "healthRegen", "manaRegen", "lifesteal", "spellLifesteal",
+  "moveSpeed", "moveSpeedPercent",
+  "attackRange", "castRange", "cooldownReduction"
+];
+
+/**
+ * How stat valuations are computed:
+ * - baseline: cheapest single-stat item per stat (calculateStatValuation)
+ * - regression: least-squares fit across all component items
+ * - custom: gold per point read from a file
+ */
+export type ValuationMode = "baseline" | "regression" | "custom";
+
+export const VALUATION_MODES: readonly ValuationMode[] = ["baseline", "regression", "custom"];
+
+/**
+ * Check whether a string names a valuation mode
+ */
+export function isValuationMode(value: string): value is ValuationMode {
+  return (VALUATION_MODES as readonly string[]).includes(value);
+}
+
 /**
  * Check if an item provides only a single stat type
  */
@@ -34,8 +63,8 @@ export function calculateStatValuation(items: Item[]): StatValuation {
 
   // Find all single-stat items and track the best ratio for each stat
   for (const item of items) {
-    // Skip consumables
-    if (item.isConsumable) continue;
+    // Skip consumables and neutral items (they have no gold cost)
+    if (item.isConsumable || item.neutralTier !== undefined) continue;
     
     if (!isSingleStatItem(item)) continue;
     
@@ -69,23 +98,15 @@ export function calculateStatValuation(items: Item[]): StatValuation {
  * Uses the best (lowest) gold-per-point estimate.
  */
 function deriveRemainingStats(items: Item[], valuation: StatValuation): void {
-  const allStatKeys: (keyof ItemStats)[] = [
-    "strength", "agility", "intelligence",
-    "damage", "attackSpeed", "spellAmplification",
-    "armor", "magicResistance", "evasion", "health", "mana", "statusResistance",
-    "healthRegen", "manaRegen", "lifesteal", "spellLifesteal",
-    "moveSpeed", "moveSpeedPercent",
-    "attackRange", "castRange", "cooldownReduction"
-  ];
-
   // Find stats that still need values
-  const missingStats = allStatKeys.filter(stat => valuation[stat] === undefined);
+  const missingStats = STAT_KEYS.filter(stat => valuation[stat] === undefined);
 
   for (const missingStat of missingStats) {
     // Find component items that have this stat
     const itemsWithStat = items.filter(item => 
       item.isComponent && 
       !item.isConsumable &&
+      item.neutralTier === undefined &&
       item.stats[missingStat] !== undefined && 
       item.stats[missingStat]! > 0
     );
@@ -129,6 +150,41 @@ function deriveRemainingStats(items: Item[], valuation: StatValuation): void {
   }
 }
 
+/**
+ * Apply a valuation profile: multipliers scale the computed values,
+ * absolute values replace them. Stats the profile omits are unchanged.
+ */
+export function applyValuationProfile(
+  valuation: StatValuation,
+  profile: StatValuationProfile
+): StatValuation {
+  const adjusted: StatValuation = { ...valuation };
+
+  for (const [stat, factor] of Object.entries(profile.multipliers ?? {}) as [keyof ItemStats, number][]) {
+    if (adjusted[stat] !== undefined) {
+      adjusted[stat] = adjusted[stat]! * factor;
+    }
+  }
+  return { ...adjusted, ...profile.values };
+}
+
+/**
+ * Derive the gold value of enemy debuffs from our own stat valuation.
+ *
+ * -1 enemy armor is worth what +1 armor is worth to us, scaled by the
+ * multiplier (e.g. 2.0 when two allied physical damage dealers benefit).
+ * Magic resistance reduction is valued the same way from magic resistance.
+ */
+export function calculateEnemyStatValuation(
+  statValuation: StatValuation,
+  debuffMultiplier: number = 1.0
+): EnemyStatValuation {
+  return {
+    armorReduction: (statValuation.armor ?? 0) * debuffMultiplier,
+    magicResistanceReduction: (statValuation.magicResistance ?? 0) * debuffMultiplier,
+  };
+}
+
 /**
  * Get a formatted display of stat valuations
  */
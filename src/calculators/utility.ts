@@ -82,30 +82,84 @@ export const ITEM_UTILITY: Record<string, UtilityCategory[]> = {
 };
 
 /**
- * Calculate the total utility value for an item
+ * User-editable utility valuation, layered over the built-in tables.
+ * Loaded from a JSON/YAML file (see config/utilityProfile.ts) or set
+ * on AnalysisConfig.utilityProfile.
  */
-export function calculateUtilityValue(itemName: string): number {
-  const categories = ITEM_UTILITY[itemName];
-  if (!categories || categories.length === 0) {
+export interface UtilityProfile {
+  /** Gold value per category; categories left out keep their UTILITY_VALUES value */
+  categoryValues?: Partial<Record<UtilityCategory, number>>;
+  /** Category lists per item, replacing the built-in ITEM_UTILITY entry */
+  itemCategories?: Record<string, UtilityCategory[]>;
+  /** Flat utility value per item, used as-is instead of the category sum */
+  itemOverrides?: Record<string, number>;
+}
+
+/**
+ * Cooldown (seconds) at which an active is worth exactly its UTILITY_VALUES
+ */
+export const REFERENCE_COOLDOWN = 30;
+
+/**
+ * Bounds on the cooldown scale, so very short or very long
+ * cooldowns don't swamp the category value
+ */
+export const COOLDOWN_SCALE_BOUNDS = { min: 0.5, max: 1.5 };
+
+/**
+ * Scale factor for an active's utility value based on its cooldown.
+ * Uses the square root of REFERENCE_COOLDOWN / cooldown: halving the
+ * cooldown is worth ~41% more, not double, since an active isn't
+ * always needed the moment it comes off cooldown.
+ * Items without a known cooldown scale by 1.
+ */
+export function cooldownScale(cooldown?: number): number {
+  if (cooldown === undefined || cooldown <= 0) return 1;
+
+  const scale = Math.sqrt(REFERENCE_COOLDOWN / cooldown);
+  return Math.min(COOLDOWN_SCALE_BOUNDS.max, Math.max(COOLDOWN_SCALE_BOUNDS.min, scale));
+}
+
+/**
+ * Calculate the total utility value for an item,
+ * scaled by the cooldown of its active when known.
+ * A profile's flat override for the item is returned unscaled.
+ */
+export function calculateUtilityValue(
+  itemName: string,
+  cooldown?: number,
+  profile?: UtilityProfile
+): number {
+  const override = profile?.itemOverrides?.[itemName];
+  if (override !== undefined) {
+    return override;
+  }
+
+  const categories = getItemUtilityCategories(itemName, profile);
+  if (categories.length === 0) {
     return 0;
   }
 
-  return categories.reduce((total, category) => total + UTILITY_VALUES[category], 0);
+  const baseValue = categories.reduce(
+    (total, category) => total + (profile?.categoryValues?.[category] ?? UTILITY_VALUES[category]),
+    0
+  );
+  return baseValue * cooldownScale(cooldown);
 }
 
 /**
  * Get the utility categories for an item
  */
-export function getItemUtilityCategories(itemName: string): UtilityCategory[] {
-  return ITEM_UTILITY[itemName] || [];
+export function getItemUtilityCategories(itemName: string, profile?: UtilityProfile): UtilityCategory[] {
+  return profile?.itemCategories?.[itemName] ?? ITEM_UTILITY[itemName] ?? [];
 }
 
 /**
  * Get a formatted string of utility categories for display
  */
-export function formatUtilityCategories(itemName: string): string {
-  const categories = ITEM_UTILITY[itemName];
-  if (!categories || categories.length === 0) {
+export function formatUtilityCategories(itemName: string, profile?: UtilityProfile): string {
+  const categories = getItemUtilityCategories(itemName, profile);
+  if (categories.length === 0) {
     return "-";
   }
   return categories.join(", ");
@@ -0,0 +1,18 @@
+/**
+ * Config Command
+ *
+ * Prints the effective analysis configuration after merging
+ * defaults, the config file and command-line flags.
+ */
+
+import { AnalysisConfig } from "../../config/analysisConfig";
+
+/**
+ * Print the effective config as JSON, with where it came from.
+ * The output can be saved as a starting point for chop-shop.config.json.
+ */
+export function printConfigShow(config: AnalysisConfig, configPath?: string): void {
+  console.log(configPath ? `Config file: ${configPath}` : "Config file: none (using defaults)");
+  console.log("");
+  console.log(JSON.stringify(config, null, 2));
+}
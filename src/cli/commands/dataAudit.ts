@@ -0,0 +1,101 @@
+/**
+ * Data Audit Command
+ *
+ * Reports gaps in the OpenDota stat extractor: attribute keys it
+ * drops, priced items left without stats, and items whose stat
+ * value is far from their cost.
+ */
+
+import { Item, StatValuation } from "../../models/types";
+import { ItemDataSource } from "../../data/itemDataSource";
+import { parseOpenDotaItems } from "../../data/fetchItems";
+import { auditItemData, DataAuditOptions, DataAuditResult } from "../../calculators/dataAudit";
+import { AnalysisConfig, DEFAULT_CONFIG, isExcludedItem } from "../../config/analysisConfig";
+import {
+  formatUnmappedAttributes,
+  formatEmptyStatItems,
+  formatValueOutliers,
+} from "../../output/display";
+
+/**
+ * Options for the data-audit command.
+ */
+export interface DataAuditCommandOptions extends DataAuditOptions {
+  /**
+   * Resolved analysis config: its excluded items are left out, and its
+   * thresholds value the outliers (default: DEFAULT_CONFIG)
+   */
+  config?: AnalysisConfig;
+  /** Stat valuation for the audited items (default: the baseline) */
+  calculateValuation?: (items: Item[]) => StatValuation;
+  /** Example items to show per unmapped key */
+  itemsPerKey?: number;
+}
+
+/**
+ * Formatted data audit output.
+ */
+export interface DataAuditOutput {
+  result: DataAuditResult;
+  unmappedAttributes?: string;
+  emptyStatItems: string;
+  valueOutliers: string;
+}
+
+/**
+ * Run the data audit on a backend and return formatted output.
+ */
+export async function runDataAudit(
+  dataSource: ItemDataSource,
+  options: DataAuditCommandOptions = {}
+): Promise<DataAuditOutput> {
+  const { itemsPerKey, config = DEFAULT_CONFIG, calculateValuation, ...auditOptions } = options;
+
+  // Parse items from the same raw data so the two sides of the audit agree
+  const raw = await dataSource.loadRaw?.();
+  const parsed: Item[] = raw ? parseOpenDotaItems(raw) : await dataSource.load();
+  const items = parsed.filter((item) => !isExcludedItem(item.name, config));
+  const result = auditItemData(items, raw, {
+    ...config.thresholds,
+    bootItems: config.bootItems,
+    ...(calculateValuation && { statValuation: calculateValuation(items) }),
+    ...auditOptions,
+  });
+
+  return {
+    result,
+    unmappedAttributes: result.unmappedAttributes
+      ? formatUnmappedAttributes(result.unmappedAttributes, itemsPerKey)
+      : undefined,
+    emptyStatItems: formatEmptyStatItems(result.emptyStatItems),
+    valueOutliers: formatValueOutliers(result.valueOutliers),
+  };
+}
+
+/**
+ * Print the data audit to console.
+ */
+export async function printDataAudit(
+  dataSource: ItemDataSource,
+  options: DataAuditCommandOptions = {}
+): Promise<void> {
+  const { minRatio = 0.25, maxRatio = 2.0 } = options;
+  const output = await runDataAudit(dataSource, options);
+  const { result } = output;
+
+  console.log("");
+  if (output.unmappedAttributes !== undefined) {
+    console.log(`Unmapped Attribute Keys (${result.unmappedAttributes!.length}):\n`);
+    console.log(output.unmappedAttributes);
+  } else {
+    console.log(`Unmapped Attribute Keys: not available for the "${dataSource.kind}" source (no raw attributes).`);
+  }
+  console.log("\n");
+
+  console.log(`Priced Items Without Stats (${result.emptyStatItems.length}):\n`);
+  console.log(output.emptyStatItems);
+  console.log("\n");
+
+  console.log(`Stat Value Outliers (value/cost below ${minRatio} or above ${maxRatio}):\n`);
+  console.log(output.valueOutliers);
+}
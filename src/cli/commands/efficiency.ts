@@ -7,12 +7,20 @@
 import { CliContext } from "../context";
 import { getItemsByEfficiency, getItemsByValueSplit } from "../../calculators/efficiency";
 import { analyzeDisassemble } from "../../calculators/upgradePaths";
+import { calculateEnemyStatValuation } from "../../calculators/statValuation";
+import { getItemParetoFrontier, getLoadoutParetoFrontier } from "../../calculators/pareto";
 import {
   formatEfficiencyTable,
   formatStatValuations,
+  formatValuationResiduals,
+  formatEnemyStatValuation,
+  formatDebuffTable,
   formatValueRankingTable,
   formatDisassembleTable,
   formatDisassembleDetails,
+  formatParetoFrontierTable,
+  formatDominatedItemsTable,
+  formatLoadoutParetoTable,
 } from "../../output/display";
 
 /**
@@ -29,6 +37,14 @@ export interface EfficiencyOptions {
   showDisassemble?: boolean;
   /** Maximum items to display */
   limit?: number;
+  /** Items per residual table (most over- and underpriced; default: 10) */
+  residualLimit?: number;
+  /** Show the cost versus value frontier instead of efficiency rankings */
+  pareto?: boolean;
+  /** Also show the frontier of loadouts with this many items */
+  paretoLoadoutSize?: number;
+  /** Maximum total cost of a frontier loadout */
+  paretoMaxCost?: number;
 }
 
 /**
@@ -36,11 +52,20 @@ export interface EfficiencyOptions {
  */
 export interface EfficiencyResult {
   statValuations: string;
+  overpricedItems?: string;
+  underpricedItems?: string;
   efficiencyTable: string;
+  enemyStatValuation?: string;
+  debuffTable?: string;
   simpleItems?: string;
   upgradedItems?: string;
   disassembleTable?: string;
   disassembleDetails?: string;
+  paretoTable?: string;
+  dominatedTable?: string;
+  loadoutParetoTable?: string;
+  /** Items loadouts were built from and loadouts compared */
+  loadoutParetoSearch?: { candidateCount: number; loadoutCount: number };
 }
 
 /**
@@ -50,11 +75,23 @@ export function runEfficiencyAnalysis(
   ctx: CliContext,
   options: EfficiencyOptions = {}
 ): EfficiencyResult {
-  const { showStatValues = true, simpleOnly = false, upgradedOnly = false, showDisassemble = false, limit } = options;
+  const {
+    showStatValues = true,
+    simpleOnly = false,
+    upgradedOnly = false,
+    showDisassemble = false,
+    limit,
+    residualLimit = 10,
+    pareto = false,
+  } = options;
 
   const result: EfficiencyResult = {
     statValuations: "",
+    overpricedItems: "",
+    underpricedItems: "",
     efficiencyTable: "",
+    enemyStatValuation: "",
+    debuffTable: "",
     simpleItems: "",
     upgradedItems: "",
     disassembleTable: "",
@@ -63,13 +100,64 @@ export function runEfficiencyAnalysis(
 
   // Stat valuations
   if (showStatValues) {
-    result.statValuations = formatStatValuations(ctx.statValuation);
+    result.statValuations = formatStatValuations(ctx.statValuation, ctx.unprofiledStatValuation);
   }
 
-  // Efficiency rankings - pass aura multiplier from config
-  const efficiencyResults = getItemsByEfficiency(ctx.items, { auraMultiplier: ctx.config.thresholds.auraMultiplier });
+  // Residuals against the fitted (or custom) valuation
+  if (ctx.valuationResiduals) {
+    const overpriced = ctx.valuationResiduals.filter(r => r.residual > 0).slice(0, residualLimit);
+    const underpriced = ctx.valuationResiduals.filter(r => r.residual < 0).reverse().slice(0, residualLimit);
+    if (overpriced.length > 0) result.overpricedItems = formatValuationResiduals(overpriced);
+    if (underpriced.length > 0) result.underpricedItems = formatValuationResiduals(underpriced);
+  }
+
+  // Efficiency rankings - pass aura multiplier and bonus valuation settings from config
+  const { auraMultiplier, heroBaseDamage, conditionalUptime, debuffMultiplier } = ctx.config.thresholds;
+  const efficiencyResults = getItemsByEfficiency(ctx.items, {
+    auraMultiplier,
+    heroBaseDamage,
+    conditionalUptime,
+    debuffMultiplier,
+    utilityProfile: ctx.config.utilityProfile,
+    statValuation: ctx.statValuation,
+  });
   result.efficiencyTable = formatEfficiencyTable(efficiencyResults);
 
+  // Items whose value partly comes from enemy debuffs
+  const debuffResults = efficiencyResults.filter(r => r.debuffValue > 0);
+  if (debuffResults.length > 0) {
+    result.enemyStatValuation = formatEnemyStatValuation(
+      calculateEnemyStatValuation(ctx.statValuation, debuffMultiplier)
+    );
+    result.debuffTable = formatDebuffTable(debuffResults);
+  }
+
+  // Cost versus value frontier
+  if (pareto) {
+    const efficiencyOptions = {
+      auraMultiplier,
+      heroBaseDamage,
+      conditionalUptime,
+      debuffMultiplier,
+      utilityProfile: ctx.config.utilityProfile,
+    };
+    const { frontier, dominated } = getItemParetoFrontier(ctx.items, ctx.statValuation, efficiencyOptions);
+    result.paretoTable = formatParetoFrontierTable(frontier);
+    if (dominated.length > 0) {
+      result.dominatedTable = formatDominatedItemsTable(limit ? dominated.slice(0, limit) : dominated);
+    }
+
+    if (options.paretoLoadoutSize) {
+      const loadouts = getLoadoutParetoFrontier(ctx.items, options.paretoLoadoutSize, ctx.statValuation, {
+        ...efficiencyOptions,
+        maxCost: options.paretoMaxCost,
+        config: ctx.config,
+      });
+      result.loadoutParetoTable = formatLoadoutParetoTable(limit ? loadouts.frontier.slice(0, limit) : loadouts.frontier);
+      result.loadoutParetoSearch = { candidateCount: loadouts.candidateCount, loadoutCount: loadouts.loadoutCount };
+    }
+  }
+
   // Simple items only
   if (simpleOnly) {
     const simpleItems = efficiencyResults.filter(r => r.item.isComponent);
@@ -106,14 +194,61 @@ export function printEfficiencyAnalysis(
     if (ctx.config.thresholds.auraMultiplier !== 1.0) {
       header += ` [Aura: ${ctx.config.thresholds.auraMultiplier}x]`;
     }
+    if (ctx.hero) {
+      header += ` [Hero: ${ctx.hero.displayName}]`;
+    }
+    if (ctx.valuationMode !== "baseline") {
+      header += ` [Valuation: ${ctx.valuationMode}]`;
+    }
+    if (ctx.valuationProfile) {
+      header += ` [Profile: ${ctx.valuationProfile}]`;
+    }
     console.log(header + ":\n");
     console.log(result.statValuations);
     console.log("\n");
   }
 
-  console.log("Item Efficiency Rankings:\n");
-  console.log(result.efficiencyTable);
-  console.log("\n");
+  if (result.overpricedItems) {
+    console.log("Overpriced for Their Stats (cost above the valuation's prediction):\n");
+    console.log(result.overpricedItems);
+    console.log("\n");
+  }
+
+  if (result.underpricedItems) {
+    console.log("Underpriced for Their Stats (cost below the valuation's prediction):\n");
+    console.log(result.underpricedItems);
+    console.log("\n");
+  }
+
+  if (result.paretoTable) {
+    console.log("Cost vs Value Frontier (items no other item beats on cost, stat value and utility):\n");
+    console.log(result.paretoTable);
+    console.log("\n");
+
+    if (result.dominatedTable) {
+      console.log("Dominated Items (another item costs no more and is worth at least as much):\n");
+      console.log(result.dominatedTable);
+      console.log("\n");
+    }
+
+    if (result.loadoutParetoTable) {
+      const { candidateCount, loadoutCount } = result.loadoutParetoSearch!;
+      console.log(`${options.paretoLoadoutSize}-Item Loadout Frontier (${loadoutCount} loadouts from ${candidateCount} items):\n`);
+      console.log(result.loadoutParetoTable);
+      console.log("\n");
+    }
+  } else {
+    console.log("Item Efficiency Rankings:\n");
+    console.log(result.efficiencyTable);
+    console.log("\n");
+  }
+
+  if (result.debuffTable) {
+    console.log("Enemy Debuff Value (share of stat value from debuffs):\n");
+    console.log(`Gold per point of enemy reduction: ${result.enemyStatValuation}\n`);
+    console.log(result.debuffTable);
+    console.log("\n");
+  }
 
   if (result.simpleItems) {
     console.log("Simple Items - Value Rankings (Efficiency + Low Cost):\n");
@@ -0,0 +1,42 @@
+/**
+ * Export Items Command
+ *
+ * Writes the items from any backend to a normalized JSON file,
+ * so a known-good data set can be pinned per patch and loaded
+ * later with `--source json --data-file <path>`.
+ */
+
+import { ItemDataSource } from "../../data/itemDataSource";
+import {
+  toNormalizedItemsFile,
+  writeNormalizedItemsFile,
+} from "../../data/normalizedItems";
+
+/**
+ * Options for the export-items command.
+ */
+export interface ExportItemsOptions {
+  /** Output file path */
+  output: string;
+  /** Game patch to tag the file with, e.g. "7.37d" */
+  patch?: string;
+}
+
+/**
+ * Load items from a backend and write them as a normalized item file.
+ */
+export async function printExportItems(
+  dataSource: ItemDataSource,
+  options: ExportItemsOptions
+): Promise<void> {
+  const items = await dataSource.load();
+  const file = toNormalizedItemsFile(items, {
+    patch: options.patch,
+    source: dataSource.kind,
+  });
+
+  await writeNormalizedItemsFile(options.output, file);
+
+  const patchStr = options.patch ? ` (patch ${options.patch})` : "";
+  console.log(`Wrote ${items.length} items from ${dataSource.description}${patchStr} to ${options.output}`);
+}
@@ -0,0 +1,106 @@
+/**
+ * Patch Diff Command
+ *
+ * Compares two tagged item snapshots and shows what a patch changed:
+ * items, stat valuation baselines, efficiency rankings and recipe costs.
+ */
+
+import { Item, StatValuation } from "../../models/types";
+import { TaggedSnapshot } from "../../data/snapshotStore";
+import { diffItemSets, PatchDiff } from "../../calculators/patchDiff";
+import { AnalysisConfig, DEFAULT_CONFIG, isExcludedItem } from "../../config/analysisConfig";
+import {
+  formatItemChanges,
+  formatValuationChanges,
+  formatRankingChanges,
+  formatRecipeCostChanges,
+} from "../../output/display";
+
+/**
+ * Options for patch diff analysis.
+ */
+export interface PatchDiffCommandOptions {
+  /**
+   * Resolved analysis config: its excluded items are left out, and its
+   * thresholds and utility profile value the rankings (default: DEFAULT_CONFIG)
+   */
+  config?: AnalysisConfig;
+  /** Stat valuation for each snapshot's items (default: the baseline) */
+  calculateValuation?: (items: Item[]) => StatValuation;
+  /** Maximum ranking changes to display */
+  limit?: number;
+}
+
+/**
+ * Result of patch diff analysis.
+ */
+export interface PatchDiffResult {
+  diff: PatchDiff;
+  itemChanges: string;
+  valuationChanges: string;
+  rankingChanges: string;
+  recipeCostChanges: string;
+}
+
+/**
+ * Items considered by the analysis commands: no consumables, neutral or excluded items
+ */
+function analysisItems(items: Item[], config: AnalysisConfig): Item[] {
+  return items.filter(
+    (item) => !item.isConsumable && item.neutralTier === undefined && !isExcludedItem(item.name, config)
+  );
+}
+
+/**
+ * Run patch diff analysis and return formatted output.
+ */
+export function runPatchDiff(
+  oldItems: Item[],
+  newItems: Item[],
+  options: PatchDiffCommandOptions = {}
+): PatchDiffResult {
+  const { config = DEFAULT_CONFIG, calculateValuation, limit } = options;
+  const diff = diffItemSets(analysisItems(oldItems, config), analysisItems(newItems, config), {
+    ...config.thresholds,
+    bootItems: config.bootItems,
+    utilityProfile: config.utilityProfile,
+    calculateValuation,
+  });
+
+  return {
+    diff,
+    itemChanges: formatItemChanges(diff.itemChanges),
+    valuationChanges: formatValuationChanges(diff.valuationChanges),
+    rankingChanges: formatRankingChanges(diff.rankingChanges, limit),
+    recipeCostChanges: formatRecipeCostChanges(diff.recipeCostChanges),
+  };
+}
+
+/**
+ * Print patch diff analysis to console.
+ */
+export function printPatchDiff(
+  oldSnapshot: TaggedSnapshot,
+  newSnapshot: TaggedSnapshot,
+  options: PatchDiffCommandOptions = {}
+): void {
+  const result = runPatchDiff(oldSnapshot.file.items, newSnapshot.file.items, options);
+  const { diff } = result;
+
+  console.log(`Patch Diff: ${oldSnapshot.tag} → ${newSnapshot.tag}\n`);
+
+  console.log(`Item Changes (${diff.itemChanges.length}):\n`);
+  console.log(result.itemChanges);
+  console.log("\n");
+
+  console.log("Stat Valuation Baselines (Gold per Point):\n");
+  console.log(result.valuationChanges);
+  console.log("\n");
+
+  console.log("Efficiency Ranking Changes:\n");
+  console.log(result.rankingChanges);
+  console.log("\n");
+
+  console.log("Recipe Cost Changes:\n");
+  console.log(result.recipeCostChanges);
+}
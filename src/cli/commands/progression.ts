@@ -20,8 +20,32 @@ import {
   stagesForIncrementalTargets,
   formatProgression,
   formatProgressionStats,
+  formatStageBudget,
+  stageHeroLevel,
+  resolveStageValuation,
+  ProgressionCombatOptions,
 } from "../../calculators/buildProgression";
+import { CombatMetric, combatMetricScore } from "../../calculators/stageScorers";
 import {
+  DEFAULT_NET_WORTH_CURVE,
+  GpmSegment,
+  NetWorthCurve,
+  TimedStageDefinition,
+  fitNetWorthCurve,
+  formatMinutes,
+  goldAtMinute,
+  netWorthCurveFromGpm,
+  resolveStageTimings,
+  sequenceTimings,
+} from "../../calculators/goldIncome";
+import { parseBuybackReserve, reservedGold, stageGoldReserves } from "../../calculators/goldRisk";
+import { loadMatchHistory } from "../../config/matchHistoryFile";
+import { emptyLoadout } from "../../calculators/loadout";
+import { planShoppingList } from "../../calculators/shoppingList";
+import { formatShoppingList } from "../../output/display";
+import {
+  BuildSequence,
+  BuybackReserve,
   BuildProgressionResult,
   BuildProgressionOptions,
   StageDefinition,
@@ -38,6 +62,13 @@ export interface ProgressionOptions {
    */
   thresholds?: string;
 
+  /**
+   * Game minutes for each stage as comma-separated string, used like
+   * cost thresholds at the expected net worth for each minute.
+   * Example: "10,18,25"
+   */
+  minutes?: string;
+
   /**
    * Target items to acquire (comma-separated).
    * Example: "Force Staff,Skadi"
@@ -103,6 +134,45 @@ export interface ProgressionOptions {
 
   /** Show progress updates during analysis */
   showProgress?: boolean;
+
+  /**
+   * Weight stat values by the expected hero level of each stage,
+   * derived from its cost for stages without a heroLevel.
+   */
+  levelScaling?: boolean;
+
+  /**
+   * Score stages by a combat stat of the --hero instead of the
+   * default scorer, e.g. "ehp" for the most effective HP per stage.
+   */
+  optimize?: CombatMetric;
+
+  /**
+   * Net worth by game time, for minute stages and timings
+   * (default: DEFAULT_NET_WORTH_CURVE).
+   */
+  netWorthCurve?: NetWorthCurve;
+
+  /**
+   * Show each stage's estimated timing and each transition's farm time.
+   * On by default with --minutes, a custom curve, or stages with atMinute.
+   */
+  timings?: boolean;
+
+  /**
+   * Show the top progression's buy, disassemble, sell and assemble
+   * steps for each stage.
+   */
+  shoppingList?: boolean;
+
+  /**
+   * Gold kept for buyback from the second stage on: a flat amount,
+   * "netWorth" or "level"
+   */
+  buybackReserve?: BuybackReserve;
+
+  /** Expected deaths per stage from the second stage on */
+  expectedDeaths?: number;
 }
 
 /**
@@ -117,6 +187,55 @@ function parseCostThresholds(input: string): number[] {
     .filter((n) => !isNaN(n) && n > 0);
 }
 
+/**
+ * Parse game minutes from a comma-separated string.
+ */
+function parseMinutes(input: string): number[] {
+  return input
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0)
+    .map((s) => parseFloat(s))
+    .filter((n) => !isNaN(n) && n > 0);
+}
+
+/**
+ * Parse GPM segments from a comma-separated string of minute:gpm pairs,
+ * e.g. "0:450,10:600,20:700". A single number is a constant GPM.
+ */
+export function parseGpmSegments(input: string): GpmSegment[] {
+  const parts = input.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+  if (parts.length === 1 && !parts[0].includes(":")) {
+    return [{ fromMinute: 0, gpm: Number(parts[0]) }];
+  }
+  return parts.map((part) => {
+    const [minute, gpm, ...rest] = part.split(":").map(Number);
+    if (rest.length > 0 || gpm === undefined || isNaN(minute) || isNaN(gpm)) {
+      throw new Error(`Invalid GPM segment "${part}" (expected minute:gpm, e.g. 0:450,10:600)`);
+    }
+    return { fromMinute: minute, gpm };
+  });
+}
+
+/**
+ * Net worth curve from --gpm segments or a --match-history file, if given.
+ */
+export async function loadNetWorthCurve(options: {
+  gpm?: string;
+  matchHistory?: string;
+}): Promise<NetWorthCurve | undefined> {
+  if (options.gpm && options.matchHistory) {
+    throw new Error("Use either --gpm or --match-history, not both");
+  }
+  if (options.gpm) {
+    return netWorthCurveFromGpm(parseGpmSegments(options.gpm));
+  }
+  if (options.matchHistory) {
+    return fitNetWorthCurve(await loadMatchHistory(options.matchHistory));
+  }
+  return undefined;
+}
+
 /**
  * Parse target items from a comma-separated string.
  */
@@ -130,15 +249,21 @@ function parseTargets(input: string): string[] {
 /**
  * Parse stage definitions from JSON string.
  */
-function parseStageDefinitions(input: string): StageDefinition[] | null {
+function parseStageDefinitions(input: string): TimedStageDefinition[] | null {
   try {
     const parsed = JSON.parse(input);
     if (!Array.isArray(parsed)) return null;
 
     return parsed.map((stage: any) => {
       // Validate required field
-      if (typeof stage.maxCost !== 'number') {
-        throw new Error('Each stage must have "maxCost" (number)');
+      if (typeof stage.maxCost !== 'number' && typeof stage.atMinute !== 'number') {
+        throw new Error('Each stage must have "maxCost" or "atMinute" (number)');
+      }
+      if (stage.heroLevel !== undefined && !(Number.isInteger(stage.heroLevel) && stage.heroLevel >= 1 && stage.heroLevel <= 30)) {
+        throw new Error('"heroLevel" must be an integer from 1 to 30');
+      }
+      if (stage.expectedDeaths !== undefined && !(typeof stage.expectedDeaths === 'number' && stage.expectedDeaths >= 0)) {
+        throw new Error('"expectedDeaths" must be a non-negative number');
       }
 
       return {
@@ -148,6 +273,11 @@ function parseStageDefinitions(input: string): StageDefinition[] | null {
         excludedItems: stage.excludedItems,
         itemCount: stage.itemCount,
         requireBoots: stage.requireBoots,
+        neutralTier: stage.neutralTier,
+        heroLevel: stage.heroLevel,
+        atMinute: stage.atMinute,
+        buybackReserve: stage.buybackReserve !== undefined ? parseBuybackReserve(stage.buybackReserve) : undefined,
+        expectedDeaths: stage.expectedDeaths,
       };
     });
   } catch {
@@ -162,6 +292,7 @@ function buildStageDefinitions(
   options: ProgressionOptions
 ): { stages: StageDefinition[]; error?: string } {
   // Priority: explicit stages > targets + thresholds > thresholds only
+  const curve = options.netWorthCurve ?? DEFAULT_NET_WORTH_CURVE;
 
   // Option 1: Explicit stage definitions
   if (options.stages) {
@@ -171,16 +302,31 @@ function buildStageDefinitions(
         stages: [],
         error:
           "Invalid stage definitions. Use JSON format: " +
-          '[{"maxCost":3000},{"maxCost":6000,"requiredItems":["Force Staff"]}]',
+          '[{"maxCost":3000},{"maxCost":6000,"requiredItems":["Force Staff"]}] ' +
+          'or [{"atMinute":10},{"atMinute":18,"requiredItems":["BKB"]}]',
       };
     }
-    return { stages };
+    return { stages: resolveStageTimings(stages, curve) };
+  }
+
+  if (options.minutes && options.thresholds) {
+    return { stages: [], error: "Use either --thresholds or --minutes, not both." };
   }
 
+  // Minute stages are cost thresholds at the expected net worth
+  const minutes = options.minutes ? parseMinutes(options.minutes) : undefined;
+  const thresholdName = minutes ? "minutes" : "cost thresholds";
+  const costs = minutes
+    ? minutes.map((minute) => Math.round(goldAtMinute(minute, curve)))
+    : options.thresholds
+      ? parseCostThresholds(options.thresholds)
+      : undefined;
+  const withMinutes = (stages: StageDefinition[]) =>
+    minutes ? stages.map((stage, idx) => ({ ...stage, atMinute: minutes[idx] })) : stages;
+
   // Option 2: Targets with thresholds (incremental acquisition)
-  if (options.targets && options.thresholds) {
+  if (options.targets && costs) {
     const targets = parseTargets(options.targets);
-    const costs = parseCostThresholds(options.thresholds);
 
     if (targets.length === 0) {
       return { stages: [], error: "No valid target items provided." };
@@ -188,12 +334,12 @@ function buildStageDefinitions(
     if (costs.length !== targets.length + 1) {
       return {
         stages: [],
-        error: `Need ${targets.length + 1} cost thresholds for ${targets.length} targets. ` +
+        error: `Need ${targets.length + 1} ${thresholdName} for ${targets.length} targets. ` +
           `Got ${costs.length}. Format: initial,after-target1,after-target2,...`,
       };
     }
 
-    return { stages: stagesForIncrementalTargets(targets, costs) };
+    return { stages: withMinutes(stagesForIncrementalTargets(targets, costs)) };
   }
 
   // Option 3: Targets only (two-stage: early → final with all targets)
@@ -210,17 +356,24 @@ function buildStageDefinitions(
   }
 
   // Option 4: Cost thresholds only (sequences style)
-  if (options.thresholds) {
-    const costs = parseCostThresholds(options.thresholds);
+  if (costs) {
     if (costs.length < 2) {
       return {
         stages: [],
-        error: "At least 2 cost thresholds required. Example: --thresholds 2000,4000,7000",
+        error: minutes
+          ? "At least 2 minutes required. Example: --minutes 10,18,25"
+          : "At least 2 cost thresholds required. Example: --thresholds 2000,4000,7000",
       };
     }
 
     // Validate increasing
     for (let i = 1; i < costs.length; i++) {
+      if (minutes && minutes[i] <= minutes[i - 1]) {
+        return {
+          stages: [],
+          error: `Minutes must be increasing: ${minutes[i - 1]} >= ${minutes[i]}`,
+        };
+      }
       if (costs[i] <= costs[i - 1]) {
         return {
           stages: [],
@@ -229,21 +382,89 @@ function buildStageDefinitions(
       }
     }
 
-    return { stages: stagesFromCosts(costs) };
+    return { stages: withMinutes(stagesFromCosts(costs)) };
   }
 
   // No valid input
   return {
     stages: [],
     error:
-      "Must specify --thresholds, --targets, or --stages. Examples:\n" +
+      "Must specify --thresholds, --minutes, --targets, or --stages. Examples:\n" +
       "  --thresholds 2000,4000,7000\n" +
+      "  --minutes 10,18,25\n" +
       '  --targets "Force Staff,Skadi"\n' +
       "  --targets \"Force Staff\" --thresholds 2000,4000,7000\n" +
       '  --stages \'[{"cost":3000},{"cost":6000,"items":["Force Staff"]}]\'',
   };
 }
 
+/**
+ * Net worth curve to show timings with, if any: with --timings, minute
+ * stages or a custom curve.
+ */
+function progressionIncome(
+  options: ProgressionOptions,
+  stages: readonly StageDefinition[]
+): NetWorthCurve | undefined {
+  const timed =
+    options.timings ||
+    options.netWorthCurve !== undefined ||
+    stages.some((stage) => stage.atMinute !== undefined);
+  return timed ? options.netWorthCurve ?? DEFAULT_NET_WORTH_CURVE : undefined;
+}
+
+/**
+ * Effective HP and DPS columns for the --hero, at each stage's expected
+ * level (its heroLevel, or the level for its cost).
+ */
+export function progressionCombatOptions(
+  ctx: CliContext,
+  stages: readonly StageDefinition[]
+): ProgressionCombatOptions | undefined {
+  if (!ctx.hero) return undefined;
+  return {
+    hero: ctx.hero,
+    levels: stages.map((stage) => stageHeroLevel(stage, true)),
+    bootItems: ctx.config.bootItems,
+  };
+}
+
+/**
+ * Print the shopping list for each stage of a progression,
+ * the first from an empty inventory. Each list is valued with its
+ * stage's valuation, as the search valued the stage.
+ */
+function printShoppingLists(
+  ctx: CliContext,
+  sequence: BuildSequence,
+  stages: readonly StageDefinition[],
+  options: ProgressionOptions
+): void {
+  console.log("Shopping List (Progression #1):");
+  console.log("=".repeat(70));
+  let previous = emptyLoadout();
+  sequence.stages.forEach((stage, j) => {
+    const { statValuation, config } = resolveStageValuation(stages[j], ctx.statValuation, ctx.config, {
+      hero: ctx.hero,
+      levelScaling: options.levelScaling,
+      valuationProfile: ctx.statValuationProfile,
+    });
+    const listOptions = {
+      ...config.thresholds,
+      bootItems: config.bootItems,
+      statValuation,
+      inventorySlots: options.inventorySlots,
+      backpackSlots: options.backpackSlots,
+      economy: config.economy,
+    };
+
+    console.log(j === 0 ? "\nStage 1 (from an empty inventory):" : `\nStage ${j} → Stage ${j + 1}:`);
+    console.log(formatShoppingList(planShoppingList(previous, stage.loadout, ctx.repo, listOptions)));
+    previous = stage.loadout;
+  });
+  console.log("");
+}
+
 /**
  * Run progression analysis and return results.
  */
@@ -263,6 +484,13 @@ export function runProgressionAnalysis(
     return null;
   }
 
+  const { optimize } = options;
+  const hero = ctx.hero;
+  if (optimize && !hero) {
+    console.error(`Error: --optimize ${optimize} needs a hero (use --hero <name>)`);
+    return null;
+  }
+
   // Apply excluded items to stages, and mark the boot injection stage
   const excludedItems = options.exclude ? parseTargets(options.exclude) : undefined;
   const bootStage = options.requireBoots;
@@ -274,6 +502,9 @@ export function runProgressionAnalysis(
       : stage.excludedItems,
     // Only set requireBoots on the specified stage
     requireBoots: idx === bootStage ? true : stage.requireBoots,
+    scorer: optimize && hero
+      ? combatMetricScore(optimize, hero, { level: stageHeroLevel(stage, true), bootItems: ctx.config.bootItems })
+      : stage.scorer,
   }));
 
   const progressionOptions: BuildProgressionOptions = {
@@ -287,6 +518,12 @@ export function runProgressionAnalysis(
     targetCoverageWeight: options.targetCoverage ?? 0.4,
     inventorySlots: options.inventorySlots,
     backpackSlots: options.backpackSlots,
+    neutralItems: ctx.neutralItems,
+    hero: ctx.hero,
+    valuationProfile: ctx.statValuationProfile,
+    levelScaling: options.levelScaling,
+    buybackReserve: options.buybackReserve,
+    expectedDeaths: options.expectedDeaths,
     onProgress,
   };
 
@@ -317,6 +554,25 @@ export function printProgressionAnalysis(
     console.log(`Analyzing ${stages.length}-stage build progression...`);
     const costStr = stages.map((s) => `${s.maxCost}g`).join(" → ");
     console.log(`Cost thresholds: ${costStr}`);
+    if (stages.some((s) => s.atMinute !== undefined)) {
+      const minuteStr = stages
+        .map((s) => (s.atMinute !== undefined ? formatMinutes(s.atMinute) : "-"))
+        .join(" → ");
+      console.log(`Stage timings: ${minuteStr}`);
+    }
+
+    const levels = stages.map((s) => stageHeroLevel(s, options.levelScaling));
+    if (levels.some((level) => level !== undefined)) {
+      console.log(`Hero levels: ${levels.map((level) => level ?? "-").join(" → ")}`);
+    }
+    if (options.optimize) {
+      console.log(`Optimizing: ${options.optimize}`);
+    }
+
+    const reserves = stageGoldReserves(stages, options);
+    if (reserves.some((reserve) => reservedGold(reserve) > 0)) {
+      console.log(`Gold held back: ${reserves.map((reserve) => `${reservedGold(reserve)}g`).join(" → ")}`);
+    }
 
     // Show required items if any
     const targetsPerStage = stages
@@ -397,7 +653,12 @@ export function printProgressionAnalysis(
   }
 
   // Print full results
-  console.log(formatProgression(result, verbose));
+  const income = progressionIncome(options, stages);
+  console.log(formatProgression(result, verbose, progressionCombatOptions(ctx, stages), income));
+
+  if (options.shoppingList) {
+    printShoppingLists(ctx, result.sequences[0], stages, options);
+  }
 
   // Print detailed view for top N if not verbose (verbose already shows details)
   if (!verbose && detailLimit > 0) {
@@ -407,6 +668,7 @@ export function printProgressionAnalysis(
     for (let i = 0; i < Math.min(detailLimit, result.sequences.length); i++) {
       const seq = result.sequences[i];
       console.log(`\n--- Progression #${i + 1} (Score: ${seq.totalScore.toFixed(3)}) ---`);
+      const timings = income ? sequenceTimings(seq, income) : undefined;
 
       for (let j = 0; j < seq.stages.length; j++) {
         const stage = seq.stages[j];
@@ -417,14 +679,15 @@ export function printProgressionAnalysis(
           ? ` + [${leftovers.map((c) => c.displayName).join(", ")}]`
           : "";
         const cost = loadout.totalInvestedCost ?? loadout.totalCost;
-        const threshold = stage.costThreshold;
+        const budget = formatStageBudget(stage);
 
         // Check for required items
         const requiredItems = result.resolvedTargets.get(j);
         const targetMarker = requiredItems?.length ? " [TARGET]" : "";
+        const timing = timings ? `, ~${formatMinutes(timings[j])}` : "";
 
         if (j === 0) {
-          console.log(`Stage ${j + 1} (≤${threshold}g): ${items}${leftoverStr} (${cost}g)${targetMarker}`);
+          console.log(`Stage ${j + 1} (${budget}): ${items}${leftoverStr} (${cost}g${timing})${targetMarker}`);
         } else {
           const prevStage = seq.stages[j - 1];
           const prevCost = prevStage.loadout.totalInvestedCost ?? prevStage.loadout.totalCost;
@@ -436,7 +699,13 @@ export function printProgressionAnalysis(
               )
             : 0;
 
-          console.log(`    ↓ +${goldDelta}g, ${reusePercent}% component reuse`);
+          const farmTime = timings && transition
+            ? `, ${transition.componentFlow.totalGoldNeeded}g to farm (~${formatMinutes(timings[j] - timings[j - 1])})`
+            : "";
+
+          const refundMarker = transition?.usesRefundWindow ? ", uses refund window" : "";
+
+          console.log(`    ↓ +${goldDelta}g, ${reusePercent}% component reuse${farmTime}${refundMarker}`);
           if (transition) {
             const flow = transition.componentFlow;
             if (flow.reused.length > 0) {
@@ -449,7 +718,7 @@ export function printProgressionAnalysis(
               console.log(`      New components: ${flow.acquired.slice(0, 5).join(", ")}${flow.acquired.length > 5 ? "..." : ""}`);
             }
           }
-          console.log(`Stage ${j + 1} (≤${threshold}g): ${items}${leftoverStr} (${cost}g)${targetMarker}`);
+          console.log(`Stage ${j + 1} (${budget}): ${items}${leftoverStr} (${cost}g${timing})${targetMarker}`);
         }
       }
     }
@@ -0,0 +1,193 @@
+/**
+ * Robust Ranking Command
+ *
+ * Draws stat values, utility values and the aura multiplier from
+ * distributions many times, re-ranks items (or re-runs a progression)
+ * for each draw, and reports how often each candidate is in the top K.
+ */
+
+import { CliContext } from "../context";
+import {
+  RobustItemRanking,
+  RobustProgressionRanking,
+  ValuationUncertainty,
+  ValueDistribution,
+  analyzeRobustItemRanking,
+  analyzeRobustProgression,
+} from "../../calculators/robustRanking";
+import { stagesFromCosts } from "../../calculators/buildProgression";
+import { loadValuationUncertainty } from "../../config/uncertaintyFile";
+import {
+  formatRobustItemTable,
+  formatRobustPicks,
+  formatRobustProgressionTable,
+} from "../../output/display";
+
+const DEFAULT_DISTRIBUTIONS = ["normal", "lognormal", "uniform"] as const;
+
+/**
+ * Options for robust ranking.
+ */
+export interface RobustOptions {
+  /** Number of draws (default: 1000 for items, 50 for progressions) */
+  samples?: number;
+  /** Random seed (default: 1) */
+  seed?: number;
+  /** Rank that counts as a recommendation (default: 10 for items, 5 for progressions) */
+  topK?: number;
+  /** Rows to show (default: 15 items, 10 progressions) */
+  limit?: number;
+  /** Spread of the default distribution (default: 0.2) */
+  spread?: number;
+  /** Default distribution type: normal, lognormal or uniform (default: normal) */
+  distribution?: string;
+  /** Path to a valuation uncertainty file (.json, .yaml) */
+  uncertainty?: string;
+  /**
+   * Cost thresholds as comma-separated string. When given, the
+   * progression is re-run instead of ranking items.
+   */
+  thresholds?: string;
+  /** Number of items per loadout in progression mode (default: 3) */
+  itemCount?: number;
+  /** Beam width for each progression run (default: 50) */
+  beamWidth?: number;
+  /** Progressions kept from each run */
+  depth?: number;
+  /** Weight stat values by expected hero level per stage */
+  levelScaling?: boolean;
+  /** Suppress progress output */
+  quiet?: boolean;
+}
+
+/**
+ * Result of robust ranking.
+ */
+export interface RobustResult {
+  items?: RobustItemRanking;
+  progression?: RobustProgressionRanking;
+  picks: string;
+  table: string;
+}
+
+/**
+ * Parse cost thresholds from a comma-separated string.
+ */
+function parseCostThresholds(input: string): number[] {
+  const costs = input
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0)
+    .map((s) => parseInt(s, 10));
+  if (costs.length === 0 || costs.some((n) => isNaN(n) || n <= 0)) {
+    throw new Error(`Invalid cost thresholds "${input}". Example: --thresholds 2000,4000`);
+  }
+  return costs;
+}
+
+/**
+ * Distributions from --uncertainty, with --distribution and --spread as
+ * the default unless the file sets one
+ */
+async function resolveUncertainty(options: RobustOptions): Promise<ValuationUncertainty> {
+  const { spread = 0.2, distribution = "normal" } = options;
+  if (!DEFAULT_DISTRIBUTIONS.includes(distribution as (typeof DEFAULT_DISTRIBUTIONS)[number])) {
+    throw new Error(`Unknown distribution "${distribution}" (expected ${DEFAULT_DISTRIBUTIONS.join(", ")})`);
+  }
+  if (!(spread >= 0)) {
+    throw new Error("--spread must be a non-negative number");
+  }
+
+  const fromFile = options.uncertainty ? await loadValuationUncertainty(options.uncertainty) : {};
+  const fallback = { type: distribution, spread } as ValueDistribution;
+  return { default: fallback, ...fromFile };
+}
+
+/**
+ * Run robust ranking and return results.
+ */
+export async function runRobustRanking(
+  ctx: CliContext,
+  options: RobustOptions = {}
+): Promise<RobustResult> {
+  const { seed = 1, quiet = false } = options;
+  const uncertainty = await resolveUncertainty(options);
+
+  if (!options.thresholds) {
+    const { auraMultiplier, heroBaseDamage, conditionalUptime, debuffMultiplier } = ctx.config.thresholds;
+    const items = analyzeRobustItemRanking(ctx.items, ctx.statValuation, {
+      auraMultiplier,
+      heroBaseDamage,
+      conditionalUptime,
+      debuffMultiplier,
+      utilityProfile: ctx.config.utilityProfile,
+      uncertainty,
+      samples: options.samples ?? 1000,
+      seed,
+      topK: options.topK ?? 10,
+    });
+
+    return {
+      items,
+      picks: formatRobustPicks(items),
+      table: formatRobustItemTable(items.items.slice(0, options.limit ?? 15), items.topK),
+    };
+  }
+
+  const progression = analyzeRobustProgression(
+    ctx.items,
+    ctx.config,
+    {
+      stages: stagesFromCosts(parseCostThresholds(options.thresholds)),
+      defaultItemCount: options.itemCount ?? 3,
+      beamWidth: options.beamWidth ?? 50,
+      statValuation: ctx.statValuation,
+      auraMultiplier: ctx.config.thresholds.auraMultiplier,
+      neutralItems: ctx.neutralItems,
+      hero: ctx.hero,
+      valuationProfile: ctx.statValuationProfile,
+      levelScaling: options.levelScaling,
+    },
+    {
+      uncertainty,
+      samples: options.samples ?? 50,
+      seed,
+      topK: options.topK ?? 5,
+      depth: options.depth,
+      onSample: quiet
+        ? undefined
+        : (index, total) => process.stdout.write(`\rRe-running progression for draw ${index + 1}/${total}`.padEnd(70)),
+    }
+  );
+  if (!quiet) {
+    process.stdout.write("\r" + " ".repeat(70) + "\r");
+  }
+
+  return {
+    progression,
+    picks: formatRobustPicks(progression),
+    table: formatRobustProgressionTable(
+      progression.sequences.slice(0, options.limit ?? 10),
+      progression.topK,
+      progression.depth
+    ),
+  };
+}
+
+/**
+ * Print robust ranking to console.
+ */
+export async function printRobustRanking(
+  ctx: CliContext,
+  options: RobustOptions = {}
+): Promise<void> {
+  const result = await runRobustRanking(ctx, options);
+  const { samples, seed } = result.items ?? result.progression!;
+
+  const what = result.items ? "Items" : "Progressions";
+  console.log(`Robust ${what} (${samples} draws, seed ${seed}):\n`);
+  console.log(result.picks);
+  console.log("");
+  console.log(result.table);
+  console.log("");
+}
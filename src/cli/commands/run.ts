@@ -8,6 +8,7 @@
  */
 
 import { CliContext } from "../context";
+import { progressionCombatOptions } from "./progression";
 import {
   promptNumber,
   promptString,
@@ -69,6 +70,9 @@ export async function printInteractiveRun(
       targetCoverageWeight: generalConfig.targetCoverage,
       inventorySlots: generalConfig.inventorySlots,
       backpackSlots: generalConfig.backpackSlots,
+      neutralItems: ctx.neutralItems,
+      hero: ctx.hero,
+      valuationProfile: ctx.statValuationProfile,
       onProgress,
     };
 
@@ -79,7 +83,7 @@ export async function printInteractiveRun(
       // Display results
       note(formatProgressionStats(result.stats), "Summary Statistics");
       console.log("");
-      console.log(formatProgression(result, false));
+      console.log(formatProgression(result, false, progressionCombatOptions(ctx, stages)));
     } catch (analysisError) {
       s.stop("Analysis failed!");
       log.error(String(analysisError));
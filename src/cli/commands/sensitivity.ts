@@ -0,0 +1,184 @@
+/**
+ * Sensitivity Analysis Command
+ *
+ * Moves each stat's gold per point (and each utility category value)
+ * by ±N% and reports which item rankings or progression results hold,
+ * and the values at which the top choice flips.
+ */
+
+import { CliContext } from "../context";
+import {
+  EfficiencySensitivity,
+  ProgressionSensitivity,
+  SensitivityParameter,
+  analyzeEfficiencySensitivity,
+  analyzeProgressionSensitivity,
+  selectSensitivityParameters,
+  sensitivityParameters,
+} from "../../calculators/sensitivity";
+import { stagesFromCosts } from "../../calculators/buildProgression";
+import {
+  formatItemStability,
+  formatParameterSensitivity,
+  formatProgressionSensitivity,
+} from "../../output/display";
+
+/**
+ * Options for sensitivity analysis.
+ */
+export interface SensitivityOptions {
+  /** Perturbation size in percent (default: 20) */
+  percent?: number;
+  /** Number of top items that count as recommendations (default: 10) */
+  topCount?: number;
+  /** Parameters to perturb (comma-separated stat names or utility categories) */
+  params?: string;
+  /** Include utility category values (default: true) */
+  utility?: boolean;
+  /**
+   * Cost thresholds as comma-separated string. When given, the
+   * progression is re-run instead of re-ranking items.
+   */
+  thresholds?: string;
+  /** Number of items per loadout in progression mode (default: 3) */
+  itemCount?: number;
+  /** Beam width for each progression run (default: 50) */
+  beamWidth?: number;
+  /** Weight stat values by expected hero level per stage */
+  levelScaling?: boolean;
+  /** Suppress progress output */
+  quiet?: boolean;
+}
+
+/**
+ * Result of sensitivity analysis.
+ */
+export interface SensitivityResult {
+  efficiency?: EfficiencySensitivity;
+  progression?: ProgressionSensitivity;
+  itemStability?: string;
+  parameterTable?: string;
+  progressionTable?: string;
+}
+
+/**
+ * Parse cost thresholds from a comma-separated string.
+ */
+function parseCostThresholds(input: string): number[] {
+  const costs = input
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0)
+    .map((s) => parseInt(s, 10));
+  if (costs.length === 0 || costs.some((n) => isNaN(n) || n <= 0)) {
+    throw new Error(`Invalid cost thresholds "${input}". Example: --thresholds 2000,4000`);
+  }
+  return costs;
+}
+
+/**
+ * Parameters to perturb, narrowed to --params when given
+ */
+function resolveParameters(ctx: CliContext, options: SensitivityOptions): SensitivityParameter[] {
+  const parameters = sensitivityParameters(ctx.statValuation, ctx.config.utilityProfile, options.utility ?? true);
+  if (!options.params) return parameters;
+
+  const names = options.params
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  return selectSensitivityParameters(parameters, names);
+}
+
+/**
+ * Run sensitivity analysis and return results.
+ */
+export function runSensitivityAnalysis(
+  ctx: CliContext,
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  const { percent = 20, topCount = 10, quiet = false } = options;
+  if (!(percent > 0 && percent < 100)) {
+    throw new Error("--percent must be between 0 and 100");
+  }
+  const parameters = resolveParameters(ctx, options);
+
+  if (!options.thresholds) {
+    const { auraMultiplier, heroBaseDamage, conditionalUptime, debuffMultiplier } = ctx.config.thresholds;
+    const efficiency = analyzeEfficiencySensitivity(ctx.items, ctx.statValuation, {
+      auraMultiplier,
+      heroBaseDamage,
+      conditionalUptime,
+      debuffMultiplier,
+      utilityProfile: ctx.config.utilityProfile,
+      percent,
+      topCount,
+      parameters,
+    });
+
+    return {
+      efficiency,
+      itemStability: formatItemStability(efficiency.items),
+      parameterTable: formatParameterSensitivity(efficiency.parameters, percent),
+    };
+  }
+
+  const progression = analyzeProgressionSensitivity(
+    ctx.items,
+    ctx.config,
+    {
+      stages: stagesFromCosts(parseCostThresholds(options.thresholds)),
+      defaultItemCount: options.itemCount ?? 3,
+      beamWidth: options.beamWidth ?? 50,
+      statValuation: ctx.statValuation,
+      auraMultiplier: ctx.config.thresholds.auraMultiplier,
+      neutralItems: ctx.neutralItems,
+      hero: ctx.hero,
+      valuationProfile: ctx.statValuationProfile,
+      levelScaling: options.levelScaling,
+    },
+    {
+      percent,
+      parameters,
+      onParameter: quiet
+        ? undefined
+        : (parameter, index, total) =>
+            process.stdout.write(`\rRe-running progression for ${parameter.name} (${index + 1}/${total})`.padEnd(70)),
+    }
+  );
+  if (!quiet) {
+    process.stdout.write("\r" + " ".repeat(70) + "\r");
+  }
+
+  return {
+    progression,
+    progressionTable: formatProgressionSensitivity(progression),
+  };
+}
+
+/**
+ * Print sensitivity analysis to console.
+ */
+export function printSensitivityAnalysis(
+  ctx: CliContext,
+  options: SensitivityOptions = {}
+): void {
+  const result = runSensitivityAnalysis(ctx, options);
+  const percent = options.percent ?? 20;
+
+  if (result.efficiency) {
+    console.log(`Recommended Items (top ${result.efficiency.topCount}, rank range across ±${percent}% changes):\n`);
+    console.log(result.itemStability);
+    console.log("\n");
+
+    console.log(`Top Item by Parameter (each value moved ±${percent}% on its own):\n`);
+    console.log(result.parameterTable);
+    console.log("");
+  }
+
+  if (result.progression) {
+    console.log(`Progression Sensitivity (each value moved ±${percent}% on its own):\n`);
+    console.log(result.progressionTable);
+    console.log("");
+  }
+}
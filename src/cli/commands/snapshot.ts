@@ -0,0 +1,58 @@
+/**
+ * Snapshot Commands
+ *
+ * Stores item data tagged by patch or date so later patches
+ * can be compared with `patch-diff`.
+ */
+
+import { ItemDataSource } from "../../data/itemDataSource";
+import {
+  defaultSnapshotTag,
+  listTaggedSnapshots,
+  saveTaggedSnapshot,
+} from "../../data/snapshotStore";
+
+/**
+ * Options for the snapshot commands.
+ */
+export interface SnapshotOptions {
+  /** Snapshot directory (default: ~/.cache/chop-shop/snapshots) */
+  dir?: string;
+}
+
+/**
+ * Load items from a backend and store them under a patch or date tag.
+ */
+export async function printSnapshotSave(
+  dataSource: ItemDataSource,
+  tag: string = defaultSnapshotTag(),
+  options: SnapshotOptions = {}
+): Promise<void> {
+  const items = await dataSource.load();
+  const snapshot = await saveTaggedSnapshot(items, tag, {
+    dir: options.dir,
+    source: dataSource.kind,
+  });
+
+  console.log(`Saved ${items.length} items as snapshot "${snapshot.tag}" (${snapshot.path})`);
+}
+
+/**
+ * Print the stored snapshots, oldest first.
+ */
+export async function printSnapshotList(options: SnapshotOptions = {}): Promise<void> {
+  const snapshots = await listTaggedSnapshots(options.dir);
+
+  if (snapshots.length === 0) {
+    console.log("No snapshots saved yet. Save one with: chop-shop snapshot save <tag>");
+    return;
+  }
+
+  for (const snapshot of snapshots) {
+    const source = snapshot.source ? `, ${snapshot.source}` : "";
+    console.log(
+      `${snapshot.tag.padEnd(16)} ${snapshot.itemCount.toString().padStart(4)} items  ` +
+        `(${snapshot.generatedAt.slice(0, 10)}${source})`
+    );
+  }
+}
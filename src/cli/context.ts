@@ -5,23 +5,60 @@
  * context once and share it across all commands.
  */
 
-import { Item, StatValuation } from "../models/types";
+import { Hero, Item, StatValuation, StatValuationProfile } from "../models/types";
 import { ItemRepository } from "../data/ItemRepository";
-import { fetchItemsFromAPI } from "../data/fetchItems";
-import { calculateStatValuation } from "../calculators/statValuation";
-import { AnalysisConfig, mergeConfig, isExcludedItem } from "../config/analysisConfig";
+import { ItemDataSource, ItemSourceKind, createItemDataSource } from "../data/itemDataSource";
+import {
+  ValuationMode,
+  applyValuationProfile,
+  calculateStatValuation,
+  isValuationMode,
+  VALUATION_MODES,
+} from "../calculators/statValuation";
+import {
+  ValuationResidual,
+  calculateRegressionStatValuation,
+  calculateValuationResiduals,
+  regressionItems,
+} from "../calculators/regressionValuation";
+import {
+  calculateHeroStatValuation,
+  calculateProfiledHeroStatValuation,
+  heroAttackDamage,
+} from "../calculators/attributes";
+import { findHero, resolveHero } from "../data/heroes";
+import { AnalysisConfig, AnalysisConfigOverrides, mergeConfig, isExcludedItem, selectEconomyPreset } from "../config/analysisConfig";
+import { loadUtilityProfile, validateUtilityProfileItems } from "../config/utilityProfile";
+import { loadStatValuationFile, loadValuationProfiles, selectValuationProfile } from "../config/statValuationFile";
 
 /**
  * Shared context for CLI operations.
  * Contains all initialized data needed for analysis commands.
  */
 export interface CliContext {
-  /** All items (excluding consumables) */
+  /** All purchasable items (excluding consumables and neutral items) */
   readonly items: Item[];
+  /** Neutral items, kept apart for the neutral slot */
+  readonly neutralItems: Item[];
   /** Item repository with memoized lookups */
   readonly repo: ItemRepository;
-  /** Calculated stat valuations */
+  /** Calculated stat valuations (hero-specific when a hero is set, adjusted by the valuation profile) */
   readonly statValuation: StatValuation;
+  /** Name of the valuation profile applied to statValuation, if any */
+  readonly valuationProfile?: string;
+  /** The valuation profile itself, re-applied to level-weighted valuations */
+  readonly statValuationProfile?: StatValuationProfile;
+  /** Stat valuation before the valuation profile was applied */
+  readonly unprofiledStatValuation?: StatValuation;
+  /** Hero items are valued for, if any */
+  readonly hero?: Hero;
+  /** How the stat valuation was computed */
+  readonly valuationMode: ValuationMode;
+  /**
+   * Component item costs compared with the (non-hero) valuation,
+   * most overpriced first. Set for the regression and custom modes.
+   */
+  readonly valuationResiduals?: ValuationResidual[];
   /** Analysis configuration */
   readonly config: AnalysisConfig;
 }
@@ -31,7 +68,7 @@ export interface CliContext {
  */
 export interface CliContextOptions {
   /** Override default configuration */
-  config?: Partial<AnalysisConfig>;
+  config?: AnalysisConfigOverrides;
   /** Include consumables in item list */
   includeConsumables?: boolean;
   /** 
@@ -39,44 +76,212 @@ export interface CliContextOptions {
    * 1.0 = solo, 2.5 = average teamfight, 5.0 = full team
    */
   auraMultiplier?: number;
+  /** Item data backend (default: "opendota") */
+  source?: ItemSourceKind;
+  /**
+   * Pre-built item data backend.
+   * Overrides source and the data file/cache options.
+   */
+  dataSource?: ItemDataSource;
+  /**
+   * Data file for the chosen backend. For "opendota" this is a saved
+   * snapshot or raw payload used instead of the API or cache.
+   */
+  dataFile?: string;
+  /** Never hit the network; use dataFile or the existing cache */
+  offline?: boolean;
+  /** Cache file location (default: ~/.cache/chop-shop/items.json) */
+  cacheFile?: string;
+  /** Hours a cached snapshot stays fresh (default: 24) */
+  cacheTtlHours?: number;
+  /** Utility profile file (.json, .yaml or .yml); replaces config.utilityProfile */
+  utilityProfile?: string;
+  /**
+   * Hero to value items for: a built-in hero name, a hero JSON file, or a Hero.
+   * Attributes are valued by the stats they grant that hero, and percentage
+   * damage bonuses use the hero's level-1 attack damage.
+   */
+  hero?: string | Hero;
+  /**
+   * How stat valuations are computed (default: "baseline").
+   * "regression" fits gold per point across all component items at once;
+   * "custom" uses customValuation, keeping baseline values for stats it omits.
+   */
+  valuation?: ValuationMode;
+  /** Gold per point for the "custom" mode: a .json/.yaml file or a StatValuation */
+  customValuation?: string | StatValuation;
+  /** Valuation profiles file (.json, .yaml or .yml); adds to and replaces config.valuationProfiles */
+  valuationProfiles?: string;
+  /** Name of the valuation profile to apply (from config.valuationProfiles) */
+  valuationProfile?: string;
+  /** Economy preset ("gyrocopter" or "standard"); replaces config.economy */
+  economy?: string;
   /** Callback for progress updates */
   onProgress?: (message: string) => void;
 }
 
 /**
- * Initialize the CLI context by fetching items and calculating valuations.
- * This is the entry point for all analysis operations.
+ * Build the effective analysis configuration without loading items.
+ * Precedence: explicit options (aura multiplier, utility profile and valuation
+ * profiles files, economy preset) over config overrides (e.g. from a config file)
+ * over defaults.
  */
-export async function initializeContext(
-  options: CliContextOptions = {}
-): Promise<CliContext> {
+export async function resolveAnalysisConfig(
+  options: Pick<CliContextOptions, "config" | "auraMultiplier" | "utilityProfile" | "valuationProfiles" | "economy"> = {}
+): Promise<AnalysisConfig> {
   const {
     config: configOverrides,
-    includeConsumables = false,
     auraMultiplier,
-    onProgress = () => {},
+    utilityProfile: utilityProfilePath,
+    valuationProfiles: valuationProfilesPath,
+    economy: economyPreset,
   } = options;
 
-  // Merge configuration first to get auraMultiplier from config if not explicitly set
   const baseConfig = mergeConfig(configOverrides);
-  const effectiveAuraMultiplier = auraMultiplier ?? baseConfig.thresholds.auraMultiplier;
-  
-  // Update config with the effective aura multiplier
-  const config: AnalysisConfig = {
+  const utilityProfile = utilityProfilePath
+    ? await loadUtilityProfile(utilityProfilePath)
+    : baseConfig.utilityProfile;
+  const valuationProfiles = valuationProfilesPath
+    ? { ...baseConfig.valuationProfiles, ...(await loadValuationProfiles(valuationProfilesPath)) }
+    : baseConfig.valuationProfiles;
+
+  return {
     ...baseConfig,
     thresholds: {
       ...baseConfig.thresholds,
-      auraMultiplier: effectiveAuraMultiplier,
+      auraMultiplier: auraMultiplier ?? baseConfig.thresholds.auraMultiplier,
     },
+    economy: economyPreset ? selectEconomyPreset(economyPreset) : baseConfig.economy,
+    ...(utilityProfile && { utilityProfile }),
+    ...(valuationProfiles && { valuationProfiles }),
+  };
+}
+
+/**
+ * Use the hero's attack damage for percentage damage bonuses
+ */
+function withHero(config: AnalysisConfig, hero?: Hero): AnalysisConfig {
+  if (!hero) return config;
+  return { ...config, thresholds: { ...config.thresholds, heroBaseDamage: heroAttackDamage(hero) } };
+}
+
+/**
+ * Value attributes for the hero, if one is set
+ */
+function heroStatValuation(valuation: StatValuation, hero?: Hero): StatValuation {
+  return hero ? calculateHeroStatValuation(valuation, hero.primaryAttribute) : valuation;
+}
+
+/**
+ * Value attributes for the hero, if one is set, and apply the named
+ * valuation profile, keeping the valuation it started from. With a hero,
+ * the profile's other stats apply before attributes are derived from them.
+ */
+function profiledStatValuation(
+  valuation: StatValuation,
+  config: AnalysisConfig,
+  hero?: Hero,
+  profileName?: string
+): Pick<CliContext, "statValuation" | "valuationProfile" | "statValuationProfile" | "unprofiledStatValuation"> {
+  const unprofiled = heroStatValuation(valuation, hero);
+  if (!profileName) return { statValuation: unprofiled };
+
+  const profile = selectValuationProfile(config.valuationProfiles, profileName);
+  return {
+    statValuation: hero
+      ? calculateProfiledHeroStatValuation(valuation, hero.primaryAttribute, profile)
+      : applyValuationProfile(valuation, profile),
+    valuationProfile: profileName,
+    statValuationProfile: profile,
+    unprofiledStatValuation: unprofiled,
   };
+}
 
-  onProgress("Fetching item data from OpenDota API...");
-  const allItems = await fetchItemsFromAPI();
+/**
+ * Compute the stat valuation for a mode, before any hero adjustment.
+ * Residuals are returned for the modes that don't come from item prices directly.
+ */
+function baseStatValuation(
+  items: Item[],
+  mode: ValuationMode,
+  customValuation?: StatValuation
+): { valuation: StatValuation; residuals?: ValuationResidual[] } {
+  switch (mode) {
+    case "baseline":
+      return { valuation: calculateStatValuation(items) };
+    case "regression": {
+      const { valuation, residuals } = calculateRegressionStatValuation(items);
+      return { valuation, residuals };
+    }
+    case "custom": {
+      if (!customValuation) {
+        throw new Error("The custom valuation mode needs a stat valuation file (--valuation-file <path>)");
+      }
+      const valuation = { ...calculateStatValuation(items), ...customValuation };
+      return { valuation, residuals: calculateValuationResiduals(regressionItems(items), valuation) };
+    }
+    default:
+      throw new Error(`Unknown valuation mode "${mode}" (expected one of ${VALUATION_MODES.join(", ")})`);
+  }
+}
+
+/**
+ * Initialize the CLI context by loading items and calculating valuations.
+ * This is the entry point for all analysis operations.
+ */
+export async function initializeContext(
+  options: CliContextOptions = {}
+): Promise<CliContext> {
+  const {
+    includeConsumables = false,
+    source,
+    dataSource,
+    dataFile,
+    offline,
+    cacheFile,
+    cacheTtlHours,
+    onProgress = () => {},
+  } = options;
+
+  const { valuation: valuationMode = "baseline" } = options;
+  if (!isValuationMode(valuationMode)) {
+    throw new Error(`Unknown valuation mode "${valuationMode}" (expected one of ${VALUATION_MODES.join(", ")})`);
+  }
+  const customValuation = typeof options.customValuation === "string"
+    ? await loadStatValuationFile(options.customValuation)
+    : options.customValuation;
+
+  const hero = typeof options.hero === "string" ? await resolveHero(options.hero) : options.hero;
+  const config = withHero(await resolveAnalysisConfig(options), hero);
+  const { auraMultiplier: effectiveAuraMultiplier } = config.thresholds;
+  const { utilityProfile } = config;
+  if (options.valuationProfile) {
+    // Fail on a bad profile name before loading items
+    selectValuationProfile(config.valuationProfiles, options.valuationProfile);
+  }
+
+  const itemSource = dataSource ?? createItemDataSource({
+    source,
+    dataFile,
+    offline,
+    cacheFile,
+    cacheTtlHours,
+    onProgress,
+  });
+  const allItems = await itemSource.load();
+
+  if (utilityProfile) {
+    validateUtilityProfileItems(utilityProfile, allItems.map((item) => item.name));
+  }
+
+  // Neutral items can't be bought, so they never enter the purchasable pool
+  const neutralItems = allItems.filter((item) => item.neutralTier !== undefined);
+  const purchasableItems = allItems.filter((item) => item.neutralTier === undefined);
 
   // Filter consumables unless explicitly requested
   const items = includeConsumables
-    ? allItems
-    : allItems.filter((item) => !item.isConsumable);
+    ? purchasableItems
+    : purchasableItems.filter((item) => !item.isConsumable);
 
   // Filter out excluded items
   const filteredItems = items.filter((item) => !isExcludedItem(item.name, config));
@@ -85,6 +290,15 @@ export async function initializeContext(
   if (effectiveAuraMultiplier !== 1.0) {
     onProgress(`Aura multiplier: ${effectiveAuraMultiplier}x`);
   }
+  if (hero) {
+    onProgress(`Hero: ${hero.displayName} (${hero.primaryAttribute})`);
+  }
+  if (valuationMode !== "baseline") {
+    onProgress(`Valuation: ${valuationMode}`);
+  }
+  if (options.valuationProfile) {
+    onProgress(`Valuation profile: ${options.valuationProfile}`);
+  }
 
   // Create shared repository
   const repo = new ItemRepository(filteredItems);
@@ -92,13 +306,17 @@ export async function initializeContext(
   // Calculate stat valuations from base stats only (not aura stats).
   // This ensures aura items show their multiplied value relative to non-aura alternatives.
   onProgress("Calculating stat valuations...");
-  const statValuation = calculateStatValuation(items);
+  const { valuation, residuals } = baseStatValuation(items, valuationMode, customValuation);
 
   return {
     items: filteredItems,
+    neutralItems,
     repo,
-    statValuation,
+    ...profiledStatValuation(valuation, config, hero, options.valuationProfile),
+    valuationMode,
+    ...(residuals && { valuationResiduals: residuals }),
     config,
+    ...(hero && { hero }),
   };
 }
 
@@ -109,20 +327,84 @@ export function createContextFromItems(
   items: Item[],
   options: Omit<CliContextOptions, "onProgress"> = {}
 ): CliContext {
-  const { config: configOverrides, includeConsumables = false } = options;
+  const { config: configOverrides, includeConsumables = false, valuation: valuationMode = "baseline" } = options;
+  const hero = typeof options.hero === "string" ? findHero(options.hero) : options.hero;
+  if (typeof options.hero === "string" && !hero) {
+    throw new Error(`Unknown hero "${options.hero}"`);
+  }
+  if (typeof options.customValuation === "string") {
+    throw new Error("Pass the custom stat valuation itself, not a file path, when creating a context from items");
+  }
+  if (options.valuationProfiles) {
+    throw new Error("Pass valuation profiles in config.valuationProfiles when creating a context from items");
+  }
+
+  const neutralItems = items.filter((item) => item.neutralTier !== undefined);
+  const purchasableItems = items.filter((item) => item.neutralTier === undefined);
 
   const filteredItems = includeConsumables
-    ? items
-    : items.filter((item) => !item.isConsumable);
+    ? purchasableItems
+    : purchasableItems.filter((item) => !item.isConsumable);
 
   const repo = new ItemRepository(filteredItems);
-  const statValuation = calculateStatValuation(filteredItems);
-  const config = mergeConfig(configOverrides);
+  const config = withHero(mergeConfig(configOverrides), hero);
+  if (config.utilityProfile) {
+    validateUtilityProfileItems(config.utilityProfile, items.map((item) => item.name));
+  }
+  const { valuation, residuals } = baseStatValuation(filteredItems, valuationMode, options.customValuation);
 
   return {
     items: filteredItems,
+    neutralItems,
     repo,
-    statValuation,
+    ...profiledStatValuation(valuation, config, hero, options.valuationProfile),
+    valuationMode,
+    ...(residuals && { valuationResiduals: residuals }),
     config,
+    ...(hero && { hero }),
+  };
+}
+
+/**
+ * How to value item sets other than the loaded ones
+ */
+export interface StatValuationResolver {
+  /** The config, with the hero's attack damage for percentage damage bonuses */
+  config: AnalysisConfig;
+  /** Stat valuation for an item set, as initializeContext computes it for the loaded items */
+  calculateValuation: (items: Item[]) => StatValuation;
+}
+
+/**
+ * Resolve the valuation mode, hero and valuation profile options for
+ * commands that value their own item sets (e.g. the two snapshots of
+ * patch-diff) instead of loading a context.
+ *
+ * @param config - Resolved analysis config
+ * @param options - Valuation mode, custom valuation, hero and valuation profile
+ */
+export async function resolveStatValuation(
+  config: AnalysisConfig,
+  options: Pick<CliContextOptions, "valuation" | "customValuation" | "hero" | "valuationProfile"> = {}
+): Promise<StatValuationResolver> {
+  const { valuation: valuationMode = "baseline", valuationProfile } = options;
+  if (!isValuationMode(valuationMode)) {
+    throw new Error(`Unknown valuation mode "${valuationMode}" (expected one of ${VALUATION_MODES.join(", ")})`);
+  }
+  const customValuation = typeof options.customValuation === "string"
+    ? await loadStatValuationFile(options.customValuation)
+    : options.customValuation;
+  const hero = typeof options.hero === "string" ? await resolveHero(options.hero) : options.hero;
+  if (valuationProfile) {
+    selectValuationProfile(config.valuationProfiles, valuationProfile);
+  }
+
+  const heroConfig = withHero(config, hero);
+  return {
+    config: heroConfig,
+    calculateValuation: (items) => {
+      const { valuation } = baseStatValuation(items, valuationMode, customValuation);
+      return profiledStatValuation(valuation, heroConfig, hero, valuationProfile).statValuation;
+    },
   };
 }
@@ -7,12 +7,25 @@
  */
 
 import { Command } from "commander";
-import { initializeContext } from "./context";
+import { initializeContext, resolveAnalysisConfig, resolveStatValuation, CliContextOptions } from "./context";
 import { printEfficiencyAnalysis } from "./commands/efficiency";
 import { printTransitionsAnalysis } from "./commands/transitions";
 import { printReachabilityAnalysis } from "./commands/reachability";
-import { printProgressionAnalysis } from "./commands/progression";
+import { loadNetWorthCurve, printProgressionAnalysis } from "./commands/progression";
 import { printInteractiveRun } from "./commands/run";
+import { printExportItems } from "./commands/exportItems";
+import { printSnapshotSave, printSnapshotList } from "./commands/snapshot";
+import { printPatchDiff } from "./commands/patchDiff";
+import { printDataAudit } from "./commands/dataAudit";
+import { printConfigShow } from "./commands/config";
+import { printSensitivityAnalysis } from "./commands/sensitivity";
+import { printRobustRanking } from "./commands/robust";
+import { COMBAT_METRICS, isCombatMetric } from "../calculators/stageScorers";
+import { parseBuybackReserve } from "../calculators/goldRisk";
+import { loadTaggedSnapshot } from "../data/snapshotStore";
+import { createItemDataSource } from "../data/itemDataSource";
+import { LoadedConfigFile, resolveConfigFile } from "../config/configFile";
+import { AnalysisConfig } from "../config/analysisConfig";
 
 const program = new Command();
 
@@ -25,6 +38,18 @@ program
     "Aura multiplier: 1=solo, 2.5=teamfight, 5=full team",
     parseFloat
   )
+  .option("--source <name>", "Item data backend: opendota, dotaconstants, or json (default: opendota)")
+  .option("--data-file <path>", "Item data file for the backend (OpenDota snapshot, dotaconstants items.json, or normalized JSON)")
+  .option("--offline", "Never fetch from OpenDota; use --data-file or the local cache")
+  .option("--cache-ttl <hours>", "Hours before the cached item data is refreshed (default: 24)", parseFloat)
+  .option("--utility-profile <path>", "Utility valuation file (.json or .yaml) with category values, item categories and overrides")
+  .option("--hero <name>", "Value items for a hero (e.g. gyrocopter) or a hero JSON file")
+  .option("--valuation <mode>", "Stat valuation: baseline, regression, or custom (default: baseline)")
+  .option("--valuation-file <path>", "Gold per point by stat (.json or .yaml) for --valuation custom")
+  .option("--valuation-profiles <path>", "Named valuation profiles (.json or .yaml): absolute values or multipliers per stat")
+  .option("--valuation-profile <name>", "Apply a named valuation profile (from --valuation-profiles or the config file)")
+  .option("--economy <preset>", "Sell and disassembly rules: gyrocopter (100% recipe refund) or standard (default: gyrocopter)")
+  .option("-c, --config <path>", "Config file (default: chop-shop.config.json in the current or home directory)")
   .addHelpText(
     "after",
     `
@@ -38,20 +63,111 @@ Examples:
   $ chop-shop efficiency               Show item efficiency rankings
   $ chop-shop transitions --type pair  Show pair transitions only
   $ chop-shop all                      Run full analysis (efficiency, transitions, reachability)
+  $ chop-shop --offline --data-file scripts/api-research/responses/opendota-items.json efficiency
+                                       Run from a saved item snapshot without network
+  $ chop-shop export-items items-7.37d.json --patch 7.37d
+                                       Pin the current item data to a normalized JSON file
+  $ chop-shop --source json --data-file items-7.37d.json progression -t 2000,4000
+                                       Analyze using a pinned item data file
+  $ chop-shop snapshot save 7.37d      Store the current item data tagged as patch 7.37d
+  $ chop-shop patch-diff 7.37d 7.38    Show what changed between two stored snapshots
+  $ chop-shop data-audit               List attribute keys the stat extractor drops
+  $ chop-shop --utility-profile support.yaml efficiency
+                                       Rank items with your own utility values
+  $ chop-shop --hero gyrocopter efficiency
+                                       Value attributes by what they give Gyrocopter
+  $ chop-shop --valuation regression efficiency
+                                       Fit stat prices across all components and show mispriced items
+  $ chop-shop --valuation-profiles profiles.yaml --valuation-profile gyro progression
+                                       Score builds with your Gyrocopter stat values
+  $ chop-shop --economy standard progression -t 2000,4000
+                                       Plan a progression for a hero without Gyrocopter's recipe refund
+  $ chop-shop --config support.config.json config show
+                                       Print the effective config (file merged with flags)
+  $ chop-shop sensitivity --percent 15 Show how robust the item rankings are to stat values
+  $ chop-shop robust --samples 2000    Rank items by how often they stay in the top 10
 
 Aura Multiplier (use before command):
   1.0  = Solo (only affects yourself) [default]
   2.5  = Average teamfight (yourself + ~1.5 teammates)
   5.0  = Full team (yourself + 4 teammates)
+
+Config precedence: command-line flags > config file > built-in defaults
 `
   );
 
 /**
- * Helper to get aura multiplier from parent command options
+ * Config file loaded before any command runs (undefined when none is found)
+ */
+let configFile: LoadedConfigFile | undefined;
+
+program.hook("preAction", async function (thisCommand) {
+  try {
+    configFile = await resolveConfigFile(thisCommand.opts().config);
+  } catch (error) {
+    console.error("Error:", error);
+    process.exit(1);
+  }
+});
+
+/**
+ * Helper to get aura multiplier from parent command options, falling back to the config file
  */
 function getAuraMultiplier(command: Command): number | undefined {
   const opts = command.optsWithGlobals();
-  return opts.aura;
+  return opts.aura ?? configFile?.config.thresholds?.auraMultiplier;
+}
+
+/**
+ * Helper to resolve the effective analysis config (defaults, config file and flags merged)
+ */
+function getAnalysisConfig(command: Command): Promise<AnalysisConfig> {
+  const { config: fileConfig, utilityProfile, valuationProfiles, economy } = getDataOptions(command);
+  return resolveAnalysisConfig({
+    config: fileConfig,
+    auraMultiplier: getAuraMultiplier(command),
+    utilityProfile,
+    valuationProfiles,
+    economy,
+  });
+}
+
+/**
+ * Helper to get item data source, config file, utility profile, hero, valuation and economy options from parent command options
+ */
+function getDataOptions(
+  command: Command
+): Pick<
+  CliContextOptions,
+  | "config"
+  | "source"
+  | "dataFile"
+  | "offline"
+  | "cacheTtlHours"
+  | "utilityProfile"
+  | "hero"
+  | "valuation"
+  | "customValuation"
+  | "valuationProfiles"
+  | "valuationProfile"
+  | "economy"
+> {
+  const opts = command.optsWithGlobals();
+  return {
+    config: configFile?.config,
+    source: opts.source,
+    dataFile: opts.dataFile,
+    offline: opts.offline,
+    cacheTtlHours: opts.cacheTtl,
+    utilityProfile: opts.utilityProfile,
+    hero: opts.hero,
+    // A valuation file on its own implies the custom mode
+    valuation: opts.valuation ?? (opts.valuationFile ? "custom" : undefined),
+    customValuation: opts.valuationFile,
+    valuationProfiles: opts.valuationProfiles,
+    valuationProfile: opts.valuationProfile,
+    economy: opts.economy,
+  };
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -74,6 +190,7 @@ program
     try {
       const auraMultiplier = getAuraMultiplier(this) ?? options.aura;
       const ctx = await initializeContext({
+        ...getDataOptions(this),
         auraMultiplier,
         onProgress: (msg) => console.log(msg),
       });
@@ -93,10 +210,14 @@ program
   .option("--upgraded", "Show upgraded items only")
   .option("-d, --disassemble", "Show disassemble analysis (Gyrocopter)")
   .option("-l, --limit <number>", "Maximum items to display", parseInt)
+  .option("--pareto", "Show only items no other item beats on cost, stat value and utility, and what beats the rest")
+  .option("--pareto-loadouts <number>", "With --pareto, also show the frontier of loadouts with this many items", parseInt)
+  .option("--pareto-max-cost <number>", "Maximum total cost of a frontier loadout", parseInt)
   .action(async function(this: Command, options) {
     try {
       const auraMultiplier = getAuraMultiplier(this);
       const ctx = await initializeContext({
+        ...getDataOptions(this),
         auraMultiplier,
         onProgress: (msg) => console.log(msg),
       });
@@ -107,6 +228,9 @@ program
         upgradedOnly: options.upgraded,
         showDisassemble: options.disassemble,
         limit: options.limit,
+        pareto: options.pareto || options.paretoLoadouts !== undefined,
+        paretoLoadoutSize: options.paretoLoadouts,
+        paretoMaxCost: options.paretoMaxCost,
       });
     } catch (error) {
       console.error("Error:", error);
@@ -131,6 +255,7 @@ program
     try {
       const auraMultiplier = getAuraMultiplier(this);
       const ctx = await initializeContext({
+        ...getDataOptions(this),
         auraMultiplier,
         onProgress: (msg) => console.log(msg),
       });
@@ -164,6 +289,7 @@ program
     try {
       const auraMultiplier = getAuraMultiplier(this);
       const ctx = await initializeContext({
+        ...getDataOptions(this),
         auraMultiplier,
         onProgress: (msg) => console.log(msg),
       });
@@ -190,6 +316,10 @@ program
     "-t, --thresholds <costs>",
     "Cost thresholds for each stage (comma-separated), e.g., 2000,4000,7000"
   )
+  .option(
+    "--minutes <minutes>",
+    "Game minute for each stage (comma-separated), resolved to the expected net worth, e.g., 10,18,25"
+  )
   .option(
     "--targets <items>",
     "Target items to acquire (comma-separated), e.g., \"Force Staff,Skadi\""
@@ -213,6 +343,14 @@ program
   .option("-v, --verbose", "Show verbose transition details")
   .option("--quiet", "Suppress progress output")
   .option("--progress", "Show progress updates during analysis")
+  .option("--levels", "Weight stat values by expected hero level per stage (derived from stage cost)")
+  .option("--optimize <metric>", `Score stages by a combat stat of the --hero (${COMBAT_METRICS.join(", ")})`)
+  .option("--gpm <segments>", "Gold per minute from each minute on (minute:gpm, comma-separated), e.g., 0:450,10:600,20:700")
+  .option("--match-history <file>", "Fit net worth over time to matches in a JSON/YAML file")
+  .option("--timings", "Show estimated stage timings and farm times (on with --minutes, --gpm or --match-history)")
+  .option("--shopping-list", "Show the order to buy, disassemble, sell and assemble for the top progression")
+  .option("--buyback <reserve>", "Gold kept for buyback from the second stage on: gold, networth (200 + net worth / 13) or level")
+  .option("--deaths <number>", "Expected deaths per stage from the second stage on; each loses 50 + net worth / 40 gold", parseFloat)
   .addHelpText(
     "after",
     `
@@ -220,6 +358,9 @@ Examples:
   # Cost-based progression (like sequences command):
   $ chop-shop progression -t 2000,4000,7000
 
+  # Time-based progression with your own gold income:
+  $ chop-shop progression --minutes 10,18,25 --gpm 0:450,10:600,20:700
+
   # Target-based progression (find path to items):
   $ chop-shop progression --targets "Force Staff,Skadi"
 
@@ -235,10 +376,17 @@ Examples:
   # Exclude specific items:
   $ chop-shop progression --targets "BKB" -x "Ogre Axe"
 
+  # Most effective HP at each stage for a hero (EHP and DPS are shown with --hero):
+  $ chop-shop --hero gyrocopter progression -t 2000,4000 --optimize ehp
+
+  # Keep buyback gold and allow for a death per stage late in the game:
+  $ chop-shop progression -t 4000,8000,14000 --buyback networth --deaths 1
+
 Modes:
   --thresholds only    : Pure cost-based progression (like sequences)
   --targets only       : Two-stage path to acquire all targets
   --targets + thresholds: Incremental acquisition (one target per stage)
+  --minutes            : Like --thresholds, at the expected net worth for each minute
   --stages             : Full control with JSON stage definitions
 
 Inventory/Backpack System:
@@ -258,24 +406,61 @@ Stage Definition Format (--stages JSON):
       "requiredItems": ["Force Staff"],
       "excludedItems": ["Divine Rapier"],
       "itemCount": 3,
-      "requireBoots": 0
+      "requireBoots": 0,
+      "neutralTier": 1,
+      "heroLevel": 8,
+      "atMinute": 10,
+      "buybackReserve": "networth",
+      "expectedDeaths": 1
     },
     ...
   ]
   
   Fields:
-  - maxCost (required): Maximum gold for this stage
+  - maxCost (required unless atMinute is set): Maximum gold for this stage
   - minCost: Minimum gold (default: previous stage cost + 1, or 0 for first)
   - requiredItems: Items that MUST appear in loadout
   - excludedItems: Items that MUST NOT appear
   - itemCount: Number of items to assemble (default: 3)
   - requireBoots: Stage index (0-based) at which to inject Boots into component pool
+  - neutralTier: Expected neutral item tier (1-5); the best neutral of that tier adds
+    its stats to the stage at no cost
+  - heroLevel: Expected hero level (1-30); stat values are weighted for that level
+    (regen counts more early, damage and attack speed more late)
+  - atMinute: Game minute for this stage; without maxCost, the stage gets the
+    expected net worth at that minute
+  - buybackReserve: Gold kept for buyback at this stage (gold, "networth" or
+    "level"); overrides --buyback, and applies to the first stage too
+  - expectedDeaths: Expected deaths while farming this stage; overrides --deaths
+
+Gold Income:
+  Stage timings come from a net worth curve: 600 starting gold plus
+  400/550/650/700 GPM from minutes 0/10/20/30, or --gpm segments, or the
+  per-minute median of --match-history. A match history file is a list of
+  matches, each a net worth array by minute (index 0 = minute 0) or an object
+  with a "netWorth" or "gold_t" array.
+  Each stage is timed by when its items are affordable; each transition by
+  how long its new gold (new components plus net recipe cost) takes to farm.
+
+Buyback and Deaths:
+  --buyback and --deaths hold gold back from each stage after the first, so
+  the items bought fit in what's left of the budget. Both are taken at the
+  stage's cost threshold as net worth: networth keeps 200 + net worth / 13,
+  level keeps 100 + level² × 1.5 + 15 per minute (the older formula), and
+  each expected death loses 50 + net worth / 40.
+  Stages that keep leftover components show the gold at risk in them: it
+  adds no stats until assembled, and sells at a loss if buyback runs short.
 `
   )
   .action(async function(this: Command, options) {
     try {
+      if (options.optimize !== undefined && !isCombatMetric(options.optimize)) {
+        throw new Error(`Unknown --optimize metric "${options.optimize}" (expected one of ${COMBAT_METRICS.join(", ")})`);
+      }
+      const netWorthCurve = await loadNetWorthCurve(options);
       const auraMultiplier = getAuraMultiplier(this);
       const ctx = await initializeContext({
+        ...getDataOptions(this),
         auraMultiplier,
         onProgress: options.quiet ? undefined : (msg) => console.log(msg),
       });
@@ -299,6 +484,68 @@ Stage Definition Format (--stages JSON):
         verbose: options.verbose,
         quiet: options.quiet,
         showProgress: options.progress,
+        levelScaling: options.levels,
+        optimize: options.optimize,
+        minutes: options.minutes,
+        netWorthCurve,
+        timings: options.timings,
+        shoppingList: options.shoppingList,
+        buybackReserve: options.buyback !== undefined ? parseBuybackReserve(options.buyback) : undefined,
+        expectedDeaths: options.deaths,
+      });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// sensitivity command
+// ─────────────────────────────────────────────────────────────
+program
+  .command("sensitivity")
+  .description("Perturb stat and utility values to see how stable the recommendations are")
+  .option("-p, --percent <number>", "Perturbation size in percent", parseFloat, 20)
+  .option("-n, --top <number>", "Number of top items that count as recommendations", parseInt, 10)
+  .option("--params <names>", "Parameters to perturb (comma-separated stats or utility categories, e.g. armor,mobility)")
+  .option("--no-utility", "Don't perturb utility category values")
+  .option("-t, --thresholds <costs>", "Re-run a progression with these cost thresholds instead of ranking items")
+  .option("-i, --items <number>", "Maximum items per loadout (progression)", (v) => parseInt(v, 10), 3)
+  .option("-b, --beam <number>", "Beam width for each progression run", parseInt, 50)
+  .option("--levels", "Weight stat values by expected hero level per stage (progression)")
+  .option("--quiet", "Suppress progress output")
+  .addHelpText(
+    "after",
+    `
+Each stat's gold per point, and each utility category's value, is moved
+down and up by --percent on its own. Items are re-ranked by efficiency
+(including utility), or with --thresholds the progression is re-run.
+
+Examples:
+  $ chop-shop sensitivity
+  $ chop-shop sensitivity --percent 10 --params armor,attackSpeed,mobility
+  $ chop-shop --hero gyrocopter sensitivity -t 2000,4000 --no-utility
+`
+  )
+  .action(async function(this: Command, options) {
+    try {
+      const auraMultiplier = getAuraMultiplier(this);
+      const ctx = await initializeContext({
+        ...getDataOptions(this),
+        auraMultiplier,
+        onProgress: options.quiet ? undefined : (msg) => console.log(msg),
+      });
+      console.log("");
+      printSensitivityAnalysis(ctx, {
+        percent: options.percent,
+        topCount: options.top,
+        params: options.params,
+        utility: options.utility,
+        thresholds: options.thresholds,
+        itemCount: options.items,
+        beamWidth: options.beam,
+        levelScaling: options.levels,
+        quiet: options.quiet,
       });
     } catch (error) {
       console.error("Error:", error);
@@ -306,6 +553,217 @@ Stage Definition Format (--stages JSON):
     }
   });
 
+// ─────────────────────────────────────────────────────────────
+// robust command
+// ─────────────────────────────────────────────────────────────
+program
+  .command("robust")
+  .description("Rank items or progressions by how often they stay on top when valuations are uncertain")
+  .option("-s, --samples <number>", "Number of valuation draws (default: 1000 for items, 50 for progressions)", parseInt)
+  .option("--seed <number>", "Random seed, for reproducible runs", parseInt, 1)
+  .option("-k, --top-k <number>", "Rank that counts as a recommendation (default: 10 for items, 5 for progressions)", parseInt)
+  .option("-n, --limit <number>", "Rows to show (default: 15 items, 10 progressions)", parseInt)
+  .option("--spread <number>", "Spread of the default distribution, relative to each value", parseFloat, 0.2)
+  .option("--distribution <type>", "Default distribution: normal, lognormal or uniform", "normal")
+  .option("--uncertainty <path>", "Per-stat, per-utility and aura multiplier distributions (.json, .yaml)")
+  .option("-t, --thresholds <costs>", "Re-run a progression with these cost thresholds instead of ranking items")
+  .option("-i, --items <number>", "Maximum items per loadout (progression)", (v) => parseInt(v, 10), 3)
+  .option("-b, --beam <number>", "Beam width for each progression run", parseInt, 50)
+  .option("--depth <number>", "Progressions kept from each run (default: twice --top-k, at least 10)", parseInt)
+  .option("--levels", "Weight stat values by expected hero level per stage (progression)")
+  .option("--quiet", "Suppress progress output")
+  .addHelpText(
+    "after",
+    `
+Every stat value and utility category value is drawn from the default
+distribution (normal with 20% relative spread) unless --uncertainty
+gives it its own. The same --seed always gives the same result.
+
+The robust pick is the candidate most often in the top K, ties broken
+by expected rank; the point-estimate pick is the top candidate with
+the current values.
+
+Uncertainty file (YAML or JSON):
+  default: { type: lognormal, spread: 0.15 }
+  stats:
+    agility: { type: uniform, min: 40, max: 70 }
+    armor: { type: normal, sd: 15 }
+  utility:
+    mobility: { type: normal, spread: 0.4 }
+  auraMultiplier: { type: uniform, min: 1, max: 3 }
+
+Examples:
+  $ chop-shop robust
+  $ chop-shop robust --samples 5000 --seed 7 --top-k 5
+  $ chop-shop robust --uncertainty uncertainty.yaml
+  $ chop-shop --hero gyrocopter robust -t 2000,4000 --samples 30
+`
+  )
+  .action(async function(this: Command, options) {
+    try {
+      const auraMultiplier = getAuraMultiplier(this);
+      const ctx = await initializeContext({
+        ...getDataOptions(this),
+        auraMultiplier,
+        onProgress: options.quiet ? undefined : (msg) => console.log(msg),
+      });
+      console.log("");
+      await printRobustRanking(ctx, {
+        samples: options.samples,
+        seed: options.seed,
+        topK: options.topK,
+        limit: options.limit,
+        spread: options.spread,
+        distribution: options.distribution,
+        uncertainty: options.uncertainty,
+        thresholds: options.thresholds,
+        itemCount: options.items,
+        beamWidth: options.beam,
+        depth: options.depth,
+        levelScaling: options.levels,
+        quiet: options.quiet,
+      });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// export-items command
+// ─────────────────────────────────────────────────────────────
+program
+  .command("export-items <output>")
+  .description("Write item data from the selected backend to a normalized JSON file")
+  .option("-p, --patch <version>", "Game patch to tag the file with, e.g. 7.37d")
+  .action(async function(this: Command, output: string, options) {
+    try {
+      const dataSource = createItemDataSource({
+        ...getDataOptions(this),
+        onProgress: (msg) => console.log(msg),
+      });
+      await printExportItems(dataSource, { output, patch: options.patch });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// snapshot commands
+// ─────────────────────────────────────────────────────────────
+const snapshot = program
+  .command("snapshot")
+  .description("Store and list item data snapshots tagged by patch or date");
+
+snapshot
+  .command("save [tag]")
+  .description("Store the current item data under a patch or date tag (default: today's date)")
+  .option("--snapshot-dir <path>", "Snapshot directory (default: ~/.cache/chop-shop/snapshots)")
+  .action(async function(this: Command, tag: string | undefined, options) {
+    try {
+      const dataSource = createItemDataSource({
+        ...getDataOptions(this),
+        onProgress: (msg) => console.log(msg),
+      });
+      await printSnapshotSave(dataSource, tag, { dir: options.snapshotDir });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+snapshot
+  .command("list")
+  .description("List stored snapshots")
+  .option("--snapshot-dir <path>", "Snapshot directory (default: ~/.cache/chop-shop/snapshots)")
+  .action(async function(this: Command, options) {
+    try {
+      await printSnapshotList({ dir: options.snapshotDir });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// patch-diff command
+// ─────────────────────────────────────────────────────────────
+program
+  .command("patch-diff <old> <new>")
+  .description("Compare two snapshots (tags or normalized JSON paths)")
+  .option("--snapshot-dir <path>", "Snapshot directory (default: ~/.cache/chop-shop/snapshots)")
+  .option("-l, --limit <number>", "Maximum ranking changes to display", parseInt)
+  .action(async function(this: Command, oldRef: string, newRef: string, options) {
+    try {
+      const oldSnapshot = await loadTaggedSnapshot(oldRef, options.snapshotDir);
+      const newSnapshot = await loadTaggedSnapshot(newRef, options.snapshotDir);
+      const { config, calculateValuation } = await resolveStatValuation(
+        await getAnalysisConfig(this),
+        getDataOptions(this)
+      );
+      printPatchDiff(oldSnapshot, newSnapshot, {
+        config,
+        calculateValuation,
+        limit: options.limit,
+      });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// data-audit command
+// ─────────────────────────────────────────────────────────────
+program
+  .command("data-audit")
+  .description("Report unmapped attribute keys, items without stats, and stat value outliers")
+  .option("--min-ratio <number>", "Flag items with stat value below this fraction of cost (default: 0.25)", parseFloat)
+  .option("--max-ratio <number>", "Flag items with stat value above this multiple of cost (default: 2.0)", parseFloat)
+  .option("-e, --examples <number>", "Example items to show per unmapped key (default: 5)", parseInt)
+  .action(async function(this: Command, options) {
+    try {
+      const dataSource = createItemDataSource({
+        ...getDataOptions(this),
+        onProgress: (msg) => console.log(msg),
+      });
+      const { config, calculateValuation } = await resolveStatValuation(
+        await getAnalysisConfig(this),
+        getDataOptions(this)
+      );
+      await printDataAudit(dataSource, {
+        config,
+        calculateValuation,
+        minRatio: options.minRatio,
+        maxRatio: options.maxRatio,
+        itemsPerKey: options.examples,
+      });
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// config commands
+// ─────────────────────────────────────────────────────────────
+const config = program
+  .command("config")
+  .description("Inspect the analysis configuration");
+
+config
+  .command("show")
+  .description("Print the effective config (defaults, config file and flags merged)")
+  .action(async function(this: Command) {
+    try {
+      printConfigShow(await getAnalysisConfig(this), configFile?.path);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
 // ─────────────────────────────────────────────────────────────
 // all command (default full analysis)
 // ─────────────────────────────────────────────────────────────
@@ -316,6 +774,7 @@ program
     try {
       const auraMultiplier = getAuraMultiplier(this);
       const ctx = await initializeContext({
+        ...getDataOptions(this),
         auraMultiplier,
         onProgress: (msg) => console.log(msg),
       });
@@ -342,4 +801,4 @@ program.action(function(this: Command) {
   this.help();
 });
 
-program.parse();
+program.parseAsync();
@@ -1,3 +1,6 @@
+import { UtilityProfile } from "../calculators/utility";
+import { StatValuationProfile } from "../models/types";
+
 /**
  * Configuration for item analysis thresholds and parameters
  */
@@ -18,6 +21,25 @@ export interface AnalysisThresholds {
    * Default: 2000 (covers most early game items like Drums, Mek, etc.)
    */
   earlyGameMaxCost: number;
+  /**
+   * Hero base damage used to turn percentage damage bonuses
+   * (e.g. Vladmir's Offering) into flat damage.
+   * Default: 50 (typical level-1 base damage)
+   */
+  heroBaseDamage: number;
+  /**
+   * Fraction of time conditional bonuses are active when the item
+   * doesn't specify its own uptime (e.g. Greaves' low-health bonus).
+   * Default: 0.25
+   */
+  conditionalUptime: number;
+  /**
+   * Multiplier for enemy debuffs (armor/magic resistance reduction),
+   * relative to the value of the same amount of your own armor/magic resistance.
+   * Raise it for lineups with several physical/magic damage dealers.
+   * Default: 1.0
+   */
+  debuffMultiplier: number;
 }
 
 /**
@@ -36,6 +58,101 @@ export interface SynergyWeights {
   threeWayBonus: number;
 }
 
+/**
+ * How gold comes back when items are sold or disassembled.
+ * Gyrocopter's innate refunds recipes in full on disassembly; other
+ * heroes get a recipe back that only sells for half.
+ */
+export interface EconomyPolicy {
+  /** Fraction of a recipe's cost recovered when an item is disassembled (0-1) */
+  recipeRecoveryRate: number;
+  /** Fraction of an item's cost recovered when it is sold (0-1) */
+  itemSellRate: number;
+  /** Whether assembled items can be disassembled at all */
+  allowDisassembly: boolean;
+  /** Assembled items that can never be disassembled; they are kept, upgraded or sold whole */
+  nonDisassemblableItems: string[];
+  /**
+   * The only assembled items that can be disassembled, when set.
+   * Most heroes can break down just a few items; without the list
+   * anything not in nonDisassemblableItems can be.
+   */
+  disassemblableItems?: string[];
+  /**
+   * Whether items bought for a loadout and sold straight back are refunded
+   * in full. The game only refunds a sale within 10 seconds of the purchase;
+   * the model has no clock, so this assumes every such piece is sold in the
+   * same shop visit it was bought in. Turn it off to sell everything at
+   * itemSellRate.
+   */
+  refundWindow: boolean;
+}
+
+/**
+ * Items any hero can disassemble, as of 7.41
+ */
+export const STANDARD_DISASSEMBLABLE_ITEMS = [
+  "angels_demise",
+  "armlet",
+  "echo_sabre",
+  "helm_of_the_dominator",
+  "mask_of_madness",
+  "oblivion_staff",
+  "pers",
+  "phase_boots",
+  "power_treads",
+  "radiance",
+  "soul_ring",
+  "tranquil_boots",
+  "vanguard",
+  "vladmir",
+];
+
+/**
+ * Gyrocopter's innate: he can disassemble any item but Divine Rapier
+ * and Hand of Midas (7.36), and disassembly refunds the full recipe cost
+ */
+export const GYROCOPTER_ECONOMY: EconomyPolicy = {
+  recipeRecoveryRate: 1.0,
+  itemSellRate: 0.5,
+  allowDisassembly: true,
+  nonDisassemblableItems: ["rapier", "hand_of_midas"],
+  refundWindow: true,
+};
+
+/**
+ * Any other hero: only a few items can be disassembled, and a
+ * disassembled recipe only sells for half its cost.
+ * Update disassemblableItems when a patch changes which ones.
+ */
+export const STANDARD_ECONOMY: EconomyPolicy = {
+  recipeRecoveryRate: 0.5,
+  itemSellRate: 0.5,
+  allowDisassembly: true,
+  nonDisassemblableItems: [],
+  disassemblableItems: [...STANDARD_DISASSEMBLABLE_ITEMS],
+  refundWindow: true,
+};
+
+/**
+ * Economy presets by name, selected with --economy or the config file
+ */
+export const ECONOMY_PRESETS: Record<string, EconomyPolicy> = {
+  gyrocopter: GYROCOPTER_ECONOMY,
+  standard: STANDARD_ECONOMY,
+};
+
+/**
+ * Look up an economy preset by name
+ */
+export function selectEconomyPreset(name: string): EconomyPolicy {
+  const preset = ECONOMY_PRESETS[name.toLowerCase()];
+  if (!preset) {
+    throw new Error(`Unknown economy preset "${name}" (expected one of ${Object.keys(ECONOMY_PRESETS).join(", ")})`);
+  }
+  return preset;
+}
+
 /**
  * Complete analysis configuration
  */
@@ -47,10 +164,33 @@ export interface AnalysisConfig {
   trioSynergyWeights: SynergyWeights;
   /** Boot item internal names (movement speed doesn't stack) */
   bootItems: string[];
+  /**
+   * Groups of items whose effects don't stack, by group name.
+   * Like boots, a loadout holds at most one item of each group.
+   */
+  uniqueGroups: Record<string, string[]>;
   /** Key utility items to analyze regardless of cost */
   keyUtilityItems: string[];
   /** Items to exclude from analysis (unreleased, test items, etc.) */
   excludedItems: string[];
+  /** Sell and disassembly rules (default: GYROCOPTER_ECONOMY) */
+  economy: EconomyPolicy;
+  /** Custom utility valuation (default: the built-in utility tables) */
+  utilityProfile?: UtilityProfile;
+  /** Named stat valuation profiles, selected with --valuation-profile */
+  valuationProfiles?: Record<string, StatValuationProfile>;
+}
+
+/**
+ * Partial configuration to merge over the defaults.
+ * Nested thresholds, weights and economy may also be partial.
+ */
+export interface AnalysisConfigOverrides
+  extends Partial<Omit<AnalysisConfig, "thresholds" | "pairSynergyWeights" | "trioSynergyWeights" | "economy">> {
+  thresholds?: Partial<AnalysisThresholds>;
+  economy?: Partial<EconomyPolicy>;
+  pairSynergyWeights?: Partial<SynergyWeights>;
+  trioSynergyWeights?: Partial<SynergyWeights>;
 }
 
 /**
@@ -61,6 +201,9 @@ export const DEFAULT_CONFIG: AnalysisConfig = {
     minGoldRecovery: 0.65,
     auraMultiplier: 1.0,
     earlyGameMaxCost: 2000,
+    heroBaseDamage: 50,
+    conditionalUptime: 0.25,
+    debuffMultiplier: 1.0,
   },
   pairSynergyWeights: {
     goldContribution: 0.35,
@@ -88,6 +231,13 @@ export const DEFAULT_CONFIG: AnalysisConfig = {
     "travel_boots_2",
     "hermes_sandals",
   ],
+  uniqueGroups: {
+    blink: ["blink", "overwhelming_blink", "swift_blink", "arcane_blink"],
+    euls: ["cyclone", "wind_waker"],
+    spellBlock: ["sphere", "lotus_orb"],
+    lifestealOrb: ["lifesteal", "mask_of_madness", "satanic"],
+    dagon: ["dagon", "dagon_2", "dagon_3", "dagon_4", "dagon_5"],
+  },
   keyUtilityItems: [
     "force_staff",
     "euls_scepter",
@@ -110,21 +260,26 @@ export const DEFAULT_CONFIG: AnalysisConfig = {
   excludedItems: [
     "witches_switch", // Unreleased item
   ],
+  economy: GYROCOPTER_ECONOMY,
 };
 
 /**
  * Merge partial config with defaults
  */
-export function mergeConfig(partial: Partial<AnalysisConfig> = {}): AnalysisConfig {
+export function mergeConfig(partial: AnalysisConfigOverrides = {}): AnalysisConfig {
   return {
     thresholds: { ...DEFAULT_CONFIG.thresholds, ...partial.thresholds },
     pairSynergyWeights: { ...DEFAULT_CONFIG.pairSynergyWeights, ...partial.pairSynergyWeights },
     trioSynergyWeights: { ...DEFAULT_CONFIG.trioSynergyWeights, ...partial.trioSynergyWeights },
     bootItems: partial.bootItems ?? DEFAULT_CONFIG.bootItems,
+    uniqueGroups: { ...DEFAULT_CONFIG.uniqueGroups, ...partial.uniqueGroups },
     keyUtilityItems: partial.keyUtilityItems ?? DEFAULT_CONFIG.keyUtilityItems,
     excludedItems: partial.excludedItems 
       ? [...DEFAULT_CONFIG.excludedItems, ...partial.excludedItems]
       : DEFAULT_CONFIG.excludedItems,
+    economy: { ...DEFAULT_CONFIG.economy, ...partial.economy },
+    ...(partial.utilityProfile && { utilityProfile: partial.utilityProfile }),
+    ...(partial.valuationProfiles && { valuationProfiles: partial.valuationProfiles }),
   };
 }
 
@@ -135,6 +290,37 @@ export function isBootItem(itemName: string, config: AnalysisConfig = DEFAULT_CO
   return config.bootItems.includes(itemName);
 }
 
+/**
+ * Map of item name to the unique group it belongs to, for repeated lookups
+ */
+export function uniqueGroupIndex(uniqueGroups: Record<string, string[]>): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const [group, itemNames] of Object.entries(uniqueGroups)) {
+    for (const itemName of itemNames) {
+      index.set(itemName, group);
+    }
+  }
+  return index;
+}
+
+/**
+ * Unique groups that more than one of the items belongs to
+ */
+export function findDuplicateUniqueGroups(
+  itemNames: Iterable<string>,
+  index: Map<string, string>
+): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const itemName of itemNames) {
+    const group = index.get(itemName);
+    if (group === undefined) continue;
+    if (seen.has(group)) duplicates.add(group);
+    seen.add(group);
+  }
+  return [...duplicates];
+}
+
 /**
  * Helper to check if an item should be excluded from analysis
  */
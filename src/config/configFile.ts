@@ -0,0 +1,241 @@
+import { AnalysisConfigOverrides, DEFAULT_CONFIG, EconomyPolicy, selectEconomyPreset } from "./analysisConfig";
+import { loadUtilityProfile, parseUtilityProfile } from "./utilityProfile";
+import { loadValuationProfiles, parseValuationProfiles } from "./statValuationFile";
+import { access, readFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+
+/**
+ * File name looked up in the working directory and then the home directory
+ */
+export const CONFIG_FILE_NAME = "chop-shop.config.json";
+
+/**
+ * A config file that was found and loaded
+ */
+export interface LoadedConfigFile {
+  path: string;
+  config: AnalysisConfigOverrides;
+}
+
+/**
+ * Validated config file contents, before any referenced files are read
+ */
+export interface ParsedConfigFile {
+  config: AnalysisConfigOverrides;
+  /** utilityProfile given as a file path, relative to the config file */
+  utilityProfilePath?: string;
+  /** valuationProfiles given as a file path, relative to the config file */
+  valuationProfilesPath?: string;
+}
+
+/** Thresholds that are fractions, so must also be at most 1 */
+const FRACTION_THRESHOLDS = new Set(["minGoldRecovery", "conditionalUptime"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkKnownKeys(value: Record<string, unknown>, known: string[], where: string): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      throw new Error(`Unknown ${where} field "${key}" (expected one of ${known.join(", ")})`);
+    }
+  }
+}
+
+/**
+ * Validate an object of non-negative numbers against a set of known keys
+ */
+function parseNumbers(value: unknown, defaults: object, where: string): Record<string, number> {
+  if (!isPlainObject(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+  checkKnownKeys(value, Object.keys(defaults), where);
+
+  for (const [key, num] of Object.entries(value)) {
+    if (typeof num !== "number" || !Number.isFinite(num) || num < 0) {
+      throw new Error(`${where}.${key} must be a non-negative number`);
+    }
+    if (where === "thresholds" && FRACTION_THRESHOLDS.has(key) && num > 1) {
+      throw new Error(`${where}.${key} must be between 0 and 1`);
+    }
+  }
+  return value as Record<string, number>;
+}
+
+function parseItemNames(value: unknown, where: string): string[] {
+  if (!Array.isArray(value) || !value.every((name) => typeof name === "string")) {
+    throw new Error(`${where} must be an array of item names`);
+  }
+  return value;
+}
+
+/**
+ * Validate an object of group name to item names
+ */
+function parseItemGroups(value: unknown, where: string): Record<string, string[]> {
+  if (!isPlainObject(value)) {
+    throw new Error(`${where} must be an object of group name: item names`);
+  }
+  for (const [group, names] of Object.entries(value)) {
+    parseItemNames(names, `${where}.${group}`);
+  }
+  return value as Record<string, string[]>;
+}
+
+/**
+ * Validate an economy policy: a preset name, or fields over a preset
+ * (the default one unless "preset" is given)
+ */
+function parseEconomy(value: unknown): Partial<EconomyPolicy> {
+  if (typeof value === "string") {
+    return selectEconomyPreset(value);
+  }
+  if (!isPlainObject(value)) {
+    throw new Error("economy must be a preset name or an object");
+  }
+  checkKnownKeys(value, Object.keys(DEFAULT_CONFIG.economy).concat("preset", "disassemblableItems"), "economy");
+
+  const { preset, ...fields } = value;
+  if (preset !== undefined && typeof preset !== "string") {
+    throw new Error("economy.preset must be a preset name");
+  }
+  for (const key of ["recipeRecoveryRate", "itemSellRate"]) {
+    const rate = fields[key];
+    if (rate !== undefined && (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0 || rate > 1)) {
+      throw new Error(`economy.${key} must be between 0 and 1`);
+    }
+  }
+  for (const key of ["allowDisassembly", "refundWindow"]) {
+    if (fields[key] !== undefined && typeof fields[key] !== "boolean") {
+      throw new Error(`economy.${key} must be true or false`);
+    }
+  }
+  for (const key of ["nonDisassemblableItems", "disassemblableItems"]) {
+    if (fields[key] !== undefined) {
+      parseItemNames(fields[key], `economy.${key}`);
+    }
+  }
+
+  return { ...(preset !== undefined && selectEconomyPreset(preset)), ...(fields as Partial<EconomyPolicy>) };
+}
+
+/**
+ * Parse and validate config file contents.
+ * utilityProfile and valuationProfiles may be inline or a path to a file.
+ */
+export function parseConfigFile(data: unknown): ParsedConfigFile {
+  if (!isPlainObject(data)) {
+    throw new Error("Config file must be a JSON object");
+  }
+  checkKnownKeys(data, Object.keys(DEFAULT_CONFIG).concat("utilityProfile", "valuationProfiles"), "config");
+
+  const config: AnalysisConfigOverrides = {};
+  let utilityProfilePath: string | undefined;
+  let valuationProfilesPath: string | undefined;
+
+  for (const key of ["thresholds", "pairSynergyWeights", "trioSynergyWeights"] as const) {
+    if (data[key] !== undefined) {
+      config[key] = parseNumbers(data[key], DEFAULT_CONFIG[key], key);
+    }
+  }
+  for (const key of ["bootItems", "keyUtilityItems", "excludedItems"] as const) {
+    if (data[key] !== undefined) {
+      config[key] = parseItemNames(data[key], key);
+    }
+  }
+  if (data.uniqueGroups !== undefined) {
+    config.uniqueGroups = parseItemGroups(data.uniqueGroups, "uniqueGroups");
+  }
+  if (data.economy !== undefined) {
+    config.economy = parseEconomy(data.economy);
+  }
+
+  if (typeof data.utilityProfile === "string") {
+    utilityProfilePath = data.utilityProfile;
+  } else if (data.utilityProfile !== undefined) {
+    try {
+      config.utilityProfile = parseUtilityProfile(data.utilityProfile);
+    } catch (err) {
+      throw new Error(`utilityProfile: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (typeof data.valuationProfiles === "string") {
+    valuationProfilesPath = data.valuationProfiles;
+  } else if (data.valuationProfiles !== undefined) {
+    try {
+      config.valuationProfiles = parseValuationProfiles(data.valuationProfiles);
+    } catch (err) {
+      throw new Error(`valuationProfiles: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return {
+    config,
+    ...(utilityProfilePath && { utilityProfilePath }),
+    ...(valuationProfilesPath && { valuationProfilesPath }),
+  };
+}
+
+/**
+ * Read and validate a config file.
+ * utilityProfile and valuationProfiles given as paths are resolved relative to the config file.
+ */
+export async function loadConfigFile(path: string): Promise<AnalysisConfigOverrides> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Failed to read config from ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  let parsed: ParsedConfigFile;
+  try {
+    parsed = parseConfigFile(data);
+  } catch (err) {
+    throw new Error(`${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const { config, utilityProfilePath, valuationProfilesPath } = parsed;
+  if (utilityProfilePath) {
+    config.utilityProfile = await loadUtilityProfile(resolve(dirname(path), utilityProfilePath));
+  }
+  if (valuationProfilesPath) {
+    config.valuationProfiles = await loadValuationProfiles(resolve(dirname(path), valuationProfilesPath));
+  }
+  return config;
+}
+
+/**
+ * Find the config file to use: the working directory first, then the home directory
+ */
+export async function findConfigFile(
+  dirs: string[] = [process.cwd(), homedir()]
+): Promise<string | undefined> {
+  for (const dir of dirs) {
+    const path = join(dir, CONFIG_FILE_NAME);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Not here, keep looking
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load an explicit config file, or the discovered one if no path is given.
+ * Returns undefined when no path is given and none is found.
+ */
+export async function resolveConfigFile(
+  path?: string,
+  dirs?: string[]
+): Promise<LoadedConfigFile | undefined> {
+  const configPath = path ?? (await findConfigFile(dirs));
+  if (!configPath) return undefined;
+
+  return { path: configPath, config: await loadConfigFile(configPath) };
+}
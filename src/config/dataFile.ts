@@ -0,0 +1,27 @@
+import { readFile } from "fs/promises";
+import { extname } from "path";
+
+/**
+ * Read a .json, .yaml or .yml file (by extension) and validate it with parse.
+ * Read errors name what was being read; validation errors are prefixed with the path.
+ *
+ * @param path - File to read
+ * @param what - What the file holds, for read errors (e.g. "utility profile")
+ * @param parse - Validates the parsed data
+ */
+export async function loadDataFile<T>(path: string, what: string, parse: (data: unknown) => T): Promise<T> {
+  let data: unknown;
+  try {
+    const text = await readFile(path, "utf-8");
+    const ext = extname(path).toLowerCase();
+    data = ext === ".yaml" || ext === ".yml" ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Failed to read ${what} from ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  try {
+    return parse(data);
+  } catch (err) {
+    throw new Error(`${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
@@ -1 +1,7 @@
 export * from "./analysisConfig";
+export * from "./utilityProfile";
+export * from "./configFile";
+export * from "./statValuationFile";
+export * from "./uncertaintyFile";
+export * from "./matchHistoryFile";
+export * from "./dataFile";
@@ -0,0 +1,60 @@
+import { loadDataFile } from "./dataFile";
+
+/** Per-match fields holding net worth by minute */
+const SERIES_FIELDS = ["netWorth", "gold_t"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse one match's net worth by minute: an array of numbers, or an
+ * object with a netWorth or gold_t (OpenDota player) array
+ */
+function parseMatchSeries(data: unknown): number[] {
+  let series = data;
+  if (isPlainObject(data)) {
+    const field = SERIES_FIELDS.find((key) => data[key] !== undefined);
+    if (!field) {
+      throw new Error(`Match must have ${SERIES_FIELDS.join(" or ")}`);
+    }
+    series = data[field];
+  }
+  if (!Array.isArray(series) || series.length === 0) {
+    throw new Error("Net worth must be a non-empty array of numbers by minute");
+  }
+  for (const [minute, value] of series.entries()) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Net worth at minute ${minute} must be a non-negative number`);
+    }
+  }
+  return series as number[];
+}
+
+/**
+ * Parse and validate match history: a list of matches (or an object with
+ * a matches list), each giving net worth at every minute from minute 0
+ */
+export function parseMatchHistory(data: unknown): number[][] {
+  const matches = isPlainObject(data) ? data.matches : data;
+  if (!Array.isArray(matches)) {
+    throw new Error("Match history must be a list of matches, or an object with a matches list");
+  }
+  if (matches.length === 0) {
+    throw new Error("Match history has no matches");
+  }
+  return matches.map((match, index) => {
+    try {
+      return parseMatchSeries(match);
+    } catch (err) {
+      throw new Error(`matches[${index}]: ${err instanceof Error ? err.message : err}`);
+    }
+  });
+}
+
+/**
+ * Read match history from a .json, .yaml or .yml file
+ */
+export async function loadMatchHistory(path: string): Promise<number[][]> {
+  return loadDataFile(path, "match history", parseMatchHistory);
+}
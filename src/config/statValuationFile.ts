@@ -0,0 +1,125 @@
+import { ItemStats, StatValuation, StatValuationProfile } from "../models/types";
+import { STAT_KEYS } from "../calculators/statValuation";
+import { loadDataFile } from "./dataFile";
+
+const STATS = new Set<string>(STAT_KEYS);
+
+const PROFILE_FIELDS = ["description", "values", "multipliers"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a stat valuation: an object of stat name to gold per point
+ */
+export function parseStatValuation(data: unknown): StatValuation {
+  if (!isPlainObject(data)) {
+    throw new Error("Stat valuation must be an object of stat: gold per point");
+  }
+
+  const valuation: StatValuation = {};
+  for (const [stat, value] of Object.entries(data)) {
+    if (!STATS.has(stat)) {
+      throw new Error(`Unknown stat "${stat}" (expected one of ${STAT_KEYS.join(", ")})`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${stat} must be a non-negative number`);
+    }
+    valuation[stat as keyof ItemStats] = value;
+  }
+  return valuation;
+}
+
+/**
+ * Read a stat valuation from a .json, .yaml or .yml file
+ */
+export async function loadStatValuationFile(path: string): Promise<StatValuation> {
+  return loadDataFile(path, "stat valuation", parseStatValuation);
+}
+
+/**
+ * Parse and validate one valuation profile
+ */
+export function parseValuationProfile(data: unknown): StatValuationProfile {
+  if (!isPlainObject(data)) {
+    throw new Error("Valuation profile must be an object with values and/or multipliers");
+  }
+  for (const key of Object.keys(data)) {
+    if (!PROFILE_FIELDS.includes(key)) {
+      throw new Error(`Unknown valuation profile field "${key}" (expected ${PROFILE_FIELDS.join(", ")})`);
+    }
+  }
+  if (data.values === undefined && data.multipliers === undefined) {
+    throw new Error("Valuation profile needs values or multipliers");
+  }
+
+  const profile: StatValuationProfile = {};
+  if (data.description !== undefined) {
+    if (typeof data.description !== "string") {
+      throw new Error("description must be a string");
+    }
+    profile.description = data.description;
+  }
+  for (const key of ["values", "multipliers"] as const) {
+    if (data[key] === undefined) continue;
+    try {
+      profile[key] = parseStatValuation(data[key]);
+    } catch (err) {
+      throw new Error(`${key}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const both = Object.keys(profile.values ?? {}).filter(
+    (stat) => profile.multipliers?.[stat as keyof ItemStats] !== undefined
+  );
+  if (both.length > 0) {
+    throw new Error(`${both.join(", ")} given as both a value and a multiplier`);
+  }
+  return profile;
+}
+
+/**
+ * Parse and validate named valuation profiles: an object of profile name to profile
+ */
+export function parseValuationProfiles(data: unknown): Record<string, StatValuationProfile> {
+  if (!isPlainObject(data)) {
+    throw new Error("Valuation profiles must be an object of profile name: profile");
+  }
+
+  const profiles: Record<string, StatValuationProfile> = {};
+  for (const [name, profile] of Object.entries(data)) {
+    try {
+      profiles[name] = parseValuationProfile(profile);
+    } catch (err) {
+      throw new Error(`${name}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Read named valuation profiles from a .json, .yaml or .yml file
+ */
+export async function loadValuationProfiles(path: string): Promise<Record<string, StatValuationProfile>> {
+  return loadDataFile(path, "valuation profiles", parseValuationProfiles);
+}
+
+/**
+ * Look up a profile by name, listing the available ones if it's missing
+ */
+export function selectValuationProfile(
+  profiles: Record<string, StatValuationProfile> | undefined,
+  name: string
+): StatValuationProfile {
+  const profile = profiles?.[name];
+  if (!profile) {
+    const known = Object.keys(profiles ?? {});
+    throw new Error(
+      known.length > 0
+        ? `Unknown valuation profile "${name}". Available profiles: ${known.join(", ")}`
+        : `Unknown valuation profile "${name}": no profiles loaded (use --valuation-profiles <path> or valuationProfiles in the config file)`
+    );
+  }
+  return profile;
+}
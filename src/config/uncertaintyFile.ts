@@ -0,0 +1,135 @@
+import { ValuationUncertainty, ValueDistribution } from "../calculators/robustRanking";
+import { UtilityCategory } from "../calculators/utility";
+import { STAT_KEYS } from "../calculators/statValuation";
+import { loadDataFile } from "./dataFile";
+
+const STATS = new Set<string>(STAT_KEYS);
+const CATEGORIES = new Set<string>(Object.values(UtilityCategory));
+
+const FIELDS = ["default", "stats", "utility", "auraMultiplier"];
+
+/** Fields each distribution type accepts besides "type" */
+const DISTRIBUTION_FIELDS: Record<ValueDistribution["type"], string[]> = {
+  fixed: ["value"],
+  normal: ["mean", "sd", "spread"],
+  lognormal: ["median", "spread"],
+  uniform: ["min", "max", "spread"],
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate one distribution, e.g. { type: normal, spread: 0.2 }
+ */
+export function parseValueDistribution(data: unknown): ValueDistribution {
+  if (!isPlainObject(data)) {
+    throw new Error("Distribution must be an object with a type");
+  }
+  const type = data.type as ValueDistribution["type"];
+  const fields = DISTRIBUTION_FIELDS[type];
+  if (!fields) {
+    throw new Error(`Unknown distribution type "${data.type}" (expected ${Object.keys(DISTRIBUTION_FIELDS).join(", ")})`);
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === "type") continue;
+    if (!fields.includes(key)) {
+      throw new Error(`Unknown ${type} distribution field "${key}" (expected ${fields.join(", ")})`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+  }
+
+  const distribution = data as ValueDistribution;
+  switch (distribution.type) {
+    case "normal":
+      if (distribution.sd === undefined && distribution.spread === undefined) {
+        throw new Error("normal distribution needs sd or spread");
+      }
+      break;
+    case "lognormal":
+      if (distribution.spread === undefined) {
+        throw new Error("lognormal distribution needs spread");
+      }
+      break;
+    case "uniform": {
+      const bounds = [distribution.min, distribution.max].filter((v) => v !== undefined).length;
+      if (distribution.spread === undefined && bounds < 2) {
+        throw new Error("uniform distribution needs min and max, or spread");
+      }
+      if (distribution.min !== undefined && distribution.max !== undefined && distribution.min > distribution.max) {
+        throw new Error("uniform distribution min is above max");
+      }
+      break;
+    }
+  }
+  return distribution;
+}
+
+/**
+ * Parse and validate distributions for a set of names (stats or utility categories)
+ */
+function parseDistributions(
+  data: unknown,
+  field: string,
+  names: Set<string>,
+  what: string
+): Record<string, ValueDistribution> {
+  if (!isPlainObject(data)) {
+    throw new Error(`${field} must be an object of ${what}: distribution`);
+  }
+  const distributions: Record<string, ValueDistribution> = {};
+  for (const [name, distribution] of Object.entries(data)) {
+    if (!names.has(name)) {
+      throw new Error(`${field}: unknown ${what} "${name}" (expected one of ${[...names].join(", ")})`);
+    }
+    try {
+      distributions[name] = parseValueDistribution(distribution);
+    } catch (err) {
+      throw new Error(`${field}.${name}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return distributions;
+}
+
+/**
+ * Parse and validate valuation uncertainty: a default distribution,
+ * per-stat and per-utility-category distributions, and the aura multiplier's
+ */
+export function parseValuationUncertainty(data: unknown): ValuationUncertainty {
+  if (!isPlainObject(data)) {
+    throw new Error("Valuation uncertainty must be an object");
+  }
+  for (const key of Object.keys(data)) {
+    if (!FIELDS.includes(key)) {
+      throw new Error(`Unknown valuation uncertainty field "${key}" (expected ${FIELDS.join(", ")})`);
+    }
+  }
+
+  const uncertainty: ValuationUncertainty = {};
+  for (const key of ["default", "auraMultiplier"] as const) {
+    if (data[key] === undefined) continue;
+    try {
+      uncertainty[key] = parseValueDistribution(data[key]);
+    } catch (err) {
+      throw new Error(`${key}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  if (data.stats !== undefined) {
+    uncertainty.stats = parseDistributions(data.stats, "stats", STATS, "stat");
+  }
+  if (data.utility !== undefined) {
+    uncertainty.utility = parseDistributions(data.utility, "utility", CATEGORIES, "category");
+  }
+  return uncertainty;
+}
+
+/**
+ * Read valuation uncertainty from a .json, .yaml or .yml file
+ */
+export async function loadValuationUncertainty(path: string): Promise<ValuationUncertainty> {
+  return loadDataFile(path, "valuation uncertainty", parseValuationUncertainty);
+}
@@ -0,0 +1,117 @@
+import { UtilityCategory, UtilityProfile } from "../calculators/utility";
+import { loadDataFile } from "./dataFile";
+
+const CATEGORIES = new Set<string>(Object.values(UtilityCategory));
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isGoldValue(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function categoryList(): string {
+  return [...CATEGORIES].join(", ");
+}
+
+/**
+ * Parse and validate utility profile contents.
+ * Checks structure and category names; item names are checked
+ * separately with validateUtilityProfileItems once items are loaded.
+ */
+export function parseUtilityProfile(data: unknown): UtilityProfile {
+  if (!isPlainObject(data)) {
+    throw new Error("Utility profile must be an object");
+  }
+
+  const known = new Set(["categoryValues", "itemCategories", "itemOverrides"]);
+  for (const key of Object.keys(data)) {
+    if (!known.has(key)) {
+      throw new Error(`Unknown utility profile field "${key}" (expected ${[...known].join(", ")})`);
+    }
+  }
+
+  const { categoryValues, itemCategories, itemOverrides } = data;
+  const profile: UtilityProfile = {};
+
+  if (categoryValues !== undefined) {
+    if (!isPlainObject(categoryValues)) {
+      throw new Error("categoryValues must be an object of category: gold value");
+    }
+    for (const [category, value] of Object.entries(categoryValues)) {
+      if (!CATEGORIES.has(category)) {
+        throw new Error(`categoryValues: unknown category "${category}" (expected one of ${categoryList()})`);
+      }
+      if (!isGoldValue(value)) {
+        throw new Error(`categoryValues.${category} must be a non-negative number`);
+      }
+    }
+    profile.categoryValues = categoryValues as UtilityProfile["categoryValues"];
+  }
+
+  if (itemCategories !== undefined) {
+    if (!isPlainObject(itemCategories)) {
+      throw new Error("itemCategories must be an object of item name: category list");
+    }
+    for (const [item, categories] of Object.entries(itemCategories)) {
+      if (!Array.isArray(categories)) {
+        throw new Error(`itemCategories.${item} must be a list of categories`);
+      }
+      for (const category of categories) {
+        if (!CATEGORIES.has(category)) {
+          throw new Error(
+            `itemCategories.${item}: unknown category "${category}" (expected one of ${categoryList()})`
+          );
+        }
+      }
+    }
+    profile.itemCategories = itemCategories as UtilityProfile["itemCategories"];
+  }
+
+  if (itemOverrides !== undefined) {
+    if (!isPlainObject(itemOverrides)) {
+      throw new Error("itemOverrides must be an object of item name: gold value");
+    }
+    for (const [item, value] of Object.entries(itemOverrides)) {
+      if (!isGoldValue(value)) {
+        throw new Error(`itemOverrides.${item} must be a non-negative number`);
+      }
+    }
+    profile.itemOverrides = itemOverrides as UtilityProfile["itemOverrides"];
+  }
+
+  return profile;
+}
+
+/**
+ * Read a utility profile from a .json, .yaml or .yml file
+ */
+export async function loadUtilityProfile(path: string): Promise<UtilityProfile> {
+  return loadDataFile(path, "utility profile", parseUtilityProfile);
+}
+
+/**
+ * Item names in a profile that aren't in the item data
+ */
+export function findUnknownProfileItems(profile: UtilityProfile, itemNames: Iterable<string>): string[] {
+  const names = new Set(itemNames);
+  const referenced = [
+    ...Object.keys(profile.itemCategories ?? {}),
+    ...Object.keys(profile.itemOverrides ?? {}),
+  ];
+  return [...new Set(referenced)].filter((name) => !names.has(name)).sort();
+}
+
+/**
+ * Check that every item a profile mentions exists, so a typo
+ * doesn't silently leave an item at its built-in value
+ */
+export function validateUtilityProfileItems(profile: UtilityProfile, itemNames: Iterable<string>): void {
+  const unknown = findUnknownProfileItems(profile, itemNames);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Utility profile references unknown items: ${unknown.join(", ")}. Use internal item names (e.g. force_staff).`
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { Item } from "../models/types";
+import { OpenDotaItem, isRecognizedAttribKey, parseOpenDotaItems } from "./fetchItems";
+import { mapValues } from "es-toolkit";
+
+/**
+ * Shape of a single entry in dotaconstants' build/items.json.
+ *
+ * Mostly the same as OpenDota's payload (which is generated from it),
+ * except attribute values can be per-level arrays. Older releases carry
+ * display header/footer text instead of a display template, and some
+ * ship empty attribute lists (see checkAttributeCoverage).
+ */
+export interface DotaconstantsItem extends Omit<OpenDotaItem, "attrib"> {
+  attrib?: Array<{
+    key: string;
+    value: string | string[];
+    header?: string;
+    footer?: string;
+    display?: string;
+    generated?: boolean;
+  }>;
+}
+
+/**
+ * Smallest share of priced items that must carry an attribute key the
+ * stat extractor recognizes. Real payloads are well above it (about
+ * two thirds); a file whose attributes were stripped or moved is not.
+ */
+export const MIN_ATTRIBUTE_COVERAGE = 0.1;
+
+/**
+ * Convert a dotaconstants entry to OpenDota's shape.
+ * Levelled values (e.g. Diffusal Blade 1/2) use the first level.
+ */
+function toOpenDotaItem(item: DotaconstantsItem): OpenDotaItem {
+  return {
+    ...item,
+    attrib: item.attrib?.map((attr) => ({
+      key: attr.key,
+      value: Array.isArray(attr.value) ? attr.value[0] ?? "0" : attr.value,
+    })),
+  };
+}
+
+/**
+ * Convert a dotaconstants items.json payload to OpenDota's shape
+ */
+export function toOpenDotaItems(
+  rawItems: Record<string, DotaconstantsItem>
+): Record<string, OpenDotaItem> {
+  return mapValues(rawItems, toOpenDotaItem);
+}
+
+/**
+ * Fail when too few priced items carry a recognized attribute key, which
+ * would leave nearly every item without stats and the stat valuation empty.
+ *
+ * @param rawItems - Payload in OpenDota's shape
+ * @param source - File the payload came from, for the error message
+ */
+export function checkAttributeCoverage(rawItems: Record<string, OpenDotaItem>, source: string): void {
+  const priced = Object.values(rawItems).filter((item) => (item.cost ?? 0) > 0);
+  const covered = priced.filter((item) => item.attrib?.some((attr) => isRecognizedAttribKey(attr.key)));
+  if (priced.length > 0 && covered.length < priced.length * MIN_ATTRIBUTE_COVERAGE) {
+    throw new Error(
+      `Only ${covered.length} of ${priced.length} priced items in ${source} have attribute keys the stat extractor ` +
+        `recognizes, so items would have no stats. Is it a dotaconstants build/items.json from a release that ships attributes (e.g. 10.8.0)?`
+    );
+  }
+}
+
+/**
+ * Parse a dotaconstants items.json payload into Items.
+ * Uses the same stat mapping and filters as the OpenDota parser.
+ */
+export function parseDotaconstantsItems(rawItems: Record<string, DotaconstantsItem>): Item[] {
+  return parseOpenDotaItems(toOpenDotaItems(rawItems));
+}
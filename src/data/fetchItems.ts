@@ -1,5 +1,12 @@
-import { Item, ItemStats } from "../models/types";
-import https from "https";
+import {
+  ConditionalStats,
+  DebuffStats,
+  Item,
+  ItemAbilityType,
+  ItemActive,
+  ItemStats,
+  PercentStats,
+} from "../models/types";
 
 const OPENDOTA_ITEMS_URL = "https://api.opendota.com/api/constants/items";
 
@@ -123,7 +130,10 @@ const REMOVED_ITEMS = new Set([
   "necronomicon_3",
 ]);
 
-interface OpenDotaItem {
+/**
+ * Shape of a single entry in OpenDota's /constants/items payload
+ */
+export interface OpenDotaItem {
   id: number;
   dname?: string;
   cost?: number;
@@ -131,16 +141,48 @@ interface OpenDotaItem {
   components?: string[] | null;
   tier?: number;
   charges?: boolean | number;
+  abilities?: Array<{ type: string; title: string; description: string }>;
+  /** Cooldown in seconds, or false if none */
+  cd?: number | false;
+  /** Mana cost, or false if none */
+  mc?: number | false;
 }
 
 /**
  * Keys that represent negative auras (affect enemies, not the holder)
+ * and carry no debuff amount
  */
 const NEGATIVE_AURA_KEYS = new Set([
-  "aura_negative_armor",
   "aura_negative_armor_radius",
 ]);
 
+/**
+ * Keys for reductions applied to enemies.
+ * Values may be negative in the API; the magnitude is stored.
+ */
+const DEBUFF_KEYS: Record<string, keyof DebuffStats> = {
+  aura_negative_armor: "armorReduction", // Assault Cuirass
+  corruption_armor: "armorReduction", // Desolator, Blight Stone, Orb of Corrosion
+  magic_resistance_reduction: "magicResistanceReduction",
+};
+
+/**
+ * Debuff keys that only apply while the item's active is up.
+ * They become a conditional bonus with an uptime of the item's
+ * `duration` over its cooldown (the configured conditional uptime when
+ * the duration is unknown). Items without a cooldown apply them on
+ * every hit, so they stay plain debuffs there.
+ */
+const ACTIVE_DEBUFF_KEYS: Record<string, keyof DebuffStats> = {
+  armor_reduction: "armorReduction", // Medallion of Courage
+  enemy_armor: "armorReduction", // Medallion of Courage (newer payloads)
+  target_armor: "armorReduction", // Solar Crest
+  active_mres_reduction: "magicResistanceReduction", // Devastator
+};
+
+/** Condition label for debuffs from ACTIVE_DEBUFF_KEYS */
+const ACTIVE_DEBUFF_CONDITION = "while active";
+
 /**
  * Keys that represent positive aura stats (benefit the whole team)
  * These get a multiplier since they affect ~2.5 heroes on average
@@ -167,17 +209,17 @@ const DEFAULT_AURA_MULTIPLIER = 1.0;
 /**
  * Keys that represent percentage-based bonuses (hero-dependent, not flat stats)
  */
-const PERCENTAGE_AURA_KEYS = new Set([
-  "damage_aura", // % bonus damage based on hero's base damage
-]);
+const PERCENTAGE_KEYS: Record<string, { stat: keyof PercentStats; aura: boolean }> = {
+  damage_aura: { stat: "baseDamage", aura: true }, // Vladmir's Offering
+};
 
 /**
  * Keys for conditional bonuses that only apply in special circumstances
  */
-const CONDITIONAL_BONUS_KEYS = new Set([
-  "aura_health_regen_bonus", // Guardian Greaves - only below 25% health
-  "aura_armor_bonus", // Guardian Greaves - only below 25% health
-]);
+const CONDITIONAL_BONUS_KEYS: Record<string, { stat: keyof ItemStats; condition: string; aura: boolean }> = {
+  aura_health_regen_bonus: { stat: "healthRegen", condition: "below 25% health", aura: true }, // Guardian Greaves
+  aura_armor_bonus: { stat: "armor", condition: "below 25% health", aura: true }, // Guardian Greaves
+};
 
 /**
  * Result of extracting stats from an item.
@@ -188,6 +230,36 @@ interface ExtractedStats {
   stats: ItemStats;
   /** Aura stats that affect nearby allies (can be multiplied for team value) */
   auraStats: ItemStats;
+  /** Percentage bonuses for the holder */
+  percentStats: PercentStats;
+  /** Percentage bonuses granted as an aura */
+  auraPercentStats: PercentStats;
+  /** Bonuses that only apply some of the time, grouped by condition */
+  conditionalStats: ConditionalStats[];
+  /** Reductions applied to enemies */
+  debuffStats: DebuffStats;
+}
+
+/**
+ * Keys that distribute their value to all three primary attributes
+ */
+const ALL_STATS_KEYS = new Set(["bonus_all_stats", "bonus_stats"]);
+
+/**
+ * Check whether extractStats knows an attribute key, either as a stat
+ * it maps (including debuffs) or one it deliberately skips.
+ * Anything else is silently dropped and worth auditing.
+ */
+export function isRecognizedAttribKey(key: string): boolean {
+  return (
+    Object.hasOwn(STAT_MAPPING, key) ||
+    ALL_STATS_KEYS.has(key) ||
+    NEGATIVE_AURA_KEYS.has(key) ||
+    Object.hasOwn(DEBUFF_KEYS, key) ||
+    Object.hasOwn(ACTIVE_DEBUFF_KEYS, key) ||
+    Object.hasOwn(PERCENTAGE_KEYS, key) ||
+    Object.hasOwn(CONDITIONAL_BONUS_KEYS, key)
+  );
 }
 
 /**
@@ -197,31 +269,80 @@ interface ExtractedStats {
 function extractStats(itemData: OpenDotaItem): ExtractedStats {
   const stats: ItemStats = {};
   const auraStats: ItemStats = {};
+  const percentStats: PercentStats = {};
+  const auraPercentStats: PercentStats = {};
+  const conditionalStats: ConditionalStats[] = [];
+  const debuffStats: DebuffStats = {};
 
   if (!itemData.attrib || !Array.isArray(itemData.attrib)) {
-    return { stats, auraStats };
+    return { stats, auraStats, percentStats, auraPercentStats, conditionalStats, debuffStats };
   }
 
+  const cooldown = typeof itemData.cd === "number" && itemData.cd > 0 ? itemData.cd : undefined;
+  const duration = parseFloat(itemData.attrib.find((attr) => attr.key === "duration")?.value ?? "") || 0;
+
   for (const attr of itemData.attrib) {
     const key = attr.key;
     const value = parseFloat(attr.value) || 0;
 
     if (value === 0) continue;
 
-    // Skip negative auras (they affect enemies, not the holder)
+    // Skip negative aura metadata (radius etc.)
     if (NEGATIVE_AURA_KEYS.has(key)) continue;
 
-    // Skip percentage-based auras (hero-dependent values)
-    if (PERCENTAGE_AURA_KEYS.has(key)) continue;
+    // Enemy debuffs go in their own bucket
+    if (Object.hasOwn(DEBUFF_KEYS, key)) {
+      const debuffKey = DEBUFF_KEYS[key];
+      debuffStats[debuffKey] = (debuffStats[debuffKey] || 0) + Math.abs(value);
+      continue;
+    }
+
+    // Active-only debuffs are valued by how long the active is up
+    if (Object.hasOwn(ACTIVE_DEBUFF_KEYS, key)) {
+      const debuffKey = ACTIVE_DEBUFF_KEYS[key];
+      if (cooldown === undefined) {
+        debuffStats[debuffKey] = (debuffStats[debuffKey] || 0) + Math.abs(value);
+        continue;
+      }
+      let entry = conditionalStats.find((c) => c.condition === ACTIVE_DEBUFF_CONDITION);
+      if (!entry) {
+        entry = {
+          stats: {},
+          condition: ACTIVE_DEBUFF_CONDITION,
+          ...(duration > 0 && { uptime: Math.min(1, duration / cooldown) }),
+        };
+        conditionalStats.push(entry);
+      }
+      const debuffs = (entry.debuffStats ??= {});
+      debuffs[debuffKey] = (debuffs[debuffKey] || 0) + Math.abs(value);
+      continue;
+    }
+
+    // Percentage-based bonuses (hero-dependent values, valued later)
+    if (Object.hasOwn(PERCENTAGE_KEYS, key)) {
+      const { stat, aura } = PERCENTAGE_KEYS[key];
+      const target = aura ? auraPercentStats : percentStats;
+      target[stat] = (target[stat] || 0) + value;
+      continue;
+    }
 
-    // Skip conditional bonuses (only apply in special circumstances)
-    if (CONDITIONAL_BONUS_KEYS.has(key)) continue;
+    // Conditional bonuses (only apply in special circumstances, valued by uptime)
+    if (Object.hasOwn(CONDITIONAL_BONUS_KEYS, key)) {
+      const { stat, condition, aura } = CONDITIONAL_BONUS_KEYS[key];
+      let entry = conditionalStats.find((c) => c.condition === condition && c.aura === aura);
+      if (!entry) {
+        entry = { stats: {}, condition, aura };
+        conditionalStats.push(entry);
+      }
+      entry.stats[stat] = (entry.stats[stat] || 0) + value;
+      continue;
+    }
 
     // Skip negative values for aura stats (e.g., enemy debuffs)
     if (key.includes("aura") && value < 0) continue;
 
     // Handle bonus_all_stats by distributing to individual attributes
-    if (key === "bonus_all_stats" || key === "bonus_stats") {
+    if (ALL_STATS_KEYS.has(key)) {
       stats.strength = (stats.strength || 0) + value;
       stats.agility = (stats.agility || 0) + value;
       stats.intelligence = (stats.intelligence || 0) + value;
@@ -236,63 +357,109 @@ function extractStats(itemData: OpenDotaItem): ExtractedStats {
     }
   }
 
-  return { stats, auraStats };
+  return { stats, auraStats, percentStats, auraPercentStats, conditionalStats, debuffStats };
+}
+
+/** Ability types a player triggers (everything else is passive) */
+const ACTIVE_ABILITY_TYPES = new Set(["active", "use", "toggle"]);
+
+/**
+ * Extract the item's active ability.
+ * Falls back to the first passive when the item has a cooldown
+ * (e.g. Aeon Disk's Combo Breaker), since that's what the cooldown gates.
+ */
+function extractActive(itemData: OpenDotaItem): ItemActive | undefined {
+  const abilities = itemData.abilities ?? [];
+  const cooldown = typeof itemData.cd === "number" && itemData.cd > 0 ? itemData.cd : undefined;
+  const manaCost = typeof itemData.mc === "number" && itemData.mc > 0 ? itemData.mc : undefined;
+
+  const ability =
+    abilities.find((a) => ACTIVE_ABILITY_TYPES.has(a.type)) ??
+    (cooldown !== undefined ? abilities[0] : undefined);
+  if (!ability) return undefined;
+
+  return {
+    name: ability.title,
+    type: ability.type as ItemAbilityType,
+    description: ability.description,
+    ...(cooldown !== undefined && { cooldown }),
+    ...(manaCost !== undefined && { manaCost }),
+  };
+}
+
+/**
+ * Parse a raw OpenDota /constants/items payload into Items.
+ * Drops unpriced, recipe and removed items. Neutral items are kept at
+ * cost 0 with their `neutralTier`.
+ * Attribute keys that aren't recognized are dropped; `chop-shop data-audit` lists them.
+ */
+export function parseOpenDotaItems(rawItems: Record<string, OpenDotaItem>): Item[] {
+  const items: Item[] = [];
+
+  for (const [itemId, itemData] of Object.entries(rawItems)) {
+    // Neutral items have a tier and no cost
+    const isNeutral = itemData.tier !== undefined && itemData.tier !== null;
+
+    // Skip items without cost
+    if (!isNeutral && (!itemData.cost || itemData.cost === 0)) continue;
+
+    // Skip recipe items
+    if (itemId.startsWith("recipe_")) continue;
+
+    // Skip removed items
+    if (REMOVED_ITEMS.has(itemId)) continue;
+
+    const { stats, auraStats, percentStats, auraPercentStats, conditionalStats, debuffStats } =
+      extractStats(itemData);
+    const active = extractActive(itemData);
+
+    items.push({
+      id: itemId,
+      name: itemId,
+      displayName: itemData.dname || itemId,
+      cost: isNeutral ? 0 : itemData.cost!,
+      stats,
+      auraStats,
+      ...(Object.keys(percentStats).length > 0 && { percentStats }),
+      ...(Object.keys(auraPercentStats).length > 0 && { auraPercentStats }),
+      ...(conditionalStats.length > 0 && { conditionalStats }),
+      ...(Object.keys(debuffStats).length > 0 && { debuffStats }),
+      ...(isNeutral && { neutralTier: itemData.tier! }),
+      ...(active && { active }),
+      isComponent: !itemData.components || itemData.components.length === 0,
+      isConsumable: CONSUMABLE_ITEMS.has(itemId) || itemData.charges === true,
+      components: itemData.components || [],
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Fetch the raw item payload from the OpenDota API
+ */
+export async function fetchRawItemsFromAPI(): Promise<Record<string, OpenDotaItem>> {
+  let response: Response;
+  try {
+    response = await fetch(OPENDOTA_ITEMS_URL);
+  } catch (err) {
+    throw new Error(`Failed to fetch from OpenDota API: ${err instanceof Error ? err.message : err}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch from OpenDota API: HTTP ${response.status}`);
+  }
+
+  try {
+    return (await response.json()) as Record<string, OpenDotaItem>;
+  } catch (err) {
+    throw new Error(`Failed to parse OpenDota API response: ${err}`);
+  }
 }
 
 /**
  * Fetch item data from OpenDota API
  */
 export async function fetchItemsFromAPI(): Promise<Item[]> {
-  return new Promise((resolve, reject) => {
-    https
-      .get(OPENDOTA_ITEMS_URL, (res) => {
-        let data = "";
-
-        res.on("data", (chunk) => {
-          data += chunk;
-        });
-
-        res.on("end", () => {
-          try {
-            const rawItems = JSON.parse(data) as Record<string, OpenDotaItem>;
-            const items: Item[] = [];
-
-            for (const [itemId, itemData] of Object.entries(rawItems)) {
-              // Skip items without cost
-              if (!itemData.cost || itemData.cost === 0) continue;
-
-              // Skip neutral items (they have tier property)
-              if (itemData.tier !== undefined && itemData.tier !== null) continue;
-
-              // Skip recipe items
-              if (itemId.startsWith("recipe_")) continue;
-
-              // Skip removed items
-              if (REMOVED_ITEMS.has(itemId)) continue;
-
-              const { stats, auraStats } = extractStats(itemData);
-
-              items.push({
-                id: itemId,
-                name: itemId,
-                displayName: itemData.dname || itemId,
-                cost: itemData.cost,
-                stats,
-                auraStats,
-                isComponent: !itemData.components || itemData.components.length === 0,
-                isConsumable: CONSUMABLE_ITEMS.has(itemId) || itemData.charges === true,
-                components: itemData.components || [],
-              });
-            }
-
-            resolve(items);
-          } catch (err) {
-            reject(new Error(`Failed to parse OpenDota API response: ${err}`));
-          }
-        });
-      })
-      .on("error", (err) => {
-        reject(new Error(`Failed to fetch from OpenDota API: ${err.message}`));
-      });
-  });
+  return parseOpenDotaItems(await fetchRawItemsFromAPI());
 }
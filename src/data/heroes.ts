@@ -0,0 +1,256 @@
+import { Hero, HeroAttributes, PrimaryAttribute } from "../models/types";
+import { readFile } from "fs/promises";
+
+/**
+ * Built-in heroes. Values follow recent patches but aren't fetched,
+ * so load a hero file for exact numbers on a new patch.
+ */
+export const HEROES: Hero[] = [
+  {
+    name: "gyrocopter",
+    displayName: "Gyrocopter",
+    primaryAttribute: "agility",
+    baseAttributes: { strength: 22, agility: 24, intelligence: 23 },
+    attributeGains: { strength: 2.1, agility: 3.1, intelligence: 2.1 },
+    baseDamage: 24,
+    baseArmor: 1,
+    baseAttackTime: 1.7,
+    attackRange: 365,
+    moveSpeed: 320,
+  },
+  {
+    name: "antimage",
+    displayName: "Anti-Mage",
+    primaryAttribute: "agility",
+    baseAttributes: { strength: 21, agility: 24, intelligence: 12 },
+    attributeGains: { strength: 1.6, agility: 2.8, intelligence: 1.8 },
+    baseDamage: 31,
+    baseArmor: 1,
+    baseAttackTime: 1.4,
+    attackRange: 150,
+    moveSpeed: 310,
+  },
+  {
+    name: "phantom_assassin",
+    displayName: "Phantom Assassin",
+    primaryAttribute: "agility",
+    baseAttributes: { strength: 21, agility: 23, intelligence: 15 },
+    attributeGains: { strength: 2.0, agility: 3.4, intelligence: 1.7 },
+    baseDamage: 25,
+    baseArmor: 1,
+    baseAttackTime: 1.7,
+    attackRange: 150,
+    moveSpeed: 310,
+  },
+  {
+    name: "drow_ranger",
+    displayName: "Drow Ranger",
+    primaryAttribute: "agility",
+    baseAttributes: { strength: 18, agility: 20, intelligence: 15 },
+    attributeGains: { strength: 1.9, agility: 2.9, intelligence: 1.4 },
+    baseDamage: 16,
+    baseArmor: -1,
+    baseAttackTime: 1.7,
+    attackRange: 625,
+    moveSpeed: 300,
+  },
+  {
+    name: "axe",
+    displayName: "Axe",
+    primaryAttribute: "strength",
+    baseAttributes: { strength: 25, agility: 20, intelligence: 18 },
+    attributeGains: { strength: 2.8, agility: 1.7, intelligence: 1.6 },
+    baseDamage: 29,
+    baseArmor: -1,
+    baseAttackTime: 1.7,
+    attackRange: 150,
+    moveSpeed: 310,
+  },
+  {
+    name: "sven",
+    displayName: "Sven",
+    primaryAttribute: "strength",
+    baseAttributes: { strength: 23, agility: 21, intelligence: 16 },
+    attributeGains: { strength: 3.2, agility: 2.0, intelligence: 1.3 },
+    baseDamage: 41,
+    baseArmor: 1,
+    baseAttackTime: 1.8,
+    attackRange: 150,
+    moveSpeed: 315,
+  },
+  {
+    name: "pudge",
+    displayName: "Pudge",
+    primaryAttribute: "strength",
+    baseAttributes: { strength: 25, agility: 14, intelligence: 16 },
+    attributeGains: { strength: 3.0, agility: 1.5, intelligence: 1.5 },
+    baseDamage: 42,
+    baseArmor: -1,
+    baseAttackTime: 1.7,
+    attackRange: 150,
+    moveSpeed: 285,
+  },
+  {
+    name: "crystal_maiden",
+    displayName: "Crystal Maiden",
+    primaryAttribute: "intelligence",
+    baseAttributes: { strength: 18, agility: 16, intelligence: 21 },
+    attributeGains: { strength: 2.2, agility: 1.6, intelligence: 3.3 },
+    baseDamage: 28,
+    baseArmor: 0,
+    baseAttackTime: 1.7,
+    attackRange: 600,
+    moveSpeed: 275,
+  },
+  {
+    name: "lion",
+    displayName: "Lion",
+    primaryAttribute: "intelligence",
+    baseAttributes: { strength: 18, agility: 15, intelligence: 22 },
+    attributeGains: { strength: 2.4, agility: 1.5, intelligence: 3.5 },
+    baseDamage: 27,
+    baseArmor: 0,
+    baseAttackTime: 1.7,
+    attackRange: 600,
+    moveSpeed: 290,
+  },
+  {
+    name: "lina",
+    displayName: "Lina",
+    primaryAttribute: "intelligence",
+    baseAttributes: { strength: 20, agility: 23, intelligence: 30 },
+    attributeGains: { strength: 2.2, agility: 2.3, intelligence: 3.8 },
+    baseDamage: 26,
+    baseArmor: 1,
+    baseAttackTime: 1.6,
+    attackRange: 670,
+    moveSpeed: 290,
+  },
+  {
+    name: "void_spirit",
+    displayName: "Void Spirit",
+    primaryAttribute: "universal",
+    baseAttributes: { strength: 22, agility: 19, intelligence: 24 },
+    attributeGains: { strength: 2.6, agility: 2.2, intelligence: 3.1 },
+    baseDamage: 28,
+    baseArmor: 0,
+    baseAttackTime: 1.7,
+    attackRange: 200,
+    moveSpeed: 300,
+  },
+  {
+    name: "windrunner",
+    displayName: "Windranger",
+    primaryAttribute: "universal",
+    baseAttributes: { strength: 18, agility: 17, intelligence: 22 },
+    attributeGains: { strength: 2.7, agility: 1.9, intelligence: 3.6 },
+    baseDamage: 29,
+    baseArmor: 0,
+    baseAttackTime: 1.5,
+    attackRange: 600,
+    moveSpeed: 290,
+  },
+];
+
+const PRIMARY_ATTRIBUTES: PrimaryAttribute[] = ["strength", "agility", "intelligence", "universal"];
+
+function normalizeHeroName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Find a built-in hero by internal or display name (case and punctuation insensitive)
+ */
+export function findHero(name: string, heroes: Hero[] = HEROES): Hero | undefined {
+  const wanted = normalizeHeroName(name.replace(/^npc_dota_hero_/, ""));
+  return heroes.find(
+    (hero) => normalizeHeroName(hero.name) === wanted || normalizeHeroName(hero.displayName) === wanted
+  );
+}
+
+function parseAttributes(raw: unknown, where: string): HeroAttributes {
+  const value = raw as Partial<HeroAttributes> | null;
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`${where} must be an object with strength, agility and intelligence`);
+  }
+  for (const attribute of ["strength", "agility", "intelligence"] as const) {
+    if (typeof value[attribute] !== "number" || value[attribute]! < 0) {
+      throw new Error(`${where}.${attribute} must be a non-negative number`);
+    }
+  }
+  return value as HeroAttributes;
+}
+
+/**
+ * Parse and validate a hero definition (e.g. from a hero file)
+ */
+export function parseHero(data: unknown): Hero {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Hero must be an object");
+  }
+
+  const entry = data as Record<string, unknown>;
+  if (typeof entry.name !== "string" || entry.name.length === 0) {
+    throw new Error("Hero name must be a non-empty string");
+  }
+  if (!PRIMARY_ATTRIBUTES.includes(entry.primaryAttribute as PrimaryAttribute)) {
+    throw new Error(`primaryAttribute must be one of ${PRIMARY_ATTRIBUTES.join(", ")} (${entry.name})`);
+  }
+  for (const field of ["baseDamage", "baseAttackTime", "attackRange", "moveSpeed"] as const) {
+    if (typeof entry[field] !== "number" || (entry[field] as number) < 0) {
+      throw new Error(`${field} must be a non-negative number (${entry.name})`);
+    }
+  }
+  if (typeof entry.baseArmor !== "number") {
+    throw new Error(`baseArmor must be a number (${entry.name})`);
+  }
+
+  return {
+    name: entry.name,
+    displayName: typeof entry.displayName === "string" ? entry.displayName : entry.name,
+    primaryAttribute: entry.primaryAttribute as PrimaryAttribute,
+    baseAttributes: parseAttributes(entry.baseAttributes, "baseAttributes"),
+    attributeGains: parseAttributes(entry.attributeGains, "attributeGains"),
+    baseDamage: entry.baseDamage as number,
+    baseArmor: entry.baseArmor,
+    baseAttackTime: entry.baseAttackTime as number,
+    attackRange: entry.attackRange as number,
+    moveSpeed: entry.moveSpeed as number,
+  };
+}
+
+/**
+ * Read and validate a hero file (a single hero as JSON)
+ */
+export async function loadHeroFile(path: string): Promise<Hero> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Failed to read hero from ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  try {
+    return parseHero(data);
+  } catch (err) {
+    throw new Error(`${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Resolve a --hero argument: a built-in hero name, or a path to a hero JSON file
+ */
+export async function resolveHero(nameOrPath: string): Promise<Hero> {
+  if (nameOrPath.toLowerCase().endsWith(".json")) {
+    return loadHeroFile(nameOrPath);
+  }
+
+  const hero = findHero(nameOrPath);
+  if (!hero) {
+    throw new Error(
+      `Unknown hero "${nameOrPath}". Known heroes: ${HEROES.map((h) => h.name).join(", ")} ` +
+        `(or pass a hero JSON file)`
+    );
+  }
+  return hero;
+}
@@ -1,2 +1,8 @@
 export * from "./fetchItems";
+export * from "./dotaconstants";
+export * from "./normalizedItems";
+export * from "./itemSnapshot";
+export * from "./snapshotStore";
+export * from "./itemDataSource";
 export * from "./ItemRepository";
+export * from "./heroes";
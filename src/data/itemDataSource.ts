@@ -0,0 +1,137 @@
+import { Item } from "../models/types";
+import { OpenDotaItem, parseOpenDotaItems } from "./fetchItems";
+import { DotaconstantsItem, checkAttributeCoverage, toOpenDotaItems } from "./dotaconstants";
+import { readNormalizedItemsFile } from "./normalizedItems";
+import { LoadItemsOptions, loadItemSnapshot } from "./itemSnapshot";
+import { readFile } from "fs/promises";
+
+/**
+ * Supported item data backends
+ */
+export type ItemSourceKind = "opendota" | "dotaconstants" | "json";
+
+/**
+ * All backend names, for CLI validation and help text
+ */
+export const ITEM_SOURCE_KINDS: readonly ItemSourceKind[] = ["opendota", "dotaconstants", "json"];
+
+/**
+ * A backend that produces parsed items.
+ * Implementations return every item they know about, including consumables;
+ * callers apply their own filtering.
+ */
+export interface ItemDataSource {
+  /** Backend kind */
+  readonly kind: ItemSourceKind;
+  /** Human-readable description for progress output */
+  readonly description: string;
+  /** Load all items */
+  load(): Promise<Item[]>;
+  /**
+   * Load the raw attribute data the items were parsed from, in OpenDota's
+   * shape. Only backends that parse upstream attributes provide this.
+   */
+  loadRaw?(): Promise<Record<string, OpenDotaItem>>;
+}
+
+/**
+ * Options for choosing and configuring an item data backend
+ */
+export interface ItemDataSourceOptions extends LoadItemsOptions {
+  /** Backend to use (default: "opendota") */
+  source?: ItemSourceKind;
+}
+
+/**
+ * OpenDota backend: the HTTP API with the local snapshot cache,
+ * or a saved OpenDota snapshot/raw payload when dataFile is set.
+ */
+export function openDotaSource(options: LoadItemsOptions = {}): ItemDataSource {
+  return {
+    kind: "opendota",
+    description: options.dataFile ?? "OpenDota API",
+    load: async () => (await loadItemSnapshot(options)).items,
+    loadRaw: async () => (await loadItemSnapshot(options)).raw,
+  };
+}
+
+/**
+ * dotaconstants backend: a build/items.json file from the dotaconstants package
+ */
+export function dotaconstantsFileSource(
+  path: string,
+  onProgress: (message: string) => void = () => {}
+): ItemDataSource {
+  const loadRaw = async (): Promise<Record<string, OpenDotaItem>> => {
+    onProgress(`Loading dotaconstants item data from ${path}...`);
+    let raw: Record<string, DotaconstantsItem>;
+    try {
+      raw = JSON.parse(await readFile(path, "utf-8"));
+    } catch (err) {
+      throw new Error(`Failed to read item data from ${path}: ${err instanceof Error ? err.message : err}`);
+    }
+    const converted = toOpenDotaItems(raw);
+    checkAttributeCoverage(converted, path);
+    return converted;
+  };
+
+  return {
+    kind: "dotaconstants",
+    description: path,
+    load: async () => parseOpenDotaItems(await loadRaw()),
+    loadRaw,
+  };
+}
+
+/**
+ * Normalized JSON backend: a file in our own format (see normalizedItems.ts)
+ */
+export function normalizedJsonSource(
+  path: string,
+  onProgress: (message: string) => void = () => {}
+): ItemDataSource {
+  return {
+    kind: "json",
+    description: path,
+    load: async () => {
+      onProgress(`Loading item data from ${path}...`);
+      const file = await readNormalizedItemsFile(path);
+      if (file.patch) {
+        onProgress(`Item data is pinned to patch ${file.patch}.`);
+      }
+      return file.items;
+    },
+  };
+}
+
+/**
+ * Check whether a string names a supported backend
+ */
+export function isItemSourceKind(value: string): value is ItemSourceKind {
+  return (ITEM_SOURCE_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Create the item data backend described by the options.
+ * File-based backends require dataFile.
+ */
+export function createItemDataSource(options: ItemDataSourceOptions = {}): ItemDataSource {
+  const { source = "opendota", ...loadOptions } = options;
+
+  switch (source) {
+    case "opendota":
+      return openDotaSource(loadOptions);
+    case "dotaconstants":
+    case "json":
+      if (!loadOptions.dataFile) {
+        throw new Error(`The "${source}" item source needs a data file (--data-file <path>)`);
+      }
+      return source === "dotaconstants"
+        ? dotaconstantsFileSource(loadOptions.dataFile, loadOptions.onProgress)
+        : normalizedJsonSource(loadOptions.dataFile, loadOptions.onProgress);
+    default:
+      throw new Error(
+        `Unknown item source "${source}". Expected one of: ${ITEM_SOURCE_KINDS.join(", ")}`
+      );
+  }
+}
@@ -0,0 +1,203 @@
+import { Item } from "../models/types";
+import { OpenDotaItem, fetchRawItemsFromAPI, parseOpenDotaItems } from "./fetchItems";
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { homedir } from "os";
+
+/**
+ * Default location of the local item snapshot cache
+ */
+export const DEFAULT_CACHE_FILE = join(homedir(), ".cache", "chop-shop", "items.json");
+
+/**
+ * Default time-to-live for the cache before it is refreshed from the API
+ */
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+
+/**
+ * A saved copy of the item data at a point in time.
+ */
+export interface ItemSnapshot {
+  /** ISO timestamp of when the raw payload was fetched */
+  fetchedAt: string;
+  /** Items parsed from the raw payload */
+  items: Item[];
+  /** Raw OpenDota /constants/items payload */
+  raw: Record<string, OpenDotaItem>;
+}
+
+/**
+ * Options for loading item data
+ */
+export interface LoadItemsOptions {
+  /**
+   * Load items from this file instead of the API or cache.
+   * Accepts either a snapshot written by this tool or a raw
+   * OpenDota payload (e.g. scripts/api-research/responses/opendota-items.json).
+   */
+  dataFile?: string;
+  /** Never hit the network; use dataFile or the existing cache */
+  offline?: boolean;
+  /** Cache file location (default: ~/.cache/chop-shop/items.json) */
+  cacheFile?: string;
+  /** Hours a cached snapshot stays fresh (default: 24, 0 = always refetch) */
+  cacheTtlHours?: number;
+  /** Callback for progress updates */
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * Create a snapshot from a raw OpenDota payload
+ */
+export function createSnapshot(
+  raw: Record<string, OpenDotaItem>,
+  fetchedAt: Date = new Date()
+): ItemSnapshot {
+  return {
+    fetchedAt: fetchedAt.toISOString(),
+    items: parseOpenDotaItems(raw),
+    raw,
+  };
+}
+
+/**
+ * Check whether a snapshot is younger than the given TTL
+ */
+export function isSnapshotFresh(
+  snapshot: ItemSnapshot,
+  ttlHours: number,
+  now: Date = new Date()
+): boolean {
+  const fetchedAt = Date.parse(snapshot.fetchedAt);
+  if (isNaN(fetchedAt)) return false;
+  return now.getTime() - fetchedAt < ttlHours * 60 * 60 * 1000;
+}
+
+/**
+ * Check whether parsed JSON is a snapshot (as opposed to a raw payload)
+ */
+function isSnapshotData(data: unknown): data is ItemSnapshot {
+  if (typeof data !== "object" || data === null) return false;
+  const candidate = data as Partial<ItemSnapshot>;
+  return typeof candidate.fetchedAt === "string" && Array.isArray(candidate.items);
+}
+
+/**
+ * Read a snapshot file.
+ *
+ * Raw OpenDota payloads are wrapped into a snapshot using the file's
+ * modification time as the fetch timestamp. When a snapshot carries its raw
+ * payload, items are re-parsed so extractor changes apply to old snapshots.
+ */
+export async function readSnapshotFile(path: string): Promise<ItemSnapshot> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Failed to read item data from ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  if (isSnapshotData(data)) {
+    return data.raw ? { ...data, items: parseOpenDotaItems(data.raw) } : data;
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`Unrecognized item data format in ${path}`);
+  }
+
+  const { mtime } = await stat(path);
+  return createSnapshot(data as Record<string, OpenDotaItem>, mtime);
+}
+
+/**
+ * Write a snapshot file, creating parent directories as needed
+ */
+export async function writeSnapshotFile(path: string, snapshot: ItemSnapshot): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(snapshot));
+}
+
+/**
+ * Read the cache file, returning null if it is missing or unreadable
+ */
+async function readCache(
+  cacheFile: string,
+  onProgress: (message: string) => void
+): Promise<ItemSnapshot | null> {
+  try {
+    return await readSnapshotFile(cacheFile);
+  } catch (err) {
+    // A missing cache is expected on first run; anything else is worth a note
+    if (!String(err).includes("ENOENT")) {
+      onProgress(`Ignoring unreadable item cache at ${cacheFile}.`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Load an item snapshot from a data file, the local cache, or the OpenDota API.
+ *
+ * Resolution order:
+ * 1. dataFile, if given
+ * 2. the cache, if younger than cacheTtlHours
+ * 3. the cache at any age, in offline mode
+ * 4. the API (the cache is refreshed; a stale cache is used if the fetch fails)
+ */
+export async function loadItemSnapshot(options: LoadItemsOptions = {}): Promise<ItemSnapshot> {
+  const {
+    dataFile,
+    offline = false,
+    cacheFile = DEFAULT_CACHE_FILE,
+    cacheTtlHours = DEFAULT_CACHE_TTL_HOURS,
+    onProgress = () => {},
+  } = options;
+
+  if (dataFile) {
+    onProgress(`Loading item data from ${dataFile}...`);
+    return readSnapshotFile(dataFile);
+  }
+
+  const cached = await readCache(cacheFile, onProgress);
+
+  if (cached && isSnapshotFresh(cached, cacheTtlHours)) {
+    onProgress(`Using cached item data from ${cached.fetchedAt}.`);
+    return cached;
+  }
+
+  if (offline) {
+    if (!cached) {
+      throw new Error(
+        `Offline mode needs --data-file or an existing item cache at ${cacheFile}`
+      );
+    }
+    onProgress(`Offline: using stale cached item data from ${cached.fetchedAt}.`);
+    return cached;
+  }
+
+  onProgress("Fetching item data from OpenDota API...");
+  let snapshot: ItemSnapshot;
+  try {
+    snapshot = createSnapshot(await fetchRawItemsFromAPI());
+  } catch (err) {
+    if (!cached) throw err;
+    onProgress(`${err instanceof Error ? err.message : err}; using stale cached item data from ${cached.fetchedAt}.`);
+    return cached;
+  }
+
+  try {
+    await writeSnapshotFile(cacheFile, snapshot);
+  } catch (err) {
+    onProgress(`Could not write item cache to ${cacheFile}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Load items from a data file, the local cache, or the OpenDota API.
+ * See loadItemSnapshot for the resolution order.
+ */
+export async function loadItems(options: LoadItemsOptions = {}): Promise<Item[]> {
+  return (await loadItemSnapshot(options)).items;
+}
@@ -0,0 +1,217 @@
+import { ConditionalStats, Item, ItemAbilityType, ItemActive, ItemStats } from "../models/types";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+/**
+ * Current version of the normalized item file format
+ */
+export const NORMALIZED_ITEMS_VERSION = 1;
+
+/**
+ * Our own item file format: already-parsed Items plus metadata.
+ *
+ * Independent of any upstream API shape, so a team can pin a
+ * known-good (or hand-corrected) data file per patch.
+ */
+export interface NormalizedItemsFile {
+  /** Format version (currently 1) */
+  version: number;
+  /** ISO timestamp of when the file was generated */
+  generatedAt: string;
+  /** Game patch the data belongs to, e.g. "7.37d" */
+  patch?: string;
+  /** Where the items originally came from, e.g. "opendota" */
+  source?: string;
+  /** Parsed items */
+  items: Item[];
+}
+
+/**
+ * Build a normalized item file from parsed items
+ */
+export function toNormalizedItemsFile(
+  items: Item[],
+  meta: { patch?: string; source?: string; generatedAt?: Date } = {}
+): NormalizedItemsFile {
+  return {
+    version: NORMALIZED_ITEMS_VERSION,
+    generatedAt: (meta.generatedAt ?? new Date()).toISOString(),
+    patch: meta.patch,
+    source: meta.source,
+    items,
+  };
+}
+
+const ITEM_ABILITY_TYPES: ItemAbilityType[] = ["active", "passive", "use", "toggle", "upgrade"];
+
+function isStatsObject(value: unknown): value is ItemStats {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "number")
+  );
+}
+
+/**
+ * Validate one conditional bonus of a normalized file entry
+ */
+function validateConditionalStats(raw: unknown, where: string, itemName: string): void {
+  const entry = raw as Partial<ConditionalStats> | null;
+  if (typeof entry !== "object" || entry === null) {
+    throw new Error(`${where} must be an object (${itemName})`);
+  }
+  if (!isStatsObject(entry.stats)) {
+    throw new Error(`${where}.stats must be an object of numbers (${itemName})`);
+  }
+  if (entry.debuffStats !== undefined && !isStatsObject(entry.debuffStats)) {
+    throw new Error(`${where}.debuffStats must be an object of numbers (${itemName})`);
+  }
+  if (typeof entry.condition !== "string") {
+    throw new Error(`${where}.condition must be a string (${itemName})`);
+  }
+  if (entry.uptime !== undefined && (typeof entry.uptime !== "number" || entry.uptime < 0 || entry.uptime > 1)) {
+    throw new Error(`${where}.uptime must be a number between 0 and 1 (${itemName})`);
+  }
+}
+
+/**
+ * Validate the active ability of a normalized file entry
+ */
+function validateActive(raw: unknown, where: string, itemName: string): void {
+  const entry = raw as Partial<ItemActive> | null;
+  if (typeof entry !== "object" || entry === null) {
+    throw new Error(`${where} must be an object (${itemName})`);
+  }
+  if (typeof entry.name !== "string" || typeof entry.type !== "string" || typeof entry.description !== "string") {
+    throw new Error(`${where} must have string name, type and description (${itemName})`);
+  }
+  if (!ITEM_ABILITY_TYPES.includes(entry.type)) {
+    throw new Error(`${where}.type must be one of ${ITEM_ABILITY_TYPES.join(", ")} (${itemName})`);
+  }
+  for (const field of ["cooldown", "manaCost"] as const) {
+    if (entry[field] !== undefined && (typeof entry[field] !== "number" || entry[field]! < 0)) {
+      throw new Error(`${where}.${field} must be a non-negative number (${itemName})`);
+    }
+  }
+}
+
+/**
+ * Validate one entry of a normalized file, filling optional fields.
+ * Only name, cost and stats are required so files can be hand-written.
+ */
+function validateItem(raw: unknown, index: number): Item {
+  const where = `items[${index}]`;
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.name !== "string" || entry.name.length === 0) {
+    throw new Error(`${where}.name must be a non-empty string`);
+  }
+  if (typeof entry.cost !== "number" || entry.cost < 0) {
+    throw new Error(`${where}.cost must be a non-negative number (${entry.name})`);
+  }
+  if (!isStatsObject(entry.stats)) {
+    throw new Error(`${where}.stats must be an object of numbers (${entry.name})`);
+  }
+  if (entry.auraStats !== undefined && !isStatsObject(entry.auraStats)) {
+    throw new Error(`${where}.auraStats must be an object of numbers (${entry.name})`);
+  }
+  if (
+    entry.components !== undefined &&
+    (!Array.isArray(entry.components) || !entry.components.every((c) => typeof c === "string"))
+  ) {
+    throw new Error(`${where}.components must be an array of item names (${entry.name})`);
+  }
+
+  for (const field of ["percentStats", "auraPercentStats"] as const) {
+    if (entry[field] !== undefined && !isStatsObject(entry[field])) {
+      throw new Error(`${where}.${field} must be an object of numbers (${entry.name})`);
+    }
+  }
+  if (entry.conditionalStats !== undefined) {
+    if (!Array.isArray(entry.conditionalStats)) {
+      throw new Error(`${where}.conditionalStats must be an array (${entry.name})`);
+    }
+    entry.conditionalStats.forEach((c, i) => validateConditionalStats(c, `${where}.conditionalStats[${i}]`, entry.name as string));
+  }
+  if (entry.neutralTier !== undefined && !(Number.isInteger(entry.neutralTier) && (entry.neutralTier as number) >= 1)) {
+    throw new Error(`${where}.neutralTier must be a positive integer (${entry.name})`);
+  }
+  if (entry.active !== undefined) {
+    validateActive(entry.active, `${where}.active`, entry.name);
+  }
+
+  const components = (entry.components as string[] | undefined) ?? [];
+
+  return {
+    ...(entry as Partial<Item>),
+    id: typeof entry.id === "string" ? entry.id : entry.name,
+    name: entry.name,
+    displayName: typeof entry.displayName === "string" ? entry.displayName : entry.name,
+    cost: entry.cost,
+    stats: entry.stats,
+    auraStats: (entry.auraStats as ItemStats | undefined) ?? {},
+    isComponent: typeof entry.isComponent === "boolean" ? entry.isComponent : components.length === 0,
+    isConsumable: entry.isConsumable === true,
+    components,
+  };
+}
+
+/**
+ * Parse and validate normalized item file contents
+ */
+export function parseNormalizedItemsFile(data: unknown): NormalizedItemsFile {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Normalized item file must be an object with an \"items\" array");
+  }
+
+  const file = data as Record<string, unknown>;
+  if (file.version !== NORMALIZED_ITEMS_VERSION) {
+    throw new Error(
+      `Unsupported normalized item file version ${String(file.version)} (expected ${NORMALIZED_ITEMS_VERSION})`
+    );
+  }
+  if (!Array.isArray(file.items)) {
+    throw new Error("Normalized item file must have an \"items\" array");
+  }
+
+  return {
+    version: file.version,
+    generatedAt: typeof file.generatedAt === "string" ? file.generatedAt : "",
+    patch: typeof file.patch === "string" ? file.patch : undefined,
+    source: typeof file.source === "string" ? file.source : undefined,
+    items: file.items.map(validateItem),
+  };
+}
+
+/**
+ * Read and validate a normalized item file
+ */
+export async function readNormalizedItemsFile(path: string): Promise<NormalizedItemsFile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Failed to read item data from ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  try {
+    return parseNormalizedItemsFile(data);
+  } catch (err) {
+    throw new Error(`${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Write a normalized item file, creating parent directories as needed
+ */
+export async function writeNormalizedItemsFile(
+  path: string,
+  file: NormalizedItemsFile
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(file, null, 2));
+}
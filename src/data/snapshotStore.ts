@@ -0,0 +1,141 @@
+import { Item } from "../models/types";
+import {
+  NormalizedItemsFile,
+  readNormalizedItemsFile,
+  toNormalizedItemsFile,
+  writeNormalizedItemsFile,
+} from "./normalizedItems";
+import { readdir } from "fs/promises";
+import { homedir } from "os";
+import { basename, join } from "path";
+
+/**
+ * Default directory for patch-tagged item snapshots
+ */
+export const DEFAULT_SNAPSHOT_DIR = join(homedir(), ".cache", "chop-shop", "snapshots");
+
+/**
+ * Allowed snapshot tags: patch versions ("7.37d") or dates ("2024-06-01")
+ */
+const TAG_PATTERN = /^[\w.-]+$/;
+
+/**
+ * A stored snapshot: its tag plus the normalized item file
+ */
+export interface TaggedSnapshot {
+  /** Patch or date tag, e.g. "7.37d" */
+  tag: string;
+  /** Path of the snapshot file */
+  path: string;
+  /** Normalized item file contents */
+  file: NormalizedItemsFile;
+}
+
+/**
+ * Summary of a stored snapshot, for listing
+ */
+export interface SnapshotInfo {
+  tag: string;
+  path: string;
+  generatedAt: string;
+  source?: string;
+  itemCount: number;
+}
+
+/**
+ * Default tag for a snapshot taken now: the current date (YYYY-MM-DD)
+ */
+export function defaultSnapshotTag(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Check that a tag is safe to use as a file name
+ */
+export function validateSnapshotTag(tag: string): string {
+  if (!TAG_PATTERN.test(tag)) {
+    throw new Error(
+      `Invalid snapshot tag "${tag}". Use letters, digits, ".", "-" or "_" (e.g. 7.37d or 2024-06-01)`
+    );
+  }
+  return tag;
+}
+
+/**
+ * Path of the snapshot file for a tag
+ */
+export function snapshotPath(tag: string, dir: string = DEFAULT_SNAPSHOT_DIR): string {
+  return join(dir, `${validateSnapshotTag(tag)}.json`);
+}
+
+/**
+ * Store items as a snapshot tagged with a patch or date.
+ * Overwrites any existing snapshot with the same tag.
+ */
+export async function saveTaggedSnapshot(
+  items: Item[],
+  tag: string,
+  options: { dir?: string; source?: string; generatedAt?: Date } = {}
+): Promise<TaggedSnapshot> {
+  const path = snapshotPath(tag, options.dir);
+  const file = toNormalizedItemsFile(items, {
+    patch: tag,
+    source: options.source,
+    generatedAt: options.generatedAt,
+  });
+  await writeNormalizedItemsFile(path, file);
+  return { tag, path, file };
+}
+
+/**
+ * List stored snapshots, oldest first
+ */
+export async function listTaggedSnapshots(
+  dir: string = DEFAULT_SNAPSHOT_DIR
+): Promise<SnapshotInfo[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (err) {
+    if (String(err).includes("ENOENT")) return [];
+    throw err;
+  }
+
+  const snapshots: SnapshotInfo[] = [];
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    const path = join(dir, name);
+    const file = await readNormalizedItemsFile(path);
+    snapshots.push({
+      tag: basename(name, ".json"),
+      path,
+      generatedAt: file.generatedAt,
+      source: file.source,
+      itemCount: file.items.length,
+    });
+  }
+
+  return snapshots.sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+}
+
+/**
+ * Load a snapshot by tag, or by path when the reference ends in ".json"
+ */
+export async function loadTaggedSnapshot(
+  ref: string,
+  dir: string = DEFAULT_SNAPSHOT_DIR
+): Promise<TaggedSnapshot> {
+  if (ref.endsWith(".json")) {
+    const file = await readNormalizedItemsFile(ref);
+    return { tag: file.patch ?? basename(ref, ".json"), path: ref, file };
+  }
+
+  const path = snapshotPath(ref, dir);
+  try {
+    return { tag: ref, path, file: await readNormalizedItemsFile(path) };
+  } catch (err) {
+    if (String(err).includes("ENOENT")) {
+      throw new Error(`No snapshot tagged "${ref}" in ${dir}. Save one with: chop-shop snapshot save ${ref}`);
+    }
+    throw err;
+  }
+}
@@ -16,8 +16,8 @@ async function main() {
   try {
     const allItems = await fetchItemsFromAPI();
     
-    // Filter out consumables
-    const items = allItems.filter((item) => !item.isConsumable);
+    // Filter out consumables and neutral items
+    const items = allItems.filter((item) => !item.isConsumable && item.neutralTier === undefined);
     console.log(`Loaded ${items.length} items.\n`);
 
     // Create shared ItemRepository for all analyses (memoizes expensive computations)
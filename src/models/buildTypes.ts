@@ -6,7 +6,7 @@
  * rather than at the individual item level.
  */
 
-import { Item, StatValuation } from "./types";
+import { Hero, Item, StatValuation, StatValuationProfile } from "./types";
 
 // ─────────────────────────────────────────────────────────────
 // Core Data Structures
@@ -37,6 +37,12 @@ export interface Loadout {
   
   /** Gold recovered from sold items */
   readonly soldRecovery: number;
+
+  /**
+   * Item in the neutral slot, if any.
+   * Its stats count toward totalStatValue but it never adds cost.
+   */
+  readonly neutral?: Item;
   
   /** 
    * Value of items currently held (Inventory + Backpack).
@@ -63,6 +69,20 @@ export interface Loadout {
    */
   readonly leftoverComponents?: readonly Item[];
   
+  /**
+   * Sold items that were bought for this loadout and sold back within the
+   * refund window, so soldRecovery counts their full cost.
+   */
+  readonly refundedItems?: readonly Item[];
+  
+  /**
+   * Gold held in leftover base components that aren't part of an assembled
+   * item (inventory and backpack). It adds no stats until assembled, and
+   * sells for only part of its cost if buyback gold runs short. Leftover
+   * items held whole are not counted.
+   */
+  readonly goldAtRisk?: number;
+  
   /**
    * Total cost including leftover components.
    * This is what the player has actually spent to reach this stage.
@@ -75,14 +95,17 @@ export interface Loadout {
  * Pool of components available for building the next stage.
  * 
  * When transitioning between stages:
- * 1. All items from the previous stage are disassembled
- * 2. Recipes are sold (100% recovery - Gyro's innate)
- * 3. All base components become available for the next stage
+ * 1. Items from the previous stage are disassembled, where the economy policy allows
+ * 2. Recipes are sold (at the policy's recipe recovery rate, 100% for Gyro's innate)
+ * 3. All base components, and the items that stay whole, become available for the next stage
  * 
  * The next stage MUST use all these components (no waste allowed).
  */
 export interface ComponentPool {
-  /** Base component names available (with duplicates for items needing 2x of something) */
+  /**
+   * Base component names available (with duplicates for items needing 2x of something),
+   * plus the names of items that couldn't be disassembled
+   */
   readonly components: readonly string[];
   /** Count of each component */
   readonly componentCounts: Readonly<Record<string, number>>;
@@ -90,6 +113,10 @@ export interface ComponentPool {
   readonly totalValue: number;
   /** Gold recovered from selling recipes */
   readonly recipeRecovery: number;
+  /** Items that were disassembled (rebuilding one keeps it, only forgoing its recipe refund) */
+  readonly disassembledItems?: readonly string[];
+  /** Items held whole because they can't be disassembled (also in components) */
+  readonly intactItems?: readonly string[];
 }
 
 /**
@@ -109,7 +136,7 @@ export interface ComponentFlow {
   readonly wastedGold: number;
   /** Gold value of acquired components (base components only) */
   readonly acquiredGold: number;
-  /** Recipe costs recovered from disassembling "from" items (Gyro innate: 100% recovery) */
+  /** Recipe costs recovered from disassembling "from" items, or kept in items carried over whole */
   readonly recoveredRecipeCost: number;
   /** Recipe costs needed to build "to" items */
   readonly targetRecipeCost: number;
@@ -132,6 +159,8 @@ export interface LoadoutTransition {
   readonly costDelta: number;
   /** Analysis of component flow between loadouts */
   readonly componentFlow: ComponentFlow;
+  /** Whether the target loadout sells purchases back within the refund window */
+  readonly usesRefundWindow?: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -341,6 +370,24 @@ export interface BuildStage {
   readonly costThreshold: number;
   /** Transition from previous stage (null for initial stage) */
   readonly transition: LoadoutTransition | null;
+  /** Gold held back from the budget for buyback and deaths, if any */
+  readonly goldReserve?: StageGoldReserve;
+}
+
+/**
+ * Gold kept for buyback: a flat amount, the current net worth formula,
+ * or the older level-based formula
+ */
+export type BuybackReserve = number | "netWorth" | "level";
+
+/**
+ * Gold a stage holds back from its budget
+ */
+export interface StageGoldReserve {
+  /** Gold kept to buy back */
+  readonly buyback: number;
+  /** Gold expected to be lost to deaths while farming the stage */
+  readonly deathLoss: number;
 }
 
 /**
@@ -553,6 +600,38 @@ export interface StageDefinition {
    * Default: inherits from global includeComponentItems option (typically true).
    */
   readonly allowRawComponents?: boolean;
+
+  /**
+   * Expected neutral item tier at this stage (1-5).
+   * The best neutral item of this tier fills the neutral slot.
+   * Default: no neutral item.
+   */
+  readonly neutralTier?: number;
+
+  /**
+   * Expected hero level at this stage (1-30).
+   * Stat valuation is weighted for this level (regen early, damage late).
+   * Default: derived from maxCost when levelScaling is on, otherwise unweighted.
+   */
+  readonly heroLevel?: number;
+
+  /**
+   * Game minute this stage is planned for (e.g. 18 for "BKB by 18:00").
+   * resolveStageTimings sets maxCost to the expected net worth at that minute.
+   */
+  readonly atMinute?: number;
+
+  /**
+   * Gold kept for buyback at this stage; it comes off the budget for new
+   * purchases. Default: the global buybackReserve from the second stage on.
+   */
+  readonly buybackReserve?: BuybackReserve;
+
+  /**
+   * Expected deaths while farming this stage; the gold they lose comes off
+   * the budget. Default: the global expectedDeaths from the second stage on.
+   */
+  readonly expectedDeaths?: number;
 }
 
 /**
@@ -615,6 +694,36 @@ export interface BuildProgressionOptions {
   /** Stat valuations for scoring */
   readonly statValuation?: StatValuation;
 
+  /**
+   * Hero being built for. Attributes are re-derived from level-weighted
+   * stats, and percentage damage bonuses use the hero's damage at each stage's level.
+   */
+  readonly hero?: Hero;
+
+  /**
+   * Derive a hero level from each stage's maxCost (via the gold/level curve)
+   * for stages without a heroLevel. Default: false
+   */
+  readonly levelScaling?: boolean;
+
+  /**
+   * Valuation profile statValuation was built with, re-applied to each
+   * stage's level-weighted valuation so its values and attribute multipliers hold
+   */
+  readonly valuationProfile?: StatValuationProfile;
+
+  /**
+   * Gold kept for buyback at each stage after the first, unless the stage
+   * sets its own. Default: none
+   */
+  readonly buybackReserve?: BuybackReserve;
+
+  /**
+   * Expected deaths per stage after the first, unless the stage sets its
+   * own. Each loses 50 + net worth / 40 gold. Default: 0
+   */
+  readonly expectedDeaths?: number;
+
   /**
    * Multiplier for aura stats to account for team-wide benefit.
    * 1.0 = solo, 2.5 = average teamfight, 5.0 = full team.
@@ -634,6 +743,12 @@ export interface BuildProgressionOptions {
   /** Number of backpack slots (default: 3) */
   readonly backpackSlots?: number;
 
+  /**
+   * Neutral items for stages with a neutralTier.
+   * Default: the neutral items in the analyzed item list.
+   */
+  readonly neutralItems?: readonly Item[];
+
   /**
    * Callback for receiving progress updates during analysis.
    *
@@ -25,6 +25,71 @@ export interface ItemStats {
   statusResistance?: number;
 }
 
+/**
+ * Reductions applied to enemies (negative auras, corruption, etc.).
+ * Stored as positive amounts: armorReduction 5 = -5 enemy armor.
+ */
+export interface DebuffStats {
+  /** Enemy armor reduction */
+  armorReduction?: number;
+  /** Enemy magic resistance reduction (percentage points) */
+  magicResistanceReduction?: number;
+}
+
+/**
+ * Ability hint type from the item data
+ */
+export type ItemAbilityType = "active" | "passive" | "use" | "toggle" | "upgrade";
+
+/**
+ * An item's active (or cooldown-gated passive) ability
+ */
+export interface ItemActive {
+  /** Ability title, e.g. "Force" */
+  name: string;
+  type: ItemAbilityType;
+  description: string;
+  /** Cooldown in seconds */
+  cooldown?: number;
+  manaCost?: number;
+}
+
+/**
+ * Gold value of 1 point of each enemy debuff
+ */
+export type EnemyStatValuation = {
+  [K in keyof DebuffStats]: number;
+};
+
+/**
+ * Percentage bonuses whose flat value depends on the hero
+ */
+export interface PercentStats {
+  /** % bonus to the hero's base damage (e.g. Vladmir's Offering) */
+  baseDamage?: number;
+}
+
+/**
+ * Stats that only apply while a condition holds
+ * (e.g. Guardian Greaves' bonus armor and regen below 25% health,
+ * or Medallion of Courage's armor reduction while its active is up)
+ */
+export interface ConditionalStats {
+  /** Stats granted while the condition holds */
+  stats: ItemStats;
+  /** Enemy debuffs applied while the condition holds */
+  debuffStats?: DebuffStats;
+  /** Short description of the condition, e.g. "below 25% health" */
+  condition: string;
+  /** Whether the bonus is an aura (scaled by the aura multiplier) */
+  aura?: boolean;
+  /**
+   * Fraction of time the bonus is active (0-1).
+   * Defaults to thresholds.conditionalUptime in AnalysisConfig.
+   */
+  uptime?: number;
+}
+
 /**
  * Represents a Dota 2 item
  */
@@ -41,11 +106,62 @@ export interface Item {
    * based on expected team presence in fights.
    */
   auraStats: ItemStats;
+  /** Percentage bonuses for the holder, valued from hero base stats */
+  percentStats?: PercentStats;
+  /** Percentage bonuses granted as an aura */
+  auraPercentStats?: PercentStats;
+  /** Bonuses that only apply some of the time */
+  conditionalStats?: ConditionalStats[];
+  /** Reductions applied to enemies, valued with an enemy stat valuation */
+  debuffStats?: DebuffStats;
+  /**
+   * Neutral item tier (1-5). Neutral items drop from creeps instead of
+   * being bought, so they're left out of purchasable pools and never add cost.
+   */
+  neutralTier?: number;
+  /** Active ability metadata, used to scale utility value by cooldown */
+  active?: ItemActive;
   isComponent: boolean;
   isConsumable: boolean;
   components: string[];
 }
 
+/**
+ * Hero primary attribute. Universal heroes get damage from all three attributes.
+ */
+export type PrimaryAttribute = "strength" | "agility" | "intelligence" | "universal";
+
+/**
+ * Strength, agility and intelligence amounts
+ */
+export interface HeroAttributes {
+  strength: number;
+  agility: number;
+  intelligence: number;
+}
+
+/**
+ * A hero's base stats, used to value items for that hero
+ */
+export interface Hero {
+  /** Internal name, e.g. "gyrocopter" */
+  name: string;
+  displayName: string;
+  primaryAttribute: PrimaryAttribute;
+  /** Attributes at level 1 */
+  baseAttributes: HeroAttributes;
+  /** Attributes gained per level */
+  attributeGains: HeroAttributes;
+  /** Average base attack damage, before attribute damage */
+  baseDamage: number;
+  /** Armor before agility */
+  baseArmor: number;
+  /** Base attack time in seconds */
+  baseAttackTime: number;
+  attackRange: number;
+  moveSpeed: number;
+}
+
 /**
  * Gold cost per 1 unit of each stat type
  */
@@ -53,6 +169,18 @@ export type StatValuation = {
   [K in keyof ItemStats]: number;
 };
 
+/**
+ * Adjustment of the computed stat valuation for a hero or role.
+ * A stat may appear in values or multipliers, not both.
+ */
+export interface StatValuationProfile {
+  description?: string;
+  /** Gold per point replacing the computed value */
+  values?: StatValuation;
+  /** Factors applied to the computed gold per point */
+  multipliers?: StatValuation;
+}
+
 /**
  * Result of efficiency calculation for an item
  */
@@ -68,4 +196,11 @@ export interface EfficiencyResult {
     amount: number;
     goldValue: number;
   }[];
+  /** Part of totalStatValue that comes from enemy debuffs */
+  debuffValue: number;
+  debuffBreakdown: {
+    stat: keyof DebuffStats;
+    amount: number;
+    goldValue: number;
+  }[];
 }
@@ -0,0 +1,107 @@
+/**
+ * Data Audit Display Module
+ *
+ * Formatting functions for the item data audit: unmapped
+ * attribute keys, items without stats, and value outliers.
+ */
+
+import { EmptyStatItem, UnmappedAttribute, ValueOutlier } from "../calculators/dataAudit";
+
+// ─────────────────────────────────────────────────────────────
+// Unmapped Attributes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format unmapped attribute keys with the items and values using them
+ */
+export function formatUnmappedAttributes(
+  attributes: UnmappedAttribute[],
+  itemsPerKey: number = 5
+): string {
+  if (attributes.length === 0) return "  Every attribute key is recognized.";
+
+  const lines: string[] = [];
+
+  for (const attr of attributes) {
+    const count = attr.items.length;
+    lines.push(`${attr.key} (${count} item${count === 1 ? "" : "s"})`);
+
+    for (const { displayName, value } of attr.items.slice(0, itemsPerKey)) {
+      lines.push(`    ${displayName.padEnd(28)} ${value}`);
+    }
+    if (count > itemsPerKey) {
+      lines.push(`    ... and ${count - itemsPerKey} more`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Items Without Stats
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format priced items that have no extracted stats
+ */
+export function formatEmptyStatItems(items: EmptyStatItem[]): string {
+  if (items.length === 0) return "  No priced items without stats.";
+
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(30) + "┐");
+  lines.push("│ " + "Item".padEnd(28) + " │ " + "Cost".padStart(8) + " │ " + "Utility".padEnd(28) + " │");
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(30) + "┤");
+
+  for (const { item, utility } of items) {
+    const name = item.displayName.substring(0, 28).padEnd(28);
+    const cost = item.cost.toString().padStart(8);
+    const util = utility.substring(0, 28).padEnd(28);
+
+    lines.push(`│ ${name} │ ${cost} │ ${util} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(30) + "┘");
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Value Outliers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format items whose stat value is far from their cost
+ */
+export function formatValueOutliers(outliers: ValueOutlier[]): string {
+  if (outliers.length === 0) return "  No value outliers.";
+
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(14) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Cost".padStart(8) +
+      " │ " +
+      "Stat Value".padStart(12) +
+      " │ " +
+      "Ratio".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(14) + "┼" + "─".repeat(10) + "┤");
+
+  for (const { item, statValue, ratio } of outliers) {
+    const name = item.displayName.substring(0, 28).padEnd(28);
+    const cost = item.cost.toString().padStart(8);
+    const value = statValue.toFixed(0).padStart(12);
+    const ratioStr = ratio.toFixed(2).padStart(8);
+
+    lines.push(`│ ${name} │ ${cost} │ ${value} │ ${ratioStr} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(14) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
@@ -7,9 +7,15 @@
  * 
  * Module Structure:
  * - tables.ts: Generic table utilities, text formatting, box characters
- * - efficiency.ts: Item efficiency, stat valuations, disassemble analysis
+ * - efficiency.ts: Item efficiency, stat valuations, valuation residuals, enemy debuffs, disassemble analysis
  * - transitions.ts: Build transitions, early combos, boot trios
  * - reachability.ts: Late-game reachability, orphan components, key items
+ * - patchDiff.ts: Item, valuation, ranking and recipe changes between snapshots
+ * - dataAudit.ts: Unmapped attribute keys, items without stats, value outliers
+ * - sensitivity.ts: Recommendation stability and break-even valuations
+ * - robustRanking.ts: Top-K probabilities and expected ranks under uncertain valuations
+ * - pareto.ts: Cost versus value frontier of items and loadouts, dominated items
+ * - shoppingList.ts: Ordered buy, disassemble, sell and assemble steps per transition
  */
 
 // ─────────────────────────────────────────────────────────────
@@ -39,6 +45,9 @@ export type { SimpleTableOptions } from "./tables";
 export {
   formatEfficiencyTable,
   formatStatValuations,
+  formatValuationResiduals,
+  formatEnemyStatValuation,
+  formatDebuffTable,
   formatValueRankingTable,
   formatDisassembleTable,
   formatDisassembleDetails,
@@ -70,3 +79,60 @@ export {
   formatKeyUtilityItems,
   formatKeyUtilityTable,
 } from "./reachability";
+
+// ─────────────────────────────────────────────────────────────
+// Patch Diff Display
+// ─────────────────────────────────────────────────────────────
+
+export {
+  formatItemChanges,
+  formatValuationChanges,
+  formatRankingChanges,
+  formatRecipeCostChanges,
+} from "./patchDiff";
+
+// ─────────────────────────────────────────────────────────────
+// Data Audit Display
+// ─────────────────────────────────────────────────────────────
+
+export {
+  formatUnmappedAttributes,
+  formatEmptyStatItems,
+  formatValueOutliers,
+} from "./dataAudit";
+
+// ─────────────────────────────────────────────────────────────
+// Sensitivity Display
+// ─────────────────────────────────────────────────────────────
+
+export {
+  formatItemStability,
+  formatParameterSensitivity,
+  formatProgressionSensitivity,
+} from "./sensitivity";
+
+// ─────────────────────────────────────────────────────────────
+// Robust Ranking Display
+// ─────────────────────────────────────────────────────────────
+
+export {
+  formatRobustPicks,
+  formatRobustItemTable,
+  formatRobustProgressionTable,
+} from "./robustRanking";
+
+// ─────────────────────────────────────────────────────────────
+// Pareto Display
+// ─────────────────────────────────────────────────────────────
+
+export {
+  formatParetoFrontierTable,
+  formatDominatedItemsTable,
+  formatLoadoutParetoTable,
+} from "./pareto";
+
+// ─────────────────────────────────────────────────────────────
+// Shopping List Display
+// ─────────────────────────────────────────────────────────────
+
+export { formatShoppingList } from "./shoppingList";
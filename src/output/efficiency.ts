@@ -5,8 +5,9 @@
  * stat valuations, and value rankings.
  */
 
-import { EfficiencyResult, StatValuation } from "../models/types";
+import { EfficiencyResult, EnemyStatValuation, StatValuation } from "../models/types";
 import { ValueRankingResult } from "../calculators/efficiency";
+import { ValuationResidual } from "../calculators/regressionValuation";
 
 // ─────────────────────────────────────────────────────────────
 // Efficiency Tables
@@ -54,26 +55,152 @@ export function formatEfficiencyTable(results: EfficiencyResult[]): string {
 // ─────────────────────────────────────────────────────────────
 
 /**
- * Format stat valuations for display
+ * Format stat valuations for display.
+ * With the valuation a profile was applied to, also shows the
+ * computed value and how far the profile moved it.
  */
-export function formatStatValuations(valuation: StatValuation): string {
+export function formatStatValuations(valuation: StatValuation, unprofiled?: StatValuation): string {
   const lines: string[] = [];
 
-  lines.push("┌" + "─".repeat(24) + "┬" + "─".repeat(16) + "┐");
-  lines.push("│ " + "Stat".padEnd(22) + " │ " + "Gold per Point".padStart(14) + " │");
-  lines.push("├" + "─".repeat(24) + "┼" + "─".repeat(16) + "┤");
-
   const sortedStats = Object.entries(valuation)
     .filter(([, value]) => value !== undefined && value > 0)
     .sort(([, a], [, b]) => b - a);
 
+  if (!unprofiled) {
+    lines.push("┌" + "─".repeat(24) + "┬" + "─".repeat(16) + "┐");
+    lines.push("│ " + "Stat".padEnd(22) + " │ " + "Gold per Point".padStart(14) + " │");
+    lines.push("├" + "─".repeat(24) + "┼" + "─".repeat(16) + "┤");
+
+    for (const [stat, goldPerPoint] of sortedStats) {
+      lines.push(
+        "│ " + stat.padEnd(22) + " │ " + goldPerPoint.toFixed(2).padStart(14) + " │"
+      );
+    }
+
+    lines.push("└" + "─".repeat(24) + "┴" + "─".repeat(16) + "┘");
+    return lines.join("\n");
+  }
+
+  lines.push("┌" + "─".repeat(24) + "┬" + "─".repeat(16) + "┬" + "─".repeat(12) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Stat".padEnd(22) +
+      " │ " +
+      "Gold per Point".padStart(14) +
+      " │ " +
+      "Computed".padStart(10) +
+      " │ " +
+      "Change".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(24) + "┼" + "─".repeat(16) + "┼" + "─".repeat(12) + "┼" + "─".repeat(10) + "┤");
+
   for (const [stat, goldPerPoint] of sortedStats) {
+    const computed = unprofiled[stat as keyof StatValuation];
+    const computedStr = computed !== undefined ? computed.toFixed(2) : "-";
+    const change = computed === undefined || computed === 0
+      ? "new"
+      : Math.abs(goldPerPoint - computed) < 0.005
+        ? "-"
+        : "x" + (goldPerPoint / computed).toFixed(2);
+
     lines.push(
-      "│ " + stat.padEnd(22) + " │ " + goldPerPoint.toFixed(2).padStart(14) + " │"
+      `│ ${stat.padEnd(22)} │ ${goldPerPoint.toFixed(2).padStart(14)} │ ${computedStr.padStart(10)} │ ${change.padStart(8)} │`
     );
   }
 
-  lines.push("└" + "─".repeat(24) + "┴" + "─".repeat(16) + "┘");
+  lines.push("└" + "─".repeat(24) + "┴" + "─".repeat(16) + "┴" + "─".repeat(12) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
+
+/**
+ * Format item costs against the cost a stat valuation predicts.
+ * Positive residuals are items priced above their stats.
+ */
+export function formatValuationResiduals(residuals: ValuationResidual[]): string {
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(12) + "┬" + "─".repeat(12) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Cost".padStart(8) +
+      " │ " +
+      "Predicted".padStart(10) +
+      " │ " +
+      "Residual".padStart(10) +
+      " │ " +
+      "Fit".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(12) + "┼" + "─".repeat(12) + "┼" + "─".repeat(10) + "┤");
+
+  for (const { item, predictedCost, residual, ratio } of residuals) {
+    const name = item.displayName.substring(0, 28).padEnd(28);
+    const cost = item.cost.toString().padStart(8);
+    const predicted = predictedCost.toFixed(0).padStart(10);
+    const signed = (residual > 0 ? "+" : "") + residual.toFixed(0);
+    const fit = (ratio * 100).toFixed(0) + "%";
+
+    lines.push(`│ ${name} │ ${cost} │ ${predicted} │ ${signed.padStart(10)} │ ${fit.padStart(8)} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(12) + "┴" + "─".repeat(12) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Enemy Debuffs
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format the gold value of enemy debuffs on one line
+ */
+export function formatEnemyStatValuation(valuation: EnemyStatValuation): string {
+  return Object.entries(valuation)
+    .map(([stat, goldPerPoint]) => `${stat}: ${goldPerPoint.toFixed(2)}g`)
+    .join(", ");
+}
+
+/**
+ * Format items with enemy debuffs, showing how much of their
+ * stat value comes from the debuffs
+ */
+export function formatDebuffTable(results: EfficiencyResult[]): string {
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(14) + "┬" + "─".repeat(14) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Cost".padStart(8) +
+      " │ " +
+      "Stat Value".padStart(12) +
+      " │ " +
+      "Debuff Value".padStart(12) +
+      " │ " +
+      "Share".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(14) + "┼" + "─".repeat(14) + "┼" + "─".repeat(10) + "┤");
+
+  for (const result of results) {
+    const name = result.item.displayName.substring(0, 28).padEnd(28);
+    const cost = result.item.cost.toString().padStart(8);
+    const statValue = result.totalStatValue.toFixed(0).padStart(12);
+    const debuffValue = result.debuffValue.toFixed(0).padStart(12);
+    const share = result.totalStatValue > 0
+      ? ((result.debuffValue / result.totalStatValue) * 100).toFixed(0) + "%"
+      : "-";
+
+    lines.push(`│ ${name} │ ${cost} │ ${statValue} │ ${debuffValue} │ ${share.padStart(8)} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(14) + "┴" + "─".repeat(14) + "┴" + "─".repeat(10) + "┘");
 
   return lines.join("\n");
 }
@@ -0,0 +1,136 @@
+/**
+ * Pareto Display Module
+ *
+ * Formatting functions for the cost versus value frontier of items and
+ * loadouts, and for the items each dominated item loses to.
+ */
+
+import { Item } from "../models/types";
+import { DominatedPoint, ParetoPoint } from "../calculators/pareto";
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function valuePerGold(point: ParetoPoint<unknown>): string {
+  return ((point.statValue + point.utilityValue) / point.cost).toFixed(2);
+}
+
+function loadoutName(items: readonly Item[]): string {
+  return items.map((item) => item.displayName).join(" + ");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Items
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format the non-dominated items, cheapest first
+ */
+export function formatParetoFrontierTable(frontier: ParetoPoint<Item>[]): string {
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(14) + "┬" + "─".repeat(12) + "┬" + "─".repeat(12) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Cost".padStart(8) +
+      " │ " +
+      "Stat Value".padStart(12) +
+      " │ " +
+      "Utility".padStart(10) +
+      " │ " +
+      "Value/Gold".padStart(10) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(14) + "┼" + "─".repeat(12) + "┼" + "─".repeat(12) + "┤");
+
+  for (const point of frontier) {
+    const name = point.candidate.displayName.substring(0, 28).padEnd(28);
+    lines.push(
+      `│ ${name} │ ${point.cost.toString().padStart(8)} │ ${point.statValue.toFixed(0).padStart(12)} │ ${point.utilityValue.toFixed(0).padStart(10)} │ ${valuePerGold(point).padStart(10)} │`
+    );
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(14) + "┴" + "─".repeat(12) + "┴" + "─".repeat(12) + "┘");
+
+  return lines.join("\n");
+}
+
+/**
+ * Format dominated items next to the frontier item that beats them
+ */
+export function formatDominatedItemsTable(dominated: DominatedPoint<Item>[]): string {
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(14) + "┬" + "─".repeat(12) + "┬" + "─".repeat(30) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Cost".padStart(8) +
+      " │ " +
+      "Stat Value".padStart(12) +
+      " │ " +
+      "Utility".padStart(10) +
+      " │ " +
+      "Dominated By".padEnd(28) +
+      " │ " +
+      "Its Cost".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(14) + "┼" + "─".repeat(12) + "┼" + "─".repeat(30) + "┼" + "─".repeat(10) + "┤");
+
+  for (const { point, dominatedBy } of dominated) {
+    const name = point.candidate.displayName.substring(0, 28).padEnd(28);
+    const by = dominatedBy.candidate.displayName.substring(0, 28).padEnd(28);
+    lines.push(
+      `│ ${name} │ ${point.cost.toString().padStart(8)} │ ${point.statValue.toFixed(0).padStart(12)} │ ${point.utilityValue.toFixed(0).padStart(10)} │ ${by} │ ${dominatedBy.cost.toString().padStart(8)} │`
+    );
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(14) + "┴" + "─".repeat(12) + "┴" + "─".repeat(30) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Loadouts
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format the non-dominated loadouts, cheapest first
+ */
+export function formatLoadoutParetoTable(frontier: ParetoPoint<Item[]>[]): string {
+  const lines: string[] = [];
+  const names = frontier.map((point) => loadoutName(point.candidate));
+  const width = Math.max(7, ...names.map((name) => name.length));
+
+  lines.push("┌" + "─".repeat(width + 2) + "┬" + "─".repeat(10) + "┬" + "─".repeat(14) + "┬" + "─".repeat(12) + "┬" + "─".repeat(12) + "┐");
+  lines.push(
+    "│ " +
+      "Loadout".padEnd(width) +
+      " │ " +
+      "Cost".padStart(8) +
+      " │ " +
+      "Stat Value".padStart(12) +
+      " │ " +
+      "Utility".padStart(10) +
+      " │ " +
+      "Value/Gold".padStart(10) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(width + 2) + "┼" + "─".repeat(10) + "┼" + "─".repeat(14) + "┼" + "─".repeat(12) + "┼" + "─".repeat(12) + "┤");
+
+  frontier.forEach((point, index) => {
+    const name = names[index].padEnd(width);
+    lines.push(
+      `│ ${name} │ ${point.cost.toString().padStart(8)} │ ${point.statValue.toFixed(0).padStart(12)} │ ${point.utilityValue.toFixed(0).padStart(10)} │ ${valuePerGold(point).padStart(10)} │`
+    );
+  });
+
+  lines.push("└" + "─".repeat(width + 2) + "┴" + "─".repeat(10) + "┴" + "─".repeat(14) + "┴" + "─".repeat(12) + "┴" + "─".repeat(12) + "┘");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,203 @@
+/**
+ * Patch Diff Display Module
+ *
+ * Formatting functions for comparing two item snapshots:
+ * item changes, stat valuation baselines, efficiency rankings
+ * and recipe costs.
+ */
+
+import {
+  ItemChange,
+  RankingChange,
+  RecipeCostChange,
+  StatChange,
+  ValuationChange,
+} from "../calculators/patchDiff";
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function signed(value: number, decimals: number = 0): string {
+  const str = value.toFixed(decimals);
+  return value > 0 ? "+" + str : str;
+}
+
+function formatStatChanges(changes: StatChange[], prefix: string = ""): string[] {
+  return changes.map(
+    (c) => `${prefix}${c.stat} ${c.oldValue} → ${c.newValue} (${signed(c.delta, Number.isInteger(c.delta) ? 0 : 2)})`
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Item Changes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format added, removed and changed items as an indented list
+ */
+export function formatItemChanges(changes: ItemChange[]): string {
+  if (changes.length === 0) return "  No item changes.";
+
+  const lines: string[] = [];
+  const marker = { added: "+", removed: "-", changed: "~" };
+
+  for (const change of changes) {
+    let cost: string;
+    if (change.kind === "added") {
+      cost = `${change.newCost}g`;
+    } else if (change.kind === "removed") {
+      cost = `${change.oldCost}g`;
+    } else if (change.oldCost !== change.newCost) {
+      cost = `${change.oldCost}g → ${change.newCost}g (${signed(change.newCost! - change.oldCost!)}g)`;
+    } else {
+      cost = `${change.newCost}g`;
+    }
+
+    lines.push(`${marker[change.kind]} ${change.displayName} [${change.kind}] ${cost}`);
+
+    if (change.kind !== "changed") continue;
+
+    const details = [
+      ...formatStatChanges(change.statChanges),
+      ...formatStatChanges(change.auraStatChanges, "aura "),
+    ];
+    if (change.componentsAdded.length > 0) {
+      details.push(`components +${change.componentsAdded.join(", +")}`);
+    }
+    if (change.componentsRemoved.length > 0) {
+      details.push(`components -${change.componentsRemoved.join(", -")}`);
+    }
+    for (const detail of details) {
+      lines.push(`    ${detail}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Stat Valuation Changes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format stat valuation baseline changes as a table
+ */
+export function formatValuationChanges(changes: ValuationChange[]): string {
+  if (changes.length === 0) return "  No stat valuation changes.";
+
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(24) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Stat".padEnd(22) +
+      " │ " +
+      "Old".padStart(8) +
+      " │ " +
+      "New".padStart(8) +
+      " │ " +
+      "Change".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(24) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┤");
+
+  for (const change of changes) {
+    const stat = change.stat.substring(0, 22).padEnd(22);
+    const oldValue = (change.oldGoldPerPoint?.toFixed(2) ?? "-").padStart(8);
+    const newValue = (change.newGoldPerPoint?.toFixed(2) ?? "-").padStart(8);
+    const pct = change.percentChange !== undefined
+      ? signed(change.percentChange * 100, 1) + "%"
+      : change.oldGoldPerPoint === undefined ? "new" : "gone";
+
+    lines.push(`│ ${stat} │ ${oldValue} │ ${newValue} │ ${pct.padStart(8)} │`);
+  }
+
+  lines.push("└" + "─".repeat(24) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Efficiency Ranking Changes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format efficiency ranking moves as a table
+ */
+export function formatRankingChanges(changes: RankingChange[], limit: number = 20): string {
+  if (changes.length === 0) return "  No efficiency ranking changes.";
+
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(14) + "┬" + "─".repeat(8) + "┬" + "─".repeat(16) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Rank".padStart(12) +
+      " │ " +
+      "Move".padStart(6) +
+      " │ " +
+      "Efficiency".padStart(14) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(14) + "┼" + "─".repeat(8) + "┼" + "─".repeat(16) + "┤");
+
+  for (const change of changes.slice(0, limit)) {
+    const name = change.displayName.substring(0, 28).padEnd(28);
+    const rank = `${change.oldRank} → ${change.newRank}`.padStart(12);
+    const move = (change.rankDelta === 0 ? "=" : signed(change.rankDelta)).padStart(6);
+    const eff = `${change.oldEfficiency.toFixed(2)} → ${change.newEfficiency.toFixed(2)}`.padStart(14);
+
+    lines.push(`│ ${name} │ ${rank} │ ${move} │ ${eff} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(14) + "┴" + "─".repeat(8) + "┴" + "─".repeat(16) + "┘");
+
+  if (changes.length > limit) {
+    lines.push(`  ... and ${changes.length - limit} more`);
+  }
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Recipe Cost Changes
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format recipe cost changes as a table
+ */
+export function formatRecipeCostChanges(changes: RecipeCostChange[]): string {
+  if (changes.length === 0) return "  No recipe cost changes.";
+
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Old".padStart(8) +
+      " │ " +
+      "New".padStart(8) +
+      " │ " +
+      "Change".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┤");
+
+  for (const change of changes) {
+    const name = change.displayName.substring(0, 28).padEnd(28);
+    const oldCost = change.oldRecipeCost.toString().padStart(8);
+    const newCost = change.newRecipeCost.toString().padStart(8);
+    const delta = signed(change.delta).padStart(8);
+
+    lines.push(`│ ${name} │ ${oldCost} │ ${newCost} │ ${delta} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,157 @@
+/**
+ * Robust Ranking Display Module
+ *
+ * Formatting functions for Monte Carlo rankings: how often each item or
+ * progression is in the top K, and its expected rank, under uncertain
+ * valuations.
+ */
+
+import { BuildSequence } from "../models/buildTypes";
+import {
+  RankStatistics,
+  RobustItem,
+  RobustItemRanking,
+  RobustProgression,
+  RobustProgressionRanking,
+} from "../calculators/robustRanking";
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function formatSequence(sequence: BuildSequence): string {
+  return sequence.stages
+    .map((stage) => stage.loadout.items.map((item) => item.displayName).join(" + "))
+    .join(" → ");
+}
+
+function pickName(pick: RobustItem | RobustProgression): string {
+  return "item" in pick ? pick.item.displayName : formatSequence(pick.sequence);
+}
+
+function probability(fraction: number): string {
+  return (fraction * 100).toFixed(1) + "%";
+}
+
+function rankCells(statistics: RankStatistics, depth?: number): string {
+  const { pointRank, expectedRank, rankVariance, bestRank, worstRank } = statistics;
+  const point = depth !== undefined && pointRank > depth ? `>${depth}` : pointRank.toString();
+  const worst = depth !== undefined && worstRank > depth ? `>${depth}` : worstRank.toString();
+  const range = bestRank === worstRank ? `${bestRank}` : `${bestRank}-${worst}`;
+  return `${point.padStart(5)} │ ${expectedRank.toFixed(1).padStart(8)} │ ${rankVariance.toFixed(1).padStart(8)} │ ${range.padStart(8)}`;
+}
+
+function probabilityCells(statistics: RankStatistics): string {
+  return `${probability(statistics.topKProbability).padStart(10)} │ ${probability(statistics.topProbability).padStart(8)}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Picks
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Summarize the point estimate pick next to the robust pick
+ */
+export function formatRobustPicks(ranking: RobustItemRanking | RobustProgressionRanking): string {
+  const { topK, pointPick, robustPick } = ranking;
+  const describe = (pick: RobustItem | RobustProgression | undefined) => {
+    if (!pick) return "none found";
+    const { topKProbability, expectedRank, rankVariance } = pick.statistics;
+    return `${pickName(pick)} (top ${topK} in ${probability(topKProbability)} of draws, expected rank ${expectedRank.toFixed(1)}, variance ${rankVariance.toFixed(1)})`;
+  };
+
+  const lines = [`Point-estimate pick: ${describe(pointPick)}`, `Robust pick:         ${describe(robustPick)}`];
+  if (pointPick && pointPick === robustPick) {
+    lines.push("  The point estimate pick is also the robust pick.");
+  }
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Items
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format items with their rank statistics across draws
+ */
+export function formatRobustItemTable(items: RobustItem[], topK: number): string {
+  const lines: string[] = [];
+  const topKHeader = `P(Top ${topK})`;
+
+  lines.push("┌" + "─".repeat(30) + "┬" + "─".repeat(12) + "┬" + "─".repeat(7) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(12) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Efficiency".padStart(10) +
+      " │ " +
+      "Point".padStart(5) +
+      " │ " +
+      "Expected".padStart(8) +
+      " │ " +
+      "Variance".padStart(8) +
+      " │ " +
+      "Range".padStart(8) +
+      " │ " +
+      topKHeader.padStart(10) +
+      " │ " +
+      "P(#1)".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(30) + "┼" + "─".repeat(12) + "┼" + "─".repeat(7) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(12) + "┼" + "─".repeat(10) + "┤");
+
+  for (const { item, efficiency, statistics } of items) {
+    const name = item.displayName.substring(0, 28).padEnd(28);
+    lines.push(`│ ${name} │ ${efficiency.toFixed(3).padStart(10)} │ ${rankCells(statistics)} │ ${probabilityCells(statistics)} │`);
+  }
+
+  lines.push("└" + "─".repeat(30) + "┴" + "─".repeat(12) + "┴" + "─".repeat(7) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(12) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Progressions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format progressions with their rank statistics across draws,
+ * followed by each progression's items
+ */
+export function formatRobustProgressionTable(sequences: RobustProgression[], topK: number, depth: number): string {
+  const lines: string[] = [];
+  const topKHeader = `P(Top ${topK})`;
+
+  lines.push("┌" + "─".repeat(5) + "┬" + "─".repeat(7) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(12) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "#".padStart(3) +
+      " │ " +
+      "Point".padStart(5) +
+      " │ " +
+      "Expected".padStart(8) +
+      " │ " +
+      "Variance".padStart(8) +
+      " │ " +
+      "Range".padStart(8) +
+      " │ " +
+      topKHeader.padStart(10) +
+      " │ " +
+      "P(#1)".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(5) + "┼" + "─".repeat(7) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(12) + "┼" + "─".repeat(10) + "┤");
+
+  sequences.forEach(({ statistics }, index) => {
+    lines.push(`│ ${(index + 1).toString().padStart(3)} │ ${rankCells(statistics, depth)} │ ${probabilityCells(statistics)} │`);
+  });
+
+  lines.push("└" + "─".repeat(5) + "┴" + "─".repeat(7) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(12) + "┴" + "─".repeat(10) + "┘");
+  lines.push(`  Progressions missing from a run's top ${depth} count as rank ${depth + 1}`);
+
+  sequences.forEach(({ sequence }, index) => {
+    lines.push(`  ${index + 1}. ${formatSequence(sequence)}`);
+  });
+
+  return lines.join("\n");
+}
@@ -0,0 +1,187 @@
+/**
+ * Sensitivity Display Module
+ *
+ * Formatting functions for valuation sensitivity: how stable the
+ * recommended items and progressions are, and where the top choice flips.
+ */
+
+import { BuildSequence } from "../models/buildTypes";
+import {
+  BreakEven,
+  ItemStability,
+  ParameterSensitivity,
+  ProgressionSensitivity,
+} from "../calculators/sensitivity";
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function signedPercent(fraction: number): string {
+  const str = (fraction * 100).toFixed(0) + "%";
+  return fraction > 0 ? "+" + str : str;
+}
+
+function formatFlip(value: number | undefined, baseValue: number): string {
+  if (value === undefined) return "-";
+  return `${value.toFixed(value < 10 ? 2 : 0)} (${signedPercent(baseValue > 0 ? value / baseValue - 1 : 0)})`;
+}
+
+function formatBreakEven(breakEven: BreakEven | undefined, baseValue: number): string {
+  return formatFlip(breakEven?.value, baseValue);
+}
+
+function formatSequence(sequence: BuildSequence | undefined): string {
+  if (!sequence) return "no valid progression";
+  return sequence.stages
+    .map((stage) => stage.loadout.items.map((item) => item.displayName).join(" + "))
+    .join(" → ");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Item Ranking Sensitivity
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format the recommended items with their rank range across perturbations
+ */
+export function formatItemStability(items: ItemStability[]): string {
+  const lines: string[] = [];
+
+  lines.push("┌" + "─".repeat(6) + "┬" + "─".repeat(30) + "┬" + "─".repeat(12) + "┬" + "─".repeat(12) + "┬" + "─".repeat(10) + "┐");
+  lines.push(
+    "│ " +
+      "Rank".padStart(4) +
+      " │ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Efficiency".padStart(10) +
+      " │ " +
+      "Rank Range".padStart(10) +
+      " │ " +
+      "Stable".padStart(8) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(6) + "┼" + "─".repeat(30) + "┼" + "─".repeat(12) + "┼" + "─".repeat(12) + "┼" + "─".repeat(10) + "┤");
+
+  for (const { item, rank, efficiency, bestRank, worstRank, stable } of items) {
+    const name = item.displayName.substring(0, 28).padEnd(28);
+    const range = bestRank === worstRank ? `${rank}` : `${bestRank}-${worstRank}`;
+
+    lines.push(
+      `│ ${rank.toString().padStart(4)} │ ${name} │ ${efficiency.toFixed(3).padStart(10)} │ ${range.padStart(10)} │ ${(stable ? "yes" : "no").padStart(8)} │`
+    );
+  }
+
+  lines.push("└" + "─".repeat(6) + "┴" + "─".repeat(30) + "┴" + "─".repeat(12) + "┴" + "─".repeat(12) + "┴" + "─".repeat(10) + "┘");
+
+  return lines.join("\n");
+}
+
+/**
+ * Format each parameter's top item at ±N% and the values where the top item flips
+ */
+export function formatParameterSensitivity(parameters: ParameterSensitivity[], percent: number): string {
+  const lines: string[] = [];
+  const low = `-${percent}% Top`;
+  const high = `+${percent}% Top`;
+
+  lines.push("┌" + "─".repeat(24) + "┬" + "─".repeat(10) + "┬" + "─".repeat(22) + "┬" + "─".repeat(22) + "┬" + "─".repeat(16) + "┬" + "─".repeat(16) + "┐");
+  lines.push(
+    "│ " +
+      "Parameter".padEnd(22) +
+      " │ " +
+      "Base".padStart(8) +
+      " │ " +
+      low.padEnd(20) +
+      " │ " +
+      high.padEnd(20) +
+      " │ " +
+      "Flips Below".padStart(14) +
+      " │ " +
+      "Flips Above".padStart(14) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(24) + "┼" + "─".repeat(10) + "┼" + "─".repeat(22) + "┼" + "─".repeat(22) + "┼" + "─".repeat(16) + "┼" + "─".repeat(16) + "┤");
+
+  for (const { parameter, lowTop, highTop, lowerBreakEven, upperBreakEven } of parameters) {
+    const name = parameter.name.substring(0, 22).padEnd(22);
+    const base = parameter.baseValue.toFixed(2).padStart(8);
+    const lowName = lowTop.displayName.substring(0, 20).padEnd(20);
+    const highName = highTop.displayName.substring(0, 20).padEnd(20);
+    const below = formatBreakEven(lowerBreakEven, parameter.baseValue).padStart(14);
+    const above = formatBreakEven(upperBreakEven, parameter.baseValue).padStart(14);
+
+    lines.push(`│ ${name} │ ${base} │ ${lowName} │ ${highName} │ ${below} │ ${above} │`);
+  }
+
+  lines.push("└" + "─".repeat(24) + "┴" + "─".repeat(10) + "┴" + "─".repeat(22) + "┴" + "─".repeat(22) + "┴" + "─".repeat(16) + "┴" + "─".repeat(16) + "┘");
+
+  const moved = parameters.filter((p) => p.droppedItems.length > 0);
+  for (const { parameter, droppedItems } of moved) {
+    lines.push(`  ${parameter.name}: ${droppedItems.map((item) => item.displayName).join(", ")} ${droppedItems.length === 1 ? "leaves" : "leave"} the top at ±${percent}%`);
+  }
+
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// Progression Sensitivity
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format whether the top progression holds at ±N% for each parameter,
+ * and the alternatives where it doesn't
+ */
+export function formatProgressionSensitivity(result: ProgressionSensitivity): string {
+  const { percent, baseline, parameters } = result;
+  const lines: string[] = [];
+
+  lines.push(`Top progression: ${formatSequence(baseline)}`);
+  lines.push("");
+
+  lines.push("┌" + "─".repeat(24) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(10) + "┬" + "─".repeat(16) + "┬" + "─".repeat(16) + "┐");
+  lines.push(
+    "│ " +
+      "Parameter".padEnd(22) +
+      " │ " +
+      "Base".padStart(8) +
+      " │ " +
+      `-${percent}%`.padStart(8) +
+      " │ " +
+      `+${percent}%`.padStart(8) +
+      " │ " +
+      "Flips Below".padStart(14) +
+      " │ " +
+      "Flips Above".padStart(14) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(24) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(10) + "┼" + "─".repeat(16) + "┼" + "─".repeat(16) + "┤");
+
+  for (const { parameter, lowerBreakEven, upperBreakEven } of parameters) {
+    const name = parameter.name.substring(0, 22).padEnd(22);
+    const base = parameter.baseValue.toFixed(2).padStart(8);
+    const lowCell = (lowerBreakEven === undefined ? "same" : "changes").padStart(8);
+    const highCell = (upperBreakEven === undefined ? "same" : "changes").padStart(8);
+    const below = formatFlip(lowerBreakEven, parameter.baseValue).padStart(14);
+    const above = formatFlip(upperBreakEven, parameter.baseValue).padStart(14);
+
+    lines.push(`│ ${name} │ ${base} │ ${lowCell} │ ${highCell} │ ${below} │ ${above} │`);
+  }
+
+  lines.push("└" + "─".repeat(24) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(10) + "┴" + "─".repeat(16) + "┴" + "─".repeat(16) + "┘");
+
+  const stableCount = parameters.filter((p) => p.stable).length;
+  lines.push(`  Stable under ${stableCount} of ${parameters.length} parameters at ±${percent}%`);
+
+  for (const p of parameters) {
+    if (p.lowerBreakEven !== undefined) {
+      lines.push(`  ${p.parameter.name} -${percent}%: ${formatSequence(p.lowTop)}`);
+    }
+    if (p.upperBreakEven !== undefined) {
+      lines.push(`  ${p.parameter.name} +${percent}%: ${formatSequence(p.highTop)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,80 @@
+/**
+ * Shopping List Display Module
+ *
+ * Formatting functions for the ordered buy, disassemble, sell and
+ * assemble steps of a build transition.
+ */
+
+import { ShoppingAction, ShoppingList } from "../calculators/shoppingList";
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+const ACTION_LABELS: Record<ShoppingAction, string> = {
+  buy: "Buy",
+  disassemble: "Disassemble",
+  sellRecipe: "Sell recipe",
+  assemble: "Assemble",
+  sell: "Sell",
+};
+
+function signedGold(gold: number): string {
+  if (gold === 0) return "-";
+  return gold > 0 ? `+${gold}` : `${gold}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Shopping List
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Format a shopping list's steps with the gold spent, stat value and
+ * slots used after each
+ */
+export function formatShoppingList(list: ShoppingList): string {
+  const lines: string[] = [];
+
+  if (list.steps.length === 0) {
+    return "  Nothing to buy: the loadout carries over as it is.";
+  }
+
+  lines.push("┌" + "─".repeat(5) + "┬" + "─".repeat(13) + "┬" + "─".repeat(30) + "┬" + "─".repeat(9) + "┬" + "─".repeat(9) + "┬" + "─".repeat(12) + "┬" + "─".repeat(9) + "┐");
+  lines.push(
+    "│ " +
+      "#".padStart(3) +
+      " │ " +
+      "Action".padEnd(11) +
+      " │ " +
+      "Item".padEnd(28) +
+      " │ " +
+      "Gold".padStart(7) +
+      " │ " +
+      "Spent".padStart(7) +
+      " │ " +
+      "Stat Value".padStart(10) +
+      " │ " +
+      "Slots".padStart(7) +
+      " │"
+  );
+  lines.push("├" + "─".repeat(5) + "┼" + "─".repeat(13) + "┼" + "─".repeat(30) + "┼" + "─".repeat(9) + "┼" + "─".repeat(9) + "┼" + "─".repeat(12) + "┼" + "─".repeat(9) + "┤");
+
+  list.steps.forEach((step, index) => {
+    const name = step.item.displayName.substring(0, 28).padEnd(28);
+    const slots = `${step.slotsUsed}/${list.capacity}`;
+    lines.push(
+      `│ ${(index + 1).toString().padStart(3)} │ ${ACTION_LABELS[step.action].padEnd(11)} │ ${name} │ ${signedGold(step.gold).padStart(7)} │ ${step.goldSpent.toString().padStart(7)} │ ${step.statValue.toFixed(0).padStart(10)} │ ${slots.padStart(7)} │`
+    );
+  });
+
+  lines.push("└" + "─".repeat(5) + "┴" + "─".repeat(13) + "┴" + "─".repeat(30) + "┴" + "─".repeat(9) + "┴" + "─".repeat(9) + "┴" + "─".repeat(12) + "┴" + "─".repeat(9) + "┘");
+  const net = list.goldSpent !== list.goldNeeded ? ` (net ${list.goldSpent}g once done)` : "";
+  lines.push(`  Gold to farm: ${list.goldNeeded}g${net}`);
+  if (!list.feasible) {
+    lines.push(
+      `  ⚠ Holds ${list.peakSlots} items at once, more than the ${list.capacity} inventory, backpack and stash slots`
+    );
+  }
+
+  return lines.join("\n");
+}
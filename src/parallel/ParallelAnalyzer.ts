@@ -8,7 +8,7 @@ import { Item, StatValuation } from "../models/types";
 import { BuildAnalysisResult, ScoredTransition } from "../models/buildTypes";
 import { ItemRepository } from "../data/ItemRepository";
 import { AnalysisConfig, DEFAULT_CONFIG } from "../config/analysisConfig";
-import { createLoadout, createTransition } from "../calculators/loadout";
+import { createLoadout, createTransition, loadoutValueOptions } from "../calculators/loadout";
 import { combinations, countCombinations } from "../calculators/combinations";
 import {
   WorkerInput,
@@ -173,15 +173,18 @@ function aggregateResults(
 function deserializeTransitions(
   serialized: SerializedScoredTransition[],
   repo: ItemRepository,
+  config: AnalysisConfig,
   statValuation?: StatValuation
 ): ScoredTransition[] {
+  const slotOptions = { uniqueGroups: config.uniqueGroups, economy: config.economy };
+  const bonusOptions = loadoutValueOptions(config);
   return serialized.map(s => {
     const fromItems = s.fromItemNames.map(name => repo.getByName(name)!);
     const toItems = s.toItemNames.map(name => repo.getByName(name)!);
     
-    const fromLoadout = createLoadout(fromItems, repo, statValuation);
-    const toLoadout = createLoadout(toItems, repo, statValuation);
-    const transition = createTransition(fromLoadout, toLoadout, repo);
+    const fromLoadout = createLoadout(fromItems, repo, statValuation, slotOptions, bonusOptions);
+    const toLoadout = createLoadout(toItems, repo, statValuation, slotOptions, bonusOptions);
+    const transition = createTransition(fromLoadout, toLoadout, repo, config.economy);
     
     return {
       ...transition,
@@ -352,6 +355,7 @@ export async function analyzeTransitionsParallel(
     const transitions = deserializeTransitions(
       aggregated.transitions,
       repo,
+      config,
       statValuation
     );
 
@@ -51,6 +51,12 @@ self.onmessage = (event: { data: ProgressionWorkerInput }) => {
         targetCoverageWeight: input.targetCoverageWeight,
         inventorySlots: input.inventorySlots,
         backpackSlots: input.backpackSlots,
+        neutralItems: input.neutralItems,
+        hero: input.hero,
+        levelScaling: input.levelScaling,
+        valuationProfile: input.valuationProfile,
+        buybackReserve: input.buybackReserve,
+        expectedDeaths: input.expectedDeaths,
         onProgress: (update) => {
           // Forward progress updates to main thread
           postMessage({
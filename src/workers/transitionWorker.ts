@@ -12,15 +12,23 @@
 import { Item, StatValuation } from "../models/types";
 import { ScoredTransition, Loadout } from "../models/buildTypes";
 import { ItemRepository } from "../data/ItemRepository";
-import { createLoadout, createTransition } from "../calculators/loadout";
+import { createLoadout, createTransition, loadoutValueOptions, SlotOptions } from "../calculators/loadout";
+import { BonusStatOptions } from "../calculators/efficiency";
 import {
   costIncreaseConstraint,
   allConstraints,
   maxFinalItems,
   noDuplicateBoots,
+  noDuplicateUniqueItems,
 } from "../calculators/constraints";
 import { defaultTransitionScorer, createImprovedScorer } from "../calculators/scorers";
-import { combinations, noDuplicateBoots as noDuplicateBootsItemFilter, maxTotalCost, combineFilters } from "../calculators/combinations";
+import {
+  combinations,
+  noDuplicateBoots as noDuplicateBootsItemFilter,
+  noDuplicateUniqueItems as noDuplicateUniqueItemsFilter,
+  maxTotalCost,
+  combineFilters,
+} from "../calculators/combinations";
 import {
   WorkerInput,
   WorkerResult,
@@ -94,14 +102,16 @@ class LoadoutCache {
   constructor(
     private repo: ItemRepository,
     private statValuation?: StatValuation,
-    private maxSize: number = 10000
+    private maxSize: number = 10000,
+    private slotOptions?: SlotOptions,
+    private bonusOptions?: BonusStatOptions
   ) {}
 
   getOrCreate(items: readonly Item[]): Loadout {
     const key = items.map(i => i.name).sort().join(",");
     let loadout = this.cache.get(key);
     if (!loadout) {
-      loadout = createLoadout([...items], this.repo, this.statValuation);
+      loadout = createLoadout([...items], this.repo, this.statValuation, this.slotOptions, this.bonusOptions);
       this.cache.set(key, loadout);
 
       if (this.cache.size > this.maxSize) {
@@ -180,7 +190,8 @@ function processChunk(input: WorkerInput): WorkerResult {
   const finalItemCandidates = finalItemIndices.map(i => allItems[i]);
 
   // Initialize components
-  const loadoutCache = new LoadoutCache(repo, statValuation);
+  const slotOptions = { uniqueGroups: config.uniqueGroups, economy: config.economy };
+  const loadoutCache = new LoadoutCache(repo, statValuation, undefined, slotOptions, loadoutValueOptions(config));
   const topResults = new BoundedPriorityQueue<ScoredTransition>(
     resultLimit,
     (a, b) => b.score - a.score
@@ -190,11 +201,12 @@ function processChunk(input: WorkerInput): WorkerResult {
   const constraint = allConstraints(
     costIncreaseConstraint,
     maxFinalItems(6),
-    noDuplicateBoots(config)
+    noDuplicateBoots(config),
+    noDuplicateUniqueItems(config)
   );
 
   const scorer = statValuation
-    ? createImprovedScorer(statValuation)
+    ? createImprovedScorer(statValuation, undefined, config.utilityProfile)
     : defaultTransitionScorer;
 
   // For trio+ analysis, use aggressive early pruning
@@ -202,9 +214,9 @@ function processChunk(input: WorkerInput): WorkerResult {
   const MIN_REUSE_FOR_PRUNING = useEarlyPruning ? 0.4 : 0.0;
 
   // Item filter for combinations:
-  // 1. No duplicate boots
+  // 1. No duplicate boots or unique items
   // 2. Optional max total cost for initial build
-  const baseFilter = noDuplicateBootsItemFilter(config);
+  const baseFilter = combineFilters(noDuplicateBootsItemFilter(config), noDuplicateUniqueItemsFilter(config));
   const earlyItemFilter = initialBuildMaxCost !== undefined
     ? combineFilters(baseFilter, maxTotalCost(initialBuildMaxCost))
     : baseFilter;
@@ -258,7 +270,7 @@ function processChunk(input: WorkerInput): WorkerResult {
       }
 
       // Create and evaluate transition
-      const transition = createTransition(fromLoadout, toLoadout, repo);
+      const transition = createTransition(fromLoadout, toLoadout, repo, config.economy);
 
       if (constraint(transition)) {
         const score = scorer(transition);
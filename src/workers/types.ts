@@ -5,7 +5,7 @@
  * since they're passed between the main thread and worker threads via structured clone.
  */
 
-import { Item, StatValuation } from "../models/types";
+import { Hero, Item, StatValuation, StatValuationProfile } from "../models/types";
 import { AnalysisConfig } from "../config/analysisConfig";
 import { ScoredTransition, BuildAnalysisStats } from "../models/buildTypes";
 
@@ -219,6 +219,7 @@ export interface AggregatedResult {
 
 import {
   StageDefinition,
+  BuybackReserve,
   BuildSequence,
   BuildProgressionStats,
   ProgressionPhase,
@@ -263,6 +264,24 @@ export interface ProgressionWorkerInput {
 
   /** Backpack slots */
   backpackSlots?: number;
+
+  /** Neutral items for stages with a neutralTier */
+  neutralItems: Item[];
+
+  /** Hero being built for */
+  hero?: Hero;
+
+  /** Derive hero levels from stage costs */
+  levelScaling?: boolean;
+
+  /** Valuation profile re-applied at each stage's level */
+  valuationProfile?: StatValuationProfile;
+
+  /** Gold kept for buyback from the second stage on */
+  buybackReserve?: BuybackReserve;
+
+  /** Expected deaths per stage from the second stage on */
+  expectedDeaths?: number;
 }
 
 /**
@@ -287,6 +306,8 @@ export interface ProgressionWorkerProgress {
 export interface SerializedBuildSequence {
   /** Item names per stage (inventory items) */
   stageItems: string[][];
+  /** Neutral item name per stage (null when the stage has none) */
+  stageNeutrals: (string | null)[];
   /** Total score */
   totalScore: number;
   /** Per-stage scores */
@@ -336,6 +357,7 @@ export function serializeBuildSequence(seq: BuildSequence): SerializedBuildSeque
     stageItems: seq.stages.map((stage) =>
       stage.loadout.inventory.map((item) => item.name)
     ),
+    stageNeutrals: seq.stages.map((stage) => stage.loadout.neutral?.name ?? null),
     totalScore: seq.totalScore,
     stageScores: [...seq.stageScores],
     stageThresholds: seq.stages.map((stage) => stage.costThreshold),